@@ -1,23 +1,76 @@
 import { Command } from "commander";
 import { execa } from "execa";
 import { applyVibeScaffoldUpdate, checkVibeScaffoldUpdate, scaffoldVibeInit } from "./core/init";
+import {
+  addBacklogItem,
+  findBacklogItem,
+  listBacklogItems,
+  moveBacklogItem,
+  setBacklogItemStatus,
+  type BacklogItemLocation,
+} from "./core/backlog";
+import { runBacklogSync, type BacklogSyncAction } from "./core/backlog-sync";
+import { rankBacklogNext, type BacklogNextCandidate } from "./core/backlog-next";
+import { validateBacklog } from "./core/backlog-validate";
+import { extractMarkdownLinks } from "./core/parser";
+import { readBacklog, saveBacklog } from "./core/service";
 import {
   appendIssueAutocloseReference,
+  buildProjectFieldSetPreviewArgs,
+  buildProjectItemEditArgs,
   buildTrackerCommands,
   collectLinkedPrNumbers,
+  collectProjectFieldUpdates,
+  migratePostflightToV2,
   normalizeGitHubIssueId,
-  PostflightSchemaV1,
+  planProjectFieldSet,
+  PostflightSchema,
+  type GhCommand,
+  type PostflightCheckV2,
+  type PostflightTrackerUpdate,
 } from "./core/postflight";
 import {
+  buildPostflightArtifactId,
+  findCompletedPostflightStep,
+  getPostflightJournalPath,
+  hashPostflightStep,
+  readPostflightJournal,
+  rollbackPostflightJournal,
+  runJournaledGhStep,
+  type PostflightJournal,
+} from "./core/postflight-journal";
+import { archivePostflightArtifact, readPostflightHistory } from "./core/postflight-archive";
+import { evaluatePostflightContract, loadPostflightContract } from "./core/postflight-contract";
+import {
+  listRepositoryTaxonomy,
   runTrackerReconcile,
-  selectMissingTrackerLabels,
-  suggestSemanticMilestonesForIssueSet,
   shouldSuggestTrackerBootstrap,
+  type TrackerLabelDefinition,
   type TrackerReconcilePromptRequest,
   writeTrackerBootstrapMarker,
 } from "./core/tracker";
-import { buildTurnBranch, clearTurnContext, readTurnContext, validateTurnContext, writeTurnContext } from "./core/turn";
+import { loadTrackerTaxonomy, planTrackerTaxonomySync } from "./core/tracker-taxonomy";
+import { buildTurnBranch, clearTurnContext, readTurnContext, writeTurnContext, type TurnContext } from "./core/turn";
 import { ensureIssueReviewTemplates } from "./core/reviews";
+import { ensureTurnWorktree, findWorktreeTurnByIssue, listWorktreeTurns, type WorktreeTurn } from "./core/turn-worktree";
+import { listPausedTurns, pauseTurn, resumeTurn } from "./core/turn-pause";
+import { buildPostflightDraft } from "./core/postflight-draft";
+import { runTurnDoctor } from "./core/turn-doctor";
+import { DEFAULT_VIBE_HOOK_COMMAND, installVibeHooks, uninstallVibeHooks } from "./core/hooks";
+import {
+  appendTurnLedgerEvent,
+  buildTurnEndEvent,
+  buildTurnHistory,
+  buildTurnStartEvent,
+  filterTurnHistory,
+  formatTurnDuration,
+  readTurnLedger,
+  TURN_OUTCOMES,
+  TurnOutcomeSchema,
+  type TurnHistoryRecord,
+  type TurnLedgerEvent,
+  type TurnOutcome,
+} from "./core/turn-history";
 import {
   REVIEW_INVALID_TURN_EXIT_CODE,
   REVIEW_NO_ACTIVE_TURN_EXIT_CODE,
@@ -29,28 +82,70 @@ import { runPrOpenCommand } from "./core/pr-open";
 import { runPrReadyCommand, type PrReadyResult } from "./core/pr-ready";
 import { hasReviewForHead, postReviewGateSkipComment, PR_OPEN_REVIEW_GATE_POLICY_KEY } from "./core/review-pr";
 import { resolveReviewThreads } from "./core/review-threads";
-import { runGhWithRetry } from "./core/gh-retry";
+import { getGhLimiter, resetGhLimiter, resolveGhMaxWaitMs, runGhWithRetry } from "./core/gh-retry";
 import { runBranchCleanup, type BranchCleanupResult } from "./core/branch-cleanup";
 import { normalizeReviewComputeClass, REVIEW_COMPUTE_CLASS_VALUES } from "./core/review-policy";
 import {
   normalizeSecurityPolicy,
   normalizeSecurityScanMode,
-  probeGitleaksAvailability,
-  readLastSecurityScan,
-  resolveSecurityPolicy,
   runSecurityScan,
   SECURITY_POLICY_VALUES,
   SECURITY_SCAN_MODE_VALUES,
   type SecurityScanResult,
 } from "./core/security-scan";
+import {
+  evaluateHygieneRules,
+  formatHygieneFinding,
+  getDefaultHygieneRules,
+  HYGIENE_SEVERITIES,
+  isHygieneRuleEnabled,
+  loadHygieneConfig,
+  normalizeHygieneSeverity,
+  selectHygieneFailures,
+  type HygieneConfig,
+  type HygieneSeverity,
+} from "./core/hygiene";
+import {
+  clearTrackerCache,
+  getTrackerCachePath,
+  readTrackerCache,
+  refreshTrackerCacheIfInitialized,
+  writeTrackerCache,
+} from "./core/tracker-cache";
+import {
+  createGitHubTrackerBackend,
+  resolveTrackerBackend,
+  type TrackerBackend,
+  type TrackerBackendKind,
+  type TrackerIssue,
+  type TrackerPullRequest,
+} from "./core/tracker-backend";
+import {
+  buildCachedTrackerSnapshot,
+  buildMilestoneSuggestions,
+  buildTrackerSnapshot,
+  buildUnavailableTrackerSnapshot,
+  collectSecuritySummary,
+  renderPreflightSnapshot,
+  renderStatusSnapshot,
+  SNAPSHOT_SCHEMA_VERSION,
+  type ActiveTurnSnapshot,
+  type GitStatusSnapshot,
+  type PreflightSnapshot,
+  type StatusSnapshot,
+  type TrackerHygieneSnapshot,
+  type TrackerSnapshot,
+  type UpdateNoticeSnapshot,
+} from "./core/snapshot";
 import { checkToolUpdate, runToolSelfUpdate } from "./core/update";
 import { startCockpitServer, stopCockpitServer } from "./ui/cockpit";
 
 type ExecaFn = typeof execa;
 const GUARD_NO_ACTIVE_TURN_EXIT_CODE = 2;
 const GUARD_INVALID_TURN_EXIT_CODE = 3;
+const GUARD_BRANCH_MISMATCH_EXIT_CODE = 4;
 const GUARD_REMEDIATION = "Run: node dist/cli.cjs turn start --issue <n>";
-const GH_API_PAGE_SIZE = 100;
+const TURN_DOCTOR_REMEDIATION = "Run: node dist/cli.cjs turn doctor";
 const CLI_PACKAGE_NAME = "vibe-backlog";
 const CLI_VERSION = "0.1.0";
 
@@ -58,6 +153,16 @@ function printGhCommand(args: string[]): void {
   console.log("$ " + ["gh", ...args].join(" "));
 }
 
+/** One line with the run's gh retry stats, printed only when a call was retried or hit a rate limit. */
+function printGhRetrySummary(command: string): void {
+  const stats = getGhLimiter().stats();
+  if (!stats.retries && !stats.rate_limited) return;
+  console.log(
+    `${command}: gh calls=${stats.calls} retries=${stats.retries} rate_limited=${stats.rate_limited} ` +
+      `waited_ms=${stats.waited_ms}`,
+  );
+}
+
 function printPathList(title: string, paths: string[]): void {
   if (!paths.length) return;
   console.log(`\n${title}:`);
@@ -66,7 +171,7 @@ function printPathList(title: string, paths: string[]): void {
   }
 }
 
-async function printPreflightToolUpdateNotice(execaFn: ExecaFn): Promise<void> {
+async function collectUpdateNotice(execaFn: ExecaFn): Promise<UpdateNoticeSnapshot | null> {
   const check = await checkToolUpdate(
     {
       packageName: CLI_PACKAGE_NAME,
@@ -77,12 +182,14 @@ async function printPreflightToolUpdateNotice(execaFn: ExecaFn): Promise<void> {
   );
 
   if (check.status !== "update-available" || !check.latestVersion) {
-    return;
+    return null;
   }
 
-  console.log("\nTool update available:");
-  console.log(`${check.packageName}: ${check.currentVersion} -> ${check.latestVersion}`);
-  console.log("Run: node dist/cli.cjs self update");
+  return {
+    package_name: check.packageName,
+    current_version: check.currentVersion,
+    latest_version: check.latestVersion,
+  };
 }
 
 function printBranchCleanupReport(result: BranchCleanupResult, context: "standalone" | "postflight"): void {
@@ -251,67 +358,41 @@ function collectRepeatedOption(value: string, previous: string[]): string[] {
   return [...previous, normalized];
 }
 
-async function printPreflightSecuritySummary(execaFn: ExecaFn): Promise<void> {
-  try {
-    const [policyResolution, gitleaksProbe, lastScan] = await Promise.all([
-      resolveSecurityPolicy({}),
-      probeGitleaksAvailability(execaFn),
-      readLastSecurityScan(),
-    ]);
-
-    console.log("\nSecurity scan:");
-    console.log(`policy: ${policyResolution.policy} (source=${policyResolution.source})`);
-    console.log(`gitleaks: ${gitleaksProbe.available ? "available" : "missing"}`);
-    if (gitleaksProbe.available && gitleaksProbe.location) {
-      console.log(`gitleaks path: ${gitleaksProbe.location}`);
-    }
+function formatBacklogItemRow(entry: BacklogItemLocation): string {
+  const { item } = entry;
+  return `${item.id}\t${item.status || "-"}\t${item.feature}\t${item.branch || "-"}\t${item.pr || "-"}`;
+}
 
-    if (lastScan) {
-      console.log(`last scan: ${lastScan.status} mode=${lastScan.mode} policy=${lastScan.policy} at=${lastScan.scanned_at}`);
-    } else {
-      console.log("last scan: none");
-    }
+function resolveBacklogFileOption(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
 
-    if (!gitleaksProbe.available) {
-      console.log("Install gitleaks: https://github.com/gitleaks/gitleaks#installing");
-      console.log("Run: node dist/cli.cjs security scan --mode staged");
-    }
+/** Saves the edited backlog and returns its path; `null` (after a "no changes" line) when the edit was a no-op. */
+async function editBacklogDocument(
+  context: string,
+  backlogPath: string | null,
+  edit: (markdown: string) => string,
+): Promise<string | null> {
+  const document = await readBacklog({ backlogPath });
+  const next = edit(document.markdown);
+  if (next === document.markdown) {
+    console.log(`${context}: no changes.`);
+    return null;
+  }
 
-    if (policyResolution.warnings.length) {
-      console.log("security scan warnings:");
-      for (const warning of policyResolution.warnings) {
-        console.log(`- ${warning}`);
-      }
-    }
-  } catch (error) {
-    console.log("\nSecurity scan: unavailable");
-    if (error instanceof Error && error.message) {
-      console.log(error.message);
-    } else {
-      console.log(String(error));
-    }
+  const saved = await saveBacklog(next, { backlogPath });
+  return saved.path;
+}
+
+function formatBacklogSyncAction(action: BacklogSyncAction): string {
+  if (action.kind === "create-issue") {
+    return `+ ${action.itemId} create issue "${action.title}"`;
   }
+  return `~ ${action.itemId} #${action.issueNumber} ${action.field}: ${action.from || "-"} -> ${action.to}`;
 }
 
 type JsonRecord = Record<string, unknown>;
 
-type IssueSnapshot = {
-  number: number;
-  title: string;
-  state: string | null;
-  labels: string[];
-  milestone: string | null;
-  updatedAt: string | null;
-  url: string | null;
-};
-
-type PullRequestSnapshot = {
-  number: number;
-  state: string | null;
-  title: string;
-  url: string | null;
-};
-
 type BranchTrackingSnapshot = {
   branch: string;
   current: boolean;
@@ -376,160 +457,6 @@ function extractErrorCode(error: unknown): string | null {
   return typeof code === "string" && code.trim() ? code.trim() : null;
 }
 
-function parseLabelNames(value: unknown): string[] {
-  if (!Array.isArray(value)) return [];
-  return value
-    .map((entry) => {
-      if (typeof entry === "object" && entry !== null) {
-        const name = (entry as Record<string, unknown>).name;
-        if (typeof name === "string") return name.trim();
-      }
-      return "";
-    })
-    .filter(Boolean);
-}
-
-function parseIssueSnapshots(stdout: string, context: string): IssueSnapshot[] {
-  const rows = parseJsonArray(stdout, context);
-  const snapshots: IssueSnapshot[] = [];
-
-  for (const row of rows) {
-    const number = row.number;
-    const title = row.title;
-    if (typeof number !== "number" || !Number.isInteger(number) || number <= 0) continue;
-    if (typeof title !== "string" || !title.trim()) continue;
-
-    const milestoneRaw = row.milestone;
-    const milestone =
-      typeof milestoneRaw === "object" && milestoneRaw !== null && typeof milestoneRaw.title === "string"
-        ? milestoneRaw.title.trim() || null
-        : null;
-
-    const state = typeof row.state === "string" ? row.state.trim() || null : null;
-    const updatedAt = typeof row.updatedAt === "string" ? row.updatedAt.trim() || null : null;
-    const url = typeof row.url === "string" ? row.url.trim() || null : null;
-
-    snapshots.push({
-      number,
-      title: title.trim(),
-      state,
-      labels: parseLabelNames(row.labels),
-      milestone,
-      updatedAt,
-      url,
-    });
-  }
-
-  return snapshots;
-}
-
-function parsePullRequestSnapshots(stdout: string, context: string): PullRequestSnapshot[] {
-  const rows = parseJsonArray(stdout, context);
-  const snapshots: PullRequestSnapshot[] = [];
-
-  for (const row of rows) {
-    const number = row.number;
-    const title = row.title;
-    if (typeof number !== "number" || !Number.isInteger(number) || number <= 0) continue;
-    if (typeof title !== "string" || !title.trim()) continue;
-
-    const state = typeof row.state === "string" ? row.state.trim() || null : null;
-    const url = typeof row.url === "string" ? row.url.trim() || null : null;
-
-    snapshots.push({
-      number,
-      title: title.trim(),
-      state,
-      url,
-    });
-  }
-
-  return snapshots;
-}
-
-function formatIssueSnapshot(snapshot: IssueSnapshot): string {
-  const labels = snapshot.labels.length ? snapshot.labels.join(", ") : "-";
-  const state = snapshot.state ?? "OPEN";
-  const updatedAt = snapshot.updatedAt ?? "-";
-  return `${snapshot.number}\t${state}\t${snapshot.title}\t${labels}\t${updatedAt}`;
-}
-
-function findInProgressIssues(snapshots: IssueSnapshot[]): IssueSnapshot[] {
-  return snapshots.filter((issue) => issue.labels.some((label) => label.trim().toLowerCase() === "status:in-progress"));
-}
-
-function findIssuesMissingMilestone(snapshots: IssueSnapshot[]): IssueSnapshot[] {
-  return snapshots.filter((issue) => !issue.milestone);
-}
-
-function findIssuesMissingModuleLabel(snapshots: IssueSnapshot[]): IssueSnapshot[] {
-  return snapshots.filter((issue) => !issue.labels.some((label) => label.trim().toLowerCase().startsWith("module:")));
-}
-
-function printIssueBlock(title: string, snapshots: IssueSnapshot[], limit: number): void {
-  console.log(`\n${title}:`);
-  if (!snapshots.length) {
-    console.log("none");
-    return;
-  }
-
-  for (const snapshot of snapshots.slice(0, limit)) {
-    console.log(formatIssueSnapshot(snapshot));
-  }
-}
-
-function printHygieneWarnings(snapshots: IssueSnapshot[]): void {
-  const missingMilestone = findIssuesMissingMilestone(snapshots);
-  const missingModule = findIssuesMissingModuleLabel(snapshots);
-
-  console.log("\nTracker hygiene warnings:");
-  if (!missingMilestone.length && !missingModule.length) {
-    console.log("none");
-    return;
-  }
-
-  if (missingMilestone.length) {
-    const ids = missingMilestone.map((issue) => `#${issue.number}`).join(", ");
-    console.log(`missing milestone: ${ids}`);
-  }
-
-  if (missingModule.length) {
-    const ids = missingModule.map((issue) => `#${issue.number}`).join(", ");
-    console.log(`missing module label: ${ids}`);
-  }
-}
-
-async function printPreflightMilestoneSuggestions(snapshots: IssueSnapshot[]): Promise<void> {
-  const missingMilestone = findIssuesMissingMilestone(snapshots);
-  if (!missingMilestone.length) return;
-
-  try {
-    const plannedByIssue = suggestSemanticMilestonesForIssueSet({
-      issues: snapshots.map((issue) => ({
-        number: issue.number,
-        title: issue.title,
-        labels: issue.labels,
-        milestone: issue.milestone,
-      })),
-    });
-
-    console.log("\nMilestone suggestions:");
-    let printed = false;
-    for (const issue of missingMilestone.slice(0, 10)) {
-      const suggestion = plannedByIssue.get(issue.number);
-      if (!suggestion?.milestoneTitle) continue;
-      const suffix = suggestion.source === "generated" ? " (new milestone candidate)" : ` (${suggestion.source})`;
-      console.log(`#${issue.number} -> ${suggestion.milestoneTitle}${suffix}`);
-      printed = true;
-    }
-    if (!printed) {
-      console.log("none");
-    }
-  } catch {
-    // Ignore suggestion failures: preflight must remain resilient.
-  }
-}
-
 async function promptTrackerReconcileValue(request: TrackerReconcilePromptRequest): Promise<string | null> {
   const { createInterface } = await import("node:readline/promises");
   const { stdin, stdout } = process;
@@ -559,75 +486,6 @@ async function resolveRepoNameWithOwner(execaFn: ExecaFn): Promise<string> {
   return slug;
 }
 
-async function listPaginatedGhApiRecords(execaFn: ExecaFn, endpoint: string, context: string): Promise<JsonRecord[]> {
-  const all: JsonRecord[] = [];
-
-  for (let page = 1; ; page += 1) {
-    const separator = endpoint.includes("?") ? "&" : "?";
-    const paginatedEndpoint = `${endpoint}${separator}per_page=${GH_API_PAGE_SIZE}&page=${page}`;
-    const response = await runGhWithRetry(execaFn, ["api", paginatedEndpoint], { stdio: "pipe" });
-    const parsed = parseJsonArray(response.stdout, context);
-    all.push(...parsed);
-    if (parsed.length < GH_API_PAGE_SIZE) {
-      break;
-    }
-  }
-
-  return all;
-}
-
-async function listExistingMilestoneTitles(execaFn: ExecaFn, repo: string): Promise<Set<string>> {
-  const parsed = await listPaginatedGhApiRecords(execaFn, `repos/${repo}/milestones?state=all`, "gh milestones");
-  const titles = parsed
-    .map((row) => row.title)
-    .filter((value): value is string => typeof value === "string")
-    .map((title) => title.trim())
-    .filter(Boolean);
-  return new Set(titles);
-}
-
-async function listExistingLabelNames(execaFn: ExecaFn, repo: string): Promise<Set<string>> {
-  const parsed = await listPaginatedGhApiRecords(execaFn, `repos/${repo}/labels`, "gh labels");
-  const names = parsed
-    .map((row) => row.name)
-    .filter((value): value is string => typeof value === "string")
-    .map((name) => name.trim())
-    .filter(Boolean);
-  return new Set(names);
-}
-
-async function listOpenIssueSnapshots(execaFn: ExecaFn, limit: number): Promise<IssueSnapshot[]> {
-  const response = await runGhWithRetry(
-    execaFn,
-    ["issue", "list", "--state", "open", "-L", String(limit), "--json", "number,title,state,labels,milestone,updatedAt,url"],
-    { stdio: "pipe" },
-  );
-  return parseIssueSnapshots(response.stdout, "gh issue list");
-}
-
-async function fetchIssueSnapshotByNumber(execaFn: ExecaFn, issueId: number): Promise<IssueSnapshot | null> {
-  const response = await runGhWithRetry(
-    execaFn,
-    ["issue", "view", String(issueId), "--json", "number,title,state,labels,milestone,updatedAt,url"],
-    {
-      stdio: "pipe",
-    },
-  );
-  const parsed = parseIssueSnapshots(`[${response.stdout}]`, "gh issue view");
-  return parsed[0] ?? null;
-}
-
-async function listBranchPullRequestSnapshots(execaFn: ExecaFn, branch: string): Promise<PullRequestSnapshot[]> {
-  const response = await runGhWithRetry(
-    execaFn,
-    ["pr", "list", "--head", branch, "--state", "all", "--json", "number,title,state,url"],
-    {
-      stdio: "pipe",
-    },
-  );
-  return parsePullRequestSnapshots(response.stdout, "gh pr list");
-}
-
 async function findOpenPullRequestNumberByBranch(execaFn: ExecaFn, branch: string): Promise<number | null> {
   const response = await runGhWithRetry(
     execaFn,
@@ -723,6 +581,200 @@ function parseCurrentBranchFromStatus(statusOutput: string): string | null {
   return branchName || null;
 }
 
+async function collectGitStatusSnapshot(execaFn: ExecaFn): Promise<GitStatusSnapshot> {
+  try {
+    const git = await execaFn("git", ["status", "-sb"], { stdio: "pipe" });
+    return { available: true, output: git.stdout, branch: parseCurrentBranchFromStatus(git.stdout) };
+  } catch {
+    return { available: false, output: null, branch: null };
+  }
+}
+
+async function collectActiveTurnSnapshot(): Promise<ActiveTurnSnapshot> {
+  try {
+    const read = await readTurnContext();
+    if (read.state !== "active") return read;
+    const activeTurn = read.turn;
+    return {
+      state: "active",
+      issue_id: activeTurn.issue_id,
+      branch: activeTurn.branch,
+      started_at: activeTurn.started_at ?? null,
+    };
+  } catch (error) {
+    return error instanceof SyntaxError ? { state: "invalid", errors: ["malformed turn.json"] } : { state: "unavailable" };
+  }
+}
+
+async function listBranchNames(execaFn: ExecaFn): Promise<string[] | null> {
+  try {
+    const response = await execaFn("git", ["branch", "-a", "--format=%(refname:short)"], { stdio: "pipe" });
+    return response.stdout
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean);
+  } catch {
+    return null;
+  }
+}
+
+async function collectTrackerHygiene(execaFn: ExecaFn, issues: TrackerIssue[]): Promise<TrackerHygieneSnapshot> {
+  let config: HygieneConfig;
+  try {
+    config = await loadHygieneConfig();
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    config = { contractPath: "", rules: getDefaultHygieneRules(), warnings: [`unable to read contract (${reason})`] };
+  }
+
+  const warnings = [...config.warnings];
+  let branches: string[] | null = null;
+  if (isHygieneRuleEnabled(config, "in_progress_without_branch")) {
+    branches = await listBranchNames(execaFn);
+    if (!branches) warnings.push("in_progress_without_branch skipped: unable to list git branches");
+  }
+
+  return { findings: evaluateHygieneRules({ issues, rules: config.rules, branches }), warnings };
+}
+
+/**
+ * Resolves the tracker backend and lists its open issues. `backend` is `null` when `.vibe/contract.yml` cannot be
+ * read to pick one; the snapshot then reports the tracker as unavailable instead of failing the command.
+ */
+async function collectTrackerSnapshot(
+  execaFn: ExecaFn,
+): Promise<{ tracker: TrackerSnapshot; backend: TrackerBackend | null }> {
+  let backend: TrackerBackend | null = null;
+  let issues: TrackerIssue[];
+  try {
+    backend = await resolveTrackerBackend({ execaFn });
+    issues = await backend.listOpenIssues(100);
+  } catch (error) {
+    // The cache only stands in for GitHub; a broken local tracker is reported as is.
+    const cache = backend?.kind === "github" ? await readTrackerCache() : null;
+    if (!cache) return { tracker: buildUnavailableTrackerSnapshot(error), backend };
+    const hygiene = await collectTrackerHygiene(execaFn, cache.issues);
+    return {
+      tracker: buildCachedTrackerSnapshot({ issues: cache.issues, refreshedAt: cache.refreshed_at, hygiene, error }),
+      backend,
+    };
+  }
+
+  if (backend.kind === "local") {
+    return { tracker: buildTrackerSnapshot(issues, await collectTrackerHygiene(execaFn, issues), "local"), backend };
+  }
+  try {
+    await refreshTrackerCacheIfInitialized(issues);
+  } catch {
+    // Ignore cache write failures: the live snapshot is still valid.
+  }
+  return { tracker: buildTrackerSnapshot(issues, await collectTrackerHygiene(execaFn, issues)), backend };
+}
+
+/**
+ * Applies `--fail-on`: reports findings at or above the threshold and sets a failing exit code. A gate without a
+ * hygiene result (tracker unavailable and no cache) fails too, rather than passing unchecked.
+ */
+function enforceHygieneFailOn(context: string, tracker: TrackerSnapshot, failOn: HygieneSeverity | null): void {
+  if (!failOn) return;
+  if (!tracker.hygiene) {
+    const reason = tracker.error ? ` (${tracker.error})` : "";
+    console.error(`${context}: --fail-on=${failOn}: tracker hygiene could not be evaluated${reason}.`);
+    process.exitCode = 1;
+    return;
+  }
+  const failures = selectHygieneFailures(tracker.hygiene.findings, failOn);
+  if (!failures.length) return;
+
+  console.error(`${context}: hygiene findings at or above --fail-on=${failOn}:`);
+  for (const finding of failures) {
+    console.error(`- ${formatHygieneFinding(finding)}`);
+  }
+  process.exitCode = 1;
+}
+
+async function collectStatusSnapshot(execaFn: ExecaFn): Promise<StatusSnapshot> {
+  const git = await collectGitStatusSnapshot(execaFn);
+  const activeTurn = await collectActiveTurnSnapshot();
+
+  const { tracker, backend } = await collectTrackerSnapshot(execaFn);
+  const live = backend !== null && (tracker.source === "gh" || tracker.source === "local");
+
+  let activeIssue: StatusSnapshot["active_issue"] = null;
+  if (live && activeTurn.state === "active") {
+    try {
+      activeIssue = { available: true, issue: await backend.getIssue(activeTurn.issue_id) };
+    } catch {
+      activeIssue = { available: false, issue: null };
+    }
+  }
+
+  let branchPrs: StatusSnapshot["branch_prs"] = null;
+  if (live && git.branch) {
+    try {
+      branchPrs = { available: true, pull_requests: await backend.listBranchPullRequests(git.branch) };
+    } catch {
+      branchPrs = { available: false, pull_requests: [] };
+    }
+  }
+
+  return {
+    schema_version: SNAPSHOT_SCHEMA_VERSION,
+    kind: "status",
+    generated_at: new Date().toISOString(),
+    git,
+    active_turn: activeTurn,
+    tracker,
+    active_issue: activeIssue,
+    branch_prs: branchPrs,
+    gh_retry: getGhLimiter().stats(),
+  };
+}
+
+async function collectPreflightSnapshot(execaFn: ExecaFn): Promise<PreflightSnapshot> {
+  const git = await collectGitStatusSnapshot(execaFn);
+
+  const { tracker } = await collectTrackerSnapshot(execaFn);
+
+  let milestoneSuggestions: PreflightSnapshot["milestone_suggestions"] = null;
+  if (tracker.available) {
+    try {
+      milestoneSuggestions = buildMilestoneSuggestions(tracker.open_issues);
+    } catch {
+      // Ignore suggestion failures: preflight must remain resilient.
+    }
+  }
+
+  const security = await collectSecuritySummary(execaFn);
+
+  let trackerBootstrapSuggested = false;
+  try {
+    trackerBootstrapSuggested = await shouldSuggestTrackerBootstrap();
+  } catch {
+    // Ignore hint failures: preflight must remain resilient.
+  }
+
+  let updateNotice: UpdateNoticeSnapshot | null = null;
+  try {
+    updateNotice = await collectUpdateNotice(execaFn);
+  } catch {
+    // Ignore version-check failures: preflight must remain resilient.
+  }
+
+  return {
+    schema_version: SNAPSHOT_SCHEMA_VERSION,
+    kind: "preflight",
+    generated_at: new Date().toISOString(),
+    git,
+    tracker,
+    milestone_suggestions: milestoneSuggestions,
+    security,
+    tracker_bootstrap_suggested: trackerBootstrapSuggested,
+    update_notice: updateNotice,
+    gh_retry: getGhLimiter().stats(),
+  };
+}
+
 function parseAheadBehindState(raw: string): { ahead: number; behind: number; upstreamGone: boolean } {
   let ahead = 0;
   let behind = 0;
@@ -980,9 +1032,10 @@ async function enforceTurnStartRemoteGuard(execaFn: ExecaFn): Promise<void> {
     }
   }
 
-  let branchPrSnapshots: PullRequestSnapshot[] = [];
+  let branchPrSnapshots: TrackerPullRequest[] = [];
   try {
-    branchPrSnapshots = await listBranchPullRequestSnapshots(execaFn, currentBranch);
+    const backend = await resolveTrackerBackend({ execaFn });
+    branchPrSnapshots = await backend.listBranchPullRequests(currentBranch);
   } catch {
     branchPrSnapshots = [];
   }
@@ -1008,56 +1061,129 @@ async function enforceTurnStartRemoteGuard(execaFn: ExecaFn): Promise<void> {
   );
 }
 
-async function runTrackerBootstrap(execaFn: ExecaFn, dryRun: boolean): Promise<void> {
+function labelArgs(label: TrackerLabelDefinition): string[] {
+  return ["--color", label.color, "--description", label.description];
+}
+
+type TrackerBootstrapOptions = {
+  dryRun: boolean;
+  confirm?: boolean;
+  /** Replace the text output with one JSON document (gh output is piped so stdout stays parseable). */
+  json?: boolean;
+};
+
+/**
+ * Syncs `.vibe/tracker.yml` (or the built-in modules) to the repo labels. Creating and updating labels is always
+ * applied; renames and deletions change labels on existing issues, so they only run with `--confirm`.
+ */
+async function runTrackerBootstrap(execaFn: ExecaFn, options: TrackerBootstrapOptions): Promise<void> {
+  const { dryRun } = options;
+  const json = Boolean(options.json);
+  const log = (message: string) => {
+    if (!json) console.log(message);
+  };
+  const taxonomy = await loadTrackerTaxonomy();
+  for (const warning of taxonomy.warnings) {
+    log(`tracker bootstrap: WARN taxonomy: ${warning}`);
+  }
   const repo = await resolveRepoNameWithOwner(execaFn);
-  const [existingMilestones, existingLabels] = await Promise.all([
-    listExistingMilestoneTitles(execaFn, repo),
-    listExistingLabelNames(execaFn, repo),
-  ]);
-  const labelsToCreate = selectMissingTrackerLabels(existingLabels);
-
-  console.log(`tracker bootstrap: repo ${repo}`);
-  if (!labelsToCreate.length) {
-    console.log("tracker bootstrap: already configured.");
-    console.log("Milestones: repo-specific (no default milestones created).");
-    if (!dryRun) {
-      const markerPath = await writeTrackerBootstrapMarker(
-        repo,
-        { milestones: Array.from(existingMilestones), labels: Array.from(existingLabels) },
-      );
-      console.log(`tracker bootstrap: marker updated at ${markerPath}`);
+  const repository = await listRepositoryTaxonomy(execaFn, repo);
+  const plan = planTrackerTaxonomySync(taxonomy, repository.labels);
+  const destructive = plan.rename.length + plan.delete.length;
+  const applyDestructive = Boolean(options.confirm) && !dryRun;
+
+  log(`tracker bootstrap: repo ${repo}`);
+  log(`Taxonomy: ${taxonomy.found ? taxonomy.taxonomyPath : "built-in modules (no usable .vibe/tracker.yml)"}`);
+  log("Milestones: repo-specific (no default milestones created).");
+
+  const steps: Array<{ title: string; entries: Array<{ name: string; args: string[] }>; apply: boolean }> = [
+    {
+      title: "Labels to create",
+      entries: plan.create.map((label) => ({
+        name: label.name,
+        args: ["label", "create", label.name, ...labelArgs(label)],
+      })),
+      apply: !dryRun,
+    },
+    {
+      title: "Labels to update",
+      entries: plan.update.map((label) => ({
+        name: label.name,
+        args: ["label", "edit", label.name, ...labelArgs(label)],
+      })),
+      apply: !dryRun,
+    },
+    {
+      title: "Labels to rename",
+      entries: plan.rename.map(({ from, to }) => ({
+        name: `${from} -> ${to.name}`,
+        args: ["label", "edit", from, "--name", to.name, ...labelArgs(to)],
+      })),
+      apply: applyDestructive,
+    },
+    {
+      title: "Labels to delete",
+      entries: plan.delete.map((name) => ({ name, args: ["label", "delete", name, "--yes"] })),
+      apply: applyDestructive,
+    },
+  ];
+
+  if (steps.every((step) => !step.entries.length)) {
+    log("tracker bootstrap: already configured.");
+  }
+  for (const step of steps.filter((entry) => entry.entries.length > 0)) {
+    log(`\n${step.title}:`);
+    for (const entry of step.entries) {
+      log(`- ${entry.name}`);
+      if (!json) printGhCommand(entry.args);
+      if (step.apply) {
+        await runGhWithRetry(execaFn, entry.args, { stdio: json ? "pipe" : "inherit" });
+      }
     }
-    return;
   }
-  console.log("Milestones: repo-specific (no default milestones created).");
 
-  if (labelsToCreate.length > 0) {
-    console.log("\nLabels to create:");
-    for (const label of labelsToCreate) {
-      console.log(`- ${label.name}`);
-      const args = ["label", "create", label.name, "--color", label.color, "--description", label.description];
-      printGhCommand(args);
-      if (!dryRun) {
-        await runGhWithRetry(execaFn, args, { stdio: "inherit" });
+  const pending = applyDestructive ? 0 : destructive;
+  if (pending > 0) {
+    log(`\ntracker bootstrap: ${pending} rename(s)/deletion(s) pending; re-run with --confirm to apply them.`);
+  }
+
+  let markerPath: string | null = null;
+  if (!dryRun) {
+    const labels = new Set(repository.labels.map((label) => label.name));
+    for (const label of [...plan.create, ...plan.update]) labels.add(label.name);
+    if (applyDestructive) {
+      for (const { from, to } of plan.rename) {
+        labels.delete(from);
+        labels.add(to.name);
       }
+      for (const name of plan.delete) labels.delete(name);
     }
-  } else {
-    console.log("Labels: already configured.");
+    markerPath = await writeTrackerBootstrapMarker(repo, {
+      milestones: repository.milestoneTitles,
+      labels: Array.from(labels),
+    });
   }
 
-  if (dryRun) {
-    console.log("\ntracker bootstrap: dry-run complete.");
+  if (json) {
+    const output = {
+      repo,
+      taxonomy_path: taxonomy.found ? taxonomy.taxonomyPath : null,
+      dry_run: dryRun,
+      create: plan.create.map((label) => label.name),
+      update: plan.update.map((label) => label.name),
+      rename: plan.rename.map(({ from, to }) => ({ from, to: to.name })),
+      delete: plan.delete,
+      pending_destructive: pending,
+      marker_path: markerPath,
+      warnings: taxonomy.warnings,
+      gh_retry: getGhLimiter().stats(),
+    };
+    console.log(JSON.stringify(output, null, 2));
     return;
   }
 
-  const markerPath = await writeTrackerBootstrapMarker(
-    repo,
-    {
-      milestones: Array.from(existingMilestones),
-      labels: [...Array.from(existingLabels), ...labelsToCreate.map((label) => label.name)],
-    },
-  );
-  console.log(`\ntracker bootstrap: DONE (${markerPath})`);
+  console.log(markerPath ? `\ntracker bootstrap: DONE (${markerPath})` : "\ntracker bootstrap: dry-run complete.");
+  printGhRetrySummary("tracker bootstrap");
 }
 
 type PrBodySyncParams = {
@@ -1103,40 +1229,218 @@ async function syncPrBodiesWithIssueReference(params: PrBodySyncParams): Promise
   }
 }
 
-async function issueTitleFromGitHub(execaFn: ExecaFn, issueId: number): Promise<string> {
-  try {
-    const issue = await runGhWithRetry(execaFn, ["issue", "view", String(issueId), "--json", "title", "-q", ".title"], {
-      stdio: "pipe",
-    });
-    const title = issue.stdout.trim();
-    if (title) {
-      return title;
-    }
-  } catch {
-    // Fall through to deterministic fallback.
-  }
+/** `gh issue edit ...` on GitHub; the local backend runs the same issue commands without gh. */
+function formatTrackerCommand(kind: TrackerBackendKind, args: string[]): string {
+  return [kind === "github" ? "gh" : kind, ...args].join(" ");
+}
 
-  return `issue-${issueId}`;
+function printJournaledGhCommand(
+  journal: PostflightJournal,
+  args: string[],
+  kind: TrackerBackendKind = "github",
+): void {
+  const done = findCompletedPostflightStep(journal, hashPostflightStep(args));
+  console.log("$ " + formatTrackerCommand(kind, args) + (done ? "  # already applied, skipped" : ""));
 }
 
-async function checkoutOrCreateBranch(execaFn: ExecaFn, branch: string): Promise<void> {
-  const probe = await execaFn("git", ["show-ref", "--verify", "--quiet", `refs/heads/${branch}`], {
-    stdio: "pipe",
-    reject: false,
-  });
+async function applyJournaledTrackerCommands(params: {
+  execaFn: ExecaFn;
+  backend: TrackerBackend;
+  artifactPath: string;
+  journal: PostflightJournal;
+  cmds: GhCommand[];
+  dryRun: boolean;
+}): Promise<void> {
+  const { execaFn, backend, artifactPath, journal, cmds, dryRun } = params;
 
-  if (probe.exitCode === 0) {
-    await execaFn("git", ["checkout", branch], { stdio: "inherit" });
-    return;
+  for (const c of cmds) {
+    printJournaledGhCommand(journal, c.args, backend.kind);
+    await runJournaledGhStep({ execaFn, backend, artifactPath, journal, args: c.args, dryRun });
+  }
+}
+
+async function applyProjectFieldUpdates(params: {
+  execaFn: ExecaFn;
+  backend: TrackerBackend;
+  artifactPath: string;
+  journal: PostflightJournal;
+  issueId: string;
+  updates: PostflightTrackerUpdate[];
+  dryRun: boolean;
+}): Promise<void> {
+  const { execaFn, backend, artifactPath, journal, issueId, updates, dryRun } = params;
+
+  for (const update of updates) {
+    // Journaled under the unresolved form so a completed step skips the project lookups on re-runs.
+    const previewArgs = buildProjectFieldSetPreviewArgs(update);
+    if (dryRun || findCompletedPostflightStep(journal, hashPostflightStep(previewArgs))) {
+      printJournaledGhCommand(journal, previewArgs);
+      continue;
+    }
+
+    await runJournaledGhStep({
+      execaFn,
+      backend,
+      artifactPath,
+      journal,
+      args: previewArgs,
+      dryRun,
+      resolveArgs: async () => {
+        const plan = await planProjectFieldSet(execaFn, issueId, update);
+        let itemId = plan.itemId;
+        if (!itemId) {
+          printGhCommand(plan.addItemArgs);
+          const added = await runGhWithRetry(execaFn, plan.addItemArgs, { stdio: "pipe" });
+          itemId = (JSON.parse(added.stdout) as { id?: string }).id ?? null;
+          if (!itemId) {
+            throw new Error(`postflight --apply: unable to add issue #${issueId} to project #${plan.projectNumber}`);
+          }
+        }
+
+        const editArgs = buildProjectItemEditArgs(plan, itemId);
+        printGhCommand(editArgs);
+        return editArgs;
+      },
+    });
+  }
+}
+
+async function issueTitleFromTracker(execaFn: ExecaFn, issueId: number): Promise<string> {
+  try {
+    const backend = await resolveTrackerBackend({ execaFn });
+    const title = (await backend.getIssueTitle(issueId))?.trim();
+    if (title) {
+      return title;
+    }
+  } catch {
+    // Fall through to deterministic fallback.
+  }
+
+  return `issue-${issueId}`;
+}
+
+async function checkoutOrCreateBranch(execaFn: ExecaFn, branch: string): Promise<void> {
+  const probe = await execaFn("git", ["show-ref", "--verify", "--quiet", `refs/heads/${branch}`], {
+    stdio: "pipe",
+    reject: false,
+  });
+
+  if (probe.exitCode === 0) {
+    await execaFn("git", ["checkout", branch], { stdio: "inherit" });
+    return;
   }
 
   await execaFn("git", ["checkout", "-b", branch], { stdio: "inherit" });
 }
 
+type StartTurnOptions = {
+  worktree?: boolean;
+  worktreePath?: string | null;
+};
+
+async function startTurnForIssue(execaFn: ExecaFn, issueId: number, options: StartTurnOptions = {}): Promise<void> {
+  await enforceTurnStartRemoteGuard(execaFn);
+  const issueTitle = await issueTitleFromTracker(execaFn, issueId);
+  const branch = buildTurnBranch(issueId, issueTitle);
+
+  let workspaceRoot: string | undefined;
+  if (options.worktree) {
+    const worktree = await ensureTurnWorktree({ execaFn, branch, worktreePath: options.worktreePath });
+    workspaceRoot = worktree.path;
+    console.log(`turn start: worktree ${worktree.created ? "created" : "reused"} at ${worktree.path}`);
+  } else {
+    await checkoutOrCreateBranch(execaFn, branch);
+  }
+
+  const turnContext = {
+    issue_id: issueId,
+    branch,
+    base_branch: "main",
+    started_at: new Date().toISOString(),
+    issue_title: issueTitle,
+  };
+
+  await writeTurnContext(turnContext, { workspaceRoot });
+  await recordTurnLedgerEvent("turn start", buildTurnStartEvent(turnContext, workspaceRoot ?? null));
+  const reviewTemplates = await ensureIssueReviewTemplates(issueId, { workspaceRoot });
+  if (reviewTemplates.created.length) {
+    console.log(`review templates: created ${reviewTemplates.created.length} file(s) at ${reviewTemplates.directory}`);
+  } else {
+    console.log(`review templates: already present at ${reviewTemplates.directory}`);
+  }
+  console.log(JSON.stringify(turnContext, null, 2));
+  if (workspaceRoot) {
+    console.log(`next: cd ${workspaceRoot}`);
+  }
+}
+
+/** The ledger is bookkeeping: a write failure is reported but never fails the command that triggered it. */
+async function recordTurnLedgerEvent(prefix: string, event: TurnLedgerEvent): Promise<void> {
+  try {
+    await appendTurnLedgerEvent(event);
+  } catch (error) {
+    console.error(`${prefix}: WARN could not update turn history: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function recordTurnReview(
+  prefix: string,
+  result: { issueId: number | null; branch: string | null; prNumber: number | null; attemptsUsed: number },
+): Promise<void> {
+  if (!result.issueId || !result.branch) return;
+  await recordTurnLedgerEvent(prefix, {
+    version: 1,
+    event: "review",
+    at: new Date().toISOString(),
+    issue_id: result.issueId,
+    branch: result.branch,
+    pr_number: result.prNumber,
+    attempts: result.attemptsUsed,
+  });
+}
+
+/** Best-effort outcome for `turn end` without --outcome: a merged PR for the branch means merged, else abandoned. */
+async function detectTurnOutcome(
+  execaFn: ExecaFn,
+  branch: string,
+): Promise<{ outcome: TurnOutcome; prNumber: number | null }> {
+  try {
+    const backend = await resolveTrackerBackend({ execaFn });
+    const pullRequests = await backend.listBranchPullRequests(branch);
+    const merged = pullRequests.find((pullRequest) => pullRequest.state?.toUpperCase() === "MERGED");
+    if (merged) return { outcome: "merged", prNumber: merged.number };
+    return { outcome: "abandoned", prNumber: pullRequests[0]?.number ?? null };
+  } catch {
+    return { outcome: "abandoned", prNumber: null };
+  }
+}
+
+function formatTurnHistoryRecord(record: TurnHistoryRecord): string {
+  const pr = record.pr_number ? `#${record.pr_number}` : "-";
+  return `#${record.issue_id}\t${record.outcome ?? "active"}\t${formatTurnDuration(record.duration_ms)}\tpr=${pr}\treviews=${record.review_attempts}\t${record.started_at}\t${record.branch}`;
+}
+
+function formatWorktreeTurn(entry: WorktreeTurn): string {
+  const marker = entry.current ? "*" : " ";
+  if (entry.error) {
+    return `${marker} !\t${entry.branch ?? "-"}\t${entry.path}\t(invalid turn.json: ${entry.error})`;
+  }
+  return `${marker} #${entry.turn?.issue_id}\t${entry.turn?.branch ?? entry.branch ?? "-"}\t${entry.path}`;
+}
+
+function formatBacklogNextCandidate(candidate: BacklogNextCandidate, position: number): string {
+  const issue = candidate.issue ? `#${candidate.issue.number}` : "-";
+  return `${position}. ${candidate.item_id}\t${candidate.priority ?? "-"}\t${candidate.milestone ?? "-"}\t${issue}\t${candidate.feature}`;
+}
+
 export function createProgram(execaFn: ExecaFn = execa): Command {
   const program = new Command();
 
   program.name("vibe").description("Vibe-backlog CLI (MVP)").version(CLI_VERSION);
+  // Every command gets its own gh concurrency/wait budget and retry stats.
+  program.hook("preAction", () => {
+    resetGhLimiter({ maxWaitMs: resolveGhMaxWaitMs() });
+  });
 
   const turn = program.command("turn").description("Manage active local turn context");
 
@@ -1144,6 +1448,8 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
     .command("start")
     .description("Start a turn from an issue number")
     .requiredOption("--issue <n>", "GitHub issue number")
+    .option("--worktree", "Create (or reuse) a git worktree for the issue branch with its own turn context", false)
+    .option("--worktree-path <path>", "Worktree location (default: ../<repo>-worktrees/<branch>)")
     .action(async (opts) => {
       const issueRaw = String(opts.issue).trim();
       if (!/^[0-9]+$/.test(issueRaw)) {
@@ -1160,106 +1466,751 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
       }
 
       try {
-        await enforceTurnStartRemoteGuard(execaFn);
-        const issueTitle = await issueTitleFromGitHub(execaFn, issueId);
-        const branch = buildTurnBranch(issueId, issueTitle);
-
-        await checkoutOrCreateBranch(execaFn, branch);
-
-        const turnContext = {
-          issue_id: issueId,
-          branch,
-          base_branch: "main",
-          started_at: new Date().toISOString(),
-          issue_title: issueTitle,
-        };
+        await startTurnForIssue(execaFn, issueId, {
+          worktree: Boolean(opts.worktree),
+          worktreePath: typeof opts.worktreePath === "string" && opts.worktreePath.trim() ? opts.worktreePath.trim() : null,
+        });
+      } catch (error) {
+        console.error("turn start: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  turn
+    .command("show")
+    .description("Show active turn context")
+    .action(async () => {
+      try {
+        const read = await readTurnContext();
+        if (read.state === "none") {
+          console.log("no active turn");
+          return;
+        }
+        if (read.state === "invalid") {
+          console.error(`turn show: invalid active turn (missing/invalid: ${read.errors.join(", ")}).`);
+          console.error(TURN_DOCTOR_REMEDIATION);
+          process.exitCode = 1;
+          return;
+        }
 
-        await writeTurnContext(turnContext);
-        const reviewTemplates = await ensureIssueReviewTemplates(issueId);
-        if (reviewTemplates.created.length) {
-          console.log(`review templates: created ${reviewTemplates.created.length} file(s) at ${reviewTemplates.directory}`);
+        console.log(JSON.stringify(read.turn, null, 2));
+      } catch (error) {
+        console.error("turn show: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  turn
+    .command("list")
+    .description("List active turns across git worktrees (* marks the current worktree)")
+    .option("--json", "Print turns as JSON", false)
+    .action(async (opts) => {
+      try {
+        const turns = (await listWorktreeTurns(execaFn)).filter((entry) => entry.turn || entry.error);
+        if (opts.json) {
+          console.log(JSON.stringify(turns, null, 2));
+          return;
+        }
+        if (!turns.length) {
+          console.log("no active turns");
+          return;
+        }
+        for (const entry of turns) {
+          console.log(formatWorktreeTurn(entry));
+        }
+      } catch (error) {
+        console.error("turn list: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  turn
+    .command("switch")
+    .description("Print the worktree that holds the turn for an issue")
+    .requiredOption("--issue <n>", "GitHub issue number")
+    .option("--path-only", "Print only the worktree path (for `cd \"$(vibe turn switch --issue <n> --path-only)\"`)", false)
+    .action(async (opts) => {
+      const issueId = parsePositiveInt(Number(String(opts.issue).trim()));
+      if (!issueId) {
+        console.error("turn switch: --issue debe ser un entero positivo.");
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        const target = findWorktreeTurnByIssue(await listWorktreeTurns(execaFn), issueId);
+        if (!target) {
+          console.error(`turn switch: no turn for issue #${issueId}. Run: vibe turn start --issue ${issueId} --worktree`);
+          process.exitCode = 1;
+          return;
+        }
+
+        if (opts.pathOnly) {
+          console.log(target.path);
+          return;
+        }
+        if (target.current) {
+          console.log(`turn switch: already in the worktree for issue #${issueId} (${target.path})`);
+          return;
+        }
+        console.log(`turn switch: issue #${issueId} -> ${target.path}`);
+        console.log(`next: cd ${target.path}`);
+      } catch (error) {
+        console.error("turn switch: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  turn
+    .command("doctor")
+    .description("Check turn.json, migrate older versions and repair malformed files from git and gh")
+    .option("--dry-run", "Report the repair without writing turn.json", false)
+    .option("--json", "Print the result as JSON", false)
+    .action(async (opts) => {
+      try {
+        const result = await runTurnDoctor({ execaFn, dryRun: Boolean(opts.dryRun) });
+        if (opts.json) {
+          console.log(JSON.stringify(result, null, 2));
         } else {
-          console.log(`review templates: already present at ${reviewTemplates.directory}`);
+          console.log(`turn doctor: ${result.status} ${result.path}`);
+          for (const problem of result.problems) {
+            console.log(`turn doctor: problem ${problem}`);
+          }
+          for (const source of result.sources) {
+            console.log(`turn doctor: recovered ${source}`);
+          }
+          if (result.backupPath) {
+            console.log(`turn doctor: previous file saved to ${result.backupPath}`);
+          }
+          if (result.turn && result.status !== "ok") {
+            console.log(JSON.stringify(result.turn, null, 2));
+          }
+          if (opts.dryRun && (result.status === "migrated" || result.status === "repaired")) {
+            console.log("turn doctor: dry-run (turn.json not written).");
+          }
+        }
+
+        if (result.status === "unrepairable") {
+          console.error("turn doctor: could not recover the issue id and branch from turn.json or git.");
+          console.error(GUARD_REMEDIATION);
+          process.exitCode = 1;
         }
-        console.log(JSON.stringify(turnContext, null, 2));
       } catch (error) {
-        console.error("turn start: ERROR");
+        console.error("turn doctor: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  turn
+    .command("pause")
+    .description("Park the active turn: stash uncommitted work under the issue id and set turn.json aside")
+    .action(async () => {
+      try {
+        const paused = await pauseTurn({ execaFn });
+        const stash = paused.paused.stash;
+        console.log(
+          stash
+            ? `turn pause: stashed uncommitted work as '${stash.message}' (${stash.sha.slice(0, 12)})`
+            : "turn pause: working tree clean; nothing to stash",
+        );
+        console.log(`turn pause: issue #${paused.issue_id} paused on ${paused.branch} at ${paused.paused.head.slice(0, 12)}`);
+        console.log(`next: vibe turn resume --issue ${paused.issue_id}`);
+      } catch (error) {
+        console.error("turn pause: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  turn
+    .command("resume")
+    .description("Restore a paused turn: checkout its branch, pop its stash and restore turn.json")
+    .requiredOption("--issue <n>", "GitHub issue number")
+    .action(async (opts) => {
+      const issueId = parsePositiveInt(Number(String(opts.issue).trim()));
+      if (!issueId) {
+        console.error("turn resume: --issue debe ser un entero positivo.");
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        const pausedTurns = await listPausedTurns();
+        if (!pausedTurns.some((entry) => entry.issue_id === issueId)) {
+          const available = pausedTurns.map((entry) => `#${entry.issue_id}`).join(", ") || "(none)";
+          console.error(`turn resume: no paused turn for issue #${issueId}. Paused turns: ${available}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        const result = await resumeTurn({ execaFn, issueId });
+        console.log(`turn resume: issue #${issueId} resumed on ${result.turn.branch}`);
+        console.log(result.stashRestored ? "turn resume: stashed work restored" : "turn resume: no stash to restore");
+        console.log(JSON.stringify(result.turn, null, 2));
+      } catch (error) {
+        console.error("turn resume: ERROR");
         console.error(error);
         process.exitCode = 1;
       }
     });
 
-  turn
-    .command("show")
-    .description("Show active turn context")
-    .action(async () => {
-      try {
-        const activeTurn = await readTurnContext();
-        if (!activeTurn) {
-          console.log("no active turn");
+  turn
+    .command("end")
+    .description("End active turn context and record it in the turn history")
+    .option(
+      "--outcome <outcome>",
+      `Final outcome: ${TURN_OUTCOMES.join(", ")} (default: merged when the branch PR is merged, otherwise abandoned)`,
+    )
+    .option("--pr <n>", "PR number to record (default: detected from the branch)")
+    .action(async (opts) => {
+      const outcomeRaw = typeof opts.outcome === "string" ? opts.outcome.trim().toLowerCase() : "";
+      const outcome = outcomeRaw ? TurnOutcomeSchema.safeParse(outcomeRaw) : null;
+      if (outcome && !outcome.success) {
+        console.error(`turn end: --outcome must be one of: ${TURN_OUTCOMES.join(", ")}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const prNumber = opts.pr === undefined ? null : parsePositiveInt(Number(String(opts.pr).trim()));
+      if (opts.pr !== undefined && !prNumber) {
+        console.error("turn end: --pr must be a positive integer.");
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        let activeTurn: TurnContext | null = null;
+        try {
+          const read = await readTurnContext();
+          if (read.state === "active") activeTurn = read.turn;
+        } catch {
+          // An invalid turn.json is still cleared; it just cannot be recorded.
+        }
+
+        const deleted = await clearTurnContext();
+        if (!deleted) {
+          console.log("no active turn");
+          return;
+        }
+
+        if (activeTurn) {
+          const detected =
+            outcome?.data && prNumber ? { outcome: outcome.data, prNumber } : await detectTurnOutcome(execaFn, activeTurn.branch);
+          let events: TurnLedgerEvent[] = [];
+          try {
+            events = await readTurnLedger();
+          } catch {
+            // Review attempts fall back to 0 when the ledger cannot be read.
+          }
+          const endEvent = buildTurnEndEvent({
+            turn: activeTurn,
+            events,
+            outcome: outcome?.data ?? detected.outcome,
+            prNumber: prNumber ?? detected.prNumber,
+          });
+          await recordTurnLedgerEvent("turn end", endEvent);
+          console.log(
+            `turn end: issue=#${endEvent.issue_id} outcome=${endEvent.outcome} duration=${formatTurnDuration(endEvent.duration_ms)} reviews=${endEvent.review_attempts}`,
+          );
+        }
+
+        console.log("turn ended");
+      } catch (error) {
+        console.error("turn end: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  turn
+    .command("history")
+    .description("Show past and active turns with durations, review attempts and outcomes")
+    .option("--issue <n>", "Only turns for this issue")
+    .option("--outcome <outcome>", `Only turns with this outcome: ${[...TURN_OUTCOMES, "active"].join(", ")}`)
+    .option("--since <date>", "Only turns started on or after this date (YYYY-MM-DD or ISO timestamp)")
+    .option("--limit <n>", "Show only the most recent N turns")
+    .option("--json", "Print turns as JSON", false)
+    .action(async (opts) => {
+      const issueId = opts.issue === undefined ? null : parsePositiveInt(Number(String(opts.issue).trim()));
+      if (opts.issue !== undefined && !issueId) {
+        console.error("turn history: --issue debe ser un entero positivo.");
+        process.exitCode = 1;
+        return;
+      }
+
+      const outcomeRaw = typeof opts.outcome === "string" ? opts.outcome.trim().toLowerCase() : "";
+      if (outcomeRaw && outcomeRaw !== "active" && !TurnOutcomeSchema.safeParse(outcomeRaw).success) {
+        console.error(`turn history: --outcome must be one of: ${[...TURN_OUTCOMES, "active"].join(", ")}`);
+        process.exitCode = 1;
+        return;
+      }
+
+      const sinceRaw = typeof opts.since === "string" ? opts.since.trim() : "";
+      const sinceMs = sinceRaw ? Date.parse(sinceRaw) : null;
+      if (sinceMs !== null && !Number.isFinite(sinceMs)) {
+        console.error("turn history: --since must be a date (YYYY-MM-DD or ISO timestamp).");
+        process.exitCode = 1;
+        return;
+      }
+
+      const limit = opts.limit === undefined ? null : parsePositiveInt(Number(String(opts.limit).trim()));
+      if (opts.limit !== undefined && !limit) {
+        console.error("turn history: --limit must be a positive integer.");
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        const records = filterTurnHistory(buildTurnHistory(await readTurnLedger()), {
+          issueId,
+          outcome: (outcomeRaw || null) as TurnOutcome | "active" | null,
+          since: sinceMs === null ? null : new Date(sinceMs).toISOString(),
+        });
+        const shown = limit ? records.slice(-limit) : records;
+
+        if (opts.json) {
+          console.log(JSON.stringify(shown, null, 2));
+          return;
+        }
+        if (!shown.length) {
+          console.log("no turns recorded");
+          return;
+        }
+        for (const record of shown) {
+          console.log(formatTurnHistoryRecord(record));
+        }
+
+        const ended = shown.filter((record) => record.duration_ms !== null);
+        const averageMs = ended.length
+          ? Math.round(ended.reduce((total, record) => total + (record.duration_ms ?? 0), 0) / ended.length)
+          : null;
+        console.log(`turn history: turns=${shown.length} ended=${ended.length} avg_duration=${formatTurnDuration(averageMs)}`);
+      } catch (error) {
+        console.error("turn history: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  program
+    .command("guard")
+    .description("Fail when there is no valid active turn context")
+    .option("--check-branch", "Also fail when the current git branch is not the turn branch", false)
+    .action(async (opts) => {
+      try {
+        const read = await readTurnContext();
+        if (read.state === "none") {
+          console.error("guard: no active turn.");
+          console.error(GUARD_REMEDIATION);
+          process.exitCode = GUARD_NO_ACTIVE_TURN_EXIT_CODE;
+          return;
+        }
+        if (read.state === "invalid") {
+          console.error(`guard: invalid active turn (missing/invalid: ${read.errors.join(", ")}).`);
+          console.error(TURN_DOCTOR_REMEDIATION);
+          process.exitCode = GUARD_INVALID_TURN_EXIT_CODE;
+          return;
+        }
+        const activeTurn = read.turn;
+
+        if (opts.checkBranch) {
+          const currentBranch = await resolveCurrentBranchName(execaFn);
+          if (currentBranch !== activeTurn.branch) {
+            console.error(`guard: current branch '${currentBranch}' does not match turn branch '${activeTurn.branch}'.`);
+            console.error(`Run: git checkout ${activeTurn.branch}`);
+            process.exitCode = GUARD_BRANCH_MISMATCH_EXIT_CODE;
+            return;
+          }
+        }
+
+        console.log(
+          `guard: OK issue=${activeTurn.issue_id} branch=${activeTurn.branch} base_branch=${activeTurn.base_branch}`,
+        );
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          console.error("guard: invalid active turn (malformed turn.json).");
+          console.error(GUARD_REMEDIATION);
+          process.exitCode = GUARD_INVALID_TURN_EXIT_CODE;
+          return;
+        }
+
+        console.error("guard: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  const hooks = program.command("hooks").description("Manage vibe git hooks (pre-commit, pre-push)");
+
+  hooks
+    .command("install")
+    .description("Install managed pre-commit/pre-push hooks (guard, turn branch check, staged security scan)")
+    .option("--vibe-cmd <cmd>", "Command the hooks use to invoke vibe", DEFAULT_VIBE_HOOK_COMMAND)
+    .option("--dry-run", "Print planned hook changes without writing", false)
+    .action(async (opts) => {
+      try {
+        const dryRun = Boolean(opts.dryRun);
+        const changes = await installVibeHooks({
+          execaFn,
+          dryRun,
+          vibeCommand: typeof opts.vibeCmd === "string" ? opts.vibeCmd : DEFAULT_VIBE_HOOK_COMMAND,
+        });
+        for (const change of changes) {
+          console.log(`hooks install: ${change.hook} ${change.status} ${change.path}`);
+        }
+        if (dryRun) {
+          console.log("hooks install: dry-run (no files written).");
+        }
+      } catch (error) {
+        console.error("hooks install: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  hooks
+    .command("uninstall")
+    .description("Remove the managed vibe block from pre-commit/pre-push hooks, keeping user hook content")
+    .option("--dry-run", "Print planned hook changes without writing", false)
+    .action(async (opts) => {
+      try {
+        const dryRun = Boolean(opts.dryRun);
+        const changes = await uninstallVibeHooks({ execaFn, dryRun });
+        for (const change of changes) {
+          console.log(`hooks uninstall: ${change.hook} ${change.status} ${change.path}`);
+        }
+        if (dryRun) {
+          console.log("hooks uninstall: dry-run (no files written).");
+        }
+      } catch (error) {
+        console.error("hooks uninstall: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  const backlog = program.command("backlog").description("Read and edit BACKLOG.md topic tables in place");
+
+  backlog
+    .command("list")
+    .description("List backlog items grouped by topic")
+    .option("-f, --file <path>", "Backlog markdown path (default: VIBE_BACKLOG_PATH or BACKLOG.md)")
+    .option("--topic <title>", "Only list items from this topic")
+    .option("--status <status>", "Only list items with this status")
+    .action(async (opts) => {
+      const topicFilter = typeof opts.topic === "string" ? opts.topic.trim().toLowerCase() : "";
+      const statusFilter = typeof opts.status === "string" ? opts.status.trim().toLowerCase() : "";
+
+      try {
+        const document = await readBacklog({ backlogPath: resolveBacklogFileOption(opts.file) });
+        const entries = listBacklogItems(document.markdown).filter((entry) => {
+          if (topicFilter && entry.topic.toLowerCase() !== topicFilter) return false;
+          if (statusFilter && entry.item.status.toLowerCase() !== statusFilter) return false;
+          return true;
+        });
+
+        console.log(`backlog: ${document.path}`);
+        if (!entries.length) {
+          console.log("none");
+          return;
+        }
+
+        let currentTopic: string | null = null;
+        for (const entry of entries) {
+          if (entry.topic !== currentTopic) {
+            currentTopic = entry.topic;
+            console.log(`\n${entry.topic}:`);
+          }
+          console.log(formatBacklogItemRow(entry));
+        }
+      } catch (error) {
+        console.error("backlog list: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  backlog
+    .command("show")
+    .description("Show one backlog item")
+    .argument("<id>", "Backlog item id")
+    .option("-f, --file <path>", "Backlog markdown path (default: VIBE_BACKLOG_PATH or BACKLOG.md)")
+    .action(async (id: string, opts) => {
+      try {
+        const document = await readBacklog({ backlogPath: resolveBacklogFileOption(opts.file) });
+        const entry = findBacklogItem(document.markdown, id);
+        if (!entry) {
+          console.error(`backlog show: item '${id}' not found.`);
+          process.exitCode = 1;
+          return;
+        }
+
+        console.log(
+          JSON.stringify(
+            {
+              topic: entry.topic,
+              ...entry.item,
+              links: [...extractMarkdownLinks(entry.item.pr), ...extractMarkdownLinks(entry.item.notes)],
+            },
+            null,
+            2,
+          ),
+        );
+      } catch (error) {
+        console.error("backlog show: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  backlog
+    .command("add")
+    .description("Append an item to a topic table (creates the topic when missing)")
+    .requiredOption("--topic <title>", "Topic title (## Temática: <title>)")
+    .requiredOption("--id <id>", "Backlog item id")
+    .requiredOption("--feature <text>", "Feature/bug description")
+    .option("--status <status>", "Item status", "next")
+    .option("--branch <name>", "Linked branch")
+    .option("--pr <ref>", "Linked PR reference")
+    .option("--notes <text>", "Notes")
+    .option("--priority <level>", "Priority (P0-P3; needs a Prioridad column)")
+    .option("--estimate <value>", "Estimate such as 4h, 2d, 1w or 3pts (needs an Estimación column)")
+    .option("--owner <login>", "Owner GitHub login (needs an Owner column)")
+    .option("--depends-on <ids>", "Comma-separated ids this item depends on (needs a Depende de column)")
+    .option("-f, --file <path>", "Backlog markdown path (default: VIBE_BACKLOG_PATH or BACKLOG.md)")
+    .action(async (opts) => {
+      try {
+        const filePath = await editBacklogDocument("backlog add", resolveBacklogFileOption(opts.file), (markdown) =>
+          addBacklogItem(markdown, String(opts.topic), {
+            id: String(opts.id),
+            feature: String(opts.feature),
+            status: typeof opts.status === "string" ? opts.status : null,
+            branch: typeof opts.branch === "string" ? opts.branch : null,
+            pr: typeof opts.pr === "string" ? opts.pr : null,
+            notes: typeof opts.notes === "string" ? opts.notes : null,
+            priority: typeof opts.priority === "string" ? opts.priority.toUpperCase() : null,
+            estimate: typeof opts.estimate === "string" ? opts.estimate : null,
+            owner: typeof opts.owner === "string" ? opts.owner : null,
+            dependsOn: typeof opts.dependsOn === "string" ? opts.dependsOn : null,
+          }),
+        );
+        if (!filePath) return;
+        console.log(`backlog add: ${String(opts.id).trim()} -> ${String(opts.topic).trim()} (${filePath})`);
+      } catch (error) {
+        console.error("backlog add: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  backlog
+    .command("set-status")
+    .description("Update the status cell of a backlog item")
+    .argument("<id>", "Backlog item id")
+    .argument("<status>", "New status")
+    .option("-f, --file <path>", "Backlog markdown path (default: VIBE_BACKLOG_PATH or BACKLOG.md)")
+    .action(async (id: string, status: string, opts) => {
+      try {
+        const filePath = await editBacklogDocument("backlog set-status", resolveBacklogFileOption(opts.file), (markdown) =>
+          setBacklogItemStatus(markdown, id, status),
+        );
+        if (!filePath) return;
+        console.log(`backlog set-status: ${id.trim()} -> ${status.trim()} (${filePath})`);
+      } catch (error) {
+        console.error("backlog set-status: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  backlog
+    .command("move")
+    .description("Move a backlog item to another topic table (creates the topic when missing)")
+    .argument("<id>", "Backlog item id")
+    .requiredOption("--topic <title>", "Target topic title")
+    .option("-f, --file <path>", "Backlog markdown path (default: VIBE_BACKLOG_PATH or BACKLOG.md)")
+    .action(async (id: string, opts) => {
+      try {
+        const filePath = await editBacklogDocument("backlog move", resolveBacklogFileOption(opts.file), (markdown) =>
+          moveBacklogItem(markdown, id, String(opts.topic)),
+        );
+        if (!filePath) return;
+        console.log(`backlog move: ${id.trim()} -> ${String(opts.topic).trim()} (${filePath})`);
+      } catch (error) {
+        console.error("backlog move: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  backlog
+    .command("sync")
+    .description("Two-way sync between backlog rows and GitHub issues (create missing issues, copy state/branch/PR back)")
+    .option("--dry-run", "Print the sync plan without creating issues or writing the backlog", false)
+    .option("--no-create", "Do not create issues for unmatched rows")
+    .option("--label <name>", "Label for created issues (repeatable)", collectRepeatedOption, [])
+    .option("--limit <n>", "Maximum issues/PRs to read from gh", "500")
+    .option("-f, --file <path>", "Backlog markdown path (default: VIBE_BACKLOG_PATH or BACKLOG.md)")
+    .action(async (opts) => {
+      const limitRaw = typeof opts.limit === "string" ? opts.limit.trim() : "500";
+      if (!/^[0-9]+$/.test(limitRaw) || Number(limitRaw) <= 0) {
+        console.error("backlog sync: --limit must be a positive integer.");
+        process.exitCode = 1;
+        return;
+      }
+
+      try {
+        const result = await runBacklogSync(
+          {
+            backlogPath: resolveBacklogFileOption(opts.file),
+            dryRun: Boolean(opts.dryRun),
+            createMissing: Boolean(opts.create),
+            labels: Array.isArray(opts.label) ? opts.label.map((entry: unknown) => String(entry)) : [],
+            limit: Number(limitRaw),
+          },
+          execaFn,
+        );
+
+        console.log(`backlog sync: ${result.path} dry-run=${result.dryRun ? "yes" : "no"}`);
+        console.log(`backlog sync: matched=${result.matches.length} actions=${result.actions.length} skipped=${result.skipped.length}`);
+        for (const match of result.matches) {
+          console.log(`= ${match.itemId} -> #${match.issueNumber} (${match.source})`);
+        }
+
+        if (result.actions.length) {
+          console.log("\nPlanned changes:");
+          for (const action of result.actions) {
+            console.log(formatBacklogSyncAction(action));
+          }
+        }
+
+        if (result.skipped.length) {
+          console.log("\nSkipped:");
+          for (const entry of result.skipped) {
+            console.log(`- ${entry.itemId}: ${entry.reason}`);
+          }
+        }
+
+        if (result.dryRun) {
+          console.log("\nbacklog sync: dry-run complete.");
           return;
         }
 
-        console.log(JSON.stringify(activeTurn, null, 2));
+        for (const created of result.createdIssues) {
+          console.log(`backlog sync: created #${created.issueNumber} for ${created.itemId}${created.url ? ` (${created.url})` : ""}`);
+        }
+        console.log(result.written ? "\nbacklog sync: DONE" : "\nbacklog sync: already in sync.");
       } catch (error) {
-        console.error("turn show: ERROR");
+        console.error("backlog sync: ERROR");
         console.error(error);
         process.exitCode = 1;
       }
     });
 
-  turn
-    .command("end")
-    .description("End active turn context")
-    .action(async () => {
+  backlog
+    .command("next")
+    .description("Rank ready backlog items (dependencies done) by priority and milestone; optionally start a turn")
+    .option("--limit <n>", "Number of ranked candidates to print", "5")
+    .option("--start", "Run turn start for the top pick's open issue", false)
+    .option("--json", "Print the ranking as JSON", false)
+    .option("-f, --file <path>", "Backlog markdown path (default: VIBE_BACKLOG_PATH or BACKLOG.md)")
+    .action(async (opts) => {
+      const limit = parsePositiveInt(Number(opts.limit));
+      if (!limit) {
+        console.error("backlog next: --limit must be a positive integer.");
+        process.exitCode = 1;
+        return;
+      }
+
       try {
-        const deleted = await clearTurnContext();
-        if (!deleted) {
-          console.log("no active turn");
+        const document = await readBacklog({ backlogPath: resolveBacklogFileOption(opts.file) });
+        const backend = await resolveTrackerBackend({ execaFn });
+        const issues = await backend.listOpenIssues(100);
+        const ranking = rankBacklogNext({ markdown: document.markdown, issues });
+        const shown = ranking.candidates.slice(0, limit);
+
+        if (opts.json) {
+          const output = {
+            path: document.path,
+            candidates: shown,
+            excluded: ranking.excluded,
+            gh_retry: getGhLimiter().stats(),
+          };
+          console.log(JSON.stringify(output, null, 2));
+        } else {
+          console.log(`backlog next: ${document.path}`);
+          console.log(`backlog next: ready=${ranking.candidates.length} waiting=${ranking.excluded.length}`);
+          shown.forEach((candidate, index) => {
+            console.log(formatBacklogNextCandidate(candidate, index + 1));
+            for (const reason of candidate.reasons) {
+              console.log(`   - ${reason}`);
+            }
+          });
+          if (ranking.excluded.length) {
+            console.log("\nWaiting on dependencies:");
+            for (const entry of ranking.excluded) {
+              console.log(`- ${entry.item_id}: ${entry.reason}`);
+            }
+          }
+        }
+
+        const top = ranking.candidates[0];
+        if (!top) {
+          if (!opts.json) console.log("\nbacklog next: nothing ready to pick.");
           return;
         }
+        if (!opts.start) return;
 
-        console.log("turn ended");
+        if (!top.issue) {
+          console.error(`backlog next: top pick ${top.item_id} has no open issue; run \`vibe backlog sync\` first.`);
+          process.exitCode = 1;
+          return;
+        }
+
+        console.log(`\nbacklog next: starting turn for ${top.item_id} (issue #${top.issue.number})`);
+        await startTurnForIssue(execaFn, top.issue.number);
       } catch (error) {
-        console.error("turn end: ERROR");
+        console.error("backlog next: ERROR");
         console.error(error);
         process.exitCode = 1;
       }
     });
 
-  program
-    .command("guard")
-    .description("Fail when there is no valid active turn context")
-    .action(async () => {
+  backlog
+    .command("validate")
+    .description("Check statuses, typed columns, duplicate ids and dependency references/cycles")
+    .option("--json", "Print the validation report as JSON", false)
+    .option("-f, --file <path>", "Backlog markdown path (default: VIBE_BACKLOG_PATH or BACKLOG.md)")
+    .action(async (opts) => {
       try {
-        const activeTurn = await readTurnContext();
-        if (!activeTurn) {
-          console.error("guard: no active turn.");
-          console.error(GUARD_REMEDIATION);
-          process.exitCode = GUARD_NO_ACTIVE_TURN_EXIT_CODE;
-          return;
-        }
+        const document = await readBacklog({ backlogPath: resolveBacklogFileOption(opts.file) });
+        const report = validateBacklog(document.markdown);
 
-        const turnErrors = validateTurnContext(activeTurn);
-        if (turnErrors.length > 0) {
-          console.error(`guard: invalid active turn (missing/invalid: ${turnErrors.join(", ")}).`);
-          console.error(GUARD_REMEDIATION);
-          process.exitCode = GUARD_INVALID_TURN_EXIT_CODE;
-          return;
+        if (opts.json) {
+          console.log(JSON.stringify({ path: document.path, ...report }, null, 2));
+        } else {
+          console.log(`backlog validate: ${document.path}`);
+          for (const issue of report.issues) {
+            const label = issue.severity === "error" ? "ERROR" : "WARN";
+            const subject = issue.item_id ?? `topic '${issue.topic}'`;
+            console.log(`${label} line ${issue.line} ${subject} [${issue.code}]: ${issue.message}`);
+          }
+          console.log(`backlog validate: items=${report.items} errors=${report.errors} warnings=${report.warnings}`);
         }
 
-        console.log(
-          `guard: OK issue=${activeTurn.issue_id} branch=${activeTurn.branch} base_branch=${activeTurn.base_branch}`,
-        );
-      } catch (error) {
-        if (error instanceof SyntaxError) {
-          console.error("guard: invalid active turn (malformed turn.json).");
-          console.error(GUARD_REMEDIATION);
-          process.exitCode = GUARD_INVALID_TURN_EXIT_CODE;
+        if (report.errors > 0) {
+          if (!opts.json) console.error("backlog validate: INVALID");
+          process.exitCode = 1;
           return;
         }
-
-        console.error("guard: ERROR");
+        if (!opts.json) console.log("backlog validate: OK");
+      } catch (error) {
+        console.error("backlog validate: ERROR");
         console.error(error);
         process.exitCode = 1;
       }
@@ -1365,13 +2316,15 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
 
   tracker
     .command("bootstrap")
-    .description("Create default module labels and tracker marker in current GitHub repo")
+    .description("Sync module labels from .vibe/tracker.yml (or the built-in modules) and write the tracker marker")
     .option("--dry-run", "Print gh commands without executing them", false)
+    .option("--confirm", "Also apply label renames and deletions from .vibe/tracker.yml", false)
+    .option("--json", "Print the plan, marker path and gh retry stats as JSON", false)
     .action(async (opts) => {
       const dryRun = Boolean(opts.dryRun);
 
       try {
-        await runTrackerBootstrap(execaFn, dryRun);
+        await runTrackerBootstrap(execaFn, { dryRun, confirm: Boolean(opts.confirm), json: Boolean(opts.json) });
       } catch (error) {
         console.error("tracker bootstrap: ERROR");
         console.error(error);
@@ -1385,8 +2338,10 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
     .option("--dry-run", "Print planned gh commands without executing them", false)
     .option("--fallback-module <name>", "Fallback module label/name when inference is uncertain")
     .option("--fallback-milestone <title>", "Fallback milestone title when inference is uncertain")
+    .option("--json", "Print the result and gh retry stats as JSON (never prompts)", false)
     .action(async (opts) => {
       const dryRun = Boolean(opts.dryRun);
+      const json = Boolean(opts.json);
       const fallbackModule = typeof opts.fallbackModule === "string" ? opts.fallbackModule : null;
       const fallbackMilestone = typeof opts.fallbackMilestone === "string" ? opts.fallbackMilestone : null;
 
@@ -1396,13 +2351,22 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
             dryRun,
             fallbackModule,
             fallbackMilestone,
+            ghStdio: json ? "pipe" : "inherit",
           },
           {
             execaFn,
             promptFn: promptTrackerReconcileValue,
+            // Prompts would interleave with the JSON document on stdout.
+            ...(json ? { isInteractive: false } : {}),
           },
         );
 
+        if (json) {
+          console.log(JSON.stringify({ ...result, gh_retry: getGhLimiter().stats() }, null, 2));
+          if (result.applied && result.failedIssueUpdates.length) process.exitCode = 1;
+          return;
+        }
+
         console.log(`tracker reconcile: repo ${result.repo}`);
 
         if (!result.issueUpdates.length) {
@@ -1440,8 +2404,20 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
           return;
         }
 
+        if (result.applied && result.failedIssueUpdates.length) {
+          const failed = result.failedIssueUpdates.length;
+          console.error(`\ntracker reconcile: ${failed} of ${result.issueUpdates.length} issue update(s) failed`);
+          for (const failure of result.failedIssueUpdates) {
+            console.error(`- #${failure.issueNumber}: ${failure.error}`);
+          }
+          printGhRetrySummary("tracker reconcile");
+          process.exitCode = 1;
+          return;
+        }
+
         if (result.applied) {
           console.log(`\ntracker reconcile: DONE (${result.issueUpdates.length} issue update(s))`);
+          printGhRetrySummary("tracker reconcile");
           return;
         }
 
@@ -1453,6 +2429,37 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
       }
     });
 
+  const trackerCache = tracker.command("cache").description("Manage the offline issue cache used by preflight/status");
+
+  trackerCache
+    .command("refresh")
+    .description("Query open issues with gh and rewrite .vibe/runtime/tracker-cache.json")
+    .action(async () => {
+      try {
+        const issues = await createGitHubTrackerBackend(execaFn).listOpenIssues(100);
+        const cachePath = await writeTrackerCache(issues);
+        console.log(`tracker cache: refreshed ${cachePath} (issues=${issues.length})`);
+      } catch (error) {
+        console.error("tracker cache refresh: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  trackerCache
+    .command("clear")
+    .description("Delete the offline issue cache")
+    .action(async () => {
+      try {
+        const cleared = await clearTrackerCache();
+        console.log(cleared ? `tracker cache: cleared ${getTrackerCachePath()}` : "tracker cache: nothing to clear");
+      } catch (error) {
+        console.error("tracker cache clear: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
   const pr = program.command("pr").description("Pull request workflows");
 
   pr
@@ -1578,6 +2585,9 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
           },
           execaFn,
         );
+        if (!result.dryRun) {
+          await recordTurnReview("pr open", reviewResult);
+        }
         console.log(`pr open: review termination=${reviewResult.terminationReason}`);
         console.log(
           `pr open: review policy class=${reviewResult.computeClass} pass_profile=${reviewResult.passProfile} agent_retry_budget=${reviewResult.agentInvocationRetryBudget}`,
@@ -1875,7 +2885,7 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
 
         if (bootstrapTracker) {
           console.log("\ninit: tracker bootstrap");
-          await runTrackerBootstrap(execaFn, dryRun);
+          await runTrackerBootstrap(execaFn, { dryRun });
         } else {
           const reason = skipTracker ? "--skip-tracker" : "default";
           console.log(`\ninit: tracker bootstrap skipped (${reason}).`);
@@ -1898,89 +2908,25 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
   program
     .command("status")
     .description("Show active turn + tracker snapshot")
-    .action(async () => {
-      let gitStatusOutput = "";
-      let currentBranch: string | null = null;
-
-      try {
-        const git = await execaFn("git", ["status", "-sb"], { stdio: "pipe" });
-        gitStatusOutput = git.stdout;
-        console.log(gitStatusOutput);
-        currentBranch = parseCurrentBranchFromStatus(gitStatusOutput);
-      } catch {
-        console.log("git status: (not available)");
-      }
-
-      let activeTurnIssueId: number | null = null;
-      try {
-        const activeTurn = await readTurnContext();
-        if (!activeTurn) {
-          console.log("\nActive turn: none");
-        } else {
-          const errors = validateTurnContext(activeTurn);
-          if (errors.length) {
-            console.log(`\nActive turn: invalid (${errors.join(", ")})`);
-          } else {
-            activeTurnIssueId = activeTurn.issue_id;
-            console.log(
-              `\nActive turn: issue=${activeTurn.issue_id} branch=${activeTurn.branch} started_at=${activeTurn.started_at ?? "-"}`,
-            );
-          }
-        }
-      } catch (error) {
-        if (error instanceof SyntaxError) {
-          console.log("\nActive turn: invalid (malformed turn.json)");
-        } else {
-          console.log("\nActive turn: unavailable");
-        }
-      }
-
-      let openIssues: IssueSnapshot[] = [];
-      let ghAvailable = false;
-      try {
-        openIssues = await listOpenIssueSnapshots(execaFn, 100);
-        ghAvailable = true;
-      } catch (error) {
-        console.log("\nTracker snapshot: unavailable (gh issue list failed)");
-        if (error instanceof Error) {
-          console.log(String(error.message || error));
-        }
-      }
-
-      if (ghAvailable) {
-        printIssueBlock("In-progress issues", findInProgressIssues(openIssues), 10);
-        printHygieneWarnings(openIssues);
-      }
-
-      if (ghAvailable && activeTurnIssueId) {
-        try {
-          const issue = await fetchIssueSnapshotByNumber(execaFn, activeTurnIssueId);
-          if (issue) {
-            const labels = issue.labels.length ? issue.labels.join(", ") : "-";
-            console.log(`\nActive issue: #${issue.number} ${issue.state ?? "OPEN"} ${issue.title}`);
-            console.log(`Active issue labels: ${labels}`);
-            console.log(`Active issue milestone: ${issue.milestone ?? "-"}`);
-          }
-        } catch {
-          console.log("\nActive issue: unavailable from gh");
-        }
+    .option("--json", "Print the snapshot as JSON", false)
+    .option("--fail-on <severity>", "Exit non-zero on hygiene findings at or above info|warn|error")
+    .action(async (opts) => {
+      const failOn = opts.failOn === undefined ? null : normalizeHygieneSeverity(String(opts.failOn));
+      if (opts.failOn !== undefined && !failOn) {
+        console.error(`status: --fail-on must be one of ${HYGIENE_SEVERITIES.join("|")}.`);
+        process.exitCode = 1;
+        return;
       }
 
-      if (ghAvailable && currentBranch) {
-        try {
-          const prs = await listBranchPullRequestSnapshots(execaFn, currentBranch);
-          console.log("\nBranch PRs:");
-          if (!prs.length) {
-            console.log("none");
-          } else {
-            for (const pr of prs) {
-              console.log(`#${pr.number} ${pr.state ?? "-"} ${pr.title}${pr.url ? ` (${pr.url})` : ""}`);
-            }
-          }
-        } catch {
-          console.log("\nBranch PRs: unavailable");
+      const snapshot = await collectStatusSnapshot(execaFn);
+      if (opts.json) {
+        console.log(JSON.stringify(snapshot, null, 2));
+      } else {
+        for (const line of renderStatusSnapshot(snapshot)) {
+          console.log(line);
         }
       }
+      enforceHygieneFailOn("status", snapshot.tracker, failOn);
     });
 
   const ui = program.command("ui").description("Local cockpit web UI");
@@ -2135,6 +3081,9 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
           },
           execaFn,
         );
+        if (!opts.dryRun) {
+          await recordTurnReview("review", result);
+        }
 
         const issueText = result.issueId ? `#${result.issueId}` : "-";
         const branchText = result.branch ?? "-";
@@ -2326,60 +3275,42 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
   program
     .command("preflight")
     .description("Show git + GitHub issue snapshot")
-    .action(async () => {
-      try {
-        const git = await execaFn("git", ["status", "-sb"], { stdio: "pipe" });
-        console.log(git.stdout);
-      } catch {
-        console.log("git status: (not available)");
-      }
-
-      let snapshots: IssueSnapshot[] = [];
-      let ghIssueQueryOk = false;
-      try {
-        snapshots = await listOpenIssueSnapshots(execaFn, 100);
-        ghIssueQueryOk = true;
-        printIssueBlock("Open issues (top 10)", snapshots, 10);
-      } catch (e) {
-        console.log("\nOpen issues: (gh issue list not available here)");
-        if (e instanceof Error) console.log(String(e.message || e));
-      }
-
-      if (ghIssueQueryOk) {
-        printIssueBlock("In-progress issues", findInProgressIssues(snapshots), 10);
-        printHygieneWarnings(snapshots);
-        await printPreflightMilestoneSuggestions(snapshots);
+    .option("--json", "Print the snapshot as JSON", false)
+    .option("--fail-on <severity>", "Exit non-zero on hygiene findings at or above info|warn|error")
+    .action(async (opts) => {
+      const failOn = opts.failOn === undefined ? null : normalizeHygieneSeverity(String(opts.failOn));
+      if (opts.failOn !== undefined && !failOn) {
+        console.error(`preflight: --fail-on must be one of ${HYGIENE_SEVERITIES.join("|")}.`);
+        process.exitCode = 1;
+        return;
       }
 
-      await printPreflightSecuritySummary(execaFn);
-
-      try {
-        const shouldHint = await shouldSuggestTrackerBootstrap();
-        if (shouldHint) {
-          console.log("\nTracker bootstrap suggested:");
-          console.log("Detected .vibe without tracker taxonomy marker.");
-          console.log("Run: vibe tracker bootstrap --dry-run");
-          console.log("Then: vibe tracker bootstrap");
+      const snapshot = await collectPreflightSnapshot(execaFn);
+      if (opts.json) {
+        console.log(JSON.stringify(snapshot, null, 2));
+      } else {
+        for (const line of renderPreflightSnapshot(snapshot)) {
+          console.log(line);
         }
-      } catch {
-        // Ignore hint failures: preflight must remain resilient.
-      }
-
-      try {
-        await printPreflightToolUpdateNotice(execaFn);
-      } catch {
-        // Ignore version-check failures: preflight must remain resilient.
       }
+      enforceHygieneFailOn("preflight", snapshot.tracker, failOn);
     });
 
-  program
+  const postflight = program
     .command("postflight")
-    .description("Validate postflight artifact")
+    .description("Validate postflight artifact (schema v1 or v2)")
     .option("-f, --file <path>", "Path to postflight JSON", ".vibe/artifacts/postflight.json")
     .option("--apply", "Apply tracker updates using gh", false)
     .option("--dry-run", "Print gh commands without executing them", false)
     .option("--skip-branch-cleanup", "Skip automatic local branch cleanup routine", false)
+    .option("--rollback", "Undo reversible tracker updates recorded by a previous --apply", false)
     .action(async (opts) => {
+      if (opts.apply && opts.rollback) {
+        console.error("postflight: --apply and --rollback cannot be combined.");
+        process.exitCode = 1;
+        return;
+      }
+
       const fs = await import("node:fs/promises");
 
       try {
@@ -2387,8 +3318,15 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
         const json = JSON.parse(raw);
 
         if (opts.apply) {
-          const activeTurn = await readTurnContext();
-          if (activeTurn) {
+          const read = await readTurnContext();
+          if (read.state === "invalid") {
+            console.log(
+              `postflight: WARN active turn is invalid (missing/invalid: ${read.errors.join(", ")}); ` +
+                "work fields are not filled from it. Run: vibe turn doctor",
+            );
+          }
+          if (read.state === "active") {
+            const activeTurn = read.turn;
             const work =
               typeof json.work === "object" && json.work !== null ? (json.work as Record<string, unknown>) : {};
             json.work = work;
@@ -2405,7 +3343,7 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
           }
         }
 
-        const parsed = PostflightSchemaV1.safeParse(json);
+        const parsed = PostflightSchema.safeParse(json);
 
         if (!parsed.success) {
           console.error("postflight: INVALID");
@@ -2414,48 +3352,153 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
           return;
         }
 
+        if (!opts.rollback) {
+          const contract = await loadPostflightContract();
+          for (const warning of contract.warnings) {
+            console.log(`postflight: WARN contract: ${warning}`);
+          }
+          const violations = evaluatePostflightContract(parsed.data, contract.requirements, json);
+          for (const violation of violations.filter((entry) => entry.severity === "warn")) {
+            console.log(`postflight: WARN ${violation.id}: ${violation.message}`);
+          }
+          const contractErrors = violations.filter((entry) => entry.severity === "error");
+          if (contractErrors.length) {
+            console.error("postflight: INVALID");
+            for (const violation of contractErrors) {
+              console.error(`- ${violation.id}: ${violation.message}`);
+            }
+            console.error(`Required by interaction_contract.postflight.required in ${contract.contractPath}`);
+            process.exitCode = 1;
+            return;
+          }
+        }
+
         console.log("postflight: OK");
         console.log(`issue: ${parsed.data.work.issue_id} | branch: ${parsed.data.work.branch}`);
+        if (parsed.data.version === 1) {
+          if (!opts.apply) console.log(`postflight: schema v1 (upgrade with: node dist/cli.cjs postflight migrate --file ${opts.file})`);
+        } else {
+          const checks = Object.entries(parsed.data.checks)
+            .filter((entry): entry is [string, PostflightCheckV2] => entry[1] !== undefined)
+            .map(([name, check]) => `${name}=${check.result}`);
+          console.log(`checks: ${checks.join(" ")}`);
+        }
 
-        if (!opts.apply) return;
+        if (!opts.apply && !opts.rollback) return;
+        const mode = opts.rollback ? "--rollback" : "--apply";
 
         const issueIdRaw = parsed.data.work.issue_id;
         const issueId = normalizeGitHubIssueId(issueIdRaw);
 
         if (!issueId) {
-          console.error("postflight --apply: work.issue_id debe ser el número de issue de GitHub (ej: 1, 42).");
+          console.error(`postflight ${mode}: work.issue_id debe ser el número de issue de GitHub (ej: 1, 42).`);
           process.exitCode = 1;
           return;
         }
 
-        await enforcePostflightApplyReviewGate({
-          execaFn,
+        const trackerBackend = await resolveTrackerBackend({ execaFn });
+
+        const journal = await readPostflightJournal({
+          artifactPath: opts.file,
+          artifactId: buildPostflightArtifactId({
+            issueId,
+            branch: parsed.data.work.branch,
+            timestamp: parsed.data.meta.timestamp,
+          }),
           issueId,
-          branch: parsed.data.work.branch,
-          dryRun: Boolean(opts.dryRun),
         });
 
+        if (opts.rollback) {
+          console.log("\nRolling back updates:");
+          const rollback = await rollbackPostflightJournal({
+            backend: trackerBackend,
+            artifactPath: opts.file,
+            journal,
+            dryRun: Boolean(opts.dryRun),
+            onStep: (step, undo) => {
+              const command = (args: string[]) => formatTrackerCommand(trackerBackend.kind, args);
+              if (undo) console.log(`$ ${command(undo)}`);
+              else if (!step.changed) console.log(`- unchanged by apply: ${command(step.args)}`);
+              else console.log(`- not reversible: ${command(step.args)}`);
+            },
+          });
+          const counts = [
+            `reverted=${rollback.reverted.length}`,
+            `unchanged=${rollback.unchanged.length}`,
+            `irreversible=${rollback.irreversible.length}`,
+          ].join(" ");
+          console.log(`\npostflight --rollback: ${counts}${opts.dryRun ? " (dry-run)" : ""}`);
+          return;
+        }
+
+        if (trackerBackend.kind === "github") {
+          await enforcePostflightApplyReviewGate({
+            execaFn,
+            issueId,
+            branch: parsed.data.work.branch,
+            dryRun: Boolean(opts.dryRun),
+          });
+        }
+
         const updates = parsed.data.tracker_updates ?? [];
         const cmds = buildTrackerCommands(issueId, updates);
         const linkedPrNumbers = collectLinkedPrNumbers(updates);
+        const projectUpdates = collectProjectFieldUpdates(updates);
+        // Projects v2 and PR bodies only exist on GitHub; the local backend applies the issue commands alone.
+        const githubProjectUpdates = trackerBackend.kind === "github" ? projectUpdates : [];
 
-        if (!cmds.length && !linkedPrNumbers.length) {
+        if (!cmds.length && !githubProjectUpdates.length) {
           console.log("postflight --apply: no hay tracker_updates aplicables.");
         } else {
-          console.log("\nApplying updates:");
-          for (const c of cmds) {
-            printGhCommand(c.args);
-            if (!opts.dryRun) {
-              await runGhWithRetry(execaFn, c.args, { stdio: "inherit" });
-            }
+          const heading = trackerBackend.kind === "github" ? "Applying updates:" : "Applying updates (local tracker):";
+          console.log(`\n${heading}`);
+          try {
+            await applyJournaledTrackerCommands({
+              execaFn,
+              backend: trackerBackend,
+              artifactPath: opts.file,
+              journal,
+              cmds,
+              dryRun: Boolean(opts.dryRun),
+            });
+            await applyProjectFieldUpdates({
+              execaFn,
+              backend: trackerBackend,
+              artifactPath: opts.file,
+              journal,
+              issueId,
+              updates: githubProjectUpdates,
+              dryRun: Boolean(opts.dryRun),
+            });
+          } catch (stepError) {
+            console.error(
+              `postflight --apply: step failed; completed steps are recorded in ${getPostflightJournalPath(opts.file)}.`,
+            );
+            console.error(`Re-run to resume: node dist/cli.cjs postflight --file ${opts.file} --apply`);
+            throw stepError;
           }
 
-          await syncPrBodiesWithIssueReference({
-            execaFn,
+          if (trackerBackend.kind === "github") {
+            await syncPrBodiesWithIssueReference({
+              execaFn,
+              issueId,
+              prNumbers: linkedPrNumbers,
+              dryRun: Boolean(opts.dryRun),
+            });
+          }
+        }
+        if (projectUpdates.length > githubProjectUpdates.length) {
+          console.log(`- skipped ${projectUpdates.length} project_field_set update(s): GitHub Projects only`);
+        }
+
+        if (!opts.dryRun) {
+          const archivePath = await archivePostflightArtifact({
+            artifactPath: opts.file,
             issueId,
-            prNumbers: linkedPrNumbers,
-            dryRun: Boolean(opts.dryRun),
+            timestamp: parsed.data.meta.timestamp,
+            artifact: json,
           });
+          console.log(`postflight --apply: archived ${archivePath}`);
         }
 
         if (!opts.skipBranchCleanup) {
@@ -2498,6 +3541,175 @@ export function createProgram(execaFn: ExecaFn = execa): Command {
       }
     });
 
+  postflight
+    .command("migrate")
+    .description("Upgrade a v1 postflight artifact to schema v2 in place (honours postflight --file and --dry-run)")
+    .action(async (_opts, command: Command) => {
+      const fs = await import("node:fs/promises");
+      // --file/--dry-run belong to `postflight`, which parses them wherever they appear on the command line.
+      const opts = command.optsWithGlobals<{ file: string; dryRun: boolean }>();
+
+      try {
+        const migration = migratePostflightToV2(JSON.parse(await fs.readFile(opts.file, "utf8")));
+        for (const warning of migration.warnings) {
+          console.log(`postflight migrate: WARN ${warning}`);
+        }
+        if (migration.from === 2) {
+          console.log(`postflight migrate: ${opts.file} is already v2.`);
+          return;
+        }
+
+        const content = `${JSON.stringify(migration.postflight, null, 2)}\n`;
+        if (opts.dryRun) {
+          console.log(content);
+          console.log("postflight migrate: dry-run (file not written).");
+          return;
+        }
+        await fs.writeFile(opts.file, content, "utf8");
+        console.log(`postflight migrate: upgraded ${opts.file} from v1 to v2.`);
+      } catch (error) {
+        console.error("postflight migrate: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  postflight
+    .command("draft")
+    .description("Generate a v2 postflight artifact from the active turn (honours postflight --file and --dry-run)")
+    .option("--run-tests", "Run the test command and record its result under checks.tests", false)
+    .option("--test-cmd <command>", "Test command to run (default: postflight.test_command in .vibe/contract.yml)")
+    .option("--force", "Overwrite an existing postflight artifact", false)
+    .action(async (_opts, command: Command) => {
+      const fs = await import("node:fs/promises");
+      const path = await import("node:path");
+      const opts = command.optsWithGlobals<{
+        file: string;
+        dryRun: boolean;
+        runTests: boolean;
+        testCmd?: string;
+        force: boolean;
+      }>();
+
+      try {
+        const read = await readTurnContext();
+        if (read.state === "none") {
+          console.error("postflight draft: no active turn.");
+          console.error(GUARD_REMEDIATION);
+          process.exitCode = 1;
+          return;
+        }
+        if (read.state === "invalid") {
+          console.error(`postflight draft: invalid active turn (missing/invalid: ${read.errors.join(", ")}).`);
+          console.error(TURN_DOCTOR_REMEDIATION);
+          process.exitCode = 1;
+          return;
+        }
+        const activeTurn = read.turn;
+
+        if (!opts.dryRun && !opts.force) {
+          const exists = await fs
+            .stat(opts.file)
+            .then(() => true)
+            .catch(() => false);
+          if (exists) {
+            console.error(`postflight draft: ${opts.file} already exists. Re-run with --force to overwrite it.`);
+            process.exitCode = 1;
+            return;
+          }
+        }
+
+        const draft = await buildPostflightDraft({
+          execaFn,
+          turn: activeTurn,
+          runTests: Boolean(opts.runTests || opts.testCmd),
+          testCommand: opts.testCmd ?? null,
+        });
+        for (const warning of draft.warnings) {
+          console.log(`postflight draft: WARN ${warning}`);
+        }
+
+        const content = `${JSON.stringify(draft.postflight, null, 2)}\n`;
+        const checks = Object.entries(draft.postflight.checks)
+          .filter((entry): entry is [string, PostflightCheckV2] => entry[1] !== undefined)
+          .map(([name, check]) => `${name}=${check.result}`);
+        const summary = `issue=#${activeTurn.issue_id} changed_files=${draft.postflight.work.changed_files.length} review_runs=${draft.postflight.work.review_run_ids.length}`;
+        if (opts.dryRun) {
+          console.log(content);
+          console.log(`postflight draft: ${summary}`);
+          console.log(`checks: ${checks.join(" ")}`);
+          console.log("postflight draft: dry-run (file not written).");
+          return;
+        }
+
+        await fs.mkdir(path.dirname(opts.file), { recursive: true });
+        await fs.writeFile(opts.file, content, "utf8");
+        console.log(`postflight draft: wrote ${opts.file} (${summary})`);
+        console.log(`checks: ${checks.join(" ")}`);
+        console.log(`Next: fill in next_actions and risks, then run: node dist/cli.cjs postflight --file ${opts.file}`);
+      } catch (error) {
+        console.error("postflight draft: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
+  postflight
+    .command("log")
+    .description("Show archived postflight artifacts of an issue: test results, next actions and risks per turn")
+    .requiredOption("--issue <n>", "Issue number")
+    .option("--limit <n>", "Show only the most recent N artifacts")
+    .option("--json", "Print archived entries as JSON", false)
+    .action(async (_opts, command: Command) => {
+      // --file belongs to `postflight`; archives are read from `history/<issue>/` next to it.
+      const opts = command.optsWithGlobals<{ file: string; issue: string; limit?: string; json: boolean }>();
+
+      try {
+        const issueId = parsePositiveInt(Number(opts.issue));
+        if (!issueId) {
+          console.error("postflight log: --issue debe ser un entero positivo.");
+          process.exitCode = 1;
+          return;
+        }
+        const limit = opts.limit === undefined ? null : parsePositiveInt(Number(opts.limit));
+        if (opts.limit !== undefined && !limit) {
+          console.error("postflight log: --limit must be a positive integer.");
+          process.exitCode = 1;
+          return;
+        }
+
+        const history = await readPostflightHistory({ artifactPath: opts.file, issueId });
+        const entries = limit ? history.slice(-limit) : history;
+        if (opts.json) {
+          console.log(JSON.stringify(entries, null, 2));
+          return;
+        }
+        if (!entries.length) {
+          console.log(`postflight log: no archived postflight artifacts for #${issueId}`);
+          return;
+        }
+
+        for (const entry of entries) {
+          console.log(`\n${entry.timestamp} branch=${entry.branch} (schema v${entry.version})`);
+          const checks = entry.checks.map((check) =>
+            check.command ? `${check.name}=${check.result} (${check.command})` : `${check.name}=${check.result}`,
+          );
+          console.log(`checks: ${checks.join(" ") || "-"}`);
+          console.log("next_actions:");
+          for (const action of entry.next_actions) {
+            console.log(`- ${action}`);
+          }
+          console.log(`risks: ${entry.risks.summary}`);
+          console.log(`rollback: ${entry.risks.rollback_plan}`);
+        }
+        console.log(`\npostflight log: issue=#${issueId} artifacts=${entries.length}/${history.length}`);
+      } catch (error) {
+        console.error("postflight log: ERROR");
+        console.error(error);
+        process.exitCode = 1;
+      }
+    });
+
   return program;
 }
 
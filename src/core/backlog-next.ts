@@ -0,0 +1,122 @@
+import { listBacklogItems, type BacklogItemLocation } from "./backlog";
+import { matchBacklogItemIssue } from "./backlog-sync";
+import { BacklogPrioritySchema, parseBacklogDependencies, type BacklogPriority } from "./backlog-validate";
+
+const PICKABLE_STATUS = "next";
+const DONE_STATUS = "done";
+
+export type BacklogNextIssue = {
+  number: number;
+  title: string;
+  milestone: string | null;
+  url: string | null;
+};
+
+export type BacklogNextCandidate = {
+  topic: string;
+  item_id: string;
+  feature: string;
+  priority: BacklogPriority | null;
+  milestone: string | null;
+  issue: { number: number; url: string | null } | null;
+  reasons: string[];
+};
+
+export type BacklogNextExclusion = {
+  item_id: string;
+  reason: string;
+};
+
+export type BacklogNextRanking = {
+  candidates: BacklogNextCandidate[];
+  excluded: BacklogNextExclusion[];
+};
+
+function normalizeId(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function parsePriority(value: string | undefined): BacklogPriority | null {
+  const parsed = BacklogPrioritySchema.safeParse((value ?? "").trim().toUpperCase());
+  return parsed.success ? parsed.data : null;
+}
+
+function priorityRank(priority: BacklogPriority | null): number {
+  return priority ? BacklogPrioritySchema.options.indexOf(priority) : BacklogPrioritySchema.options.length;
+}
+
+function compareMilestones(left: string | null, right: string | null): number {
+  if (left === right) return 0;
+  if (left === null) return 1;
+  if (right === null) return -1;
+  return left.localeCompare(right, undefined, { numeric: true, sensitivity: "base" });
+}
+
+/**
+ * Ranks `next` items whose dependencies are all `done`.
+ * Order: priority (P0 first, unset last), milestone (natural order, none last), linked open issue first,
+ * then backlog order.
+ */
+export function rankBacklogNext(params: { markdown: string; issues: BacklogNextIssue[] }): BacklogNextRanking {
+  const entries = listBacklogItems(params.markdown);
+  const statusById = new Map<string, string>();
+  for (const entry of entries) {
+    const key = normalizeId(entry.item.id);
+    if (key && !statusById.has(key)) statusById.set(key, entry.item.status.trim().toLowerCase());
+  }
+
+  const ranked: Array<{ candidate: BacklogNextCandidate; order: number }> = [];
+  const excluded: BacklogNextExclusion[] = [];
+
+  entries.forEach((entry: BacklogItemLocation, order) => {
+    const itemId = entry.item.id;
+    if (!itemId) return;
+
+    const status = entry.item.status.trim().toLowerCase();
+    if (status !== PICKABLE_STATUS) return;
+
+    const dependencies = parseBacklogDependencies(entry.item.dependsOn);
+    const pending = dependencies.filter((dependency) => statusById.get(normalizeId(dependency)) !== DONE_STATUS);
+    if (pending.length) {
+      excluded.push({ item_id: itemId, reason: `waiting on ${pending.join(", ")}` });
+      return;
+    }
+
+    const priority = parsePriority(entry.item.priority);
+    const matched = matchBacklogItemIssue(entry, params.issues);
+    const milestone = matched?.issue.milestone ?? null;
+    const reasons = [
+      priority ? `priority ${priority}` : "no priority set",
+      milestone ? `milestone ${milestone}` : "no milestone",
+      matched ? `open issue #${matched.issue.number} (matched by ${matched.source})` : "no open issue (run `vibe backlog sync`)",
+    ];
+    if (dependencies.length) {
+      reasons.push(`dependencies done: ${dependencies.join(", ")}`);
+    }
+
+    ranked.push({
+      order,
+      candidate: {
+        topic: entry.topic,
+        item_id: itemId,
+        feature: entry.item.feature,
+        priority,
+        milestone,
+        issue: matched ? { number: matched.issue.number, url: matched.issue.url } : null,
+        reasons,
+      },
+    });
+  });
+
+  ranked.sort((left, right) => {
+    const byPriority = priorityRank(left.candidate.priority) - priorityRank(right.candidate.priority);
+    if (byPriority) return byPriority;
+    const byMilestone = compareMilestones(left.candidate.milestone, right.candidate.milestone);
+    if (byMilestone) return byMilestone;
+    const byIssue = Number(right.candidate.issue !== null) - Number(left.candidate.issue !== null);
+    if (byIssue) return byIssue;
+    return left.order - right.order;
+  });
+
+  return { candidates: ranked.map((entry) => entry.candidate), excluded };
+}
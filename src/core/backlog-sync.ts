@@ -0,0 +1,411 @@
+import { execa } from "execa";
+import { listBacklogItems, updateBacklogItem, type BacklogItemLocation, type BacklogItemPatch } from "./backlog";
+import { createIssueWithBodyFile } from "./gh-issue";
+import { runGhWithRetry } from "./gh-retry";
+import { extractMarkdownLinks } from "./parser";
+import { hasIssueAutocloseReference } from "./postflight";
+import { readBacklog, saveBacklog, type BacklogPathOptions } from "./service";
+
+type ExecaFn = typeof execa;
+type JsonRecord = Record<string, unknown>;
+
+const DEFAULT_SYNC_LIMIT = 500;
+const BACKLOG_ITEM_MARKER_REGEX = /<!-- vibe:backlog-item:([^\s>]+) -->/i;
+const DONE_STATUS = "done";
+const ONGOING_STATUS = "ongoing";
+const REOPENED_STATUS = "next";
+
+export type BacklogSyncIssue = {
+  number: number;
+  title: string;
+  state: string;
+  body: string;
+  url: string | null;
+  labels: string[];
+};
+
+export type BacklogSyncPullRequest = {
+  number: number;
+  state: string;
+  url: string | null;
+  headRefName: string;
+  body: string;
+};
+
+export type BacklogSyncMatchSource = "link" | "marker" | "title";
+
+/** Minimal issue shape needed to match a backlog row; `body` enables marker matching. */
+export type BacklogIssueRef = {
+  number: number;
+  title: string;
+  body?: string;
+};
+
+export type BacklogSyncAction =
+  | {
+      kind: "create-issue";
+      itemId: string;
+      topic: string;
+      title: string;
+      body: string;
+    }
+  | {
+      kind: "update-cell";
+      itemId: string;
+      issueNumber: number;
+      field: Exclude<keyof BacklogItemPatch, "feature">;
+      from: string;
+      to: string;
+    };
+
+export type BacklogSyncMatch = {
+  itemId: string;
+  issueNumber: number;
+  source: BacklogSyncMatchSource;
+};
+
+export type BacklogSyncPlan = {
+  matches: BacklogSyncMatch[];
+  actions: BacklogSyncAction[];
+  skipped: Array<{ itemId: string; reason: string }>;
+};
+
+export type BacklogSyncOptions = BacklogPathOptions & {
+  dryRun: boolean;
+  createMissing?: boolean;
+  labels?: string[];
+  limit?: number;
+};
+
+export type BacklogSyncResult = BacklogSyncPlan & {
+  path: string;
+  dryRun: boolean;
+  createdIssues: Array<{ itemId: string; issueNumber: number; url: string | null }>;
+  written: boolean;
+};
+
+function parseJsonArray(stdout: string, context: string): JsonRecord[] {
+  const parsed = JSON.parse(stdout) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${context}: expected array response`);
+  }
+  return parsed.filter((value): value is JsonRecord => typeof value === "object" && value !== null);
+}
+
+function parseLabelNames(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => {
+      if (typeof entry === "object" && entry !== null) {
+        const name = (entry as Record<string, unknown>).name;
+        if (typeof name === "string") return name.trim();
+      }
+      return "";
+    })
+    .filter(Boolean);
+}
+
+function parseSyncIssues(stdout: string): BacklogSyncIssue[] {
+  const issues: BacklogSyncIssue[] = [];
+  for (const row of parseJsonArray(stdout, "gh issue list")) {
+    const number = row.number;
+    if (typeof number !== "number" || !Number.isInteger(number) || number <= 0) continue;
+    issues.push({
+      number,
+      title: typeof row.title === "string" ? row.title.trim() : "",
+      state: typeof row.state === "string" ? row.state.trim().toUpperCase() : "OPEN",
+      body: typeof row.body === "string" ? row.body : "",
+      url: typeof row.url === "string" ? row.url.trim() || null : null,
+      labels: parseLabelNames(row.labels),
+    });
+  }
+  return issues;
+}
+
+function parseSyncPullRequests(stdout: string): BacklogSyncPullRequest[] {
+  const prs: BacklogSyncPullRequest[] = [];
+  for (const row of parseJsonArray(stdout, "gh pr list")) {
+    const number = row.number;
+    if (typeof number !== "number" || !Number.isInteger(number) || number <= 0) continue;
+    prs.push({
+      number,
+      state: typeof row.state === "string" ? row.state.trim().toUpperCase() : "OPEN",
+      url: typeof row.url === "string" ? row.url.trim() || null : null,
+      headRefName: typeof row.headRefName === "string" ? row.headRefName.trim() : "",
+      body: typeof row.body === "string" ? row.body : "",
+    });
+  }
+  return prs;
+}
+
+function extractIssueNumberFromUrl(url: string): number | null {
+  const match = /\/issues\/([0-9]+)\b/.exec(url);
+  return match ? Number(match[1]) : null;
+}
+
+function normalizeItemId(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function buildBacklogIssueMarker(itemId: string): string {
+  return `<!-- vibe:backlog-item:${itemId.trim()} -->`;
+}
+
+export function buildBacklogIssueTitle(entry: BacklogItemLocation): string {
+  return `${entry.item.id}: ${entry.item.feature}`;
+}
+
+export function buildBacklogIssueBody(entry: BacklogItemLocation): string {
+  const notes = entry.item.notes && entry.item.notes !== "-" ? entry.item.notes : "";
+  return [
+    `Backlog item \`${entry.item.id}\` (topic: ${entry.topic}).`,
+    ...(notes ? ["", notes] : []),
+    "",
+    buildBacklogIssueMarker(entry.item.id),
+    "",
+  ].join("\n");
+}
+
+function linkedIssueNumber(entry: BacklogItemLocation, issueNumbers: Set<number>): number | null {
+  const cells = [entry.item.feature, entry.item.pr, entry.item.notes];
+  for (const cell of cells) {
+    for (const link of extractMarkdownLinks(cell)) {
+      const number = extractIssueNumberFromUrl(link.url);
+      if (number && issueNumbers.has(number)) return number;
+    }
+  }
+  return null;
+}
+
+function titleMatchesItemId(title: string, itemId: string): boolean {
+  const escaped = escapeRegex(itemId.trim());
+  return new RegExp(`^(?:\\[${escaped}\\]|${escaped}\\s*:)`, "i").test(title.trim());
+}
+
+export function matchBacklogItemIssue<T extends BacklogIssueRef>(
+  entry: BacklogItemLocation,
+  issues: T[],
+): { issue: T; source: BacklogSyncMatchSource } | null {
+  const issueNumbers = new Set(issues.map((issue) => issue.number));
+  const byLink = linkedIssueNumber(entry, issueNumbers);
+  if (byLink) {
+    const issue = issues.find((candidate) => candidate.number === byLink);
+    if (issue) return { issue, source: "link" };
+  }
+
+  const itemId = normalizeItemId(entry.item.id);
+  const byMarker = issues.find((issue) => {
+    const marker = BACKLOG_ITEM_MARKER_REGEX.exec(issue.body ?? "");
+    return marker ? normalizeItemId(marker[1] ?? "") === itemId : false;
+  });
+  if (byMarker) return { issue: byMarker, source: "marker" };
+
+  const byTitle = issues.find((issue) => titleMatchesItemId(issue.title, entry.item.id));
+  if (byTitle) return { issue: byTitle, source: "title" };
+
+  return null;
+}
+
+function findIssuePullRequest(issueNumber: number, prs: BacklogSyncPullRequest[]): BacklogSyncPullRequest | null {
+  const branchPrefix = `issue-${issueNumber}-`;
+  const candidates = prs
+    .filter(
+      (pr) => hasIssueAutocloseReference(pr.body, String(issueNumber)) || pr.headRefName.startsWith(branchPrefix),
+    )
+    .sort((left, right) => {
+      const leftOpen = left.state === "OPEN" ? 1 : 0;
+      const rightOpen = right.state === "OPEN" ? 1 : 0;
+      if (leftOpen !== rightOpen) return rightOpen - leftOpen;
+      return right.number - left.number;
+    });
+  return candidates[0] ?? null;
+}
+
+function resolveSyncedStatus(current: string, issue: BacklogSyncIssue): string {
+  if (issue.state === "CLOSED") return DONE_STATUS;
+
+  const inProgress = issue.labels.some((label) => label.trim().toLowerCase() === "status:in-progress");
+  if (inProgress) return ONGOING_STATUS;
+  if (current.trim().toLowerCase() === DONE_STATUS) return REOPENED_STATUS;
+  return current;
+}
+
+function cellReferencesPr(cell: string, prNumber: number): boolean {
+  return new RegExp(`#${prNumber}\\b`).test(cell);
+}
+
+function issueLinkText(issue: { number: number; url: string | null }): string {
+  return issue.url ? `[#${issue.number}](${issue.url})` : `#${issue.number}`;
+}
+
+function appendNotesLink(notes: string, issue: { number: number; url: string | null }): string {
+  const base = notes.trim() === "-" ? "" : notes.trim();
+  const link = issueLinkText(issue);
+  return base ? `${base} ${link}` : link;
+}
+
+export function planBacklogSync(params: {
+  markdown: string;
+  issues: BacklogSyncIssue[];
+  pullRequests: BacklogSyncPullRequest[];
+  createMissing?: boolean;
+}): BacklogSyncPlan {
+  const createMissing = params.createMissing ?? true;
+  const matches: BacklogSyncMatch[] = [];
+  const actions: BacklogSyncAction[] = [];
+  const skipped: BacklogSyncPlan["skipped"] = [];
+  const claimedIssues = new Set<number>();
+
+  for (const entry of listBacklogItems(params.markdown)) {
+    const itemId = entry.item.id;
+    if (!itemId) continue;
+
+    const matched = matchBacklogItemIssue(entry, params.issues);
+    if (!matched) {
+      if (entry.item.status.trim().toLowerCase() === DONE_STATUS) {
+        skipped.push({ itemId, reason: "done item without linked issue" });
+      } else if (!createMissing) {
+        skipped.push({ itemId, reason: "no matching issue (creation disabled)" });
+      } else {
+        actions.push({
+          kind: "create-issue",
+          itemId,
+          topic: entry.topic,
+          title: buildBacklogIssueTitle(entry),
+          body: buildBacklogIssueBody(entry),
+        });
+      }
+      continue;
+    }
+
+    const { issue, source } = matched;
+    if (claimedIssues.has(issue.number)) {
+      skipped.push({ itemId, reason: `issue #${issue.number} already matched by another row` });
+      continue;
+    }
+    claimedIssues.add(issue.number);
+    matches.push({ itemId, issueNumber: issue.number, source });
+
+    const pushUpdate = (field: Exclude<keyof BacklogItemPatch, "feature">, from: string, to: string): void => {
+      if (from === to) return;
+      actions.push({ kind: "update-cell", itemId, issueNumber: issue.number, field, from, to });
+    };
+
+    pushUpdate("status", entry.item.status, resolveSyncedStatus(entry.item.status, issue));
+
+    const pr = findIssuePullRequest(issue.number, params.pullRequests);
+    if (pr) {
+      if (pr.headRefName && entry.item.branch !== pr.headRefName) {
+        pushUpdate("branch", entry.item.branch, pr.headRefName);
+      }
+      if (!cellReferencesPr(entry.item.pr, pr.number)) {
+        pushUpdate("pr", entry.item.pr, pr.url ? `[#${pr.number}](${pr.url})` : `#${pr.number}`);
+      }
+    }
+
+    if (source !== "link" && !new RegExp(`#${issue.number}\\b`).test(`${entry.item.notes} ${entry.item.pr}`)) {
+      pushUpdate("notes", entry.item.notes, appendNotesLink(entry.item.notes, issue));
+    }
+  }
+
+  return { matches, actions, skipped };
+}
+
+export function applyBacklogSyncActions(markdown: string, actions: BacklogSyncAction[]): string {
+  let next = markdown;
+  for (const action of actions) {
+    if (action.kind !== "update-cell") continue;
+    next = updateBacklogItem(next, action.itemId, { [action.field]: action.to });
+  }
+  return next;
+}
+
+async function listSyncIssues(execaFn: ExecaFn, limit: number): Promise<BacklogSyncIssue[]> {
+  const response = await runGhWithRetry(
+    execaFn,
+    ["issue", "list", "--state", "all", "-L", String(limit), "--json", "number,title,state,body,url,labels"],
+    { stdio: "pipe" },
+  );
+  return parseSyncIssues(response.stdout);
+}
+
+async function listSyncPullRequests(execaFn: ExecaFn, limit: number): Promise<BacklogSyncPullRequest[]> {
+  const response = await runGhWithRetry(
+    execaFn,
+    ["pr", "list", "--state", "all", "-L", String(limit), "--json", "number,state,url,headRefName,body"],
+    { stdio: "pipe" },
+  );
+  return parseSyncPullRequests(response.stdout);
+}
+
+export async function runBacklogSync(options: BacklogSyncOptions, execaFn: ExecaFn = execa): Promise<BacklogSyncResult> {
+  const limit = options.limit && options.limit > 0 ? Math.trunc(options.limit) : DEFAULT_SYNC_LIMIT;
+  const document = await readBacklog(options);
+  const [issues, pullRequests] = await Promise.all([
+    listSyncIssues(execaFn, limit),
+    listSyncPullRequests(execaFn, limit),
+  ]);
+
+  const plan = planBacklogSync({
+    markdown: document.markdown,
+    issues,
+    pullRequests,
+    createMissing: options.createMissing,
+  });
+
+  const result: BacklogSyncResult = {
+    ...plan,
+    path: document.path,
+    dryRun: options.dryRun,
+    createdIssues: [],
+    written: false,
+  };
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  const linkActions: BacklogSyncAction[] = [];
+  for (const action of plan.actions) {
+    if (action.kind !== "create-issue") continue;
+
+    const created = await createIssueWithBodyFile({
+      execaFn,
+      title: action.title,
+      body: action.body,
+      labels: options.labels ?? [],
+    });
+    const url = created.stdout.trim().split(/\r?\n/).pop()?.trim() || null;
+    const issueNumber = url ? extractIssueNumberFromUrl(url) : null;
+    if (!issueNumber) {
+      throw new Error(`backlog sync: unable to resolve created issue number for '${action.itemId}'.`);
+    }
+
+    result.createdIssues.push({ itemId: action.itemId, issueNumber, url });
+    const current = listBacklogItems(document.markdown).find(
+      (entry) => normalizeItemId(entry.item.id) === normalizeItemId(action.itemId),
+    );
+    const notes = current?.item.notes ?? "";
+    linkActions.push({
+      kind: "update-cell",
+      itemId: action.itemId,
+      issueNumber,
+      field: "notes",
+      from: notes,
+      to: appendNotesLink(notes, { number: issueNumber, url }),
+    });
+  }
+
+  const next = applyBacklogSyncActions(document.markdown, [...plan.actions, ...linkActions]);
+  if (next !== document.markdown) {
+    await saveBacklog(next, options);
+    result.written = true;
+  }
+  result.actions = [...plan.actions, ...linkActions];
+
+  return result;
+}
@@ -0,0 +1,198 @@
+import { z } from "zod";
+import { listBacklogItems, type BacklogItemLocation } from "./backlog";
+import { locateBacklogTables, type BacklogItem } from "./parser";
+import { ReviewSeveritySchema } from "./review-agent";
+
+export const BACKLOG_STATUSES = ["next", "ongoing", "blocked", "done"] as const;
+export type BacklogStatus = (typeof BACKLOG_STATUSES)[number];
+
+export const BacklogPrioritySchema = ReviewSeveritySchema;
+export type BacklogPriority = z.infer<typeof BacklogPrioritySchema>;
+
+const BACKLOG_ID_REGEX = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const BACKLOG_ESTIMATE_REGEX = /^[0-9]+(?:\.[0-9]+)?(?:h|d|w|pts?)?$/;
+const BACKLOG_OWNER_REGEX = /^@?[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?$/;
+
+const BacklogIdSchema = z.string().regex(BACKLOG_ID_REGEX, "must be letters, digits, '.', '_' or '-'");
+
+export const BacklogItemSchema = z.object({
+  id: BacklogIdSchema,
+  feature: z.string().min(1, "cannot be empty"),
+  status: z.enum(BACKLOG_STATUSES),
+  branch: z.string().nullable(),
+  pr: z.string().nullable(),
+  notes: z.string().nullable(),
+  priority: BacklogPrioritySchema.nullable(),
+  estimate: z.string().regex(BACKLOG_ESTIMATE_REGEX, "must look like 4h, 2d, 1w or 3pts").nullable(),
+  owner: z.string().regex(BACKLOG_OWNER_REGEX, "must be a GitHub login (optionally prefixed with @)").nullable(),
+  depends_on: z.array(BacklogIdSchema),
+});
+export type BacklogItemRecord = z.infer<typeof BacklogItemSchema>;
+
+export type BacklogValidationCode =
+  | "invalid-table"
+  | "invalid-field"
+  | "unknown-status"
+  | "duplicate-id"
+  | "missing-dependency"
+  | "dependency-cycle";
+
+export type BacklogValidationIssue = {
+  severity: "error" | "warning";
+  code: BacklogValidationCode;
+  item_id: string | null;
+  topic: string;
+  line: number;
+  message: string;
+};
+
+export type BacklogValidationReport = {
+  items: number;
+  errors: number;
+  warnings: number;
+  issues: BacklogValidationIssue[];
+};
+
+function optionalCell(value: string | undefined): string | null {
+  const trimmed = (value ?? "").trim();
+  return trimmed && trimmed !== "-" ? trimmed : null;
+}
+
+export function parseBacklogDependencies(value: string | undefined): string[] {
+  const cell = optionalCell(value);
+  if (!cell) return [];
+  return cell
+    .split(/[,\s]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/** Maps the raw table cells of an item to the typed record checked by `BacklogItemSchema`. */
+export function toBacklogItemRecord(item: BacklogItem): unknown {
+  return {
+    id: item.id,
+    feature: item.feature,
+    status: item.status.trim().toLowerCase(),
+    branch: optionalCell(item.branch),
+    pr: optionalCell(item.pr),
+    notes: optionalCell(item.notes),
+    priority: optionalCell(item.priority)?.toUpperCase() ?? null,
+    estimate: optionalCell(item.estimate)?.toLowerCase() ?? null,
+    owner: optionalCell(item.owner),
+    depends_on: parseBacklogDependencies(item.dependsOn),
+  };
+}
+
+function normalizeId(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function issueFor(
+  entry: BacklogItemLocation,
+  severity: BacklogValidationIssue["severity"],
+  code: BacklogValidationCode,
+  message: string,
+): BacklogValidationIssue {
+  return { severity, code, item_id: entry.item.id || null, topic: entry.topic, line: entry.line + 1, message };
+}
+
+function findDependencyCycles(graph: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (node: string): void => {
+    state.set(node, "visiting");
+    stack.push(node);
+    for (const next of graph.get(node) ?? []) {
+      if (!graph.has(next)) continue;
+      const nextState = state.get(next);
+      if (nextState === "visiting") {
+        cycles.push([...stack.slice(stack.indexOf(next)), next]);
+      } else if (!nextState) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(node, "done");
+  };
+
+  for (const node of graph.keys()) {
+    if (!state.has(node)) visit(node);
+  }
+  return cycles;
+}
+
+export function validateBacklog(markdown: string): BacklogValidationReport {
+  const issues: BacklogValidationIssue[] = [];
+
+  for (const layout of locateBacklogTables(markdown)) {
+    if (layout.headerLine !== null && !layout.headerMatches) {
+      issues.push({
+        severity: "warning",
+        code: "invalid-table",
+        item_id: null,
+        topic: layout.title,
+        line: layout.headerLine + 1,
+        message: "table header not recognized; its rows are ignored.",
+      });
+    }
+  }
+
+  const entries = listBacklogItems(markdown);
+  const byId = new Map<string, BacklogItemLocation>();
+  const graph = new Map<string, string[]>();
+
+  for (const entry of entries) {
+    const parsed = BacklogItemSchema.safeParse(toBacklogItemRecord(entry.item));
+    if (!parsed.success) {
+      for (const problem of parsed.error.issues) {
+        const field = String(problem.path[0] ?? "item");
+        if (field === "status") {
+          issues.push(
+            issueFor(
+              entry,
+              "error",
+              "unknown-status",
+              `unknown status '${entry.item.status}' (expected: ${BACKLOG_STATUSES.join(", ")}).`,
+            ),
+          );
+        } else {
+          issues.push(issueFor(entry, "error", "invalid-field", `${field}: ${problem.message}`));
+        }
+      }
+    }
+
+    const key = normalizeId(entry.item.id);
+    if (!key) continue;
+    const first = byId.get(key);
+    if (first) {
+      issues.push(issueFor(entry, "error", "duplicate-id", `duplicate id (first defined on line ${first.line + 1}).`));
+      continue;
+    }
+    byId.set(key, entry);
+    graph.set(key, parseBacklogDependencies(entry.item.dependsOn).map(normalizeId));
+  }
+
+  for (const entry of byId.values()) {
+    for (const dependency of new Set(parseBacklogDependencies(entry.item.dependsOn))) {
+      if (!byId.has(normalizeId(dependency))) {
+        issues.push(issueFor(entry, "error", "missing-dependency", `depends on unknown item '${dependency}'.`));
+      }
+    }
+  }
+
+  for (const cycle of findDependencyCycles(graph)) {
+    const entry = byId.get(cycle[0] ?? "") as BacklogItemLocation;
+    const path = cycle.map((key) => byId.get(key)?.item.id ?? key).join(" -> ");
+    issues.push(issueFor(entry, "error", "dependency-cycle", `dependency cycle: ${path}.`));
+  }
+
+  issues.sort((left, right) => left.line - right.line);
+  return {
+    items: entries.length,
+    errors: issues.filter((issue) => issue.severity === "error").length,
+    warnings: issues.filter((issue) => issue.severity === "warning").length,
+    issues,
+  };
+}
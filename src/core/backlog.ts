@@ -0,0 +1,246 @@
+import {
+  BACKLOG_ITEM_FIELDS,
+  BACKLOG_OPTIONAL_FIELDS,
+  BACKLOG_OPTIONAL_HEADERS,
+  BACKLOG_TOPIC_HEADING_PREFIX,
+  buildBacklogRow,
+  buildBacklogTable,
+  formatBacklogCell,
+  locateBacklogTables,
+  parseBacklogRow,
+  replaceBacklogRowCell,
+  resolveBacklogTableColumns,
+  sameBacklogTableColumns,
+  splitBacklogLines,
+  type BacklogItem,
+  type BacklogItemField,
+  type BacklogOptionalField,
+  type BacklogTableColumns,
+  type BacklogTableLayout,
+} from "./parser";
+
+export const DEFAULT_BACKLOG_STATUS = "next";
+
+export type BacklogItemLocation = {
+  topic: string;
+  item: BacklogItem;
+  line: number;
+};
+
+export type BacklogItemInput = {
+  id: string;
+  feature: string;
+  status?: string | null;
+  branch?: string | null;
+  pr?: string | null;
+  notes?: string | null;
+  priority?: string | null;
+  estimate?: string | null;
+  owner?: string | null;
+  dependsOn?: string | null;
+};
+
+export type BacklogItemPatch = Partial<Record<Exclude<BacklogItemField, "id"> | BacklogOptionalField, string | null>>;
+
+type BacklogLines = {
+  lines: string[];
+  eol: string;
+};
+
+function toLines(markdown: string): BacklogLines {
+  return {
+    lines: splitBacklogLines(markdown),
+    eol: markdown.includes("\r\n") ? "\r\n" : "\n",
+  };
+}
+
+function fromLines(document: BacklogLines): string {
+  return document.lines.join(document.eol);
+}
+
+function normalizeId(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function normalizeTopic(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function findTopicLayout(layouts: BacklogTableLayout[], topic: string): BacklogTableLayout | null {
+  const wanted = normalizeTopic(topic);
+  return layouts.find((layout) => normalizeTopic(layout.title) === wanted) ?? null;
+}
+
+function locateItem(markdown: string, id: string): { layout: BacklogTableLayout; location: BacklogItemLocation } | null {
+  const wanted = normalizeId(id);
+  if (!wanted) return null;
+
+  const lines = splitBacklogLines(markdown);
+  for (const layout of locateBacklogTables(markdown)) {
+    for (const lineIndex of layout.rowLines) {
+      const item = parseBacklogRow(lines[lineIndex] ?? "", layout.columns);
+      if (normalizeId(item.id) === wanted) {
+        return { layout, location: { topic: layout.title, item, line: lineIndex } };
+      }
+    }
+  }
+
+  return null;
+}
+
+function requireItem(markdown: string, id: string): { layout: BacklogTableLayout; location: BacklogItemLocation } {
+  const found = locateItem(markdown, id);
+  if (!found) {
+    throw new Error(`backlog: item '${id.trim()}' not found.`);
+  }
+  return found;
+}
+
+function assertOptionalColumns(layout: BacklogTableLayout, item: Partial<BacklogItem>): void {
+  for (const field of BACKLOG_OPTIONAL_FIELDS) {
+    if (layout.columns[field] === undefined && (item[field] ?? "").trim()) {
+      throw new Error(
+        `backlog: topic '${layout.title}' has no '${BACKLOG_OPTIONAL_HEADERS[field][0]}' column; add it to the table header first.`,
+      );
+    }
+  }
+}
+
+type BacklogOriginalRow = { line: string; table: BacklogTableColumns };
+
+function insertRowIntoTopic(markdown: string, topic: string, item: BacklogItem, original?: BacklogOriginalRow): string {
+  const document = toLines(markdown);
+  const layout = findTopicLayout(locateBacklogTables(markdown), topic);
+  const renderRow = (table: BacklogTableColumns): string =>
+    original && sameBacklogTableColumns(original.table, table) ? original.line.trim() : buildBacklogRow(item, table);
+
+  if (!layout) {
+    const table = resolveBacklogTableColumns([item]);
+    const row = renderRow(table);
+    while (document.lines.length && !document.lines[document.lines.length - 1]?.trim()) {
+      document.lines.pop();
+    }
+    if (document.lines.length) {
+      document.lines.push("");
+    }
+    document.lines.push(`${BACKLOG_TOPIC_HEADING_PREFIX} ${topic.trim()}`, "", ...buildBacklogTable([row], table), "");
+    return fromLines(document);
+  }
+
+  if (layout.headerLine !== null && !layout.headerMatches) {
+    throw new Error(`backlog: topic '${layout.title}' has an unexpected table header; fix it before editing.`);
+  }
+
+  if (layout.headerLine === null) {
+    const table = resolveBacklogTableColumns([item]);
+    document.lines.splice(layout.headingLine + 1, 0, "", ...buildBacklogTable([renderRow(table)], table));
+    return fromLines(document);
+  }
+
+  assertOptionalColumns(layout, item);
+  const row = renderRow(layout);
+  const lastRow = layout.rowLines[layout.rowLines.length - 1];
+  const hasSeparator = (document.lines[layout.headerLine + 1] ?? "").trim().startsWith("|");
+  const insertAt = lastRow !== undefined ? lastRow + 1 : layout.headerLine + (hasSeparator ? 2 : 1);
+  document.lines.splice(insertAt, 0, row);
+  return fromLines(document);
+}
+
+export function listBacklogItems(markdown: string): BacklogItemLocation[] {
+  const lines = splitBacklogLines(markdown);
+  const items: BacklogItemLocation[] = [];
+
+  for (const layout of locateBacklogTables(markdown)) {
+    for (const lineIndex of layout.rowLines) {
+      items.push({ topic: layout.title, item: parseBacklogRow(lines[lineIndex] ?? "", layout.columns), line: lineIndex });
+    }
+  }
+
+  return items;
+}
+
+export function findBacklogItem(markdown: string, id: string): BacklogItemLocation | null {
+  return locateItem(markdown, id)?.location ?? null;
+}
+
+export function addBacklogItem(markdown: string, topic: string, input: BacklogItemInput): string {
+  const topicTitle = topic.trim();
+  if (!topicTitle) {
+    throw new Error("backlog: topic cannot be empty.");
+  }
+
+  const id = input.id.trim();
+  if (!id) {
+    throw new Error("backlog: id cannot be empty.");
+  }
+  if (!input.feature.trim()) {
+    throw new Error("backlog: feature cannot be empty.");
+  }
+  if (locateItem(markdown, id)) {
+    throw new Error(`backlog: item '${id}' already exists.`);
+  }
+
+  const item: BacklogItem = {
+    id,
+    feature: input.feature,
+    status: input.status?.trim() || DEFAULT_BACKLOG_STATUS,
+    branch: input.branch ?? "",
+    pr: input.pr ?? "",
+    notes: input.notes ?? "",
+  };
+  for (const field of BACKLOG_OPTIONAL_FIELDS) {
+    const value = input[field]?.trim();
+    if (value) item[field] = value;
+  }
+
+  return insertRowIntoTopic(markdown, topicTitle, item);
+}
+
+export function updateBacklogItem(markdown: string, id: string, patch: BacklogItemPatch): string {
+  const { layout, location } = requireItem(markdown, id);
+  const document = toLines(markdown);
+  let line = document.lines[location.line] ?? "";
+  assertOptionalColumns(layout, patch as Partial<BacklogItem>);
+
+  for (const field of BACKLOG_ITEM_FIELDS) {
+    if (field === "id") continue;
+    const value = patch[field];
+    if (value === undefined) continue;
+    if (field === "feature" && !(value ?? "").trim()) {
+      throw new Error("backlog: feature cannot be empty.");
+    }
+    line = replaceBacklogRowCell(line, BACKLOG_ITEM_FIELDS.indexOf(field), formatBacklogCell(field, value));
+  }
+  for (const field of BACKLOG_OPTIONAL_FIELDS) {
+    const value = patch[field];
+    const cellIndex = layout.columns[field];
+    if (value === undefined || cellIndex === undefined) continue;
+    line = replaceBacklogRowCell(line, cellIndex, formatBacklogCell(field, value));
+  }
+
+  document.lines[location.line] = line;
+  return fromLines(document);
+}
+
+export function setBacklogItemStatus(markdown: string, id: string, status: string): string {
+  if (!status.trim()) {
+    throw new Error("backlog: status cannot be empty.");
+  }
+  return updateBacklogItem(markdown, id, { status });
+}
+
+export function moveBacklogItem(markdown: string, id: string, topic: string): string {
+  const topicTitle = topic.trim();
+  if (!topicTitle) {
+    throw new Error("backlog: topic cannot be empty.");
+  }
+
+  const { layout, location } = requireItem(markdown, id);
+  if (normalizeTopic(location.topic) === normalizeTopic(topicTitle)) {
+    return markdown;
+  }
+
+  const document = toLines(markdown);
+  const [line = ""] = document.lines.splice(location.line, 1);
+  return insertRowIntoTopic(fromLines(document), topicTitle, location.item, { line, table: layout });
+}
@@ -10,11 +10,58 @@ export type GhCommandResult = {
 };
 
 const DEFAULT_BACKOFF_MS = [250, 750, 1500] as const;
+const DEFAULT_MAX_CONCURRENT = 4;
+/** Caps the total rate-limit wait of one CLI run, in minutes; `0` surfaces rate limits without waiting. */
+export const GH_MAX_WAIT_ENV = "VIBE_GH_MAX_WAIT_MINUTES";
+// A primary limit resets at most an hour after it is hit, so the default budget covers one full window.
+const DEFAULT_MAX_WAIT_MINUTES = 65;
+const DEFAULT_RATE_LIMIT_ATTEMPTS = 3;
+// GitHub asks clients to wait at least a minute after a secondary limit that carries no Retry-After.
+const FALLBACK_RATE_LIMIT_WAIT_MS = 60 * 1000;
+const RATE_LIMIT_WAIT_PADDING_MS = 1000;
 
 export type GhRetryOptions = {
   attempts?: number;
   backoffMs?: number[];
   idempotent?: boolean;
+  /** Extra tries after a rate limit, on top of `attempts`; default 3. */
+  rateLimitAttempts?: number;
+  limiter?: GhLimiter;
+};
+
+export type GhRateLimitKind = "primary" | "secondary";
+
+/** Counters for one CLI run; serialized as-is into `--json` snapshots. */
+export type GhRetryStats = {
+  calls: number;
+  retries: number;
+  rate_limited: number;
+  waited_ms: number;
+};
+
+export type GhLimiterOptions = {
+  /** gh calls allowed in flight at once. */
+  maxConcurrent?: number;
+  /** Total time one run may spend paused on rate limits before errors are surfaced instead; default 65 minutes. */
+  maxWaitMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+};
+
+/**
+ * Shared by every gh/GitHub API call of one CLI run: caps concurrency, pauses all callers while a rate limit is
+ * active and keeps the retry counters reported by `--json`.
+ */
+export type GhLimiter = {
+  run<T>(task: () => Promise<T>): Promise<T>;
+  /** Pauses every caller for `ms`; `false` (and no pause) when the wait budget cannot cover it. */
+  pauseFor(ms: number): boolean;
+  maxWaitMs(): number;
+  backoff(ms: number): Promise<void>;
+  recordRetry(): void;
+  recordRateLimit(): void;
+  now(): number;
+  stats(): GhRetryStats;
 };
 
 function sleep(ms: number): Promise<void> {
@@ -67,6 +114,7 @@ export function isIdempotentGhCommand(args: string[]): boolean {
   if (scope === "issue" && (command === "view" || command === "list")) return true;
   if (scope === "pr" && (command === "view" || command === "list")) return true;
   if (scope === "label" && command === "list") return true;
+  if (scope === "project" && (command === "view" || command === "field-list" || command === "item-list")) return true;
 
   if (scope === "api") {
     const methodFlagIndex = args.findIndex((entry) => entry === "--method" || entry === "-X");
@@ -82,44 +130,241 @@ export function isIdempotentGhCommand(args: string[]): boolean {
   return false;
 }
 
-export async function runGhWithRetry(
-  execaFn: ExecaFn,
-  args: string[],
-  execaOptions: ExecaOptions = { stdio: "pipe" },
+export function createGhLimiter(options: GhLimiterOptions = {}): GhLimiter {
+  const maxConcurrent = Math.max(1, Math.trunc(options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT));
+  const maxWaitMs = Math.max(0, options.maxWaitMs ?? DEFAULT_MAX_WAIT_MINUTES * 60 * 1000);
+  const now = options.now ?? (() => Date.now());
+  const sleepFn = options.sleep ?? sleep;
+  const stats: GhRetryStats = { calls: 0, retries: 0, rate_limited: 0, waited_ms: 0 };
+  const queue: Array<() => void> = [];
+  let active = 0;
+  let pausedUntil = 0;
+  let pausedMs = 0;
+
+  const acquire = async (): Promise<void> => {
+    if (active < maxConcurrent) {
+      active += 1;
+      return;
+    }
+    await new Promise<void>((resolve) => queue.push(resolve));
+  };
+
+  const release = (): void => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active -= 1;
+    }
+  };
+
+  return {
+    async run(task) {
+      await acquire();
+      try {
+        const pauseMs = pausedUntil - now();
+        if (pauseMs > 0) {
+          await sleepFn(pauseMs);
+        }
+        stats.calls += 1;
+        return await task();
+      } finally {
+        release();
+      }
+    },
+    pauseFor(ms) {
+      const current = now();
+      const until = current + Math.max(0, ms);
+      const extension = until - Math.max(pausedUntil, current);
+      if (extension <= 0) return true;
+      if (pausedMs + extension > maxWaitMs) return false;
+      pausedMs += extension;
+      stats.waited_ms += extension;
+      pausedUntil = until;
+      return true;
+    },
+    maxWaitMs() {
+      return maxWaitMs;
+    },
+    async backoff(ms) {
+      stats.waited_ms += ms;
+      await sleepFn(ms);
+    },
+    recordRetry() {
+      stats.retries += 1;
+    },
+    recordRateLimit() {
+      stats.rate_limited += 1;
+    },
+    now,
+    stats() {
+      return { ...stats };
+    },
+  };
+}
+
+export function resolveGhMaxWaitMs(env: NodeJS.ProcessEnv = process.env): number {
+  const raw = env[GH_MAX_WAIT_ENV]?.trim();
+  if (!raw) return DEFAULT_MAX_WAIT_MINUTES * 60 * 1000;
+  const minutes = Number(raw);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new Error(`${GH_MAX_WAIT_ENV} must be a number of minutes >= 0 (got '${raw}')`);
+  }
+  return minutes * 60 * 1000;
+}
+
+let sharedLimiter = createGhLimiter();
+
+export function getGhLimiter(): GhLimiter {
+  return sharedLimiter;
+}
+
+/** Starts a fresh limiter, and fresh stats, for a new CLI run. */
+export function resetGhLimiter(options: GhLimiterOptions = {}): GhLimiter {
+  sharedLimiter = createGhLimiter(options);
+  return sharedLimiter;
+}
+
+export function detectGhRateLimit(error: unknown): GhRateLimitKind | null {
+  const text = errorText(error).toLowerCase();
+  if (text.includes("secondary rate limit") || text.includes("abuse detection") || /\bhttp 429\b/.test(text)) {
+    return "secondary";
+  }
+  const flagged =
+    typeof error === "object" && error !== null && (error as { rateLimited?: unknown }).rateLimited === true;
+  if (flagged || text.includes("rate limit exceeded")) {
+    return "primary";
+  }
+  return null;
+}
+
+/** Milliseconds until the limit resets, from `resetAt`, `Retry-After` or `x-ratelimit-reset`; `null` when unknown. */
+export function parseRateLimitWaitMs(error: unknown, nowMs: number): number | null {
+  const resetAt = typeof error === "object" && error !== null ? (error as { resetAt?: unknown }).resetAt : null;
+  if (typeof resetAt === "string" && !Number.isNaN(Date.parse(resetAt))) {
+    return Math.max(0, Date.parse(resetAt) - nowMs);
+  }
+
+  const text = errorText(error);
+  const retryAfter =
+    /retry-after:\s*(\d+)/i.exec(text) ?? /(?:try again|retry) (?:in|after) (\d+) seconds?/i.exec(text);
+  if (retryAfter) {
+    return Number(retryAfter[1]) * 1000;
+  }
+  const reset = /x-ratelimit-reset:\s*(\d+)/i.exec(text);
+  if (reset) {
+    return Math.max(0, Number(reset[1]) * 1000 - nowMs);
+  }
+  return null;
+}
+
+async function resolveRateLimitWaitMs(
+  error: unknown,
+  kind: GhRateLimitKind,
+  nowMs: number,
+  lookupResetMs?: () => Promise<number | null>,
+): Promise<number> {
+  const parsed = parseRateLimitWaitMs(error, nowMs);
+  if (parsed !== null) {
+    return parsed + RATE_LIMIT_WAIT_PADDING_MS;
+  }
+  if (kind === "primary" && lookupResetMs) {
+    const resetMs = await lookupResetMs().catch(() => null);
+    if (resetMs !== null && resetMs > nowMs) {
+      return resetMs - nowMs + RATE_LIMIT_WAIT_PADDING_MS;
+    }
+  }
+  return FALLBACK_RATE_LIMIT_WAIT_MS;
+}
+
+/** Names the budget on the rate-limit error itself, so callers keep its type, status and stderr. */
+function noteWaitBudgetExceeded(error: unknown, waitMs: number, maxWaitMs: number): unknown {
+  if (!(error instanceof Error)) return error;
+  const minutes = (ms: number) => Math.ceil(ms / 60_000);
+  error.message +=
+    `\ngh rate limit: waiting ${minutes(waitMs)} more minute(s) for the reset would exceed this run's ` +
+    `${minutes(maxWaitMs)}-minute wait budget; raise it with ${GH_MAX_WAIT_ENV}.`;
+  return error;
+}
+
+/**
+ * Runs one GitHub call through the shared limiter. Transient failures are retried with backoff for idempotent calls
+ * only; rate limits pause every caller until the reset and are retried for writes too, because GitHub rejects a
+ * rate-limited request before acting on it.
+ */
+export async function runWithGitHubRetry<T>(
+  task: () => Promise<T>,
+  params: { idempotent: boolean; lookupResetMs?: () => Promise<number | null> },
   options: GhRetryOptions = {},
-): Promise<GhCommandResult> {
+): Promise<T> {
+  const limiter = options.limiter ?? getGhLimiter();
   const backoff = options.backoffMs && options.backoffMs.length > 0 ? options.backoffMs : Array.from(DEFAULT_BACKOFF_MS);
   const configuredAttempts = Math.max(1, Math.trunc(options.attempts ?? backoff.length));
-  const idempotent = options.idempotent ?? isIdempotentGhCommand(args);
-  const attempts = idempotent ? configuredAttempts : 1;
+  const attempts = params.idempotent ? configuredAttempts : 1;
+  const rateLimitAttempts = Math.max(0, Math.trunc(options.rateLimitAttempts ?? DEFAULT_RATE_LIMIT_ATTEMPTS));
 
-  let lastError: unknown;
-  const invokeGh = execaFn as unknown as (
-    file: string,
-    args: string[],
-    options?: ExecaOptions,
-  ) => Promise<{ stdout?: unknown; stderr?: unknown; exitCode?: unknown }>;
-  for (let attempt = 1; attempt <= attempts; attempt += 1) {
+  let attempt = 1;
+  let rateLimitRetries = 0;
+  for (;;) {
     try {
-      const response = await invokeGh("gh", args, execaOptions);
-      return {
-        stdout: typeof response.stdout === "string" ? response.stdout : "",
-        stderr: typeof response.stderr === "string" ? response.stderr : "",
-        exitCode: typeof response.exitCode === "number" ? response.exitCode : 0,
-      };
+      return await limiter.run(task);
     } catch (error) {
-      lastError = error;
-      const canRetry = idempotent && attempt < attempts && isRetryableGhError(error);
+      const rateLimit = detectGhRateLimit(error);
+      if (rateLimit) {
+        limiter.recordRateLimit();
+        if (rateLimitRetries >= rateLimitAttempts) throw error;
+        const waitMs = await resolveRateLimitWaitMs(error, rateLimit, limiter.now(), params.lookupResetMs);
+        if (!limiter.pauseFor(waitMs)) throw noteWaitBudgetExceeded(error, waitMs, limiter.maxWaitMs());
+        rateLimitRetries += 1;
+        limiter.recordRetry();
+        continue;
+      }
+
+      const canRetry = params.idempotent && attempt < attempts && isRetryableGhError(error);
       if (!canRetry) {
         throw error;
       }
 
       const delay = backoff[Math.min(attempt - 1, backoff.length - 1)] ?? 0;
+      attempt += 1;
+      limiter.recordRetry();
       if (delay > 0) {
-        await sleep(delay);
+        await limiter.backoff(delay);
       }
     }
   }
+}
+
+export async function runGhWithRetry(
+  execaFn: ExecaFn,
+  args: string[],
+  execaOptions: ExecaOptions = { stdio: "pipe" },
+  options: GhRetryOptions = {},
+): Promise<GhCommandResult> {
+  const invokeGh = execaFn as unknown as (
+    file: string,
+    args: string[],
+    options?: ExecaOptions,
+  ) => Promise<{ stdout?: unknown; stderr?: unknown; exitCode?: unknown }>;
+  // `gh api rate_limit` does not count against the limit, so it can tell us when a primary limit resets.
+  const resource = args[0] === "api" && args[1] === "graphql" ? "graphql" : "core";
+  const lookupResetMs = async (): Promise<number | null> => {
+    const response = await invokeGh("gh", ["api", "rate_limit"], { stdio: "pipe" });
+    const parsed = JSON.parse(typeof response.stdout === "string" ? response.stdout : "") as {
+      resources?: Record<string, { reset?: unknown }>;
+    };
+    const reset = parsed.resources?.[resource]?.reset;
+    return typeof reset === "number" ? reset * 1000 : null;
+  };
 
-  throw lastError ?? new Error("gh retry: command failed");
+  const response = await runWithGitHubRetry(
+    () => invokeGh("gh", args, execaOptions),
+    { idempotent: options.idempotent ?? isIdempotentGhCommand(args), lookupResetMs },
+    options,
+  );
+  return {
+    stdout: typeof response.stdout === "string" ? response.stdout : "",
+    stderr: typeof response.stderr === "string" ? response.stderr : "",
+    exitCode: typeof response.exitCode === "number" ? response.exitCode : 0,
+  };
 }
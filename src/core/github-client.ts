@@ -0,0 +1,708 @@
+import { execa } from "execa";
+import { runGhWithRetry, runWithGitHubRetry, type GhLimiter } from "./gh-retry";
+
+type ExecaFn = typeof execa;
+type FetchFn = typeof fetch;
+type JsonRecord = Record<string, unknown>;
+
+export const GITHUB_TRANSPORT_KINDS = ["gh", "api"] as const;
+export type GitHubTransportKind = (typeof GITHUB_TRANSPORT_KINDS)[number];
+
+export const GITHUB_TRANSPORT_ENV = "VIBE_GITHUB_TRANSPORT";
+const GITHUB_API_URL = "https://api.github.com";
+const GITHUB_API_VERSION = "2022-11-28";
+const GH_API_PAGE_SIZE = 100;
+
+export type GitHubRestMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+export type GitHubFieldValue = string | number | boolean;
+
+/** `path` may use gh's `{owner}/{repo}` placeholders; strings go out as `-f`, numbers/booleans as typed `-F`. */
+export type GitHubRestRequest = {
+  method?: GitHubRestMethod;
+  path: string;
+  fields?: Record<string, GitHubFieldValue>;
+};
+
+export type GitHubRateLimit = {
+  limit: number | null;
+  remaining: number;
+  resetAt: string | null;
+};
+
+export type GitHubPullRequestFilter = {
+  head: string;
+  state: "open" | "all";
+};
+
+export type GitHubPullRequestInput = {
+  base: string;
+  head: string;
+  title: string;
+  body: string;
+};
+
+export type GitHubCreatedPullRequest = {
+  number: number | null;
+  url: string | null;
+};
+
+/**
+ * How requests reach GitHub. Issue/PR reads use the `gh ... --json` field names (which are GraphQL field names), so
+ * both transports return rows of the same shape. `gh` shells out to the gh CLI with the same commands the CLI always
+ * ran; `api` calls api.github.com directly with a token and tracks the rate limit headers.
+ */
+export type GitHubTransport = {
+  kind: GitHubTransportKind;
+  repoNameWithOwner(): Promise<string | null>;
+  viewIssue(issueId: number, fields: string[]): Promise<unknown>;
+  viewPullRequest(prNumber: number, fields: string[]): Promise<unknown>;
+  listPullRequests(filter: GitHubPullRequestFilter, fields: string[]): Promise<unknown>;
+  listLabels(limit: number): Promise<unknown>;
+  createPullRequest(input: GitHubPullRequestInput): Promise<GitHubCreatedPullRequest>;
+  editPullRequestBody(prNumber: number, body: string): Promise<void>;
+  rest(request: GitHubRestRequest): Promise<unknown>;
+  /** Resolves to the `data` object; GraphQL `errors` are thrown. */
+  graphql(query: string, variables?: Record<string, GitHubFieldValue>): Promise<unknown>;
+  /** Last rate limit seen in a response; `null` when the transport cannot tell (gh). */
+  rateLimit(): GitHubRateLimit | null;
+};
+
+export type GitHubIssueField = "number" | "title" | "body" | "url" | "state" | "labels" | "milestone";
+
+export type GitHubIssue = {
+  number: number | null;
+  title: string | null;
+  body: string | null;
+  url: string | null;
+  state: string | null;
+  labels: string[];
+  milestone: string | null;
+};
+
+export type GitHubPullRequestField =
+  | "number"
+  | "title"
+  | "body"
+  | "url"
+  | "state"
+  | "isDraft"
+  | "headRefName"
+  | "headRefOid"
+  | "baseRefName"
+  | "mergeStateStatus";
+
+export type GitHubPullRequest = {
+  number: number | null;
+  title: string | null;
+  body: string | null;
+  url: string | null;
+  state: string | null;
+  isDraft: boolean;
+  headRefName: string | null;
+  headRefOid: string | null;
+  baseRefName: string | null;
+  mergeStateStatus: string | null;
+};
+
+export type GitHubComment = {
+  id: number | null;
+  body: string | null;
+  author: string | null;
+};
+
+export type GitHubReviewComment = GitHubComment & {
+  reviewId: number | null;
+};
+
+export type GitHubReview = {
+  id: number | null;
+  state: string | null;
+  body: string | null;
+  author: string | null;
+};
+
+export type GitHubReviewCommentInput = {
+  body: string;
+  commitId: string;
+  path: string;
+  line: number;
+};
+
+/** Typed reads and writes on top of a transport; callers never parse gh stdout themselves. */
+export type GitHubClient = {
+  transport: GitHubTransport;
+  repoNameWithOwner(): Promise<string>;
+  viewIssue(issueId: number, fields: GitHubIssueField[]): Promise<GitHubIssue>;
+  viewPullRequest(prNumber: number, fields: GitHubPullRequestField[]): Promise<GitHubPullRequest>;
+  listPullRequests(filter: GitHubPullRequestFilter, fields: GitHubPullRequestField[]): Promise<GitHubPullRequest[]>;
+  createPullRequest(input: GitHubPullRequestInput): Promise<GitHubCreatedPullRequest>;
+  editPullRequestBody(prNumber: number, body: string): Promise<void>;
+  listLabelNames(limit: number): Promise<string[]>;
+  /** Open issues of `repo` from the REST issues endpoint, pull requests excluded. */
+  listOpenIssues(repo: string): Promise<GitHubIssue[]>;
+  authenticatedLogin(): Promise<string | null>;
+  listIssueComments(repo: string, issueId: number): Promise<GitHubComment[]>;
+  createIssueComment(repo: string, issueId: number, body: string): Promise<number | null>;
+  updateIssueComment(repo: string, commentId: number, body: string): Promise<void>;
+  listReviewComments(repo: string, prNumber: number): Promise<GitHubReviewComment[]>;
+  createReviewComment(repo: string, prNumber: number, input: GitHubReviewCommentInput): Promise<void>;
+  listReviews(repo: string, prNumber: number): Promise<GitHubReview[]>;
+  deleteReview(repo: string, prNumber: number, reviewId: number): Promise<void>;
+  rest(request: GitHubRestRequest): Promise<unknown>;
+  graphql(query: string, variables?: Record<string, GitHubFieldValue>): Promise<JsonRecord>;
+  rateLimit(): GitHubRateLimit | null;
+};
+
+export class GitHubApiError extends Error {
+  readonly status: number | null;
+  readonly rateLimited: boolean;
+  readonly resetAt: string | null;
+
+  constructor(
+    message: string,
+    options: { status?: number | null; rateLimited?: boolean; resetAt?: string | null } = {},
+  ) {
+    super(message);
+    this.name = "GitHubApiError";
+    this.status = options.status ?? null;
+    this.rateLimited = options.rateLimited ?? false;
+    this.resetAt = options.resetAt ?? null;
+  }
+}
+
+function parseNullableString(value: unknown): string | null {
+  return typeof value === "string" ? value.trim() || null : null;
+}
+
+function parsePositiveInt(value: unknown): number | null {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : null;
+}
+
+function asRecord(value: unknown): JsonRecord | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as JsonRecord) : null;
+}
+
+function expectObject(value: unknown, context: string): JsonRecord {
+  const record = asRecord(value);
+  if (!record) {
+    throw new Error(`${context}: expected object response`);
+  }
+  return record;
+}
+
+function expectArray(value: unknown, context: string): JsonRecord[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`${context}: expected array response`);
+  }
+  return value.filter((entry): entry is JsonRecord => asRecord(entry) !== null);
+}
+
+function parseLabelNames(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((entry) => parseNullableString(asRecord(entry)?.name)).filter((name): name is string => !!name);
+}
+
+function parseUserLogin(value: unknown): string | null {
+  return parseNullableString(asRecord(value)?.login);
+}
+
+function toIssue(row: JsonRecord): GitHubIssue {
+  return {
+    number: parsePositiveInt(row.number),
+    title: parseNullableString(row.title),
+    body: parseNullableString(row.body),
+    url: parseNullableString(row.html_url) ?? parseNullableString(row.url),
+    state: parseNullableString(row.state),
+    labels: parseLabelNames(row.labels),
+    milestone: parseNullableString(asRecord(row.milestone)?.title),
+  };
+}
+
+function toPullRequest(row: JsonRecord): GitHubPullRequest {
+  return {
+    number: parsePositiveInt(row.number),
+    title: parseNullableString(row.title),
+    body: parseNullableString(row.body),
+    url: parseNullableString(row.url),
+    state: parseNullableString(row.state),
+    isDraft: Boolean(row.isDraft),
+    headRefName: parseNullableString(row.headRefName),
+    headRefOid: parseNullableString(row.headRefOid),
+    baseRefName: parseNullableString(row.baseRefName),
+    mergeStateStatus: parseNullableString(row.mergeStateStatus),
+  };
+}
+
+function toComment(row: JsonRecord): GitHubComment {
+  return {
+    id: parsePositiveInt(row.id),
+    body: parseNullableString(row.body),
+    author: parseUserLogin(row.user),
+  };
+}
+
+function toReviewComment(row: JsonRecord): GitHubReviewComment {
+  return {
+    ...toComment(row),
+    reviewId: parsePositiveInt(row.pull_request_review_id),
+  };
+}
+
+function toReview(row: JsonRecord): GitHubReview {
+  return {
+    id: parsePositiveInt(row.id),
+    state: parseNullableString(row.state),
+    body: parseNullableString(row.body),
+    author: parseUserLogin(row.user),
+  };
+}
+
+function extractUrl(value: string): string | null {
+  const firstLine = value.trim().split(/\r?\n/)[0]?.trim() ?? "";
+  return firstLine.startsWith("http") ? firstLine : null;
+}
+
+function extractPrNumberFromUrl(url: string | null): number | null {
+  if (!url) return null;
+  const match = /\/pull\/([0-9]+)\b/.exec(url);
+  return match ? Number(match[1]) : null;
+}
+
+function withPage(path: string, page: number, perPage = GH_API_PAGE_SIZE): string {
+  const separator = path.includes("?") ? "&" : "?";
+  return `${path}${separator}per_page=${perPage}&page=${page}`;
+}
+
+function parseJsonOutput(stdout: string): unknown {
+  return stdout.trim() ? (JSON.parse(stdout) as unknown) : null;
+}
+
+function buildGhFieldArgs(fields: Record<string, GitHubFieldValue> | undefined): string[] {
+  const args: string[] = [];
+  for (const [key, value] of Object.entries(fields ?? {})) {
+    args.push(typeof value === "string" ? "-f" : "-F", `${key}=${String(value)}`);
+  }
+  return args;
+}
+
+function unwrapGraphqlResponse(value: unknown, context: string): unknown {
+  const root = expectObject(value, context);
+  if (Array.isArray(root.errors) && root.errors.length) {
+    const errors = root.errors.map((entry) => asRecord(entry) ?? {});
+    const messages = errors.map((entry) => parseNullableString(entry.message) ?? "unknown error");
+    const rateLimited = errors.some((entry) => entry.type === "RATE_LIMITED");
+    throw new GitHubApiError(`${context}: ${messages.join("; ")}`, { rateLimited });
+  }
+  return root.data ?? null;
+}
+
+export function createGhCliTransport(execaFn: ExecaFn): GitHubTransport {
+  const gh = async (args: string[]) => (await runGhWithRetry(execaFn, args, { stdio: "pipe" })).stdout;
+
+  return {
+    kind: "gh",
+    async repoNameWithOwner() {
+      const slug = (await gh(["repo", "view", "--json", "nameWithOwner", "-q", ".nameWithOwner"])).trim();
+      return slug || null;
+    },
+    async viewIssue(issueId, fields) {
+      return parseJsonOutput(await gh(["issue", "view", String(issueId), "--json", fields.join(",")]));
+    },
+    async viewPullRequest(prNumber, fields) {
+      return parseJsonOutput(await gh(["pr", "view", String(prNumber), "--json", fields.join(",")]));
+    },
+    async listPullRequests(filter, fields) {
+      const args = ["pr", "list", "--head", filter.head, "--state", filter.state, "--json", fields.join(",")];
+      return parseJsonOutput(await gh(args));
+    },
+    async listLabels(limit) {
+      return parseJsonOutput(await gh(["label", "list", "--limit", String(limit), "--json", "name"]));
+    },
+    async createPullRequest(input) {
+      const stdout = await gh([
+        "pr",
+        "create",
+        "--base",
+        input.base,
+        "--head",
+        input.head,
+        "--title",
+        input.title,
+        "--body",
+        input.body,
+      ]);
+      const url = extractUrl(stdout);
+      return { number: extractPrNumberFromUrl(url), url };
+    },
+    async editPullRequestBody(prNumber, body) {
+      await gh(["pr", "edit", String(prNumber), "--body", body]);
+    },
+    async rest(request) {
+      const method = request.method ?? "GET";
+      const hasFields = Object.keys(request.fields ?? {}).length > 0;
+      // gh api switches to POST as soon as fields are present, so only a GET with fields needs an explicit method.
+      const methodArgs = method !== "GET" || hasFields ? ["--method", method] : [];
+      return parseJsonOutput(await gh(["api", ...methodArgs, request.path, ...buildGhFieldArgs(request.fields)]));
+    },
+    async graphql(query, variables) {
+      const stdout = await gh(["api", "graphql", "-f", `query=${query}`, ...buildGhFieldArgs(variables)]);
+      return unwrapGraphqlResponse(parseJsonOutput(stdout), "gh api graphql");
+    },
+    rateLimit() {
+      return null;
+    },
+  };
+}
+
+/** `owner/name` from an origin URL (`git@github.com:o/n.git`, `https://github.com/o/n`), else `null`. */
+export function parseGitHubRemoteUrl(remoteUrl: string): string | null {
+  const match = /github\.com[:/]+([^/\s]+)\/([^/\s]+?)(?:\.git)?\/?$/.exec(remoteUrl.trim());
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+/** `GITHUB_TOKEN`, then `GH_TOKEN`, then whatever `gh auth token` prints; `null` when none is available. */
+export async function resolveGitHubToken(params: {
+  execaFn: ExecaFn;
+  env?: NodeJS.ProcessEnv;
+}): Promise<string | null> {
+  const env = params.env ?? process.env;
+  const fromEnv = env.GITHUB_TOKEN?.trim() || env.GH_TOKEN?.trim();
+  if (fromEnv) return fromEnv;
+
+  try {
+    const response = await params.execaFn("gh", ["auth", "token"], { stdio: "pipe", reject: false });
+    if (response.exitCode !== 0) return null;
+    return String(response.stdout ?? "").trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+function readHeaderInt(headers: Headers, name: string): number | null {
+  const raw = headers.get(name);
+  if (raw === null || !/^[0-9]+$/.test(raw.trim())) return null;
+  return Number(raw.trim());
+}
+
+export function parseRateLimitHeaders(headers: Headers): GitHubRateLimit | null {
+  const remaining = readHeaderInt(headers, "x-ratelimit-remaining");
+  if (remaining === null) return null;
+  const reset = readHeaderInt(headers, "x-ratelimit-reset");
+  return {
+    limit: readHeaderInt(headers, "x-ratelimit-limit"),
+    remaining,
+    resetAt: reset === null ? null : new Date(reset * 1000).toISOString(),
+  };
+}
+
+const GRAPHQL_FIELD_SELECTIONS: Record<string, string> = {
+  labels: "labels(first: 100) { nodes { name } }",
+  milestone: "milestone { title }",
+};
+
+function buildGraphqlSelection(fields: string[]): string {
+  return fields.map((field) => GRAPHQL_FIELD_SELECTIONS[field] ?? field).join(" ");
+}
+
+/** Flattens `{ nodes: [...] }` connections the way `gh --json` does. */
+function flattenConnections(row: JsonRecord): JsonRecord {
+  const flattened: JsonRecord = {};
+  for (const [key, value] of Object.entries(row)) {
+    const nodes = asRecord(value)?.nodes;
+    flattened[key] = Array.isArray(nodes) ? nodes : value;
+  }
+  return flattened;
+}
+
+export function createGitHubApiTransport(params: {
+  execaFn: ExecaFn;
+  env?: NodeJS.ProcessEnv;
+  fetchFn?: FetchFn;
+  apiUrl?: string;
+  now?: () => Date;
+  /** Defaults to the limiter shared by the whole CLI run. */
+  limiter?: GhLimiter;
+}): GitHubTransport {
+  const fetchFn = params.fetchFn ?? fetch;
+  const apiUrl = (params.apiUrl ?? GITHUB_API_URL).replace(/\/+$/, "");
+  const now = params.now ?? (() => new Date());
+  let tokenPromise: Promise<string | null> | null = null;
+  let repoPromise: Promise<string | null> | null = null;
+  let lastRateLimit: GitHubRateLimit | null = null;
+
+  const resolveRepo = () => {
+    repoPromise ??= (async () => {
+      const response = await params.execaFn("git", ["remote", "get-url", "origin"], { stdio: "pipe", reject: false });
+      return response.exitCode === 0 ? parseGitHubRemoteUrl(String(response.stdout ?? "")) : null;
+    })();
+    return repoPromise;
+  };
+
+  const requireRepo = async (): Promise<[string, string]> => {
+    const slug = await resolveRepo();
+    if (!slug) {
+      throw new GitHubApiError("github api: unable to resolve owner/name from the origin remote");
+    }
+    const [owner, name] = slug.split("/");
+    return [owner, name];
+  };
+
+  const sendOnce = async (method: GitHubRestMethod, path: string, body: unknown): Promise<unknown> => {
+    tokenPromise ??= resolveGitHubToken({ execaFn: params.execaFn, env: params.env });
+    const token = await tokenPromise;
+    if (!token) {
+      throw new GitHubApiError("github api: no token (set GITHUB_TOKEN or run gh auth login)");
+    }
+    // Do not spend a request we already know GitHub will reject.
+    const resetAt = lastRateLimit?.remaining === 0 ? lastRateLimit.resetAt : null;
+    if (resetAt && Date.parse(resetAt) > now().getTime()) {
+      throw new GitHubApiError(`github api: rate limit exhausted until ${resetAt}`, { rateLimited: true, resetAt });
+    }
+
+    const response = await fetchFn(`${apiUrl}/${path.replace(/^\/+/, "")}`, {
+      method,
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${token}`,
+        "User-Agent": "vibe-backlog",
+        "X-GitHub-Api-Version": GITHUB_API_VERSION,
+        ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    lastRateLimit = parseRateLimitHeaders(response.headers) ?? lastRateLimit;
+
+    const text = await response.text();
+    const payload = text.trim() ? (JSON.parse(text) as unknown) : null;
+    if (!response.ok) {
+      const message = parseNullableString(asRecord(payload)?.message) ?? response.statusText;
+      const retryAfter = readHeaderInt(response.headers, "retry-after");
+      const rateLimited =
+        (response.status === 403 || response.status === 429) &&
+        (lastRateLimit?.remaining === 0 || retryAfter !== null || /rate limit/i.test(message));
+      const resetAt =
+        retryAfter !== null ? new Date(now().getTime() + retryAfter * 1000).toISOString() : lastRateLimit?.resetAt;
+      throw new GitHubApiError(`github api: ${method} ${path} failed (${response.status}): ${message}`, {
+        status: response.status,
+        rateLimited,
+        resetAt: rateLimited ? (resetAt ?? null) : null,
+      });
+    }
+    return payload;
+  };
+
+  // The rate_limit endpoint is free, so it can tell when a primary limit without reset headers ends.
+  const lookupResetMs = (resource: "core" | "graphql") => async (): Promise<number | null> => {
+    const resources = asRecord(asRecord(await sendOnce("GET", "rate_limit", undefined))?.resources);
+    const reset = asRecord(resources?.[resource])?.reset;
+    return typeof reset === "number" ? reset * 1000 : null;
+  };
+
+  const send = (method: GitHubRestMethod, path: string, body: unknown): Promise<unknown> =>
+    runWithGitHubRetry(
+      () => sendOnce(method, path, body),
+      { idempotent: method === "GET", lookupResetMs: lookupResetMs("core") },
+      { limiter: params.limiter },
+    );
+
+  const rest = async (request: GitHubRestRequest): Promise<unknown> => {
+    const method = request.method ?? "GET";
+    let path = request.path;
+    if (path.includes("{owner}") || path.includes("{repo}")) {
+      const [owner, name] = await requireRepo();
+      path = path.replaceAll("{owner}", owner).replaceAll("{repo}", name);
+    }
+    const fields = request.fields ?? {};
+    if (method === "GET" && Object.keys(fields).length) {
+      const query = new URLSearchParams(Object.entries(fields).map(([key, value]) => [key, String(value)]));
+      path = `${path}${path.includes("?") ? "&" : "?"}${query.toString()}`;
+      return await send(method, path, undefined);
+    }
+    return await send(method, path, method === "GET" || method === "DELETE" ? undefined : fields);
+  };
+
+  const graphql = async (query: string, variables: Record<string, GitHubFieldValue> = {}): Promise<unknown> => {
+    return await runWithGitHubRetry(
+      async () => unwrapGraphqlResponse(await sendOnce("POST", "graphql", { query, variables }), "github api graphql"),
+      { idempotent: !/^\s*mutation\b/.test(query), lookupResetMs: lookupResetMs("graphql") },
+      { limiter: params.limiter },
+    );
+  };
+
+  const queryRepository = async (selection: string, variables: Record<string, GitHubFieldValue>, declared: string) => {
+    const [owner, name] = await requireRepo();
+    const data = await graphql(
+      `query($owner: String!, $name: String!${declared}) { repository(owner: $owner, name: $name) { ${selection} } }`,
+      { owner, name, ...variables },
+    );
+    return asRecord(asRecord(data)?.repository) ?? {};
+  };
+
+  return {
+    kind: "api",
+    async repoNameWithOwner() {
+      return await resolveRepo();
+    },
+    async viewIssue(issueId, fields) {
+      const repository = await queryRepository(
+        `issue(number: $number) { ${buildGraphqlSelection(fields)} }`,
+        { number: issueId },
+        ", $number: Int!",
+      );
+      const issue = asRecord(repository.issue);
+      if (!issue) throw new GitHubApiError(`github api: issue #${issueId} not found`, { status: 404 });
+      return flattenConnections(issue);
+    },
+    async viewPullRequest(prNumber, fields) {
+      const repository = await queryRepository(
+        `pullRequest(number: $number) { ${buildGraphqlSelection(fields)} }`,
+        { number: prNumber },
+        ", $number: Int!",
+      );
+      const pullRequest = asRecord(repository.pullRequest);
+      if (!pullRequest) throw new GitHubApiError(`github api: pull request #${prNumber} not found`, { status: 404 });
+      return flattenConnections(pullRequest);
+    },
+    async listPullRequests(filter, fields) {
+      const states = filter.state === "open" ? ", states: [OPEN]" : "";
+      const repository = await queryRepository(
+        `pullRequests(headRefName: $head, first: 100${states}) { nodes { ${buildGraphqlSelection(fields)} } }`,
+        { head: filter.head },
+        ", $head: String!",
+      );
+      const nodes = asRecord(repository.pullRequests)?.nodes;
+      return Array.isArray(nodes) ? nodes.map((node) => flattenConnections(asRecord(node) ?? {})) : [];
+    },
+    async listLabels(limit) {
+      const labels: unknown[] = [];
+      for (let page = 1; labels.length < limit; page += 1) {
+        const response = await rest({ path: withPage("repos/{owner}/{repo}/labels", page) });
+        const rows = expectArray(response, "github api labels");
+        labels.push(...rows);
+        if (rows.length < GH_API_PAGE_SIZE) break;
+      }
+      return labels.slice(0, limit);
+    },
+    async createPullRequest(input) {
+      const created = asRecord(await rest({ method: "POST", path: "repos/{owner}/{repo}/pulls", fields: input }));
+      return {
+        number: parsePositiveInt(created?.number),
+        url: parseNullableString(created?.html_url),
+      };
+    },
+    async editPullRequestBody(prNumber, body) {
+      await rest({ method: "PATCH", path: `repos/{owner}/{repo}/pulls/${prNumber}`, fields: { body } });
+    },
+    rest,
+    graphql,
+    rateLimit() {
+      return lastRateLimit;
+    },
+  };
+}
+
+export function resolveGitHubTransportKind(env: NodeJS.ProcessEnv = process.env): GitHubTransportKind {
+  const raw = env[GITHUB_TRANSPORT_ENV]?.trim().toLowerCase();
+  if (!raw) return "gh";
+  if (!(GITHUB_TRANSPORT_KINDS as readonly string[]).includes(raw)) {
+    throw new Error(`${GITHUB_TRANSPORT_ENV} must be one of ${GITHUB_TRANSPORT_KINDS.join(", ")} (got '${raw}')`);
+  }
+  return raw as GitHubTransportKind;
+}
+
+export function createGitHubClient(
+  execaFn: ExecaFn,
+  options: { transport?: GitHubTransport; env?: NodeJS.ProcessEnv; fetchFn?: FetchFn } = {},
+): GitHubClient {
+  const transport =
+    options.transport ??
+    (resolveGitHubTransportKind(options.env) === "api"
+      ? createGitHubApiTransport({ execaFn, env: options.env, fetchFn: options.fetchFn })
+      : createGhCliTransport(execaFn));
+
+  const listPages = async (path: string, context: string): Promise<JsonRecord[]> => {
+    const rows: JsonRecord[] = [];
+    for (let page = 1; ; page += 1) {
+      const parsed = expectArray(await transport.rest({ path: withPage(path, page) }), context);
+      rows.push(...parsed);
+      if (parsed.length < GH_API_PAGE_SIZE) break;
+    }
+    return rows;
+  };
+
+  return {
+    transport,
+    async repoNameWithOwner() {
+      const slug = (await transport.repoNameWithOwner())?.trim() ?? "";
+      if (!slug || !slug.includes("/")) {
+        throw new Error(`unable to resolve repository owner/name from ${transport.kind}`);
+      }
+      return slug;
+    },
+    async viewIssue(issueId, fields) {
+      return toIssue(expectObject(await transport.viewIssue(issueId, fields), "gh issue view"));
+    },
+    async viewPullRequest(prNumber, fields) {
+      return toPullRequest(expectObject(await transport.viewPullRequest(prNumber, fields), "gh pr view"));
+    },
+    async listPullRequests(filter, fields) {
+      return expectArray(await transport.listPullRequests(filter, fields), "gh pr list").map(toPullRequest);
+    },
+    async createPullRequest(input) {
+      return await transport.createPullRequest(input);
+    },
+    async editPullRequestBody(prNumber, body) {
+      await transport.editPullRequestBody(prNumber, body);
+    },
+    async listLabelNames(limit) {
+      return parseLabelNames(expectArray(await transport.listLabels(limit), "gh label list"));
+    },
+    async listOpenIssues(repo) {
+      const rows = await listPages(`repos/${repo}/issues?state=open`, "gh open issues");
+      return rows.filter((row) => asRecord(row.pull_request) === null).map(toIssue);
+    },
+    async authenticatedLogin() {
+      return parseUserLogin(expectObject(await transport.rest({ path: "user" }), "gh api user"));
+    },
+    async listIssueComments(repo, issueId) {
+      return (await listPages(`repos/${repo}/issues/${issueId}/comments`, "gh issue comments")).map(toComment);
+    },
+    async createIssueComment(repo, issueId, body) {
+      const created = await transport.rest({
+        method: "POST",
+        path: `repos/${repo}/issues/${issueId}/comments`,
+        fields: { body },
+      });
+      return parsePositiveInt(expectObject(created, "gh issue comment create").id);
+    },
+    async updateIssueComment(repo, commentId, body) {
+      await transport.rest({ method: "PATCH", path: `repos/${repo}/issues/comments/${commentId}`, fields: { body } });
+    },
+    async listReviewComments(repo, prNumber) {
+      const rows = await listPages(`repos/${repo}/pulls/${prNumber}/comments`, "gh pr review comments");
+      return rows.map(toReviewComment);
+    },
+    async createReviewComment(repo, prNumber, input) {
+      await transport.rest({
+        method: "POST",
+        path: `repos/${repo}/pulls/${prNumber}/comments`,
+        fields: { body: input.body, commit_id: input.commitId, path: input.path, line: input.line },
+      });
+    },
+    async listReviews(repo, prNumber) {
+      return (await listPages(`repos/${repo}/pulls/${prNumber}/reviews`, "gh pr reviews")).map(toReview);
+    },
+    async deleteReview(repo, prNumber, reviewId) {
+      await transport.rest({ method: "DELETE", path: `repos/${repo}/pulls/${prNumber}/reviews/${reviewId}` });
+    },
+    rest(request) {
+      return transport.rest(request);
+    },
+    async graphql(query, variables) {
+      return asRecord(await transport.graphql(query, variables)) ?? {};
+    },
+    rateLimit() {
+      return transport.rateLimit();
+    },
+  };
+}
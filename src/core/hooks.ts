@@ -0,0 +1,177 @@
+import { chmod, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { execa } from "execa";
+import { findStandaloneMarkerIndex, stripStandaloneMarkerLines } from "./init";
+
+type ExecaFn = typeof execa;
+
+export const VIBE_HOOK_NAMES = ["pre-commit", "pre-push"] as const;
+export type VibeHookName = (typeof VIBE_HOOK_NAMES)[number];
+
+export type VibeHookInstallStatus = "created" | "inserted" | "updated" | "unchanged" | "repaired";
+export type VibeHookUninstallStatus = "removed" | "stripped" | "absent";
+
+export type VibeHookChange<TStatus> = {
+  hook: VibeHookName;
+  path: string;
+  status: TStatus;
+};
+
+export type VibeHooksOptions = {
+  execaFn?: ExecaFn;
+  cwd?: string;
+  dryRun?: boolean;
+};
+
+const HOOK_BLOCK_START = "# vibe:hooks:start";
+const HOOK_BLOCK_END = "# vibe:hooks:end";
+const HOOK_SHEBANG = "#!/bin/sh";
+export const DEFAULT_VIBE_HOOK_COMMAND = "vibe";
+
+export function buildVibeHookBlock(vibeCommand: string = DEFAULT_VIBE_HOOK_COMMAND): string {
+  return [
+    HOOK_BLOCK_START,
+    "# Managed by `vibe hooks install`; remove with `vibe hooks uninstall`.",
+    `${vibeCommand} guard --check-branch || exit $?`,
+    `${vibeCommand} security scan --mode staged || exit $?`,
+    HOOK_BLOCK_END,
+    "",
+  ].join("\n");
+}
+
+/** Resolves the hooks directory git actually uses (honours `core.hooksPath` and linked worktrees). */
+export async function resolveGitHooksDir(execaFn: ExecaFn = execa, cwd: string = process.cwd()): Promise<string> {
+  const response = await execaFn("git", ["rev-parse", "--git-path", "hooks"], { stdio: "pipe" });
+  const hooksDir = response.stdout.trim();
+  if (!hooksDir) {
+    throw new Error("unable to resolve git hooks directory");
+  }
+  return path.resolve(cwd, hooksDir);
+}
+
+async function readOptionalFile(filePath: string): Promise<string | null> {
+  try {
+    return await readFile(filePath, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function findHookBlockRange(content: string): { start: number; end: number } | null {
+  const start = findStandaloneMarkerIndex(content, HOOK_BLOCK_START);
+  if (start < 0) return null;
+  const end = findStandaloneMarkerIndex(content, HOOK_BLOCK_END, start + HOOK_BLOCK_START.length);
+  if (end < 0) return null;
+
+  let endWithMarker = end + HOOK_BLOCK_END.length;
+  if (content.startsWith("\r\n", endWithMarker)) endWithMarker += 2;
+  else if (content[endWithMarker] === "\n") endWithMarker += 1;
+  return { start, end: endWithMarker };
+}
+
+/** Places the managed block right after the shebang so vibe checks run before any user hook logic (and its `exit 0`). */
+function insertHookBlock(content: string, block: string): string {
+  if (!content.startsWith("#!")) {
+    return `${HOOK_SHEBANG}\n${block}${content}`;
+  }
+  const lineEnd = content.indexOf("\n");
+  if (lineEnd < 0) {
+    return `${content}\n${block}`;
+  }
+  return `${content.slice(0, lineEnd + 1)}${block}${content.slice(lineEnd + 1)}`;
+}
+
+export function upsertVibeHookContent(
+  current: string | null,
+  block: string,
+): { content: string; status: VibeHookInstallStatus } {
+  if (current === null) {
+    return { content: `${HOOK_SHEBANG}\n${block}`, status: "created" };
+  }
+
+  const range = findHookBlockRange(current);
+  if (range) {
+    const content = `${current.slice(0, range.start)}${block}${current.slice(range.end)}`;
+    return { content, status: content === current ? "unchanged" : "updated" };
+  }
+
+  const hasMarker =
+    findStandaloneMarkerIndex(current, HOOK_BLOCK_START) >= 0 || findStandaloneMarkerIndex(current, HOOK_BLOCK_END) >= 0;
+  if (hasMarker) {
+    const stripped = stripStandaloneMarkerLines(stripStandaloneMarkerLines(current, HOOK_BLOCK_START), HOOK_BLOCK_END);
+    return { content: insertHookBlock(stripped, block), status: "repaired" };
+  }
+
+  return { content: insertHookBlock(current, block), status: "inserted" };
+}
+
+/** Returns the hook without the managed block, or `null` when nothing but the shebang would be left. */
+export function removeVibeHookContent(current: string): string | null {
+  const range = findHookBlockRange(current);
+  const stripped = range
+    ? `${current.slice(0, range.start)}${current.slice(range.end)}`
+    : stripStandaloneMarkerLines(stripStandaloneMarkerLines(current, HOOK_BLOCK_START), HOOK_BLOCK_END);
+
+  const remaining = stripped.trim();
+  if (!remaining || (remaining.startsWith("#!") && !remaining.includes("\n"))) {
+    return null;
+  }
+  return stripped;
+}
+
+export async function installVibeHooks(
+  options: VibeHooksOptions & { vibeCommand?: string } = {},
+): Promise<Array<VibeHookChange<VibeHookInstallStatus>>> {
+  const hooksDir = await resolveGitHooksDir(options.execaFn ?? execa, options.cwd ?? process.cwd());
+  const block = buildVibeHookBlock(options.vibeCommand?.trim() || DEFAULT_VIBE_HOOK_COMMAND);
+  const changes: Array<VibeHookChange<VibeHookInstallStatus>> = [];
+
+  for (const hook of VIBE_HOOK_NAMES) {
+    const hookPath = path.join(hooksDir, hook);
+    const { content, status } = upsertVibeHookContent(await readOptionalFile(hookPath), block);
+    if (!options.dryRun && status !== "unchanged") {
+      await mkdir(hooksDir, { recursive: true });
+      await writeFile(hookPath, content, "utf8");
+    }
+    if (!options.dryRun) {
+      await chmod(hookPath, 0o755);
+    }
+    changes.push({ hook, path: hookPath, status });
+  }
+
+  return changes;
+}
+
+export async function uninstallVibeHooks(
+  options: VibeHooksOptions = {},
+): Promise<Array<VibeHookChange<VibeHookUninstallStatus>>> {
+  const hooksDir = await resolveGitHooksDir(options.execaFn ?? execa, options.cwd ?? process.cwd());
+  const changes: Array<VibeHookChange<VibeHookUninstallStatus>> = [];
+
+  for (const hook of VIBE_HOOK_NAMES) {
+    const hookPath = path.join(hooksDir, hook);
+    const current = await readOptionalFile(hookPath);
+    const hasMarker =
+      current !== null &&
+      (findStandaloneMarkerIndex(current, HOOK_BLOCK_START) >= 0 || findStandaloneMarkerIndex(current, HOOK_BLOCK_END) >= 0);
+    if (current === null || !hasMarker) {
+      changes.push({ hook, path: hookPath, status: "absent" });
+      continue;
+    }
+
+    const next = removeVibeHookContent(current);
+    if (!options.dryRun) {
+      if (next === null) {
+        await rm(hookPath, { force: true });
+      } else {
+        await writeFile(hookPath, next, "utf8");
+      }
+    }
+    changes.push({ hook, path: hookPath, status: next === null ? "removed" : "stripped" });
+  }
+
+  return changes;
+}
@@ -0,0 +1,251 @@
+import { readFile } from "node:fs/promises";
+import { parse } from "yaml";
+import { getSecurityContractPath } from "./security-scan";
+
+export const HYGIENE_SEVERITIES = ["info", "warn", "error"] as const;
+export type HygieneSeverity = (typeof HYGIENE_SEVERITIES)[number];
+
+export const HYGIENE_RULE_IDS = [
+  "missing_milestone",
+  "missing_module_label",
+  "in_progress_without_branch",
+  "stale_in_progress",
+  "in_progress_per_assignee",
+] as const;
+export type HygieneRuleId = (typeof HYGIENE_RULE_IDS)[number];
+
+export type HygieneRule = {
+  id: HygieneRuleId;
+  severity: HygieneSeverity | "off";
+  /** `stale_in_progress`: days since the last issue update. */
+  max_age_days: number;
+  /** `in_progress_per_assignee`: in-progress issues one person may hold. */
+  max_in_progress: number;
+};
+
+export type HygieneConfig = {
+  contractPath: string;
+  rules: HygieneRule[];
+  warnings: string[];
+};
+
+export type HygieneFinding = {
+  rule: HygieneRuleId;
+  severity: HygieneSeverity;
+  issues: number[];
+  /** Rule-specific context, e.g. the assignee for `in_progress_per_assignee`. */
+  detail: string | null;
+};
+
+/** The fields the rules read; status/preflight issue snapshots satisfy it. */
+export type HygieneIssue = {
+  number: number;
+  labels: string[];
+  milestone: string | null;
+  updatedAt: string | null;
+  assignees: string[];
+};
+
+/** Only the two historical checks are on by default, so repos without a `hygiene` section keep the same output. */
+const DEFAULT_RULES: HygieneRule[] = [
+  { id: "missing_milestone", severity: "warn", max_age_days: 14, max_in_progress: 2 },
+  { id: "missing_module_label", severity: "warn", max_age_days: 14, max_in_progress: 2 },
+  { id: "in_progress_without_branch", severity: "off", max_age_days: 14, max_in_progress: 2 },
+  { id: "stale_in_progress", severity: "off", max_age_days: 14, max_in_progress: 2 },
+  { id: "in_progress_per_assignee", severity: "off", max_age_days: 14, max_in_progress: 2 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BRANCH_ISSUE_PATTERN = /(?:^|\/)issue-([0-9]+)(?:-|$)/;
+
+export function getDefaultHygieneRules(): HygieneRule[] {
+  return DEFAULT_RULES.map((rule) => ({ ...rule }));
+}
+
+export function normalizeHygieneSeverity(value: string | null | undefined): HygieneSeverity | null {
+  const normalized = (value ?? "").trim().toLowerCase();
+  return (HYGIENE_SEVERITIES as readonly string[]).includes(normalized) ? (normalized as HygieneSeverity) : null;
+}
+
+function readPositiveInt(value: unknown, key: string, id: string, fallback: number, warnings: string[]): number {
+  if (value === undefined) return fallback;
+  if (typeof value === "number" && Number.isInteger(value) && value > 0) return value;
+  warnings.push(`hygiene rule '${id}': ${key} must be a positive integer; using ${fallback}`);
+  return fallback;
+}
+
+function applyRuleEntry(rule: HygieneRule, entry: unknown, warnings: string[]): void {
+  const raw: Record<string, unknown> =
+    typeof entry === "object" && entry !== null && !Array.isArray(entry)
+      ? (entry as Record<string, unknown>)
+      : { severity: entry };
+
+  if (raw.severity !== undefined) {
+    const severity = raw.severity === false ? "off" : String(raw.severity).trim().toLowerCase();
+    const normalized = severity === "off" ? "off" : normalizeHygieneSeverity(severity);
+    if (normalized) {
+      rule.severity = normalized;
+    } else {
+      const value = String(raw.severity);
+      warnings.push(`hygiene rule '${rule.id}': invalid severity '${value}' (expected off|info|warn|error)`);
+    }
+  }
+  rule.max_age_days = readPositiveInt(raw.max_age_days, "max_age_days", rule.id, rule.max_age_days, warnings);
+  rule.max_in_progress = readPositiveInt(
+    raw.max_in_progress,
+    "max_in_progress",
+    rule.id,
+    rule.max_in_progress,
+    warnings,
+  );
+}
+
+/**
+ * Reads `hygiene.rules` from a contract document. Each rule is keyed by id and takes either a severity
+ * (`missing_milestone: error`) or an object with `severity` and the rule's thresholds; unset rules keep defaults.
+ */
+export function parseHygieneConfig(document: unknown, contractPath: string): HygieneConfig {
+  const config: HygieneConfig = { contractPath, rules: getDefaultHygieneRules(), warnings: [] };
+  const hygiene =
+    typeof document === "object" && document !== null ? (document as Record<string, unknown>).hygiene : undefined;
+  const rules =
+    typeof hygiene === "object" && hygiene !== null ? (hygiene as Record<string, unknown>).rules : undefined;
+  if (rules === undefined || rules === null) return config;
+  if (typeof rules !== "object" || Array.isArray(rules)) {
+    config.warnings.push("hygiene.rules must be a map of rule id to severity; using defaults");
+    return config;
+  }
+
+  for (const [id, entry] of Object.entries(rules as Record<string, unknown>)) {
+    const rule = config.rules.find((candidate) => candidate.id === id);
+    if (!rule) {
+      config.warnings.push(`unknown hygiene rule '${id}' (expected ${HYGIENE_RULE_IDS.join("|")})`);
+      continue;
+    }
+    applyRuleEntry(rule, entry, config.warnings);
+  }
+  return config;
+}
+
+export async function loadHygieneConfig(cwd: string = process.cwd()): Promise<HygieneConfig> {
+  const contractPath = getSecurityContractPath(cwd);
+  let raw: string;
+  try {
+    raw = await readFile(contractPath, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return { contractPath, rules: getDefaultHygieneRules(), warnings: [] };
+    }
+    throw error;
+  }
+
+  try {
+    return parseHygieneConfig(parse(raw), contractPath);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const warnings = [`unable to parse contract (${reason}); using defaults`];
+    return { contractPath, rules: getDefaultHygieneRules(), warnings };
+  }
+}
+
+export function isHygieneRuleEnabled(config: HygieneConfig, id: HygieneRuleId): boolean {
+  return config.rules.some((rule) => rule.id === id && rule.severity !== "off");
+}
+
+function isInProgress(issue: HygieneIssue): boolean {
+  return issue.labels.some((label) => label.trim().toLowerCase() === "status:in-progress");
+}
+
+/** Issue ids referenced by `issue-<n>-...` branch names, local or remote (`origin/issue-<n>-...`). */
+export function collectBranchIssueIds(branches: string[]): Set<number> {
+  const ids = new Set<number>();
+  for (const branch of branches) {
+    const match = BRANCH_ISSUE_PATTERN.exec(branch.trim());
+    if (match) ids.add(Number(match[1]));
+  }
+  return ids;
+}
+
+function evaluateRule(
+  rule: HygieneRule & { severity: HygieneSeverity },
+  issues: HygieneIssue[],
+  context: { branches: string[] | null; now: Date },
+): HygieneFinding[] {
+  const finding = (matched: HygieneIssue[], detail: string | null = null): HygieneFinding[] => {
+    if (!matched.length) return [];
+    return [{ rule: rule.id, severity: rule.severity, issues: matched.map((issue) => issue.number), detail }];
+  };
+  const inProgress = issues.filter(isInProgress);
+
+  if (rule.id === "missing_milestone") return finding(issues.filter((issue) => !issue.milestone));
+  if (rule.id === "missing_module_label") {
+    return finding(
+      issues.filter((issue) => !issue.labels.some((label) => label.trim().toLowerCase().startsWith("module:"))),
+    );
+  }
+  if (rule.id === "in_progress_without_branch") {
+    if (!context.branches) return [];
+    const linked = collectBranchIssueIds(context.branches);
+    return finding(inProgress.filter((issue) => !linked.has(issue.number)));
+  }
+  if (rule.id === "stale_in_progress") {
+    const cutoff = context.now.getTime() - rule.max_age_days * DAY_MS;
+    const stale = inProgress.filter((issue) => {
+      const updatedAt = issue.updatedAt ? Date.parse(issue.updatedAt) : NaN;
+      return Number.isFinite(updatedAt) && updatedAt < cutoff;
+    });
+    return finding(stale, `${rule.max_age_days}d`);
+  }
+
+  const byAssignee = new Map<string, HygieneIssue[]>();
+  for (const issue of inProgress) {
+    for (const assignee of issue.assignees) {
+      byAssignee.set(assignee, [...(byAssignee.get(assignee) ?? []), issue]);
+    }
+  }
+  return [...byAssignee.entries()]
+    .filter(([, held]) => held.length > rule.max_in_progress)
+    .sort(([left], [right]) => left.localeCompare(right))
+    .flatMap(([assignee, held]) => finding(held, `@${assignee} ${held.length}/${rule.max_in_progress}`));
+}
+
+/**
+ * Runs every enabled rule against the open issues. `branches` is only needed by `in_progress_without_branch`;
+ * pass `null` when it could not be listed and that rule is skipped.
+ */
+export function evaluateHygieneRules(params: {
+  issues: HygieneIssue[];
+  rules: HygieneRule[];
+  branches?: string[] | null;
+  now?: Date;
+}): HygieneFinding[] {
+  const context = { branches: params.branches ?? null, now: params.now ?? new Date() };
+  return params.rules.flatMap((rule) =>
+    rule.severity === "off" ? [] : evaluateRule({ ...rule, severity: rule.severity }, params.issues, context),
+  );
+}
+
+function severityRank(severity: HygieneSeverity): number {
+  return HYGIENE_SEVERITIES.indexOf(severity);
+}
+
+/** Findings at or above `failOn`; a non-empty result means the command should exit non-zero. */
+export function selectHygieneFailures(findings: HygieneFinding[], failOn: HygieneSeverity): HygieneFinding[] {
+  return findings.filter((finding) => severityRank(finding.severity) >= severityRank(failOn));
+}
+
+const RULE_LABELS: Record<HygieneRuleId, string> = {
+  missing_milestone: "missing milestone",
+  missing_module_label: "missing module label",
+  in_progress_without_branch: "in-progress without branch",
+  stale_in_progress: "stale in-progress",
+  in_progress_per_assignee: "too many in-progress",
+};
+
+/** `missing milestone: #40`; non-warn severities are tagged, e.g. `stale in-progress (14d) [error]: #7`. */
+export function formatHygieneFinding(finding: HygieneFinding): string {
+  const detail = finding.detail ? ` (${finding.detail})` : "";
+  const severity = finding.severity === "warn" ? "" : ` [${finding.severity}]`;
+  const ids = finding.issues.map((issue) => `#${issue}`).join(", ");
+  return `${RULE_LABELS[finding.rule]}${detail}${severity}: ${ids}`;
+}
@@ -1,10 +1,29 @@
 export * from "./parser";
 export * from "./service";
+export * from "./backlog";
+export * from "./backlog-sync";
+export * from "./backlog-validate";
+export * from "./backlog-next";
 export * from "./gh-retry";
+export * from "./github-client";
 export * from "./postflight";
+export * from "./postflight-draft";
+export * from "./postflight-journal";
+export * from "./postflight-archive";
+export * from "./postflight-contract";
+export * from "./snapshot";
+export * from "./hygiene";
 export * from "./turn";
+export * from "./turn-worktree";
+export * from "./turn-history";
+export * from "./turn-pause";
+export * from "./turn-doctor";
 export * from "./tracker";
+export * from "./tracker-cache";
+export * from "./tracker-backend";
+export * from "./tracker-taxonomy";
 export * from "./init";
+export * from "./hooks";
 export * from "./reviews";
 export * from "./review-agent";
 export * from "./review-provider";
@@ -5,6 +5,10 @@ export type BacklogItem = {
   branch: string;
   pr: string;
   notes: string;
+  priority?: string;
+  estimate?: string;
+  owner?: string;
+  dependsOn?: string;
 };
 
 export type BacklogTopic = {
@@ -12,8 +16,34 @@ export type BacklogTopic = {
   items: BacklogItem[];
 };
 
+export const BACKLOG_ITEM_FIELDS = ["id", "feature", "status", "branch", "pr", "notes"] as const;
+export type BacklogItemField = (typeof BACKLOG_ITEM_FIELDS)[number];
+
+export const BACKLOG_OPTIONAL_FIELDS = ["priority", "estimate", "owner", "dependsOn"] as const;
+export type BacklogOptionalField = (typeof BACKLOG_OPTIONAL_FIELDS)[number];
+export type BacklogCellField = BacklogItemField | BacklogOptionalField;
+
+/** Header written for each optional column; the other aliases are accepted when reading. */
+export const BACKLOG_OPTIONAL_HEADERS: Record<BacklogOptionalField, readonly string[]> = {
+  priority: ["Prioridad", "Priority"],
+  estimate: ["Estimación", "Estimacion", "Estimate"],
+  owner: ["Owner", "Responsable"],
+  dependsOn: ["Depende de", "Depends-on", "Depends on"],
+};
+
+/** Cell index of each optional column present in a table. */
+export type BacklogColumnMap = Partial<Record<BacklogOptionalField, number>>;
+
+export type BacklogSource = {
+  lines: string[];
+  breaks: string[];
+  tables: BacklogTableLayout[];
+};
+
 export type ParsedBacklog = {
   topics: BacklogTopic[];
+  /** Original document kept by `parseBacklogMarkdown` so `serializeBacklog` can preserve everything outside edited rows. */
+  source?: BacklogSource;
 };
 
 function isTableRow(line: string): boolean {
@@ -37,35 +67,84 @@ function cleanCell(cell: string): string {
   return trimmed;
 }
 
-export function parseBacklogMarkdown(markdown: string): ParsedBacklog {
-  const lines = markdown.split(/\r?\n/);
-  const topics: BacklogTopic[] = [];
+export type BacklogTableLayout = {
+  title: string;
+  headingLine: number;
+  headerLine: number | null;
+  headerMatches: boolean;
+  columns: BacklogColumnMap;
+  columnCount: number;
+  rowLines: number[];
+};
+
+export const BACKLOG_TOPIC_HEADING_PREFIX = "## Temática:";
+export const BACKLOG_TABLE_HEADER = ["id", "feature/bug", "estado", "branch", "pr", "notas"] as const;
+
+export function splitBacklogLines(markdown: string): string[] {
+  return markdown.split(/\r?\n/);
+}
+
+function resolveOptionalColumns(headerCells: string[]): BacklogColumnMap {
+  const columns: BacklogColumnMap = {};
+  headerCells.forEach((cell, index) => {
+    if (index < BACKLOG_TABLE_HEADER.length) return;
+    const field = BACKLOG_OPTIONAL_FIELDS.find((candidate) =>
+      BACKLOG_OPTIONAL_HEADERS[candidate].some((alias) => alias.toLowerCase() === cell),
+    );
+    if (field && columns[field] === undefined) columns[field] = index;
+  });
+  return columns;
+}
+
+function isTopicHeading(line: string): boolean {
+  return line.trim().startsWith(BACKLOG_TOPIC_HEADING_PREFIX);
+}
+
+export function locateBacklogTables(markdown: string): BacklogTableLayout[] {
+  const lines = splitBacklogLines(markdown);
+  const layouts: BacklogTableLayout[] = [];
 
   for (let index = 0; index < lines.length; index += 1) {
     const line = lines[index]?.trim() ?? "";
-    if (!line.startsWith("## Temática:")) {
+    if (!isTopicHeading(line)) {
       continue;
     }
 
-    const title = line.replace("## Temática:", "").trim();
+    const title = line.replace(BACKLOG_TOPIC_HEADING_PREFIX, "").trim();
     let cursor = index + 1;
 
-    while (cursor < lines.length && !isTableRow(lines[cursor] ?? "")) {
+    while (cursor < lines.length && !isTableRow(lines[cursor] ?? "") && !isTopicHeading(lines[cursor] ?? "")) {
       cursor += 1;
     }
 
-    if (cursor >= lines.length) {
-      topics.push({ title, items: [] });
-      index = cursor;
+    if (cursor >= lines.length || isTopicHeading(lines[cursor] ?? "")) {
+      layouts.push({
+        title,
+        headingLine: index,
+        headerLine: null,
+        headerMatches: false,
+        columns: {},
+        columnCount: BACKLOG_TABLE_HEADER.length,
+        rowLines: [],
+      });
+      index = cursor - 1;
       continue;
     }
 
+    const headerLine = cursor;
     const headerCells = splitTableRow(lines[cursor] ?? "").map((cell) => cell.toLowerCase());
-    const expectedHeader = ["id", "feature/bug", "estado", "branch", "pr", "notas"];
-    const headerMatches = expectedHeader.every((expected, headerIndex) => headerCells[headerIndex] === expected);
+    const headerMatches = BACKLOG_TABLE_HEADER.every((expected, headerIndex) => headerCells[headerIndex] === expected);
 
     if (!headerMatches) {
-      topics.push({ title, items: [] });
+      layouts.push({
+        title,
+        headingLine: index,
+        headerLine,
+        headerMatches: false,
+        columns: {},
+        columnCount: headerCells.length,
+        rowLines: [],
+      });
       index = cursor;
       continue;
     }
@@ -75,26 +154,293 @@ export function parseBacklogMarkdown(markdown: string): ParsedBacklog {
       cursor += 1;
     }
 
-    const items: BacklogItem[] = [];
+    const rowLines: number[] = [];
     while (cursor < lines.length && isTableRow(lines[cursor] ?? "")) {
-      const cells = splitTableRow(lines[cursor] ?? "");
-      const [id = "", feature = "", status = "", branch = "", pr = "", notes = ""] = cells;
-      items.push({
-        id: cleanCell(id),
-        feature: cleanCell(feature),
-        status: cleanCell(status),
-        branch: cleanCell(branch),
-        pr: cleanCell(pr),
-        notes: cleanCell(notes),
-      });
+      rowLines.push(cursor);
       cursor += 1;
     }
 
-    topics.push({ title, items });
+    layouts.push({
+      title,
+      headingLine: index,
+      headerLine,
+      headerMatches: true,
+      columns: resolveOptionalColumns(headerCells),
+      columnCount: headerCells.length,
+      rowLines,
+    });
     index = cursor - 1;
   }
 
-  return { topics };
+  return layouts;
+}
+
+export function parseBacklogRow(line: string, columns: BacklogColumnMap = {}): BacklogItem {
+  const cells = splitTableRow(line);
+  const [id = "", feature = "", status = "", branch = "", pr = "", notes = ""] = cells;
+  const item: BacklogItem = {
+    id: cleanCell(id),
+    feature: cleanCell(feature),
+    status: cleanCell(status),
+    branch: cleanCell(branch),
+    pr: cleanCell(pr),
+    notes: cleanCell(notes),
+  };
+  for (const field of BACKLOG_OPTIONAL_FIELDS) {
+    const index = columns[field];
+    if (index !== undefined) item[field] = cleanCell(cells[index] ?? "");
+  }
+  return item;
+}
+
+export function parseBacklogMarkdown(markdown: string): ParsedBacklog {
+  const lines = splitBacklogLines(markdown);
+  const tables = locateBacklogTables(markdown);
+  const topics: BacklogTopic[] = tables.map((layout) => ({
+    title: layout.title,
+    items: layout.rowLines.map((lineIndex) => parseBacklogRow(lines[lineIndex] ?? "", layout.columns)),
+  }));
+  const breaks = markdown.match(/\r?\n/g) ?? [];
+
+  return { topics, source: { lines, breaks: [...breaks, ""], tables } };
+}
+
+const EMPTY_CELL = "-";
+const TABLE_HEADER_ROW = "| ID | Feature/Bug | Estado | Branch | PR | Notas |";
+const TABLE_SEPARATOR_ROW = "| --- | --- | --- | --- | --- | --- |";
+
+export function formatBacklogCell(field: BacklogCellField, value: string | null | undefined): string {
+  const trimmed = (value ?? "").trim();
+  if (trimmed.includes("|") || /[\r\n]/.test(trimmed)) {
+    throw new Error(`backlog: ${field} cannot contain '|' or line breaks.`);
+  }
+  if (!trimmed || trimmed === EMPTY_CELL) return EMPTY_CELL;
+
+  if (field === "branch" && !(trimmed.startsWith("`") && trimmed.endsWith("`"))) {
+    return `\`${trimmed}\``;
+  }
+
+  return trimmed;
+}
+
+export type BacklogTableColumns = Pick<BacklogTableLayout, "columns" | "columnCount">;
+
+const BASE_TABLE_COLUMNS: BacklogTableColumns = { columns: {}, columnCount: BACKLOG_TABLE_HEADER.length };
+
+export function buildBacklogRow(item: BacklogItem, table: BacklogTableColumns = BASE_TABLE_COLUMNS): string {
+  const cells = BACKLOG_ITEM_FIELDS.map((field) => formatBacklogCell(field, item[field]));
+  while (cells.length < table.columnCount) cells.push(EMPTY_CELL);
+  for (const field of BACKLOG_OPTIONAL_FIELDS) {
+    const index = table.columns[field];
+    if (index !== undefined) cells[index] = formatBacklogCell(field, item[field]);
+  }
+  return `| ${cells.join(" | ")} |`;
+}
+
+/** Columns for a new table: the base columns plus every optional column the items use. */
+export function resolveBacklogTableColumns(items: BacklogItem[]): BacklogTableColumns {
+  const columns: BacklogColumnMap = {};
+  let columnCount = BACKLOG_TABLE_HEADER.length;
+  for (const field of BACKLOG_OPTIONAL_FIELDS) {
+    if (items.some((item) => (item[field] ?? "").trim())) {
+      columns[field] = columnCount;
+      columnCount += 1;
+    }
+  }
+  return { columns, columnCount };
+}
+
+export function buildBacklogTable(rows: string[], table: BacklogTableColumns = BASE_TABLE_COLUMNS): string[] {
+  const optional = BACKLOG_OPTIONAL_FIELDS.filter((field) => table.columns[field] !== undefined).sort(
+    (left, right) => (table.columns[left] ?? 0) - (table.columns[right] ?? 0),
+  );
+  if (!optional.length) {
+    return [TABLE_HEADER_ROW, TABLE_SEPARATOR_ROW, ...rows];
+  }
+
+  const headers = optional.map((field) => BACKLOG_OPTIONAL_HEADERS[field][0]);
+  return [
+    `${TABLE_HEADER_ROW} ${headers.join(" | ")} |`,
+    `${TABLE_SEPARATOR_ROW}${" --- |".repeat(headers.length)}`,
+    ...rows,
+  ];
+}
+
+export function sameBacklogTableColumns(left: BacklogTableColumns, right: BacklogTableColumns): boolean {
+  return (
+    left.columnCount === right.columnCount &&
+    BACKLOG_OPTIONAL_FIELDS.every((field) => left.columns[field] === right.columns[field])
+  );
+}
+
+export function replaceBacklogRowCell(line: string, cellIndex: number, value: string): string {
+  const segments = line.split("|");
+  const cellCount = Math.max(0, segments.length - 2);
+
+  if (cellIndex >= cellCount) {
+    const head = segments.slice(0, -1);
+    const tail = segments[segments.length - 1] ?? "";
+    while (head.length - 1 < cellIndex) {
+      head.push(` ${EMPTY_CELL} `);
+    }
+    head[cellIndex + 1] = ` ${value} `;
+    return [...head, tail].join("|");
+  }
+
+  const original = segments[cellIndex + 1] ?? "";
+  const leading = /^\s*/.exec(original)?.[0] || " ";
+  const next = `${leading}${value}`;
+  // Keep aligned tables aligned: reuse the original cell width when the row is padded and the value fits.
+  const aligned = segments.slice(1, -1).some((segment) => /\S\s{2,}$/.test(segment));
+  segments[cellIndex + 1] = aligned && next.length + 1 <= original.length ? next.padEnd(original.length) : `${next} `;
+  return segments.join("|");
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function patchBacklogRow(line: string, item: BacklogItem, columns: BacklogColumnMap): string {
+  const current = parseBacklogRow(line, columns);
+  let next = line;
+  BACKLOG_ITEM_FIELDS.forEach((field, cellIndex) => {
+    if (current[field] !== item[field].trim()) {
+      next = replaceBacklogRowCell(next, cellIndex, formatBacklogCell(field, item[field]));
+    }
+  });
+  for (const field of BACKLOG_OPTIONAL_FIELDS) {
+    const cellIndex = columns[field];
+    if (cellIndex !== undefined && (current[field] ?? "") !== (item[field] ?? "").trim()) {
+      next = replaceBacklogRowCell(next, cellIndex, formatBacklogCell(field, item[field]));
+    }
+  }
+  return next;
+}
+
+/**
+ * Writes a parsed backlog back to markdown.
+ *
+ * When `parsed.source` is present (as returned by `parseBacklogMarkdown`), every line outside the
+ * backlog tables is kept byte-for-byte and unchanged rows are reused verbatim; only edited cells,
+ * new rows and new topics are rendered. Rows are matched by id, topics by title. Topics missing
+ * from `parsed.topics` lose their heading and table; new topics are appended at the end.
+ * Without a source, a fresh document with one section per topic is rendered.
+ */
+export function serializeBacklog(parsed: ParsedBacklog): string {
+  const source = parsed.source ?? { lines: [""], breaks: [""], tables: [] };
+  const defaultBreak = source.breaks.find(Boolean) ?? "\n";
+
+  const originalRows = new Map<string, { line: string; table: BacklogTableLayout }>();
+  for (const layout of source.tables) {
+    for (const lineIndex of layout.rowLines) {
+      const line = source.lines[lineIndex] ?? "";
+      const key = normalizeKey(parseBacklogRow(line).id);
+      if (key && !originalRows.has(key)) originalRows.set(key, { line, table: layout });
+    }
+  }
+
+  // Rows keep their original text when they stay in a table with the same columns.
+  const renderRows = (items: BacklogItem[], table: BacklogTableColumns): string[] =>
+    items.map((item) => {
+      const original = originalRows.get(normalizeKey(item.id));
+      return original && sameBacklogTableColumns(original.table, table)
+        ? patchBacklogRow(original.line, item, table.columns)
+        : buildBacklogRow(item, table);
+    });
+
+  // Topics are matched to source sections by title, in document order (titles may repeat).
+  const pendingTopics = new Map<string, BacklogTopic[]>();
+  for (const topic of parsed.topics) {
+    const key = normalizeKey(topic.title);
+    pendingTopics.set(key, [...(pendingTopics.get(key) ?? []), topic]);
+  }
+
+  // Line index -> replacement lines; an empty array drops the line.
+  const replacements = new Map<number, string[]>();
+  for (const layout of source.tables) {
+    const topic = pendingTopics.get(normalizeKey(layout.title))?.shift();
+
+    if (!topic) {
+      let end = layout.headingLine;
+      if (layout.headerLine !== null) {
+        end = layout.headerLine;
+        while (isTableRow(source.lines[end + 1] ?? "")) end += 1;
+      }
+      if (!source.lines[end + 1]?.trim() && end + 1 < source.lines.length - 1) end += 1;
+      for (let index = layout.headingLine; index <= end; index += 1) replacements.set(index, []);
+      continue;
+    }
+
+    if (layout.headerLine === null) {
+      if (topic.items.length) {
+        const table = resolveBacklogTableColumns(topic.items);
+        replacements.set(layout.headingLine, [
+          source.lines[layout.headingLine] ?? "",
+          "",
+          ...buildBacklogTable(renderRows(topic.items, table), table),
+        ]);
+      }
+      continue;
+    }
+    if (!layout.headerMatches) {
+      if (topic.items.length) {
+        throw new Error(`backlog: topic '${layout.title}' has an unexpected table header; fix it before editing.`);
+      }
+      continue;
+    }
+
+    const rows = renderRows(topic.items, layout);
+    const unchanged =
+      rows.length === layout.rowLines.length &&
+      rows.every((row, index) => row === source.lines[layout.rowLines[index] ?? -1]);
+    if (unchanged) continue;
+
+    const anchor = layout.headerLine + (isTableRow(source.lines[layout.headerLine + 1] ?? "") ? 1 : 0);
+    for (const lineIndex of layout.rowLines) replacements.set(lineIndex, []);
+    replacements.set(anchor, [source.lines[anchor] ?? "", ...rows]);
+  }
+
+  const output: string[] = [];
+  const breaks: string[] = [];
+  source.lines.forEach((line, index) => {
+    const lineBreak = source.breaks[index] ?? "";
+    const replacement = replacements.get(index) ?? [line];
+    replacement.forEach((entry, entryIndex) => {
+      output.push(entry);
+      breaks.push(entryIndex === replacement.length - 1 ? lineBreak : defaultBreak);
+    });
+  });
+
+  const remaining = new Set([...pendingTopics.values()].flat());
+  const appended = parsed.topics.filter((topic) => remaining.has(topic));
+  if (appended.length) {
+    while (output.length && !output[output.length - 1]?.trim()) {
+      output.pop();
+      breaks.pop();
+    }
+    const sections = appended.flatMap((topic) => {
+      const table = resolveBacklogTableColumns(topic.items);
+      return [
+        "",
+        `${BACKLOG_TOPIC_HEADING_PREFIX} ${topic.title.trim()}`,
+        "",
+        ...buildBacklogTable(renderRows(topic.items, table), table),
+      ];
+    });
+    if (output.length) {
+      breaks[breaks.length - 1] = defaultBreak;
+    } else {
+      sections.shift();
+    }
+    for (const line of sections) {
+      output.push(line);
+      breaks.push(defaultBreak);
+    }
+    output.push("");
+    breaks.push("");
+  }
+
+  return output.map((line, index) => `${line}${breaks[index] ?? ""}`).join("");
 }
 
 export function extractMarkdownLinks(value: string): Array<{ label: string; url: string }> {
@@ -0,0 +1,101 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { PostflightSchema, type Postflight } from "./postflight";
+
+export type PostflightLogCheck = {
+  name: string;
+  result: "pass" | "fail" | "skipped";
+  command: string | null;
+};
+
+export type PostflightLogEntry = {
+  path: string;
+  timestamp: string;
+  branch: string;
+  version: number;
+  checks: PostflightLogCheck[];
+  next_actions: string[];
+  risks: { summary: string; rollback_plan: string };
+};
+
+/** Archives live next to the artifact: `.vibe/artifacts/postflight.json` -> `.vibe/artifacts/history/<issue>/`. */
+export function getPostflightHistoryDir(artifactPath: string, issueId: string | number): string {
+  return path.join(path.dirname(path.resolve(artifactPath)), "history", String(issueId));
+}
+
+/** `2026-02-13T10:20:30.000Z` -> `2026-02-13T10-20-30-000Z`, safe on every filesystem. */
+export function buildPostflightArchiveName(timestamp: string): string {
+  return `${timestamp.replace(/[^0-9A-Za-z-]+/g, "-").replace(/-+$/g, "")}.json`;
+}
+
+/**
+ * Copies an applied artifact into the issue history. The name comes from `meta.timestamp`, so re-applying the
+ * same artifact (e.g. resuming after a failure) rewrites its archive instead of adding another one.
+ */
+export async function archivePostflightArtifact(params: {
+  artifactPath: string;
+  issueId: string | number;
+  timestamp: string;
+  artifact: unknown;
+}): Promise<string> {
+  const directory = getPostflightHistoryDir(params.artifactPath, params.issueId);
+  const archivePath = path.join(directory, buildPostflightArchiveName(params.timestamp));
+  await mkdir(directory, { recursive: true });
+  await writeFile(archivePath, `${JSON.stringify(params.artifact, null, 2)}\n`, "utf8");
+  return archivePath;
+}
+
+function summarizeChecks(postflight: Postflight): PostflightLogCheck[] {
+  const checks: PostflightLogCheck[] = [];
+  for (const [name, check] of Object.entries(postflight.checks)) {
+    if (typeof check !== "object" || check === null || !("result" in check)) continue;
+    const entry = check as { ran?: boolean; command?: string | null; result: PostflightLogCheck["result"] };
+    checks.push({
+      name,
+      result: postflight.version === 1 && entry.ran === false ? "skipped" : entry.result,
+      command: entry.command ?? null,
+    });
+  }
+  return checks;
+}
+
+/** Reads the archived artifacts of an issue, oldest first; files that no longer validate are skipped. */
+export async function readPostflightHistory(params: {
+  artifactPath: string;
+  issueId: string | number;
+}): Promise<PostflightLogEntry[]> {
+  const directory = getPostflightHistoryDir(params.artifactPath, params.issueId);
+  let names: string[];
+  try {
+    names = await readdir(directory);
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const entries: PostflightLogEntry[] = [];
+  for (const name of names.filter((entry) => entry.endsWith(".json"))) {
+    const filePath = path.join(directory, name);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await readFile(filePath, "utf8"));
+    } catch {
+      continue;
+    }
+    const parsed = PostflightSchema.safeParse(raw);
+    if (!parsed.success) continue;
+
+    const postflight = parsed.data;
+    entries.push({
+      path: filePath,
+      timestamp: postflight.meta.timestamp,
+      branch: postflight.work.branch,
+      version: postflight.version,
+      checks: summarizeChecks(postflight),
+      next_actions: postflight.next_actions,
+      risks: postflight.risks,
+    });
+  }
+
+  return entries.sort((left, right) => left.timestamp.localeCompare(right.timestamp));
+}
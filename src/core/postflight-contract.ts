@@ -0,0 +1,207 @@
+import { readFile } from "node:fs/promises";
+import { parse } from "yaml";
+import type { Postflight } from "./postflight";
+import { getSecurityContractPath } from "./security-scan";
+
+export const POSTFLIGHT_CONTRACT_SEVERITIES = ["error", "warn"] as const;
+export type PostflightContractSeverity = (typeof POSTFLIGHT_CONTRACT_SEVERITIES)[number];
+
+export const POSTFLIGHT_CONTRACT_BUILTINS = [
+  "tracker_update_status",
+  "tracker_append_agent_log",
+  "record_tests_result",
+  "next_actions",
+  "risks_and_rollbacks",
+] as const;
+
+/**
+ * One `interaction_contract.postflight.required` item. Built-ins are referenced by id; custom items name what
+ * must be present: a `path` into the artifact, a recorded `check`, or a tracker `update` type.
+ */
+export type PostflightRequirement = {
+  id: string;
+  severity: PostflightContractSeverity;
+  path?: string;
+  check?: string;
+  update?: string;
+  description?: string;
+};
+
+export type PostflightContract = {
+  contractPath: string;
+  /** `false` when the contract file does not exist (nothing is enforced). */
+  found: boolean;
+  requirements: PostflightRequirement[];
+  warnings: string[];
+};
+
+export type PostflightContractViolation = {
+  id: string;
+  severity: PostflightContractSeverity;
+  message: string;
+};
+
+const STATUS_UPDATE_TYPES = new Set(["status", "project_field_set", "issue_close", "issue_reopen"]);
+const PLACEHOLDER_PATTERN = /^\s*(?:TODO|TBD)\b/i;
+
+function isFilled(value: unknown): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === "string") return value.trim().length > 0 && !PLACEHOLDER_PATTERN.test(value);
+  if (Array.isArray(value)) return value.length > 0 && value.every(isFilled);
+  return true;
+}
+
+function readPath(root: unknown, dottedPath: string): unknown {
+  let current = root;
+  for (const segment of dottedPath.split(".")) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/** Plain names and items with an invalid severity are enforced; only an explicit `severity: warn` relaxes an item. */
+const DEFAULT_SEVERITY: PostflightContractSeverity = "error";
+
+function normalizeSeverity(value: unknown, id: string, warnings: string[]): PostflightContractSeverity {
+  if (value === undefined) return DEFAULT_SEVERITY;
+  if (typeof value === "string" && (POSTFLIGHT_CONTRACT_SEVERITIES as readonly string[]).includes(value)) {
+    return value as PostflightContractSeverity;
+  }
+  warnings.push(
+    `required item '${id}': invalid severity '${String(value)}' (expected error|warn); using ${DEFAULT_SEVERITY}`,
+  );
+  return DEFAULT_SEVERITY;
+}
+
+function normalizeRequirement(entry: unknown, warnings: string[]): PostflightRequirement | null {
+  if (typeof entry === "string" && entry.trim()) {
+    return { id: entry.trim(), severity: DEFAULT_SEVERITY };
+  }
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    warnings.push(`ignoring required item ${JSON.stringify(entry)}: expected a name or an object with an id`);
+    return null;
+  }
+
+  const raw = entry as Record<string, unknown>;
+  const id = typeof raw.id === "string" ? raw.id.trim() : "";
+  if (!id) {
+    warnings.push(`ignoring required item ${JSON.stringify(entry)}: missing id`);
+    return null;
+  }
+
+  const requirement: PostflightRequirement = { id, severity: normalizeSeverity(raw.severity, id, warnings) };
+  for (const key of ["path", "check", "update", "description"] as const) {
+    if (typeof raw[key] === "string" && raw[key].trim()) requirement[key] = raw[key].trim();
+  }
+  return requirement;
+}
+
+export function parsePostflightContract(document: unknown, contractPath: string): PostflightContract {
+  const contract: PostflightContract = { contractPath, found: true, requirements: [], warnings: [] };
+  const required = readPath(document, "interaction_contract.postflight.required");
+  if (required === undefined || required === null) return contract;
+  if (!Array.isArray(required)) {
+    contract.warnings.push("interaction_contract.postflight.required must be a list; nothing enforced");
+    return contract;
+  }
+
+  for (const entry of required) {
+    const requirement = normalizeRequirement(entry, contract.warnings);
+    if (!requirement) continue;
+    const builtin = (POSTFLIGHT_CONTRACT_BUILTINS as readonly string[]).includes(requirement.id);
+    if (!builtin && !requirement.path && !requirement.check && !requirement.update) {
+      contract.warnings.push(`required item '${requirement.id}' is not built in and has no path/check/update; skipped`);
+      continue;
+    }
+    contract.requirements.push(requirement);
+  }
+  return contract;
+}
+
+export async function loadPostflightContract(cwd: string = process.cwd()): Promise<PostflightContract> {
+  const contractPath = getSecurityContractPath(cwd);
+  let raw: string;
+  try {
+    raw = await readFile(contractPath, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return { contractPath, found: false, requirements: [], warnings: [] };
+    }
+    throw error;
+  }
+
+  try {
+    return parsePostflightContract(parse(raw), contractPath);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    const warnings = [`unable to parse contract (${reason}); nothing enforced`];
+    return { contractPath, found: true, requirements: [], warnings };
+  }
+}
+
+function checkRecorded(postflight: Postflight, name: string): string | null {
+  const check = (postflight.checks as Record<string, unknown>)[name];
+  if (typeof check !== "object" || check === null) return `checks.${name} is missing`;
+  const entry = check as { ran?: unknown; result?: unknown };
+  if (postflight.version === 1 && entry.ran === false) return `checks.${name} did not run`;
+  if (entry.result !== "pass" && entry.result !== "fail") {
+    return `checks.${name} has no result (result=${String(entry.result)})`;
+  }
+  return null;
+}
+
+function evaluateBuiltin(postflight: Postflight, id: string): string | null {
+  const updates = postflight.tracker_updates;
+  if (id === "tracker_update_status") {
+    return updates.some((update) => STATUS_UPDATE_TYPES.has(update.type))
+      ? null
+      : "tracker_updates has no status change (status, project_field_set, issue_close or issue_reopen)";
+  }
+  if (id === "tracker_append_agent_log") {
+    return updates.some((update) => update.type === "comment_append" && isFilled(update.body))
+      ? null
+      : "tracker_updates has no comment_append with a body";
+  }
+  if (id === "record_tests_result") return checkRecorded(postflight, "tests");
+  if (id === "next_actions") {
+    return isFilled(postflight.next_actions) ? null : "next_actions is empty or still a TODO placeholder";
+  }
+  if (id === "risks_and_rollbacks") {
+    if (!isFilled(postflight.risks.summary)) return "risks.summary is empty or still a TODO placeholder";
+    if (!isFilled(postflight.risks.rollback_plan)) return "risks.rollback_plan is empty or still a TODO placeholder";
+  }
+  return null;
+}
+
+/**
+ * Evaluates each requirement against a schema-valid artifact and returns the unmet ones. `path` items read the
+ * raw document, so they can also require keys the schema does not know about.
+ */
+export function evaluatePostflightContract(
+  postflight: Postflight,
+  requirements: PostflightRequirement[],
+  raw: unknown = postflight,
+): PostflightContractViolation[] {
+  const violations: PostflightContractViolation[] = [];
+  for (const requirement of requirements) {
+    let problem: string | null;
+    if (requirement.path) {
+      problem = isFilled(readPath(raw, requirement.path)) ? null : `${requirement.path} is missing or empty`;
+    } else if (requirement.check) {
+      problem = checkRecorded(postflight, requirement.check);
+    } else if (requirement.update) {
+      problem = postflight.tracker_updates.some((update) => update.type === requirement.update)
+        ? null
+        : `tracker_updates has no ${requirement.update} update`;
+    } else {
+      problem = evaluateBuiltin(postflight, requirement.id);
+    }
+
+    if (problem) {
+      const message = requirement.description ? `${problem} (${requirement.description})` : problem;
+      violations.push({ id: requirement.id, severity: requirement.severity, message });
+    }
+  }
+  return violations;
+}
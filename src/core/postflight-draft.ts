@@ -0,0 +1,212 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { execa } from "execa";
+import { parse } from "yaml";
+import { listChangedFilesForRationale } from "./git-changed-files";
+import { PostflightSchemaV2, type PostflightCheckV2, type PostflightV2 } from "./postflight";
+import { getIssueReviewDirectory } from "./reviews";
+import { getSecurityContractPath, readLastSecurityScan, type SecurityScanRecord } from "./security-scan";
+import type { TurnContext } from "./turn";
+
+type ExecaFn = typeof execa;
+
+const LOG_EXCERPT_MAX_LINES = 20;
+const REVIEW_SUMMARY_MAX_CHARS = 280;
+
+export type ReviewRunSummary = {
+  pass: string;
+  runId: string;
+  findings: number | null;
+  summary: string;
+};
+
+export type PostflightDraftOptions = {
+  execaFn?: ExecaFn;
+  turn: TurnContext;
+  /** Runs the test command (from `testCommand` or the contract) and records its result under `checks.tests`. */
+  runTests?: boolean;
+  testCommand?: string | null;
+  now?: string;
+  cwd?: string;
+};
+
+export type PostflightDraftResult = {
+  postflight: PostflightV2;
+  testCommand: string | null;
+  testCommandSource: "flag" | "contract" | null;
+  securityScan: SecurityScanRecord | null;
+  reviewRuns: ReviewRunSummary[];
+  warnings: string[];
+};
+
+/** Reads `postflight.test_command` from `.vibe/contract.yml`; missing or unreadable contracts yield `null`. */
+export async function resolvePostflightTestCommand(cwd: string = process.cwd()): Promise<string | null> {
+  let document: unknown;
+  try {
+    document = parse(await readFile(getSecurityContractPath(cwd), "utf8"));
+  } catch {
+    return null;
+  }
+  if (typeof document !== "object" || document === null) return null;
+  const postflight = (document as Record<string, unknown>).postflight;
+  if (typeof postflight !== "object" || postflight === null) return null;
+  const command = (postflight as Record<string, unknown>).test_command;
+  return typeof command === "string" && command.trim() ? command.trim() : null;
+}
+
+/** Parses the `## Run` entries that `vibe review` appends to `.vibe/reviews/<issue>/<pass>.md`. */
+export function parseReviewRunLog(pass: string, content: string): ReviewRunSummary[] {
+  const runs: ReviewRunSummary[] = [];
+  for (const section of content.split(/^## Run .*$/m).slice(1)) {
+    const runId = /^- run_id: (.+)$/m.exec(section)?.[1]?.trim();
+    if (!runId) continue;
+    const findings = /^- findings: ([0-9]+)$/m.exec(section)?.[1];
+    const summary = /^### Summary\r?\n([\s\S]*?)(?:\r?\n### |$)/m.exec(section)?.[1]?.trim() ?? "";
+    runs.push({ pass, runId, findings: findings === undefined ? null : Number(findings), summary });
+  }
+  return runs;
+}
+
+export async function readReviewRunSummaries(issueId: number, cwd: string = process.cwd()): Promise<ReviewRunSummary[]> {
+  const directory = getIssueReviewDirectory(issueId, { workspaceRoot: cwd });
+  let entries: string[];
+  try {
+    entries = await readdir(directory);
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const runs: ReviewRunSummary[] = [];
+  for (const entry of entries.filter((name) => name.endsWith(".md")).sort()) {
+    runs.push(...parseReviewRunLog(path.basename(entry, ".md"), await readFile(path.join(directory, entry), "utf8")));
+  }
+  return runs;
+}
+
+function buildLogExcerpt(output: string): string | null {
+  const trimmed = output.trim();
+  if (!trimmed) return null;
+  return trimmed.split(/\r?\n/).slice(-LOG_EXCERPT_MAX_LINES).join("\n");
+}
+
+export async function runPostflightTestCommand(execaFn: ExecaFn, command: string): Promise<PostflightCheckV2> {
+  const startedAt = Date.now();
+  const response = await execaFn("sh", ["-c", command], { stdio: "pipe", reject: false });
+  const output = [response.stdout, response.stderr].filter((part) => typeof part === "string" && part).join("\n");
+  return {
+    command,
+    result: response.exitCode === 0 ? "pass" : "fail",
+    duration_ms: Math.max(0, Date.now() - startedAt),
+    log_excerpt: buildLogExcerpt(output),
+  };
+}
+
+/** Scans older than the turn describe another piece of work, so they are reported as skipped. */
+function buildSecurityScanCheck(record: SecurityScanRecord | null, turn: TurnContext, warnings: string[]): PostflightCheckV2 {
+  if (!record || record.scanned_at < turn.started_at) {
+    warnings.push(
+      record
+        ? `security scan predates the turn (${record.scanned_at}); run: node dist/cli.cjs security scan --mode staged`
+        : "no security scan recorded; run: node dist/cli.cjs security scan --mode staged",
+    );
+    return { command: record?.command ?? null, result: "skipped", duration_ms: null, log_excerpt: null };
+  }
+
+  return {
+    command: record.command,
+    result: record.status === "pass" ? "pass" : record.status === "scanner-missing" ? "skipped" : "fail",
+    duration_ms: null,
+    log_excerpt: record.detail,
+  };
+}
+
+function truncateSummary(summary: string): string {
+  const compact = summary.replace(/\s+/g, " ").trim();
+  return compact.length > REVIEW_SUMMARY_MAX_CHARS ? `${compact.slice(0, REVIEW_SUMMARY_MAX_CHARS - 3)}...` : compact;
+}
+
+function buildDraftComment(params: {
+  turn: TurnContext;
+  changedFiles: string[];
+  checks: Record<string, PostflightCheckV2>;
+  latestRuns: ReviewRunSummary[];
+}): string {
+  const lines = [
+    `Postflight draft for #${params.turn.issue_id} (${params.turn.branch})`,
+    `- changed files: ${params.changedFiles.length}`,
+    `- checks: ${Object.entries(params.checks)
+      .map(([name, check]) => `${name}=${check.result}`)
+      .join(" ")}`,
+  ];
+  if (params.latestRuns.length) {
+    lines.push("", `Review (run ${params.latestRuns[0].runId}):`);
+    for (const run of params.latestRuns) {
+      const findings = run.findings === null ? "" : ` [${run.findings} findings]`;
+      lines.push(`- ${run.pass}${findings}: ${truncateSummary(run.summary) || "no summary"}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Builds a v2 postflight artifact for the active turn from the branch diff, the last security scan and the
+ * review run logs, optionally running the test command. `next_actions` and `risks` are placeholders the
+ * author is expected to edit before `postflight --apply`.
+ */
+export async function buildPostflightDraft(options: PostflightDraftOptions): Promise<PostflightDraftResult> {
+  const execaFn = options.execaFn ?? execa;
+  const cwd = options.cwd ?? process.cwd();
+  const { turn } = options;
+  const warnings: string[] = [];
+
+  const changedFiles = await listChangedFilesForRationale(execaFn, {
+    baseBranch: turn.base_branch,
+    branch: turn.branch,
+  });
+  if (!changedFiles.length) {
+    warnings.push(`no changed files found between ${turn.base_branch} and ${turn.branch}`);
+  }
+
+  const flagCommand = options.testCommand?.trim() || null;
+  const testCommand = flagCommand ?? (await resolvePostflightTestCommand(cwd));
+  const testCommandSource = flagCommand ? "flag" : testCommand ? "contract" : null;
+
+  let tests: PostflightCheckV2 = { command: testCommand, result: "skipped", duration_ms: null, log_excerpt: null };
+  if (options.runTests) {
+    if (testCommand) {
+      tests = await runPostflightTestCommand(execaFn, testCommand);
+    } else {
+      warnings.push("no test command configured (set postflight.test_command in .vibe/contract.yml or pass --test-cmd)");
+    }
+  }
+
+  const securityScan = await readLastSecurityScan(cwd);
+  const checks = { tests, security_scan: buildSecurityScanCheck(securityScan, turn, warnings) };
+
+  const reviewRuns = await readReviewRunSummaries(turn.issue_id, cwd);
+  const runIds = [...new Set(reviewRuns.map((run) => run.runId))];
+  const latestRunId = runIds[runIds.length - 1];
+  const latestRuns = reviewRuns.filter((run) => run.runId === latestRunId);
+  if (!runIds.length) {
+    warnings.push(`no review runs recorded for #${turn.issue_id}; run: node dist/cli.cjs review --issue ${turn.issue_id}`);
+  }
+
+  const postflight = PostflightSchemaV2.parse({
+    version: 2,
+    meta: { timestamp: options.now ?? new Date().toISOString(), actor: "agent", mode: "cli" },
+    work: {
+      issue_id: turn.issue_id,
+      branch: turn.branch,
+      base_branch: turn.base_branch,
+      changed_files: changedFiles,
+      review_run_ids: runIds,
+    },
+    checks,
+    tracker_updates: [{ type: "comment_append", body: buildDraftComment({ turn, changedFiles, checks, latestRuns }) }],
+    next_actions: ["TODO: list follow-up actions"],
+    risks: { summary: "TODO: describe risks", rollback_plan: "TODO: describe rollback plan" },
+  });
+
+  return { postflight, testCommand, testCommandSource, securityScan, reviewRuns, warnings };
+}
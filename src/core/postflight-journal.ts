@@ -0,0 +1,269 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { execa } from "execa";
+import { z } from "zod";
+import { runGhWithRetry } from "./gh-retry";
+import { runTrackerIssueCommand, type TrackerBackend } from "./tracker-backend";
+
+type ExecaFn = typeof execa;
+
+const JOURNAL_VERSION = 1;
+
+const PostflightJournalStepSchema = z.object({
+  key: z.string().min(1),
+  args: z.array(z.string()),
+  status: z.enum(["done", "failed", "rolled_back"]),
+  at: z.string().min(1),
+  /** gh args that revert the step; `null` for comments, other one-way operations and steps that changed nothing. */
+  undo: z.array(z.string()).nullable(),
+  /** `false` when the issue already was in the requested state (label present, already closed, same milestone). */
+  changed: z.boolean().default(true),
+  error: z.string().nullable(),
+});
+
+const PostflightJournalSchema = z.object({
+  version: z.literal(JOURNAL_VERSION),
+  artifact_id: z.string().min(1),
+  issue_id: z.string().min(1),
+  steps: z.array(PostflightJournalStepSchema),
+});
+
+export type PostflightJournalStep = z.infer<typeof PostflightJournalStepSchema>;
+export type PostflightJournal = z.infer<typeof PostflightJournalSchema>;
+
+export type PostflightJournalStepOutcome = "applied" | "skipped" | "planned";
+
+export type PostflightRollbackResult = {
+  reverted: PostflightJournalStep[];
+  /** Steps that found the issue already in the requested state, so there is nothing to revert. */
+  unchanged: PostflightJournalStep[];
+  irreversible: PostflightJournalStep[];
+};
+
+/** The parts of an issue a reversible step can change, read right before the step runs. */
+export type PostflightIssueState = {
+  state: "OPEN" | "CLOSED";
+  labels: string[];
+  assignees: string[];
+  milestone: string | null;
+};
+
+function sha256(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/** `.vibe/artifacts/postflight.json` -> `.vibe/artifacts/postflight.journal.json`. */
+export function getPostflightJournalPath(artifactPath: string): string {
+  const resolved = path.resolve(artifactPath);
+  const base = path.basename(resolved, path.extname(resolved));
+  return path.join(path.dirname(resolved), `${base}.journal.json`);
+}
+
+/**
+ * Identifies the artifact across edits of its tracker_updates: a new turn (issue, branch or meta.timestamp)
+ * starts a new journal, while fixing a failed update in place keeps the steps already applied.
+ */
+export function buildPostflightArtifactId(params: { issueId: string; branch: string; timestamp: string }): string {
+  return sha256(JSON.stringify([params.issueId, params.branch, params.timestamp])).slice(0, 16);
+}
+
+export function hashPostflightStep(args: string[]): string {
+  return sha256(JSON.stringify(args)).slice(0, 16);
+}
+
+/** Loads the journal for this artifact; a missing, unreadable or foreign journal starts empty. */
+export async function readPostflightJournal(params: {
+  artifactPath: string;
+  artifactId: string;
+  issueId: string;
+}): Promise<PostflightJournal> {
+  const empty: PostflightJournal = {
+    version: JOURNAL_VERSION,
+    artifact_id: params.artifactId,
+    issue_id: params.issueId,
+    steps: [],
+  };
+
+  let raw: string;
+  try {
+    raw = await readFile(getPostflightJournalPath(params.artifactPath), "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") return empty;
+    throw error;
+  }
+
+  try {
+    const parsed = PostflightJournalSchema.safeParse(JSON.parse(raw));
+    return parsed.success && parsed.data.artifact_id === params.artifactId ? parsed.data : empty;
+  } catch {
+    return empty;
+  }
+}
+
+export async function writePostflightJournal(artifactPath: string, journal: PostflightJournal): Promise<string> {
+  const journalPath = getPostflightJournalPath(artifactPath);
+  await mkdir(path.dirname(journalPath), { recursive: true });
+  await writeFile(journalPath, `${JSON.stringify(journal, null, 2)}\n`, "utf8");
+  return journalPath;
+}
+
+export function findCompletedPostflightStep(journal: PostflightJournal, key: string): PostflightJournalStep | null {
+  return journal.steps.find((step) => step.key === key && step.status === "done") ?? null;
+}
+
+const SWAPPED_EDIT_FLAGS: Record<string, string> = {
+  "--add-label": "--remove-label",
+  "--remove-label": "--add-label",
+  "--add-assignee": "--remove-assignee",
+  "--remove-assignee": "--add-assignee",
+};
+
+function splitEditValues(value: string): string[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+function hasName(names: string[], value: string): boolean {
+  return names.some((name) => name.toLowerCase() === value.toLowerCase());
+}
+
+/**
+ * Values a label/assignee edit actually changes given the issue's previous state: adds of values it already had and
+ * removes of values it did not have are no-ops. `@me` cannot be matched against logins and always counts as a change.
+ */
+function changedEditValues(flag: string, value: string, previous: PostflightIssueState | null): string[] {
+  const values = splitEditValues(value);
+  if (!previous) return values;
+  const current = flag.endsWith("-label") ? previous.labels : previous.assignees;
+  const adding = flag.startsWith("--add-");
+  return values.filter((entry) => entry === "@me" || hasName(current, entry) !== adding);
+}
+
+/**
+ * Derives the inverse of a tracker command from the issue's state before it ran: label/status and assignee edits
+ * swap for the values they changed, close and reopen swap, and milestone changes restore the previous milestone (or
+ * clear it). Returns `null` for comments, project edits and steps that left the issue as it was. Without
+ * `previous` (state unknown) every reversible step is assumed to have changed the issue.
+ */
+export function buildTrackerUndoArgs(args: string[], previous: PostflightIssueState | null = null): string[] | null {
+  const [scope, command, issueId, flag, value] = args;
+  if (scope !== "issue" || !issueId) return null;
+
+  if (command === "close") return previous?.state === "CLOSED" ? null : ["issue", "reopen", issueId];
+  if (command === "reopen") return previous?.state === "OPEN" ? null : ["issue", "close", issueId];
+  if (command !== "edit" || !flag || value === undefined) return null;
+
+  const swapped = SWAPPED_EDIT_FLAGS[flag];
+  if (swapped) {
+    const changed = changedEditValues(flag, value, previous);
+    return changed.length ? ["issue", "edit", issueId, swapped, changed.join(",")] : null;
+  }
+  if (flag === "--milestone") {
+    const milestone = previous?.milestone ?? null;
+    if (milestone === value) return null;
+    return milestone
+      ? ["issue", "edit", issueId, "--milestone", milestone]
+      : ["issue", "edit", issueId, "--remove-milestone"];
+  }
+  return null;
+}
+
+function isReversibleIssueStep(args: string[]): boolean {
+  const [scope, command, , flag] = args;
+  if (scope !== "issue") return false;
+  if (command === "close" || command === "reopen") return true;
+  return command === "edit" && (flag === "--milestone" || Boolean(flag && SWAPPED_EDIT_FLAGS[flag]));
+}
+
+/** Reads the issue before a reversible step; `null` when the issue is missing or its state is unknown. */
+async function readIssueState(backend: TrackerBackend, issueId: string): Promise<PostflightIssueState | null> {
+  const issue = await backend.getIssue(Number(issueId));
+  if (!issue || (issue.state !== "OPEN" && issue.state !== "CLOSED")) return null;
+  return { state: issue.state, labels: issue.labels, assignees: issue.assignees, milestone: issue.milestone };
+}
+
+/**
+ * Runs one gh step unless the journal already has it as done, recording the outcome (and how to undo it) before
+ * returning. The journal is written after every step so a failure part-way leaves an accurate resume point.
+ * Issue steps run through `backend` (so the local tracker is journaled too); project steps call gh directly.
+ * Steps are keyed by the hash of `args`; `resolveArgs` lets callers whose real command needs gh lookups (project
+ * ids) key the step by its unresolved form and skip those lookups once it is done.
+ */
+export async function runJournaledGhStep(params: {
+  execaFn: ExecaFn;
+  backend: TrackerBackend;
+  artifactPath: string;
+  journal: PostflightJournal;
+  args: string[];
+  resolveArgs?: () => Promise<string[]>;
+  dryRun: boolean;
+}): Promise<{ outcome: PostflightJournalStepOutcome; key: string }> {
+  const { execaFn, backend, journal } = params;
+  const key = hashPostflightStep(params.args);
+  if (findCompletedPostflightStep(journal, key)) return { outcome: "skipped", key };
+  if (params.dryRun) return { outcome: "planned", key };
+
+  let args = params.args;
+  const record = (step: Omit<PostflightJournalStep, "key" | "at">): void => {
+    journal.steps = journal.steps.filter((entry) => entry.key !== key);
+    journal.steps.push({ key, at: new Date().toISOString(), ...step });
+  };
+
+  try {
+    if (params.resolveArgs) args = await params.resolveArgs();
+    const reversible = isReversibleIssueStep(args);
+    const previous = reversible ? await readIssueState(backend, args[2] ?? "") : null;
+    if (args[0] === "issue") await runTrackerIssueCommand(backend, args);
+    else await runGhWithRetry(execaFn, args, { stdio: "inherit" });
+    const undo = buildTrackerUndoArgs(args, previous);
+    record({ args, status: "done", undo, changed: !reversible || undo !== null, error: null });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    record({ args, status: "failed", undo: null, changed: true, error: message });
+    await writePostflightJournal(params.artifactPath, journal);
+    throw error;
+  }
+
+  await writePostflightJournal(params.artifactPath, journal);
+  return { outcome: "applied", key };
+}
+
+/**
+ * Reverts done steps newest first; steps that changed nothing are skipped, other steps without an undo command are
+ * reported and left in place.
+ */
+export async function rollbackPostflightJournal(params: {
+  backend: TrackerBackend;
+  artifactPath: string;
+  journal: PostflightJournal;
+  dryRun: boolean;
+  onStep?: (step: PostflightJournalStep, undo: string[] | null) => void;
+}): Promise<PostflightRollbackResult> {
+  const result: PostflightRollbackResult = { reverted: [], unchanged: [], irreversible: [] };
+
+  for (const step of [...params.journal.steps].reverse()) {
+    if (step.status !== "done") continue;
+    params.onStep?.(step, step.undo);
+    if (!step.changed) {
+      result.unchanged.push(step);
+      continue;
+    }
+    if (!step.undo) {
+      result.irreversible.push(step);
+      continue;
+    }
+
+    if (!params.dryRun) {
+      await runTrackerIssueCommand(params.backend, step.undo);
+      step.status = "rolled_back";
+      step.at = new Date().toISOString();
+      await writePostflightJournal(params.artifactPath, params.journal);
+    }
+    result.reverted.push(step);
+  }
+
+  return result;
+}
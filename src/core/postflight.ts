@@ -1,47 +1,198 @@
+import { execa } from "execa";
 import { z } from "zod";
+import { runGhWithRetry } from "./gh-retry";
+import { formatLinkedPullRequestComment } from "./tracker-backend";
+
+type ExecaFn = typeof execa;
+
+const PostflightMetaSchema = z.object({
+  timestamp: z.string().min(1),
+  actor: z.enum(["user", "agent"]),
+  mode: z.enum(["ui-byok", "external-llm", "cli", "codex-app", "claude-code"])
+});
+
+const PostflightWorkSchema = z
+  .object({
+    issue_id: z.union([z.number().int().positive(), z.string().min(1)]),
+    branch: z.string().min(1),
+    base_branch: z.string().min(1)
+  })
+  .passthrough();
+
+const PostflightTrackerUpdateFieldsSchema = z.object({
+  to: z.string().nullable().optional(),
+  body: z.string().nullable().optional(),
+  label: z.string().nullable().optional(),
+  pr_number: z.number().int().positive().nullable().optional(),
+  assignee: z.string().nullable().optional(),
+  milestone: z.string().nullable().optional(),
+  project_number: z.number().int().positive().nullable().optional(),
+  project_owner: z.string().nullable().optional(),
+  field: z.string().nullable().optional(),
+  value: z.string().nullable().optional()
+});
+
+const NonBlankStringSchema = z.string().regex(/\S/, "must not be blank");
+
+/** `project_field_set` requires a Projects v2 board number, a field name and a value; the owner defaults to `@me`. */
+const PostflightProjectFieldSetUpdateSchema = PostflightTrackerUpdateFieldsSchema.extend({
+  type: z.literal("project_field_set"),
+  project_number: z.number().int().positive(),
+  field: NonBlankStringSchema,
+  value: NonBlankStringSchema
+});
+
+const PostflightTrackerUpdatesSchema = z
+  .array(
+    z.discriminatedUnion("type", [
+      PostflightTrackerUpdateFieldsSchema.extend({
+        type: z.enum([
+          "status",
+          "comment_append",
+          "label_add",
+          "label_remove",
+          "link_pr",
+          "issue_close",
+          "issue_reopen",
+          "assignee_add",
+          "assignee_remove",
+          "milestone_set"
+        ])
+      }),
+      PostflightProjectFieldSetUpdateSchema
+    ])
+  )
+  .min(1);
+
+const PostflightRisksSchema = z.object({
+  summary: z.string().min(3),
+  rollback_plan: z.string().min(3)
+});
+
+const PostflightCheckResultSchema = z.enum(["pass", "fail", "skipped"]);
+
+const PostflightCheckSchemaV1 = z.object({
+  ran: z.boolean(),
+  command: z.string().nullable().optional(),
+  result: PostflightCheckResultSchema
+});
 
 export const PostflightSchemaV1 = z.object({
   version: z.literal(1),
-  meta: z.object({
-    timestamp: z.string().min(1),
-    actor: z.enum(["user", "agent"]),
-    mode: z.enum(["ui-byok", "external-llm", "cli", "codex-app", "claude-code"])
-  }),
-  work: z
+  meta: PostflightMetaSchema,
+  work: PostflightWorkSchema,
+  checks: z
     .object({
-      issue_id: z.union([z.number().int().positive(), z.string().min(1)]),
-      branch: z.string().min(1),
-      base_branch: z.string().min(1)
+      tests: PostflightCheckSchemaV1
     })
     .passthrough(),
+  tracker_updates: PostflightTrackerUpdatesSchema,
+  next_actions: z.array(z.string().min(3)).min(1),
+  risks: PostflightRisksSchema
+});
+
+export type PostflightV1 = z.infer<typeof PostflightSchemaV1>;
+
+export const POSTFLIGHT_CHECK_NAMES = ["lint", "typecheck", "build", "tests", "security_scan"] as const;
+export type PostflightCheckName = (typeof POSTFLIGHT_CHECK_NAMES)[number];
+
+export const PostflightCheckSchemaV2 = z.object({
+  command: z.string().nullable(),
+  result: PostflightCheckResultSchema,
+  duration_ms: z.number().int().nonnegative().nullable(),
+  log_excerpt: z.string().nullable()
+});
+
+export type PostflightCheckV2 = z.infer<typeof PostflightCheckSchemaV2>;
+
+/** v2 records one entry per named check; repos may add their own check names with the same shape. */
+export const PostflightSchemaV2 = z.object({
+  version: z.literal(2),
+  meta: PostflightMetaSchema,
+  work: PostflightWorkSchema.extend({
+    changed_files: z.array(z.string().min(1)),
+    review_run_ids: z.array(z.string().min(1))
+  }),
   checks: z
     .object({
-      tests: z.object({
-        ran: z.boolean(),
-        command: z.string().nullable().optional(),
-        result: z.enum(["pass", "fail", "skipped"])
-      })
+      lint: PostflightCheckSchemaV2.optional(),
+      typecheck: PostflightCheckSchemaV2.optional(),
+      build: PostflightCheckSchemaV2.optional(),
+      tests: PostflightCheckSchemaV2.optional(),
+      security_scan: PostflightCheckSchemaV2.optional()
     })
-    .passthrough(),
-  tracker_updates: z
-    .array(
-      z.object({
-        type: z.enum(["status", "comment_append", "label_add", "label_remove", "link_pr", "issue_close"]),
-        to: z.string().nullable().optional(),
-        body: z.string().nullable().optional(),
-        label: z.string().nullable().optional(),
-        pr_number: z.number().int().positive().nullable().optional()
-      })
-    )
-    .min(1),
+    .catchall(PostflightCheckSchemaV2)
+    .refine((checks) => Object.keys(checks).length > 0, "at least one check is required"),
+  tracker_updates: PostflightTrackerUpdatesSchema,
   next_actions: z.array(z.string().min(3)).min(1),
-  risks: z.object({
-    summary: z.string().min(3),
-    rollback_plan: z.string().min(3)
-  })
+  risks: PostflightRisksSchema
 });
 
-export type PostflightV1 = z.infer<typeof PostflightSchemaV1>;
+export type PostflightV2 = z.infer<typeof PostflightSchemaV2>;
+
+export const PostflightSchema = z.discriminatedUnion("version", [PostflightSchemaV1, PostflightSchemaV2]);
+export type Postflight = z.infer<typeof PostflightSchema>;
+export type PostflightTrackerUpdate = Postflight["tracker_updates"][number];
+export type PostflightProjectFieldSetUpdate = z.infer<typeof PostflightProjectFieldSetUpdateSchema>;
+
+export type PostflightMigrationResult = {
+  from: number;
+  /** The upgraded artifact, including top-level keys the schema does not know (e.g. `review_metrics`). */
+  postflight: Record<string, unknown>;
+  warnings: string[];
+};
+
+function migrateCheckV1(check: z.infer<typeof PostflightCheckSchemaV1>): PostflightCheckV2 {
+  return {
+    command: check.command ?? null,
+    result: check.ran ? check.result : "skipped",
+    duration_ms: null,
+    log_excerpt: null
+  };
+}
+
+/**
+ * Upgrades a raw postflight artifact to v2. v1 checks that still have the `{ ran, command, result }` shape are
+ * carried over; anything else under `checks` is dropped with a warning. v2 input is returned unchanged.
+ */
+export function migratePostflightToV2(raw: unknown): PostflightMigrationResult {
+  const parsed = PostflightSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`postflight artifact is not a valid v1/v2 document: ${parsed.error.message}`);
+  }
+
+  const root = raw as Record<string, unknown>;
+  if (parsed.data.version === 2) {
+    return { from: 2, postflight: root, warnings: [] };
+  }
+
+  const warnings: string[] = [];
+  const checks: Record<string, PostflightCheckV2> = {};
+  for (const [name, value] of Object.entries(root.checks as Record<string, unknown>)) {
+    const check = PostflightCheckSchemaV1.safeParse(value);
+    if (check.success) {
+      checks[name] = migrateCheckV1(check.data);
+    } else {
+      warnings.push(`checks.${name}: not a v1 check entry; dropped.`);
+    }
+  }
+
+  // Rebuild key by key so the upgraded file keeps the original key order.
+  const postflight: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(root)) {
+    if (key === "version") {
+      postflight.version = 2;
+    } else if (key === "work") {
+      postflight.work = { ...(value as Record<string, unknown>), changed_files: [], review_run_ids: [] };
+    } else if (key === "checks") {
+      postflight.checks = checks;
+    } else {
+      postflight[key] = value;
+    }
+  }
+  PostflightSchemaV2.parse(postflight);
+  return { from: 1, postflight, warnings };
+}
 
 export type GhCommand = {
   cmd: "gh";
@@ -53,7 +204,11 @@ export function normalizeGitHubIssueId(value: string | number): string | null {
   return /^[0-9]+$/.test(issueId) ? issueId : null;
 }
 
-export function buildTrackerCommands(issueId: string, updates: PostflightV1["tracker_updates"]): GhCommand[] {
+/**
+ * The tracker updates as `gh` argument lists. Every backend applies this one list: the local backend runs the issue
+ * commands through `runTrackerIssueCommand`, and `project_field_set` (GitHub-only) is resolved separately.
+ */
+export function buildTrackerCommands(issueId: string, updates: PostflightTrackerUpdate[]): GhCommand[] {
   const cmds: GhCommand[] = [];
 
   for (const update of updates) {
@@ -79,7 +234,10 @@ export function buildTrackerCommands(issueId: string, updates: PostflightV1["tra
 
     if (update.type === "link_pr") {
       const prNumber = update.pr_number ?? null;
-      if (prNumber) cmds.push({ cmd: "gh", args: ["issue", "comment", issueId, "--body", `Linked PR: #${prNumber}`] });
+      if (prNumber) {
+        const body = formatLinkedPullRequestComment(prNumber);
+        cmds.push({ cmd: "gh", args: ["issue", "comment", issueId, "--body", body] });
+      }
     }
 
     if (update.type === "issue_close") {
@@ -90,12 +248,36 @@ export function buildTrackerCommands(issueId: string, updates: PostflightV1["tra
         cmds.push({ cmd: "gh", args: ["issue", "close", issueId] });
       }
     }
+
+    if (update.type === "issue_reopen") {
+      const reopenComment = update.body?.trim();
+      if (reopenComment) {
+        cmds.push({ cmd: "gh", args: ["issue", "reopen", issueId, "--comment", reopenComment] });
+      } else {
+        cmds.push({ cmd: "gh", args: ["issue", "reopen", issueId] });
+      }
+    }
+
+    if (update.type === "assignee_add") {
+      const assignee = update.assignee ?? "";
+      if (assignee.trim()) cmds.push({ cmd: "gh", args: ["issue", "edit", issueId, "--add-assignee", assignee] });
+    }
+
+    if (update.type === "assignee_remove") {
+      const assignee = update.assignee ?? "";
+      if (assignee.trim()) cmds.push({ cmd: "gh", args: ["issue", "edit", issueId, "--remove-assignee", assignee] });
+    }
+
+    if (update.type === "milestone_set") {
+      const milestone = update.milestone ?? "";
+      if (milestone.trim()) cmds.push({ cmd: "gh", args: ["issue", "edit", issueId, "--milestone", milestone] });
+    }
   }
 
   return cmds;
 }
 
-export function collectLinkedPrNumbers(updates: PostflightV1["tracker_updates"]): number[] {
+export function collectLinkedPrNumbers(updates: PostflightTrackerUpdate[]): number[] {
   const prNumbers = new Set<number>();
 
   for (const update of updates) {
@@ -108,6 +290,141 @@ export function collectLinkedPrNumbers(updates: PostflightV1["tracker_updates"])
   return Array.from(prNumbers);
 }
 
+export const DEFAULT_PROJECT_OWNER = "@me";
+const PROJECT_ITEM_LIST_LIMIT = "1000";
+
+export type ProjectFieldSetPlan = {
+  projectNumber: number;
+  owner: string;
+  projectId: string;
+  fieldId: string;
+  field: string;
+  value: string;
+  /** `--single-select-option-id <id>` for status-like columns, `--text <value>` otherwise. */
+  valueArgs: string[];
+  /** `null` when the issue is not on the board yet; apply adds it with `addItemArgs` first. */
+  itemId: string | null;
+  addItemArgs: string[];
+};
+
+type ProjectFieldOption = { id: string; name: string };
+type ProjectField = { id: string; name: string; type?: string; options?: ProjectFieldOption[] };
+type ProjectItem = { id: string; content?: { url?: string } };
+
+export function collectProjectFieldUpdates(updates: PostflightTrackerUpdate[]): PostflightProjectFieldSetUpdate[] {
+  return updates.filter((update): update is PostflightProjectFieldSetUpdate => update.type === "project_field_set");
+}
+
+async function readGhJson<T>(execaFn: ExecaFn, args: string[]): Promise<T> {
+  const response = await runGhWithRetry(execaFn, args, { stdio: "pipe" });
+  return JSON.parse(response.stdout) as T;
+}
+
+/**
+ * Resolves the Projects v2 ids `gh project item-edit` needs (project, field, option and item) from the names
+ * in a `project_field_set` update. Only read commands run here; adding the item and editing it are left to apply.
+ */
+export async function planProjectFieldSet(
+  execaFn: ExecaFn,
+  issueId: string,
+  update: PostflightTrackerUpdate
+): Promise<ProjectFieldSetPlan> {
+  const projectNumber = update.project_number ?? 0;
+  const field = update.field?.trim() ?? "";
+  const value = update.value?.trim() ?? "";
+  if (!projectNumber || !field || !value) {
+    throw new Error("project_field_set requires project_number, field and value");
+  }
+  const owner = update.project_owner?.trim() || DEFAULT_PROJECT_OWNER;
+  const project = String(projectNumber);
+
+  const view = await readGhJson<{ id?: string }>(execaFn, ["project", "view", project, "--owner", owner, "--format", "json"]);
+  if (!view.id) {
+    throw new Error(`project #${projectNumber} (owner ${owner}) not found`);
+  }
+
+  const { fields = [] } = await readGhJson<{ fields?: ProjectField[] }>(execaFn, [
+    "project",
+    "field-list",
+    project,
+    "--owner",
+    owner,
+    "--format",
+    "json"
+  ]);
+  const projectField = fields.find((entry) => entry.name.toLowerCase() === field.toLowerCase());
+  if (!projectField) {
+    throw new Error(`project #${projectNumber} has no field '${field}'`);
+  }
+
+  let valueArgs = ["--text", value];
+  if (projectField.options) {
+    const option = projectField.options.find((entry) => entry.name.toLowerCase() === value.toLowerCase());
+    if (!option) {
+      const available = projectField.options.map((entry) => entry.name).join(", ");
+      throw new Error(`project field '${projectField.name}' has no option '${value}' (available: ${available})`);
+    }
+    valueArgs = ["--single-select-option-id", option.id];
+  }
+
+  const issueUrl = (
+    await runGhWithRetry(execaFn, ["issue", "view", issueId, "--json", "url", "-q", ".url"], { stdio: "pipe" })
+  ).stdout.trim();
+  const { items = [] } = await readGhJson<{ items?: ProjectItem[] }>(execaFn, [
+    "project",
+    "item-list",
+    project,
+    "--owner",
+    owner,
+    "--format",
+    "json",
+    "--limit",
+    PROJECT_ITEM_LIST_LIMIT
+  ]);
+
+  return {
+    projectNumber,
+    owner,
+    projectId: view.id,
+    fieldId: projectField.id,
+    field: projectField.name,
+    value,
+    valueArgs,
+    itemId: items.find((item) => issueUrl && item.content?.url === issueUrl)?.id ?? null,
+    addItemArgs: ["project", "item-add", project, "--owner", owner, "--url", issueUrl, "--format", "json"]
+  };
+}
+
+/** Dry-run stand-in for `item-edit`: ids are only known after the (skipped) lookups. */
+export function buildProjectFieldSetPreviewArgs(update: PostflightTrackerUpdate): string[] {
+  return [
+    "project",
+    "item-edit",
+    "--id",
+    "<item-id>",
+    "--project-id",
+    `<project-id:${update.project_owner?.trim() || DEFAULT_PROJECT_OWNER}/${update.project_number}>`,
+    "--field-id",
+    `<field-id:${update.field?.trim()}>`,
+    "--value",
+    `<${update.value?.trim()}>`
+  ];
+}
+
+export function buildProjectItemEditArgs(plan: ProjectFieldSetPlan, itemId: string): string[] {
+  return [
+    "project",
+    "item-edit",
+    "--id",
+    itemId,
+    "--project-id",
+    plan.projectId,
+    "--field-id",
+    plan.fieldId,
+    ...plan.valueArgs
+  ];
+}
+
 export function hasIssueAutocloseReference(prBody: string, issueId: string): boolean {
   const escapedIssueId = issueId.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
   const regex = new RegExp(`\\b(?:fixes|closes|resolves)\\s*#${escapedIssueId}\\b`, "i");
@@ -1,6 +1,6 @@
 import { execa } from "execa";
-import { readTurnContext, validateTurnContext } from "./turn";
-import { runGhWithRetry } from "./gh-retry";
+import { readTurnContext } from "./turn";
+import { createGitHubClient, type GitHubClient } from "./github-client";
 import {
   autofillRationaleSections,
   buildBodyWithRationale,
@@ -13,8 +13,6 @@ import { listChangedFilesForRationale } from "./git-changed-files";
 
 type ExecaFn = typeof execa;
 
-type JsonRecord = Record<string, unknown>;
-
 type OpenPrSnapshot = {
   number: number;
   url: string | null;
@@ -59,41 +57,6 @@ export type PrOpenResult = {
   rationaleSignals: RationaleSignalDebug;
 };
 
-function parseJsonArray(stdout: string, context: string): JsonRecord[] {
-  const parsed = JSON.parse(stdout) as unknown;
-  if (!Array.isArray(parsed)) {
-    throw new Error(`${context}: expected array response`);
-  }
-  return parsed.filter((value): value is JsonRecord => typeof value === "object" && value !== null);
-}
-
-function parseJsonObject(stdout: string, context: string): JsonRecord {
-  const parsed = JSON.parse(stdout) as unknown;
-  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
-    throw new Error(`${context}: expected object response`);
-  }
-  return parsed as JsonRecord;
-}
-
-function parseNullableString(value: unknown): string | null {
-  return typeof value === "string" ? value.trim() || null : null;
-}
-
-function parsePositiveInt(value: unknown): number | null {
-  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : null;
-}
-
-function parseLabelNames(value: unknown): string[] {
-  if (!Array.isArray(value)) return [];
-  const labels: string[] = [];
-  for (const entry of value) {
-    if (typeof entry !== "object" || entry === null) continue;
-    const name = parseNullableString((entry as JsonRecord).name);
-    if (name) labels.push(name);
-  }
-  return labels;
-}
-
 function parseIssueId(value: string | number | null | undefined): number | null {
   if (value === undefined || value === null || value === "") return null;
   const raw = typeof value === "number" ? String(value) : String(value).trim();
@@ -103,20 +66,6 @@ function parseIssueId(value: string | number | null | undefined): number | null
   return parsed;
 }
 
-function extractUrl(value: string): string | null {
-  const trimmed = value.trim();
-  if (!trimmed) return null;
-  const firstLine = trimmed.split(/\r?\n/)[0]?.trim() ?? "";
-  if (!firstLine.startsWith("http")) return null;
-  return firstLine;
-}
-
-function extractPrNumberFromUrl(url: string | null): number | null {
-  if (!url) return null;
-  const match = /\/pull\/([0-9]+)\b/.exec(url);
-  return match ? Number(match[1]) : null;
-}
-
 async function resolveCurrentBranch(execaFn: ExecaFn): Promise<string | null> {
   const response = await execaFn("git", ["rev-parse", "--abbrev-ref", "HEAD"], { stdio: "pipe" });
   const branch = response.stdout.trim();
@@ -128,18 +77,18 @@ async function resolveCurrentBranch(execaFn: ExecaFn): Promise<string | null> {
 
 async function resolveTurnDefaults(): Promise<TurnResolution> {
   try {
-    const activeTurn = await readTurnContext();
-    if (!activeTurn) {
+    const read = await readTurnContext();
+    if (read.state === "none") {
       return { state: "missing" };
     }
 
-    const turnErrors = validateTurnContext(activeTurn);
-    if (turnErrors.length > 0) {
+    if (read.state === "invalid") {
       return {
         state: "invalid",
-        reason: turnErrors.join(", "),
+        reason: read.errors.join(", "),
       };
     }
+    const activeTurn = read.turn;
 
     return {
       state: "ok",
@@ -159,42 +108,30 @@ async function resolveTurnDefaults(): Promise<TurnResolution> {
 }
 
 async function fetchIssueSnapshot(
-  execaFn: ExecaFn,
+  github: GitHubClient,
   issueId: number,
 ): Promise<{ title: string; url: string | null; labels: string[]; body: string | null }> {
-  const response = await runGhWithRetry(execaFn, ["issue", "view", String(issueId), "--json", "title,url,labels,body"], {
-    stdio: "pipe",
-  });
-  const row = parseJsonObject(response.stdout, "gh issue view");
-  const title = parseNullableString(row.title);
-  if (!title) {
+  const issue = await github.viewIssue(issueId, ["title", "url", "labels", "body"]);
+  if (!issue.title) {
     throw new Error(`pr open: issue #${issueId} is missing title`);
   }
 
   return {
-    title,
-    url: parseNullableString(row.url),
-    labels: parseLabelNames(row.labels),
-    body: parseNullableString(row.body),
+    title: issue.title,
+    url: issue.url,
+    labels: issue.labels,
+    body: issue.body,
   };
 }
 
-async function findOpenPrByHead(execaFn: ExecaFn, branch: string): Promise<OpenPrSnapshot | null> {
-  const listed = await runGhWithRetry(
-    execaFn,
-    ["pr", "list", "--head", branch, "--state", "open", "--json", "number,url,title"],
-    {
-      stdio: "pipe",
-    },
-  );
-  const rows = parseJsonArray(listed.stdout, "gh pr list");
+async function findOpenPrByHead(github: GitHubClient, branch: string): Promise<OpenPrSnapshot | null> {
+  const rows = await github.listPullRequests({ head: branch, state: "open" }, ["number", "url", "title"]);
   for (const row of rows) {
-    const number = parsePositiveInt(row.number);
-    if (!number) continue;
+    if (!row.number) continue;
     return {
-      number,
-      url: parseNullableString(row.url),
-      title: parseNullableString(row.title),
+      number: row.number,
+      url: row.url,
+      title: row.title,
     };
   }
   return null;
@@ -236,14 +173,12 @@ export function buildPrOpenBodyTemplate(params: {
   });
 }
 
-async function readPullRequestBody(execaFn: ExecaFn, prNumber: number): Promise<string | null> {
-  const response = await runGhWithRetry(execaFn, ["pr", "view", String(prNumber), "--json", "body"], { stdio: "pipe" });
-  const row = parseJsonObject(response.stdout, "gh pr view");
-  return parseNullableString(row.body);
+async function readPullRequestBody(github: GitHubClient, prNumber: number): Promise<string | null> {
+  return (await github.viewPullRequest(prNumber, ["body"])).body;
 }
 
 async function autofillExistingPullRequestRationale(params: {
-  execaFn: ExecaFn;
+  github: GitHubClient;
   prNumber: number;
   issueId: number;
   issueTitle: string;
@@ -255,7 +190,7 @@ async function autofillExistingPullRequestRationale(params: {
 }): Promise<boolean> {
   if (params.dryRun) return false;
 
-  const currentBody = await readPullRequestBody(params.execaFn, params.prNumber);
+  const currentBody = await readPullRequestBody(params.github, params.prNumber);
   if (!currentBody || !hasRationaleTodoPlaceholders(currentBody)) return false;
 
   const result = autofillRationaleSections(currentBody, {
@@ -271,12 +206,12 @@ async function autofillExistingPullRequestRationale(params: {
   });
   if (!result.changed) return false;
 
-  await runGhWithRetry(params.execaFn, ["pr", "edit", String(params.prNumber), "--body", result.body], { stdio: "pipe" });
+  await params.github.editPullRequestBody(params.prNumber, result.body);
   return true;
 }
 
 async function createPullRequest(params: {
-  execaFn: ExecaFn;
+  github: GitHubClient;
   issueId: number;
   issueTitle: string;
   issueUrl: string | null;
@@ -307,25 +242,12 @@ async function createPullRequest(params: {
     };
   }
 
-  const created = await runGhWithRetry(
-    params.execaFn,
-    [
-      "pr",
-      "create",
-      "--base",
-      params.baseBranch,
-      "--head",
-      params.branch,
-      "--title",
-      title,
-      "--body",
-      body,
-    ],
-    { stdio: "pipe" },
-  );
-
-  const url = extractUrl(created.stdout);
-  const number = extractPrNumberFromUrl(url);
+  const { number, url } = await params.github.createPullRequest({
+    base: params.baseBranch,
+    head: params.branch,
+    title,
+    body,
+  });
   if (number) {
     return {
       number,
@@ -335,7 +257,7 @@ async function createPullRequest(params: {
     };
   }
 
-  const opened = await findOpenPrByHead(params.execaFn, params.branch);
+  const opened = await findOpenPrByHead(params.github, params.branch);
   if (!opened) {
     throw new Error(`pr open: unable to resolve PR created for branch '${params.branch}'`);
   }
@@ -365,7 +287,8 @@ export async function runPrOpenCommand(
   if (!issueId) {
     if (turnDefaults.state === "invalid") {
       throw new Error(
-        `pr open: active turn invalid (${turnDefaults.reason}). Use --issue <n> and --branch <name> or fix turn context.`,
+        `pr open: active turn invalid (${turnDefaults.reason}). ` +
+          "Use --issue <n> and --branch <name> or run vibe turn doctor.",
       );
     }
     throw new Error("pr open: missing issue. Use --issue <n> or start an active turn.");
@@ -386,10 +309,11 @@ export async function runPrOpenCommand(
   const baseFromTurn = turnDefaults.state === "ok" ? turnDefaults.baseBranch : null;
   const baseBranch = baseFromArgs ?? baseFromTurn ?? "main";
   const changedFiles = await listChangedFilesForRationale(execaFn, { baseBranch, branch });
+  const github = createGitHubClient(execaFn);
 
-  const openPr = await findOpenPrByHead(execaFn, branch);
+  const openPr = await findOpenPrByHead(github, branch);
   if (openPr) {
-    const issue = await fetchIssueSnapshot(execaFn, issueId);
+    const issue = await fetchIssueSnapshot(github, issueId);
     const rationaleSignals = buildRationaleSignalDebug({
       issueId,
       issueTitle: issue.title,
@@ -414,7 +338,7 @@ export async function runPrOpenCommand(
     const rationaleAutofilled = options.dryRun
       ? false
       : await autofillExistingPullRequestRationale({
-          execaFn,
+          github,
           prNumber: openPr.number,
           issueId,
           issueTitle: issue.title,
@@ -442,7 +366,7 @@ export async function runPrOpenCommand(
     };
   }
 
-  const issue = await fetchIssueSnapshot(execaFn, issueId);
+  const issue = await fetchIssueSnapshot(github, issueId);
   const rationaleSignals = buildRationaleSignalDebug({
     issueId,
     issueTitle: issue.title,
@@ -455,7 +379,7 @@ export async function runPrOpenCommand(
     },
   });
   const created = await createPullRequest({
-    execaFn,
+    github,
     issueId,
     issueTitle: issue.title,
     issueUrl: issue.url,
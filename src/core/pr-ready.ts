@@ -1,10 +1,8 @@
 import { execa } from "execa";
-import { runGhWithRetry } from "./gh-retry";
+import { createGitHubClient, type GitHubClient } from "./github-client";
 import { hasReviewForHead, PR_OPEN_REVIEW_GATE_POLICY_KEY, resolveRepoNameWithOwner } from "./review-pr";
 
 type ExecaFn = typeof execa;
-type JsonRecord = Record<string, unknown>;
-
 const DEFAULT_POLL_INTERVAL_MS = 2000;
 export const PR_READY_REMEDIATION_WAIT_SECONDS = 30;
 export const PR_READY_FREEZE_GUIDANCE =
@@ -83,30 +81,6 @@ type ClockRuntime = {
   pollIntervalMs: number;
 };
 
-function parseJsonArray(stdout: string, context: string): JsonRecord[] {
-  const parsed = JSON.parse(stdout) as unknown;
-  if (!Array.isArray(parsed)) {
-    throw new Error(`${context}: expected array response`);
-  }
-  return parsed.filter((value): value is JsonRecord => typeof value === "object" && value !== null);
-}
-
-function parseJsonObject(stdout: string, context: string): JsonRecord {
-  const parsed = JSON.parse(stdout) as unknown;
-  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
-    throw new Error(`${context}: expected object response`);
-  }
-  return parsed as JsonRecord;
-}
-
-function parseNullableString(value: unknown): string | null {
-  return typeof value === "string" ? value.trim() || null : null;
-}
-
-function parsePositiveInt(value: unknown): number | null {
-  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : null;
-}
-
 function normalizeWaitSeconds(value: number): number {
   if (!Number.isFinite(value)) return 0;
   const normalized = Math.trunc(value);
@@ -139,22 +113,10 @@ async function resolveCurrentBranch(execaFn: ExecaFn): Promise<string> {
   return branch;
 }
 
-async function resolveOpenPrByBranch(execaFn: ExecaFn, branch: string): Promise<OpenPrResolution> {
-  const response = await runGhWithRetry(
-    execaFn,
-    ["pr", "list", "--head", branch, "--state", "open", "--json", "number,url"],
-    { stdio: "pipe" },
-  );
-  const rows = parseJsonArray(response.stdout, "gh pr list");
+async function resolveOpenPrByBranch(github: GitHubClient, branch: string): Promise<OpenPrResolution> {
+  const rows = await github.listPullRequests({ head: branch, state: "open" }, ["number", "url"]);
   const prs = rows
-    .map((row) => {
-      const number = parsePositiveInt(row.number);
-      if (!number) return null;
-      return {
-        number,
-        url: parseNullableString(row.url),
-      };
-    })
+    .map((row) => (row.number ? { number: row.number, url: row.url } : null))
     .filter((entry): entry is { number: number; url: string | null } => entry !== null);
 
   if (!prs.length) {
@@ -179,40 +141,37 @@ async function resolveOpenPrByBranch(execaFn: ExecaFn, branch: string): Promise<
   };
 }
 
-async function fetchPullRequestSnapshot(execaFn: ExecaFn, prNumber: number): Promise<PrSnapshot> {
-  const response = await runGhWithRetry(
-    execaFn,
-    [
-      "pr",
-      "view",
-      String(prNumber),
-      "--json",
-      "number,url,state,isDraft,headRefName,headRefOid,baseRefName,mergeStateStatus",
-    ],
-    { stdio: "pipe" },
-  );
-  const row = parseJsonObject(response.stdout, "gh pr view");
-  const number = parsePositiveInt(row.number) ?? prNumber;
+async function fetchPullRequestSnapshot(github: GitHubClient, prNumber: number): Promise<PrSnapshot> {
+  const row = await github.viewPullRequest(prNumber, [
+    "number",
+    "url",
+    "state",
+    "isDraft",
+    "headRefName",
+    "headRefOid",
+    "baseRefName",
+    "mergeStateStatus",
+  ]);
   return {
-    number,
-    url: parseNullableString(row.url),
-    state: parseNullableString(row.state)?.toUpperCase() ?? null,
-    isDraft: Boolean(row.isDraft),
-    headRefName: parseNullableString(row.headRefName),
-    headRefOid: parseNullableString(row.headRefOid)?.toLowerCase() ?? null,
-    baseRefName: parseNullableString(row.baseRefName),
-    mergeStateStatus: parseNullableString(row.mergeStateStatus)?.toUpperCase() ?? null,
+    number: row.number ?? prNumber,
+    url: row.url,
+    state: row.state?.toUpperCase() ?? null,
+    isDraft: row.isDraft,
+    headRefName: row.headRefName,
+    headRefOid: row.headRefOid?.toLowerCase() ?? null,
+    baseRefName: row.baseRefName,
+    mergeStateStatus: row.mergeStateStatus?.toUpperCase() ?? null,
   };
 }
 
 async function waitForMergeStateClean(params: {
-  execaFn: ExecaFn;
+  github: GitHubClient;
   prNumber: number;
   initial: PrSnapshot;
   waitSeconds: number;
   runtime: ClockRuntime;
 }): Promise<PrSnapshot> {
-  const { execaFn, prNumber, initial, waitSeconds, runtime } = params;
+  const { github, prNumber, initial, waitSeconds, runtime } = params;
   if (initial.mergeStateStatus !== "UNKNOWN" || waitSeconds <= 0) {
     return initial;
   }
@@ -224,7 +183,7 @@ async function waitForMergeStateClean(params: {
     const remainingMs = deadline - runtime.now();
     const sleepMs = Math.max(1, Math.min(runtime.pollIntervalMs, remainingMs));
     await runtime.sleep(sleepMs);
-    snapshot = await fetchPullRequestSnapshot(execaFn, prNumber);
+    snapshot = await fetchPullRequestSnapshot(github, prNumber);
   }
 
   return snapshot;
@@ -314,6 +273,7 @@ export async function runPrReadyCommand(
   const runtime = buildRuntime(runtimeOptions);
   const waitSeconds = normalizeWaitSeconds(options.waitSeconds);
   const checks: PrReadyCheck[] = [];
+  const github = createGitHubClient(execaFn);
 
   if (options.refresh) {
     await execaFn("git", ["fetch", "origin"], { stdio: "pipe" });
@@ -326,7 +286,7 @@ export async function runPrReadyCommand(
   if (!prNumber) {
     const branch = options.branchOverride?.trim() ? options.branchOverride.trim() : await resolveCurrentBranch(execaFn);
     branchFromLookup = branch;
-    const resolved = await resolveOpenPrByBranch(execaFn, branch);
+    const resolved = await resolveOpenPrByBranch(github, branch);
     if (resolved.state !== "resolved") {
       checks.push({
         id: "target-pr",
@@ -367,7 +327,7 @@ export async function runPrReadyCommand(
     });
   }
 
-  const snapshot = await fetchPullRequestSnapshot(execaFn, prNumber);
+  const snapshot = await fetchPullRequestSnapshot(github, prNumber);
   prUrl = snapshot.url ?? prUrl;
 
   checks.push({
@@ -385,7 +345,7 @@ export async function runPrReadyCommand(
   });
 
   const snapshotAfterWait = await waitForMergeStateClean({
-    execaFn,
+    github,
     prNumber,
     initial: snapshot,
     waitSeconds,
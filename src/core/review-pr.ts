@@ -3,6 +3,13 @@ import path from "node:path";
 import { execa } from "execa";
 import { REVIEW_PASS_ORDER, type ReviewFinding } from "./review-agent";
 import { runGhWithRetry } from "./gh-retry";
+import {
+  createGitHubClient,
+  type GitHubClient,
+  type GitHubComment,
+  type GitHubPullRequest,
+  type GitHubReview,
+} from "./github-client";
 import { createIssueWithBodyFile } from "./gh-issue";
 import { autofillRationaleSections, buildBodyWithRationale, hasRationaleTodoPlaceholders } from "./pr-rationale";
 import { listChangedFilesForRationale } from "./git-changed-files";
@@ -25,8 +32,6 @@ const REVIEW_FINGERPRINT_MARKER_PREFIX = "<!-- vibe:fingerprint:";
 const REVIEW_FINGERPRINT_MARKER_REGEX = /<!-- vibe:fingerprint:([a-f0-9]+) -->/g;
 const REVIEW_THREADS_RESOLVE_MARKER = "Resolved via `vibe review threads resolve`.";
 
-type JsonRecord = Record<string, unknown>;
-
 export type ReviewIssueSnapshot = {
   title: string;
   url: string | null;
@@ -88,56 +93,6 @@ export type ReviewPolicyProfile = {
   passProfile?: ReviewPassProfile | null;
 };
 
-function parseJsonArray(stdout: string, context: string): JsonRecord[] {
-  const parsed = JSON.parse(stdout) as unknown;
-  if (!Array.isArray(parsed)) {
-    throw new Error(`${context}: expected array response`);
-  }
-  return parsed.filter((value): value is JsonRecord => typeof value === "object" && value !== null);
-}
-
-function parseJsonObject(stdout: string, context: string): JsonRecord {
-  const parsed = JSON.parse(stdout) as unknown;
-  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
-    throw new Error(`${context}: expected object response`);
-  }
-  return parsed as JsonRecord;
-}
-
-function parseNullableString(value: unknown): string | null {
-  return typeof value === "string" ? value.trim() || null : null;
-}
-
-function parsePositiveInt(value: unknown): number | null {
-  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : null;
-}
-
-function parseLabelNames(value: unknown): string[] {
-  if (!Array.isArray(value)) return [];
-  return value
-    .map((entry) => {
-      if (typeof entry !== "object" || entry === null) return "";
-      const name = parseNullableString((entry as JsonRecord).name);
-      return name ?? "";
-    })
-    .filter(Boolean);
-}
-
-async function listPaginatedGhApiRecords(execaFn: ExecaFn, endpoint: string, context: string): Promise<JsonRecord[]> {
-  const rows: JsonRecord[] = [];
-
-  for (let page = 1; ; page += 1) {
-    const separator = endpoint.includes("?") ? "&" : "?";
-    const paginated = `${endpoint}${separator}per_page=${GH_API_PAGE_SIZE}&page=${page}`;
-    const response = await runGhWithRetry(execaFn, ["api", paginated], { stdio: "pipe" });
-    const parsed = parseJsonArray(response.stdout, context);
-    rows.push(...parsed);
-    if (parsed.length < GH_API_PAGE_SIZE) break;
-  }
-
-  return rows;
-}
-
 function extractUrl(value: string): string | null {
   const trimmed = value.trim();
   if (!trimmed) return null;
@@ -146,12 +101,6 @@ function extractUrl(value: string): string | null {
   return firstLine;
 }
 
-function extractPrNumberFromUrl(url: string | null): number | null {
-  if (!url) return null;
-  const match = /\/pull\/([0-9]+)\b/.exec(url);
-  return match ? Number(match[1]) : null;
-}
-
 function extractIssueNumberFromUrl(url: string | null): number | null {
   if (!url) return null;
   const match = /\/issues\/([0-9]+)\b/.exec(url);
@@ -210,15 +159,14 @@ function buildInlineCommentBody(finding: ReviewFinding, fingerprint: string): st
   return parts.join("\n\n");
 }
 
-function findFirstPullRequestRow(rows: JsonRecord[]): ReviewPrSnapshot | null {
+function findFirstPullRequestRow(rows: GitHubPullRequest[]): ReviewPrSnapshot | null {
   for (const row of rows) {
-    const number = parsePositiveInt(row.number);
-    if (!number) continue;
+    if (!row.number) continue;
     return {
-      number,
-      url: parseNullableString(row.url),
-      headRefOid: parseNullableString(row.headRefOid),
-      body: parseNullableString(row.body),
+      number: row.number,
+      url: row.url,
+      headRefOid: row.headRefOid,
+      body: row.body,
       created: false,
       rationaleAutofilled: false,
     };
@@ -231,40 +179,20 @@ function buildAutoPrTitle(issueId: number, issueTitle: string): string {
 }
 
 export async function resolveRepoNameWithOwner(execaFn: ExecaFn): Promise<string> {
-  const response = await runGhWithRetry(execaFn, ["repo", "view", "--json", "nameWithOwner", "-q", ".nameWithOwner"], {
-    stdio: "pipe",
-  });
-  const slug = response.stdout.trim();
-  if (!slug || !slug.includes("/")) {
-    throw new Error("unable to resolve repository owner/name from gh");
-  }
-  return slug;
+  return await createGitHubClient(execaFn).repoNameWithOwner();
 }
 
 export async function fetchIssueSnapshot(execaFn: ExecaFn, issueId: number): Promise<ReviewIssueSnapshot> {
-  const response = await runGhWithRetry(execaFn, ["issue", "view", String(issueId), "--json", "title,url,milestone,labels"], {
-    stdio: "pipe",
-  });
-  const row = parseJsonObject(response.stdout, "gh issue view");
-
-  const title = parseNullableString(row.title);
-  if (!title) {
+  const issue = await createGitHubClient(execaFn).viewIssue(issueId, ["title", "url", "milestone", "labels"]);
+  if (!issue.title) {
     throw new Error(`gh issue view: missing title for issue #${issueId}`);
   }
 
-  const milestoneRaw = row.milestone;
-  const milestone =
-    typeof milestoneRaw === "object" &&
-    milestoneRaw !== null &&
-    typeof (milestoneRaw as Record<string, unknown>).title === "string"
-      ? String((milestoneRaw as Record<string, unknown>).title).trim() || null
-      : null;
-
   return {
-    title,
-    url: parseNullableString(row.url),
-    milestone,
-    labels: parseLabelNames(row.labels),
+    title: issue.title,
+    url: issue.url,
+    milestone: issue.milestone,
+    labels: issue.labels,
   };
 }
 
@@ -314,12 +242,8 @@ export async function resolveOrCreateReviewPullRequest(params: ResolvePrParams):
   const changedFiles =
     Array.isArray(params.changedFilesOverride) ? params.changedFilesOverride.slice() : await listChangedFilesForRationale(execaFn, { baseBranch, branch });
 
-  const listed = await runGhWithRetry(
-    execaFn,
-    ["pr", "list", "--head", branch, "--state", "open", "--json", "number,url,headRefOid,body"],
-    { stdio: "pipe" },
-  );
-  const rows = parseJsonArray(listed.stdout, "gh pr list");
+  const github = createGitHubClient(execaFn);
+  const rows = await github.listPullRequests({ head: branch, state: "open" }, ["number", "url", "headRefOid", "body"]);
   const open = findFirstPullRequestRow(rows);
   if (open) {
     if (!dryRun && open.body && hasRationaleTodoPlaceholders(open.body)) {
@@ -334,9 +258,7 @@ export async function resolveOrCreateReviewPullRequest(params: ResolvePrParams):
         },
       });
       if (nextBodyResult.changed) {
-        await runGhWithRetry(execaFn, ["pr", "edit", String(open.number), "--body", nextBodyResult.body], {
-          stdio: "pipe",
-        });
+        await github.editPullRequestBody(open.number, nextBodyResult.body);
         return {
           ...open,
           rationaleAutofilled: true,
@@ -366,41 +288,27 @@ export async function resolveOrCreateReviewPullRequest(params: ResolvePrParams):
     };
   }
 
-  const created = await runGhWithRetry(
-    execaFn,
-    ["pr", "create", "--base", baseBranch, "--head", branch, "--title", title, "--body", body],
-    {
-      stdio: "pipe",
-    },
-  );
-  const url = extractUrl(created.stdout);
-  const prNumber = extractPrNumberFromUrl(url);
-  if (!prNumber) {
-    throw new Error(`unable to parse PR number from gh pr create output: ${created.stdout}`);
+  const created = await github.createPullRequest({ base: baseBranch, head: branch, title, body });
+  if (!created.number) {
+    throw new Error(`unable to parse PR number from gh pr create output: ${created.url ?? "(no url)"}`);
   }
 
-  const viewed = await runGhWithRetry(execaFn, ["pr", "view", String(prNumber), "--json", "number,url,headRefOid"], {
-    stdio: "pipe",
-  });
-  const viewedRow = parseJsonObject(viewed.stdout, "gh pr view");
-  const viewedNumber = parsePositiveInt(viewedRow.number) ?? prNumber;
+  const viewed = await github.viewPullRequest(created.number, ["number", "url", "headRefOid"]);
 
   return {
-    number: viewedNumber,
-    url: parseNullableString(viewedRow.url) ?? url,
-    headRefOid: parseNullableString(viewedRow.headRefOid),
+    number: viewed.number ?? created.number,
+    url: viewed.url ?? created.url,
+    headRefOid: viewed.headRefOid,
     body: null,
     created: true,
     rationaleAutofilled: false,
   };
 }
 
-function extractSummaryCommentId(rows: JsonRecord[]): number | null {
-  for (const row of rows) {
-    const body = parseNullableString(row.body);
-    if (!body || !body.includes(REVIEW_SUMMARY_MARKER)) continue;
-    const id = parsePositiveInt(row.id);
-    if (id) return id;
+function extractSummaryCommentId(comments: GitHubComment[]): number | null {
+  for (const comment of comments) {
+    if (!comment.body || !comment.body.includes(REVIEW_SUMMARY_MARKER)) continue;
+    if (comment.id) return comment.id;
   }
   return null;
 }
@@ -490,7 +398,7 @@ export const PR_OPEN_REVIEW_GATE_POLICY_KEY = buildReviewPolicyKey({
 });
 
 async function upsertReviewSummaryComment(
-  execaFn: ExecaFn,
+  github: GitHubClient,
   repo: string,
   prNumber: number,
   body: string,
@@ -498,28 +406,14 @@ async function upsertReviewSummaryComment(
 ): Promise<number | null> {
   if (dryRun) return null;
 
-  const rows = await listPaginatedGhApiRecords(execaFn, `repos/${repo}/issues/${prNumber}/comments`, "gh issue comments");
-  const existingCommentId = extractSummaryCommentId(rows);
+  const comments = await github.listIssueComments(repo, prNumber);
+  const existingCommentId = extractSummaryCommentId(comments);
   if (existingCommentId) {
-    await runGhWithRetry(
-      execaFn,
-      ["api", "--method", "PATCH", `repos/${repo}/issues/comments/${existingCommentId}`, "-f", `body=${body}`],
-      {
-        stdio: "pipe",
-      },
-    );
+    await github.updateIssueComment(repo, existingCommentId, body);
     return existingCommentId;
   }
 
-  const created = await runGhWithRetry(
-    execaFn,
-    ["api", "--method", "POST", `repos/${repo}/issues/${prNumber}/comments`, "-f", `body=${body}`],
-    {
-      stdio: "pipe",
-    },
-  );
-  const parsed = parseJsonObject(created.stdout, "gh issue comment create");
-  return parsePositiveInt(parsed.id);
+  return await github.createIssueComment(repo, prNumber, body);
 }
 
 export async function hasReviewForHead(
@@ -537,13 +431,12 @@ export async function hasReviewForHead(
   const targetPolicy = normalizePolicyKeyForComparison(options?.policyKey, {
     ignorePassProfile: Boolean(options?.ignorePassProfile),
   });
-  const rows = await listPaginatedGhApiRecords(execaFn, `repos/${repo}/issues/${prNumber}/comments`, "gh issue comments");
+  const comments = await createGitHubClient(execaFn).listIssueComments(repo, prNumber);
   let foundHeadMarker = false;
   let foundPolicyMarkersForHead = false;
   let foundMatchingPolicyMarker = false;
 
-  for (const row of rows) {
-    const body = parseNullableString(row.body);
+  for (const { body } of comments) {
     if (!body || !body.includes(REVIEW_SUMMARY_MARKER)) continue;
     const heads = extractReviewHeadMarkers(body);
     if (!heads.has(target)) continue;
@@ -586,10 +479,10 @@ export async function postReviewGateSkipComment(params: {
   const normalizedHead = headSha.trim().toLowerCase();
   if (!normalizedHead) return;
 
-  const rows = await listPaginatedGhApiRecords(execaFn, `repos/${repo}/issues/${prNumber}/comments`, "gh issue comments");
+  const github = createGitHubClient(execaFn);
+  const comments = await github.listIssueComments(repo, prNumber);
   const headMarker = `${REVIEW_GATE_HEAD_MARKER_PREFIX}${normalizedHead} -->`;
-  for (const row of rows) {
-    const body = parseNullableString(row.body);
+  for (const { body } of comments) {
     if (!body) continue;
     if (body.includes(REVIEW_GATE_SKIPPED_MARKER) && body.includes(headMarker)) {
       return;
@@ -602,19 +495,18 @@ export async function postReviewGateSkipComment(params: {
     `review gate skipped via \`--skip-review-gate\` for issue #${issueId}.`,
   ].join("\n");
 
-  await runGhWithRetry(
-    execaFn,
-    ["api", "--method", "POST", `repos/${repo}/issues/${prNumber}/comments`, "-f", `body=${body}`],
-    { stdio: "pipe" },
-  );
+  await github.createIssueComment(repo, prNumber, body);
 }
 
-async function listExistingInlineFingerprints(execaFn: ExecaFn, repo: string, prNumber: number): Promise<Set<string>> {
-  const rows = await listPaginatedGhApiRecords(execaFn, `repos/${repo}/pulls/${prNumber}/comments`, "gh pr review comments");
+async function listExistingInlineFingerprints(
+  github: GitHubClient,
+  repo: string,
+  prNumber: number,
+): Promise<Set<string>> {
+  const comments = await github.listReviewComments(repo, prNumber);
   const fingerprints = new Set<string>();
 
-  for (const row of rows) {
-    const body = parseNullableString(row.body);
+  for (const { body } of comments) {
     if (!body) continue;
     let match: RegExpExecArray | null = REVIEW_FINGERPRINT_MARKER_REGEX.exec(body);
     while (match) {
@@ -628,10 +520,8 @@ async function listExistingInlineFingerprints(execaFn: ExecaFn, repo: string, pr
   return fingerprints;
 }
 
-async function resolvePullRequestHeadSha(execaFn: ExecaFn, prNumber: number): Promise<string> {
-  const viewed = await runGhWithRetry(execaFn, ["pr", "view", String(prNumber), "--json", "headRefOid"], { stdio: "pipe" });
-  const row = parseJsonObject(viewed.stdout, "gh pr view");
-  const sha = parseNullableString(row.headRefOid);
+async function resolvePullRequestHeadSha(github: GitHubClient, prNumber: number): Promise<string> {
+  const sha = (await github.viewPullRequest(prNumber, ["headRefOid"])).headRefOid;
   if (!sha) {
     throw new Error(`unable to resolve headRefOid for PR #${prNumber}`);
   }
@@ -647,24 +537,8 @@ type PublishReviewParams = {
   dryRun: boolean;
 };
 
-function parseReviewAuthorLogin(review: JsonRecord): string | null {
-  const user = typeof review.user === "object" && review.user !== null ? (review.user as JsonRecord) : null;
-  if (!user) return null;
-  const login = parseNullableString(user.login);
-  return login ? login.toLowerCase() : null;
-}
-
-function isPendingReview(review: JsonRecord): boolean {
-  const state = parseNullableString(review.state);
-  return state?.toUpperCase() === "PENDING";
-}
-
-function parseReviewId(review: JsonRecord): number | null {
-  return parsePositiveInt(review.id);
-}
-
-function parsePullRequestReviewId(value: unknown): number | null {
-  return parsePositiveInt(value);
+function isPendingReview(review: GitHubReview): boolean {
+  return review.state?.toUpperCase() === "PENDING";
 }
 
 function isVibeManagedReviewText(body: string | null): boolean {
@@ -676,22 +550,21 @@ function isVibeManagedReviewText(body: string | null): boolean {
   );
 }
 
-async function resolveAuthenticatedUserLogin(execaFn: ExecaFn): Promise<string | null> {
-  const response = await runGhWithRetry(execaFn, ["api", "user"], { stdio: "pipe" });
-  const row = parseJsonObject(response.stdout, "gh api user");
-  const login = parseNullableString(row.login);
+async function resolveAuthenticatedUserLogin(github: GitHubClient): Promise<string | null> {
+  const login = await github.authenticatedLogin();
   return login ? login.toLowerCase() : null;
 }
 
-async function listReviewBodiesByReviewId(execaFn: ExecaFn, repo: string, prNumber: number): Promise<Map<number, string[]>> {
-  const rows = await listPaginatedGhApiRecords(execaFn, `repos/${repo}/pulls/${prNumber}/comments`, "gh pr review comments");
+async function listReviewBodiesByReviewId(
+  github: GitHubClient,
+  repo: string,
+  prNumber: number,
+): Promise<Map<number, string[]>> {
+  const comments = await github.listReviewComments(repo, prNumber);
   const bodiesByReviewId = new Map<number, string[]>();
 
-  for (const row of rows) {
-    const reviewId = parsePullRequestReviewId(row.pull_request_review_id);
-    if (!reviewId) continue;
-    const body = parseNullableString(row.body);
-    if (!body) continue;
+  for (const { reviewId, body } of comments) {
+    if (!reviewId || !body) continue;
     const existing = bodiesByReviewId.get(reviewId);
     if (existing) {
       existing.push(body);
@@ -719,7 +592,8 @@ export async function cleanupPendingReviewDrafts(params: {
     };
   }
 
-  const actorLogin = await resolveAuthenticatedUserLogin(execaFn);
+  const github = createGitHubClient(execaFn);
+  const actorLogin = await resolveAuthenticatedUserLogin(github);
   if (!actorLogin) {
     return {
       actorLogin: null,
@@ -729,8 +603,10 @@ export async function cleanupPendingReviewDrafts(params: {
     };
   }
 
-  const rows = await listPaginatedGhApiRecords(execaFn, `repos/${repo}/pulls/${prNumber}/reviews`, "gh pr reviews");
-  const pendingOwnReviews = rows.filter((row) => isPendingReview(row) && parseReviewAuthorLogin(row) === actorLogin);
+  const reviews = await github.listReviews(repo, prNumber);
+  const pendingOwnReviews = reviews.filter(
+    (review) => isPendingReview(review) && review.author?.toLowerCase() === actorLogin,
+  );
   const pendingFound = pendingOwnReviews.length;
   if (!pendingFound) {
     return {
@@ -743,7 +619,7 @@ export async function cleanupPendingReviewDrafts(params: {
 
   let reviewBodiesByReviewId: Map<number, string[]>;
   try {
-    reviewBodiesByReviewId = await listReviewBodiesByReviewId(execaFn, repo, prNumber);
+    reviewBodiesByReviewId = await listReviewBodiesByReviewId(github, repo, prNumber);
   } catch {
     return {
       actorLogin,
@@ -754,11 +630,10 @@ export async function cleanupPendingReviewDrafts(params: {
   }
 
   const cleanupCandidates = pendingOwnReviews.filter((review) => {
-    const reviewBody = parseNullableString(review.body);
-    if (isVibeManagedReviewText(reviewBody)) {
+    if (isVibeManagedReviewText(review.body)) {
       return true;
     }
-    const reviewId = parseReviewId(review);
+    const reviewId = review.id;
     if (!reviewId) {
       return false;
     }
@@ -780,15 +655,13 @@ export async function cleanupPendingReviewDrafts(params: {
   let deleted = 0;
   let skipped = nonVibePendingCount;
   for (const review of cleanupCandidates) {
-    const reviewId = parseReviewId(review);
+    const reviewId = review.id;
     if (!reviewId) {
       skipped += 1;
       continue;
     }
     try {
-      await runGhWithRetry(execaFn, ["api", "--method", "DELETE", `repos/${repo}/pulls/${prNumber}/reviews/${reviewId}`], {
-        stdio: "pipe",
-      });
+      await github.deleteReview(repo, prNumber, reviewId);
       deleted += 1;
     } catch {
       skipped += 1;
@@ -813,7 +686,8 @@ export async function publishReviewToPullRequest(params: PublishReviewParams): P
     };
   }
 
-  const summaryCommentId = await upsertReviewSummaryComment(execaFn, repo, pr.number, summaryBody, dryRun);
+  const github = createGitHubClient(execaFn);
+  const summaryCommentId = await upsertReviewSummaryComment(github, repo, pr.number, summaryBody, dryRun);
   if (dryRun) {
     return {
       summaryCommentId,
@@ -822,8 +696,8 @@ export async function publishReviewToPullRequest(params: PublishReviewParams): P
     };
   }
 
-  const fingerprints = await listExistingInlineFingerprints(execaFn, repo, pr.number);
-  const headSha = await resolvePullRequestHeadSha(execaFn, pr.number);
+  const fingerprints = await listExistingInlineFingerprints(github, repo, pr.number);
+  const headSha = await resolvePullRequestHeadSha(github, pr.number);
   let inlinePublished = 0;
   let inlineSkipped = 0;
 
@@ -844,24 +718,7 @@ export async function publishReviewToPullRequest(params: PublishReviewParams): P
 
     const body = buildInlineCommentBody(finding, fingerprint);
     try {
-      await runGhWithRetry(
-        execaFn,
-        [
-          "api",
-          "--method",
-          "POST",
-          `repos/${repo}/pulls/${pr.number}/comments`,
-          "-f",
-          `body=${body}`,
-          "-f",
-          `commit_id=${headSha}`,
-          "-f",
-          `path=${file}`,
-          "-F",
-          `line=${line}`,
-        ],
-        { stdio: "pipe" },
-      );
+      await github.createReviewComment(repo, pr.number, { body, commitId: headSha, path: file, line });
       fingerprints.add(fingerprint);
       inlinePublished += 1;
     } catch {
@@ -955,34 +812,17 @@ async function fetchSourceIssueContext(execaFn: ExecaFn, issueId: number): Promi
   body: string | null;
   milestone: string | null;
 }> {
-  const viewed = await runGhWithRetry(execaFn, ["issue", "view", String(issueId), "--json", "labels,body,milestone"], {
-    stdio: "pipe",
-  });
-  const row = parseJsonObject(viewed.stdout, "gh issue view");
-  const milestoneRaw = row.milestone;
-  const milestone =
-    typeof milestoneRaw === "object" &&
-    milestoneRaw !== null &&
-    typeof (milestoneRaw as Record<string, unknown>).title === "string"
-      ? String((milestoneRaw as Record<string, unknown>).title).trim() || null
-      : null;
+  const issue = await createGitHubClient(execaFn).viewIssue(issueId, ["labels", "body", "milestone"]);
   return {
-    moduleLabels: selectModuleLabels(parseLabelNames(row.labels)),
-    body: parseNullableString(row.body),
-    milestone,
+    moduleLabels: selectModuleLabels(issue.labels),
+    body: issue.body,
+    milestone: issue.milestone,
   };
 }
 
 async function listRepositoryLabels(execaFn: ExecaFn): Promise<Set<string>> {
-  const listed = await runGhWithRetry(execaFn, ["label", "list", "--limit", "500", "--json", "name"], { stdio: "pipe" });
-  const rows = parseJsonArray(listed.stdout, "gh label list");
-  const labels = new Set<string>();
-  for (const row of rows) {
-    const name = parseNullableString(row.name);
-    if (!name) continue;
-    labels.add(normalizeLabelName(name));
-  }
-  return labels;
+  const names = await createGitHubClient(execaFn).listLabelNames(500);
+  return new Set(names.map((name) => normalizeLabelName(name)));
 }
 
 function pickExistingLabels(requested: string[], existing: Set<string>): string[] {
@@ -1080,22 +920,16 @@ type OpenFollowUpIssue = {
 };
 
 async function listOpenFollowUpIssues(execaFn: ExecaFn, repo: string, sourceIssueId: number): Promise<OpenFollowUpIssue[]> {
-  const rows = await listPaginatedGhApiRecords(execaFn, `repos/${repo}/issues?state=open`, "gh open issues");
+  const issues = await createGitHubClient(execaFn).listOpenIssues(repo);
   const matches: OpenFollowUpIssue[] = [];
   const seenIssueNumbers = new Set<number>();
-  for (const row of rows) {
-    if (typeof row.pull_request === "object" && row.pull_request !== null) continue;
-    const number = parsePositiveInt(row.number);
+  for (const { number, body, url } of issues) {
     if (!number || seenIssueNumbers.has(number)) continue;
-    const body = parseNullableString(row.body);
     if (!body) continue;
     const markerIssue = extractFollowUpSourceIssueIdFromBody(body);
     if (markerIssue !== sourceIssueId) continue;
     seenIssueNumbers.add(number);
-    matches.push({
-      number,
-      url: parseNullableString(row.html_url) ?? parseNullableString(row.url),
-    });
+    matches.push({ number, url });
   }
   return matches;
 }
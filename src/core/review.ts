@@ -41,7 +41,7 @@ import {
   type ReviewThreadsResolveResult,
 } from "./review-threads";
 import { ensureIssueReviewTemplates, getIssueReviewDirectory } from "./reviews";
-import { readTurnContext, validateTurnContext } from "./turn";
+import { readTurnContext, type TurnContext } from "./turn";
 import { runGhWithRetry } from "./gh-retry";
 import {
   resolveReviewExecutionPolicy,
@@ -367,28 +367,22 @@ async function resolveReviewRunContext(
   const branch = overrideBranch || currentBranch;
   const overrideBaseBranch = typeof baseBranchOverride === "string" ? baseBranchOverride.trim() : "";
 
-  let activeTurn: Awaited<ReturnType<typeof readTurnContext>> = null;
+  let validTurn: TurnContext | null = null;
   let invalidTurnReason: string | null = null;
   try {
-    activeTurn = await readTurnContext();
+    const read = await readTurnContext();
+    if (read.state === "active") validTurn = read.turn;
+    if (read.state === "invalid") invalidTurnReason = `missing/invalid: ${read.errors.join(", ")}`;
   } catch (error) {
     if (error instanceof SyntaxError) {
       invalidTurnReason = "malformed turn.json";
-      activeTurn = null;
     } else {
       throw error;
     }
   }
 
-  const hasTurn = activeTurn !== null;
-  const turnErrors = hasTurn ? validateTurnContext(activeTurn) : [];
-  const validTurn = hasTurn && turnErrors.length === 0 ? activeTurn : null;
   const turnMatchesBranch = validTurn !== null && validTurn.branch === branch;
 
-  if (hasTurn && !validTurn) {
-    invalidTurnReason = `missing/invalid: ${turnErrors.join(", ")}`;
-  }
-
   const branchInferredIssue = inferIssueIdFromBranch(branch);
 
   let prSnapshot: ReviewBranchPrSnapshot | null = null;
@@ -403,7 +397,7 @@ async function resolveReviewRunContext(
   const issueId = parsedOverride ?? (turnMatchesBranch ? validTurn?.issue_id : null) ?? branchInferredIssue ?? prBodyInferredIssue ?? null;
   if (!issueId || !Number.isSafeInteger(issueId) || issueId <= 0) {
     if (invalidTurnReason) {
-      const invalid = new Error(`review: invalid active turn (${invalidTurnReason}).`);
+      const invalid = new Error(`review: invalid active turn (${invalidTurnReason}). Run: vibe turn doctor`);
       (invalid as Error & { code?: number }).code = REVIEW_INVALID_TURN_EXIT_CODE;
       throw invalid;
     }
@@ -1,3 +1,4 @@
+import { randomUUID } from "node:crypto";
 import { promises as fs } from "node:fs";
 import path from "node:path";
 
@@ -83,6 +84,21 @@ async function ensureBacklogFile(filePath: string): Promise<void> {
   }
 }
 
+/** Writes through a temp file and a rename, so readers never see a partially written file. */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const suffix = `${process.pid}.${randomUUID().slice(0, 8)}`;
+  const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${suffix}.tmp`);
+
+  try {
+    await fs.writeFile(tempPath, content, "utf8");
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
 export async function readBacklog(options: BacklogPathOptions = {}): Promise<BacklogDocument> {
   const filePath = getBacklogFilePath(options);
   await ensureBacklogFile(filePath);
@@ -103,10 +119,8 @@ export async function saveBacklog(markdown: string, options: BacklogPathOptions
   }
 
   const filePath = getBacklogFilePath(options);
-  await ensureBacklogFile(filePath);
-
   const normalized = markdown.endsWith("\n") ? markdown : `${markdown}\n`;
-  await fs.writeFile(filePath, normalized, "utf8");
+  await writeFileAtomic(filePath, normalized);
 
   const stats = await fs.stat(filePath);
   return {
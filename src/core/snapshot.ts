@@ -0,0 +1,380 @@
+import { execa } from "execa";
+import type { GhRetryStats } from "./gh-retry";
+import { formatHygieneFinding, type HygieneFinding } from "./hygiene";
+import {
+  probeGitleaksAvailability,
+  readLastSecurityScan,
+  resolveSecurityPolicy,
+  type SecurityPolicy,
+  type SecurityPolicySource,
+  type SecurityScanRecord,
+} from "./security-scan";
+import { suggestSemanticMilestonesForIssueSet } from "./tracker";
+import type { TrackerIssue, TrackerPullRequest } from "./tracker-backend";
+
+type ExecaFn = typeof execa;
+
+/** Bumped only on breaking changes to the JSON shape; new optional fields keep the version. */
+export const SNAPSHOT_SCHEMA_VERSION = 2;
+
+const TURN_DOCTOR_REMEDIATION = "Run: node dist/cli.cjs turn doctor";
+const ISSUE_BLOCK_LIMIT = 10;
+
+/** Issues and PRs keep the field names of `gh --json` so agents can reuse their gh parsers. */
+export type SnapshotIssue = TrackerIssue;
+
+export type SnapshotPullRequest = TrackerPullRequest;
+
+export type GitStatusSnapshot = {
+  available: boolean;
+  /** Raw `git status -sb` output. */
+  output: string | null;
+  branch: string | null;
+};
+
+export type ActiveTurnSnapshot =
+  | { state: "none" }
+  | { state: "active"; issue_id: number; branch: string; started_at: string | null }
+  | { state: "invalid"; errors: string[] }
+  | { state: "unavailable" };
+
+/** Findings of the enabled `hygiene.rules`, plus warnings about the rule config itself. */
+export type TrackerHygieneSnapshot = {
+  findings: HygieneFinding[];
+  warnings: string[];
+};
+
+export type TrackerSnapshot = {
+  available: boolean;
+  /** `local` for the `.vibe/tracker/` backend; `cache` when gh failed and the issues come from the last query. */
+  source: "gh" | "local" | "cache" | null;
+  /** When `source` is `cache`: the time that cache was refreshed. */
+  stale_since: string | null;
+  /** The gh failure, also kept when falling back to the cache. */
+  error: string | null;
+  open_issues: SnapshotIssue[];
+  in_progress: SnapshotIssue[];
+  hygiene: TrackerHygieneSnapshot | null;
+};
+
+export type MilestoneSuggestionSnapshot = {
+  issue: number;
+  milestone: string;
+  source: string;
+};
+
+export type SecuritySummarySnapshot =
+  | {
+      available: true;
+      policy: SecurityPolicy;
+      policy_source: SecurityPolicySource;
+      policy_warnings: string[];
+      gitleaks_available: boolean;
+      gitleaks_path: string | null;
+      last_scan: Pick<SecurityScanRecord, "status" | "mode" | "policy" | "scanned_at"> | null;
+    }
+  | { available: false; error: string };
+
+export type UpdateNoticeSnapshot = {
+  package_name: string;
+  current_version: string;
+  latest_version: string;
+};
+
+export type StatusSnapshot = {
+  schema_version: typeof SNAPSHOT_SCHEMA_VERSION;
+  kind: "status";
+  generated_at: string;
+  git: GitStatusSnapshot;
+  active_turn: ActiveTurnSnapshot;
+  tracker: TrackerSnapshot;
+  /** `null` when it was not queried (gh unavailable or no active turn). */
+  active_issue: { available: boolean; issue: SnapshotIssue | null } | null;
+  /** `null` when it was not queried (gh unavailable or detached HEAD). */
+  branch_prs: { available: boolean; pull_requests: SnapshotPullRequest[] } | null;
+  /** gh calls, retries and rate-limit waits spent collecting this snapshot. */
+  gh_retry?: GhRetryStats;
+};
+
+export type PreflightSnapshot = {
+  schema_version: typeof SNAPSHOT_SCHEMA_VERSION;
+  kind: "preflight";
+  generated_at: string;
+  git: GitStatusSnapshot;
+  tracker: TrackerSnapshot;
+  /** `null` when nothing needed a suggestion or the suggester failed. */
+  milestone_suggestions: MilestoneSuggestionSnapshot[] | null;
+  security: SecuritySummarySnapshot;
+  tracker_bootstrap_suggested: boolean;
+  update_notice: UpdateNoticeSnapshot | null;
+  /** gh calls, retries and rate-limit waits spent collecting this snapshot. */
+  gh_retry?: GhRetryStats;
+};
+
+export function findInProgressIssues(issues: SnapshotIssue[]): SnapshotIssue[] {
+  return issues.filter((issue) => issue.labels.some((label) => label.trim().toLowerCase() === "status:in-progress"));
+}
+
+function findIssuesMissingMilestone(issues: SnapshotIssue[]): SnapshotIssue[] {
+  return issues.filter((issue) => !issue.milestone);
+}
+
+export function buildTrackerSnapshot(
+  issues: SnapshotIssue[],
+  hygiene: TrackerHygieneSnapshot,
+  source: "gh" | "local" = "gh",
+): TrackerSnapshot {
+  return {
+    available: true,
+    source,
+    stale_since: null,
+    error: null,
+    open_issues: issues,
+    in_progress: findInProgressIssues(issues),
+    hygiene,
+  };
+}
+
+function describeTrackerError(error: unknown): string | null {
+  return error instanceof Error ? String(error.message || error) : null;
+}
+
+export function buildUnavailableTrackerSnapshot(error: unknown): TrackerSnapshot {
+  return {
+    available: false,
+    source: null,
+    stale_since: null,
+    error: describeTrackerError(error),
+    open_issues: [],
+    in_progress: [],
+    hygiene: null,
+  };
+}
+
+/** Fallback when gh fails: the cached issues, marked stale since the cache refresh. */
+export function buildCachedTrackerSnapshot(params: {
+  issues: SnapshotIssue[];
+  refreshedAt: string;
+  hygiene: TrackerHygieneSnapshot;
+  error: unknown;
+}): TrackerSnapshot {
+  return {
+    ...buildTrackerSnapshot(params.issues, params.hygiene),
+    source: "cache",
+    stale_since: params.refreshedAt,
+    error: describeTrackerError(params.error),
+  };
+}
+
+/** Read-only suggestions for the first issues missing a milestone; `null` when none are missing. */
+export function buildMilestoneSuggestions(issues: SnapshotIssue[]): MilestoneSuggestionSnapshot[] | null {
+  const missingMilestone = findIssuesMissingMilestone(issues);
+  if (!missingMilestone.length) return null;
+
+  const plannedByIssue = suggestSemanticMilestonesForIssueSet({
+    issues: issues.map((issue) => ({
+      number: issue.number,
+      title: issue.title,
+      labels: issue.labels,
+      milestone: issue.milestone,
+    })),
+  });
+
+  const suggestions: MilestoneSuggestionSnapshot[] = [];
+  for (const issue of missingMilestone.slice(0, ISSUE_BLOCK_LIMIT)) {
+    const suggestion = plannedByIssue.get(issue.number);
+    if (!suggestion?.milestoneTitle) continue;
+    suggestions.push({ issue: issue.number, milestone: suggestion.milestoneTitle, source: suggestion.source });
+  }
+  return suggestions;
+}
+
+export async function collectSecuritySummary(execaFn: ExecaFn): Promise<SecuritySummarySnapshot> {
+  try {
+    const [policyResolution, gitleaksProbe, lastScan] = await Promise.all([
+      resolveSecurityPolicy({}),
+      probeGitleaksAvailability(execaFn),
+      readLastSecurityScan(),
+    ]);
+
+    return {
+      available: true,
+      policy: policyResolution.policy,
+      policy_source: policyResolution.source,
+      policy_warnings: policyResolution.warnings,
+      gitleaks_available: gitleaksProbe.available,
+      gitleaks_path: gitleaksProbe.available ? gitleaksProbe.location : null,
+      last_scan: lastScan
+        ? { status: lastScan.status, mode: lastScan.mode, policy: lastScan.policy, scanned_at: lastScan.scanned_at }
+        : null,
+    };
+  } catch (error) {
+    return { available: false, error: error instanceof Error && error.message ? error.message : String(error) };
+  }
+}
+
+function formatIssue(issue: SnapshotIssue): string {
+  const labels = issue.labels.length ? issue.labels.join(", ") : "-";
+  const state = issue.state ?? "OPEN";
+  const updatedAt = issue.updatedAt ?? "-";
+  return `${issue.number}\t${state}\t${issue.title}\t${labels}\t${updatedAt}`;
+}
+
+function renderIssueBlock(lines: string[], title: string, issues: SnapshotIssue[]): void {
+  lines.push(`\n${title}:`);
+  if (!issues.length) {
+    lines.push("none");
+    return;
+  }
+  for (const issue of issues.slice(0, ISSUE_BLOCK_LIMIT)) {
+    lines.push(formatIssue(issue));
+  }
+}
+
+function renderHygiene(lines: string[], hygiene: TrackerHygieneSnapshot): void {
+  lines.push("\nTracker hygiene warnings:");
+  if (!hygiene.findings.length) lines.push("none");
+  for (const finding of hygiene.findings) {
+    lines.push(formatHygieneFinding(finding));
+  }
+  for (const warning of hygiene.warnings) {
+    lines.push(`hygiene config: ${warning}`);
+  }
+}
+
+function renderGit(lines: string[], git: GitStatusSnapshot): void {
+  lines.push(git.available ? (git.output ?? "") : "git status: (not available)");
+}
+
+/** Prints the gh failure; returns whether cached issues follow. */
+function renderTrackerFallback(lines: string[], heading: string, tracker: TrackerSnapshot): boolean {
+  if (tracker.source === "gh" || tracker.source === "local") return true;
+  lines.push(heading);
+  if (tracker.error !== null) lines.push(tracker.error);
+  if (tracker.source !== "cache") return false;
+  lines.push(`Using tracker cache (stale since ${tracker.stale_since ?? "-"})`);
+  return true;
+}
+
+function renderActiveTurn(lines: string[], turn: ActiveTurnSnapshot): void {
+  if (turn.state === "none") {
+    lines.push("\nActive turn: none");
+  } else if (turn.state === "active") {
+    lines.push(`\nActive turn: issue=${turn.issue_id} branch=${turn.branch} started_at=${turn.started_at ?? "-"}`);
+  } else if (turn.state === "invalid") {
+    lines.push(`\nActive turn: invalid (${turn.errors.join(", ")})`);
+    lines.push(TURN_DOCTOR_REMEDIATION);
+  } else {
+    lines.push("\nActive turn: unavailable");
+  }
+}
+
+function renderSecurity(lines: string[], security: SecuritySummarySnapshot): void {
+  if (!security.available) {
+    lines.push("\nSecurity scan: unavailable");
+    lines.push(security.error);
+    return;
+  }
+
+  lines.push("\nSecurity scan:");
+  lines.push(`policy: ${security.policy} (source=${security.policy_source})`);
+  lines.push(`gitleaks: ${security.gitleaks_available ? "available" : "missing"}`);
+  if (security.gitleaks_path) {
+    lines.push(`gitleaks path: ${security.gitleaks_path}`);
+  }
+
+  const lastScan = security.last_scan;
+  lines.push(
+    lastScan
+      ? `last scan: ${lastScan.status} mode=${lastScan.mode} policy=${lastScan.policy} at=${lastScan.scanned_at}`
+      : "last scan: none",
+  );
+
+  if (!security.gitleaks_available) {
+    lines.push("Install gitleaks: https://github.com/gitleaks/gitleaks#installing");
+    lines.push("Run: node dist/cli.cjs security scan --mode staged");
+  }
+
+  if (security.policy_warnings.length) {
+    lines.push("security scan warnings:");
+    for (const warning of security.policy_warnings) {
+      lines.push(`- ${warning}`);
+    }
+  }
+}
+
+/** Text form of `vibe status`; each entry is one `console.log` call. */
+export function renderStatusSnapshot(snapshot: StatusSnapshot): string[] {
+  const lines: string[] = [];
+  renderGit(lines, snapshot.git);
+  renderActiveTurn(lines, snapshot.active_turn);
+
+  const { tracker } = snapshot;
+  if (renderTrackerFallback(lines, "\nTracker snapshot: unavailable (gh issue list failed)", tracker)) {
+    renderIssueBlock(lines, "In-progress issues", tracker.in_progress);
+    if (tracker.hygiene) renderHygiene(lines, tracker.hygiene);
+  }
+
+  const activeIssue = snapshot.active_issue;
+  if (activeIssue && !activeIssue.available) {
+    lines.push("\nActive issue: unavailable from gh");
+  } else if (activeIssue?.issue) {
+    const { issue } = activeIssue;
+    lines.push(`\nActive issue: #${issue.number} ${issue.state ?? "OPEN"} ${issue.title}`);
+    lines.push(`Active issue labels: ${issue.labels.length ? issue.labels.join(", ") : "-"}`);
+    lines.push(`Active issue milestone: ${issue.milestone ?? "-"}`);
+  }
+
+  const branchPrs = snapshot.branch_prs;
+  if (branchPrs && !branchPrs.available) {
+    lines.push("\nBranch PRs: unavailable");
+  } else if (branchPrs) {
+    lines.push("\nBranch PRs:");
+    if (!branchPrs.pull_requests.length) lines.push("none");
+    for (const pr of branchPrs.pull_requests) {
+      lines.push(`#${pr.number} ${pr.state ?? "-"} ${pr.title}${pr.url ? ` (${pr.url})` : ""}`);
+    }
+  }
+
+  return lines;
+}
+
+/** Text form of `vibe preflight`; each entry is one `console.log` call. */
+export function renderPreflightSnapshot(snapshot: PreflightSnapshot): string[] {
+  const lines: string[] = [];
+  renderGit(lines, snapshot.git);
+
+  const { tracker } = snapshot;
+  if (renderTrackerFallback(lines, "\nOpen issues: (gh issue list not available here)", tracker)) {
+    renderIssueBlock(lines, "Open issues (top 10)", tracker.open_issues);
+    renderIssueBlock(lines, "In-progress issues", tracker.in_progress);
+    if (tracker.hygiene) renderHygiene(lines, tracker.hygiene);
+  }
+
+  if (snapshot.milestone_suggestions) {
+    lines.push("\nMilestone suggestions:");
+    if (!snapshot.milestone_suggestions.length) lines.push("none");
+    for (const suggestion of snapshot.milestone_suggestions) {
+      const suffix = suggestion.source === "generated" ? " (new milestone candidate)" : ` (${suggestion.source})`;
+      lines.push(`#${suggestion.issue} -> ${suggestion.milestone}${suffix}`);
+    }
+  }
+
+  renderSecurity(lines, snapshot.security);
+
+  if (snapshot.tracker_bootstrap_suggested) {
+    lines.push("\nTracker bootstrap suggested:");
+    lines.push("Detected .vibe without tracker taxonomy marker.");
+    lines.push("Run: vibe tracker bootstrap --dry-run");
+    lines.push("Then: vibe tracker bootstrap");
+  }
+
+  if (snapshot.update_notice) {
+    const notice = snapshot.update_notice;
+    lines.push("\nTool update available:");
+    lines.push(`${notice.package_name}: ${notice.current_version} -> ${notice.latest_version}`);
+    lines.push("Run: node dist/cli.cjs self update");
+  }
+
+  return lines;
+}
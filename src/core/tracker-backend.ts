@@ -0,0 +1,438 @@
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { execa } from "execa";
+import { parse } from "yaml";
+import { z } from "zod";
+import { runGhWithRetry } from "./gh-retry";
+import { getSecurityContractPath } from "./security-scan";
+
+type ExecaFn = typeof execa;
+type JsonRecord = Record<string, unknown>;
+
+export const TRACKER_BACKEND_KINDS = ["github", "local"] as const;
+export type TrackerBackendKind = (typeof TRACKER_BACKEND_KINDS)[number];
+
+export type TrackerIssue = {
+  number: number;
+  title: string;
+  state: string | null;
+  labels: string[];
+  milestone: string | null;
+  updatedAt: string | null;
+  url: string | null;
+  assignees: string[];
+};
+
+export type TrackerPullRequest = {
+  number: number;
+  title: string;
+  state: string | null;
+  url: string | null;
+};
+
+/** One edit call; `milestone: null` clears the milestone, `undefined` leaves it alone. */
+export type TrackerIssueEdit = {
+  addLabels?: string[];
+  removeLabels?: string[];
+  addAssignees?: string[];
+  removeAssignees?: string[];
+  milestone?: string | null;
+};
+
+export type TrackerIssueState = "open" | "closed";
+
+/**
+ * The issue reads and writes of the turn/postflight loop. `github` shells out to `gh`; `local` keeps the same data as
+ * JSON files under `.vibe/tracker/`, so the loop also works offline and in tests. Label and milestone taxonomy
+ * (`tracker bootstrap/reconcile`), backlog issue creation and Projects v2 fields are GitHub-only and call `gh`
+ * directly.
+ */
+export type TrackerBackend = {
+  kind: TrackerBackendKind;
+  listOpenIssues(limit: number): Promise<TrackerIssue[]>;
+  getIssue(issueId: number): Promise<TrackerIssue | null>;
+  /** Title only; cheaper than `getIssue` on GitHub and `null` when the issue does not exist. */
+  getIssueTitle(issueId: number): Promise<string | null>;
+  editIssue(issueId: number, edit: TrackerIssueEdit): Promise<void>;
+  setIssueState(issueId: number, state: TrackerIssueState, comment?: string | null): Promise<void>;
+  addComment(issueId: number, body: string): Promise<void>;
+  listBranchPullRequests(branch: string): Promise<TrackerPullRequest[]>;
+  linkPullRequest(issueId: number, prNumber: number): Promise<void>;
+};
+
+const GH_ISSUE_FIELDS = "number,title,state,labels,milestone,updatedAt,url,assignees";
+const LINKED_PR_COMMENT = /^Linked PR: #([0-9]+)$/;
+
+/** The comment that links a PR on GitHub, which has no issue-to-PR link outside the PR body. */
+export function formatLinkedPullRequestComment(prNumber: number): string {
+  return `Linked PR: #${prNumber}`;
+}
+
+function parseJsonArray(stdout: string, context: string): JsonRecord[] {
+  const parsed = JSON.parse(stdout) as unknown;
+  if (!Array.isArray(parsed)) {
+    throw new Error(`${context}: expected array response`);
+  }
+  return parsed.filter((value): value is JsonRecord => typeof value === "object" && value !== null);
+}
+
+function parseNamedEntries(value: unknown, key: "name" | "login"): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => {
+      if (typeof entry === "object" && entry !== null) {
+        const name = (entry as Record<string, unknown>)[key];
+        if (typeof name === "string") return name.trim();
+      }
+      return "";
+    })
+    .filter(Boolean);
+}
+
+function parseTrimmed(value: unknown): string | null {
+  return typeof value === "string" ? value.trim() || null : null;
+}
+
+function hasIssueIdentity(row: JsonRecord): row is JsonRecord & { number: number; title: string } {
+  const { number, title } = row;
+  if (typeof number !== "number" || !Number.isInteger(number) || number <= 0) return false;
+  return typeof title === "string" && Boolean(title.trim());
+}
+
+/** Parses `gh issue list/view --json` rows; rows without a positive number or a title are dropped. */
+export function parseGhIssueRows(stdout: string, context: string): TrackerIssue[] {
+  return parseJsonArray(stdout, context)
+    .filter(hasIssueIdentity)
+    .map((row) => {
+      const milestoneRaw = row.milestone;
+      const milestone =
+        typeof milestoneRaw === "object" && milestoneRaw !== null
+          ? parseTrimmed((milestoneRaw as JsonRecord).title)
+          : null;
+      return {
+        number: row.number,
+        title: row.title.trim(),
+        state: parseTrimmed(row.state),
+        labels: parseNamedEntries(row.labels, "name"),
+        milestone,
+        updatedAt: parseTrimmed(row.updatedAt),
+        url: parseTrimmed(row.url),
+        assignees: parseNamedEntries(row.assignees, "login"),
+      };
+    });
+}
+
+export function parseGhPullRequestRows(stdout: string, context: string): TrackerPullRequest[] {
+  return parseJsonArray(stdout, context)
+    .filter(hasIssueIdentity)
+    .map((row) => ({
+      number: row.number,
+      title: row.title.trim(),
+      state: parseTrimmed(row.state),
+      url: parseTrimmed(row.url),
+    }));
+}
+
+export function createGitHubTrackerBackend(execaFn: ExecaFn): TrackerBackend {
+  const gh = (args: string[]) => runGhWithRetry(execaFn, args, { stdio: "pipe" });
+  // Writes show gh's own output, as the postflight `$ gh ...` lines they follow always have.
+  const ghWrite = (args: string[]) => runGhWithRetry(execaFn, args, { stdio: "inherit" });
+
+  const getIssue = async (issueId: number): Promise<TrackerIssue | null> => {
+    const response = await gh(["issue", "view", String(issueId), "--json", GH_ISSUE_FIELDS]);
+    return parseGhIssueRows(`[${response.stdout}]`, "gh issue view")[0] ?? null;
+  };
+
+  return {
+    kind: "github",
+    async listOpenIssues(limit) {
+      const response = await gh(["issue", "list", "--state", "open", "-L", String(limit), "--json", GH_ISSUE_FIELDS]);
+      return parseGhIssueRows(response.stdout, "gh issue list");
+    },
+    getIssue,
+    async getIssueTitle(issueId) {
+      const response = await gh(["issue", "view", String(issueId), "--json", "title", "-q", ".title"]);
+      return response.stdout.trim() || null;
+    },
+    async editIssue(issueId, edit) {
+      const args = ["issue", "edit", String(issueId)];
+      for (const label of edit.addLabels ?? []) args.push("--add-label", label);
+      for (const label of edit.removeLabels ?? []) args.push("--remove-label", label);
+      for (const assignee of edit.addAssignees ?? []) args.push("--add-assignee", assignee);
+      for (const assignee of edit.removeAssignees ?? []) args.push("--remove-assignee", assignee);
+      if (edit.milestone === null) args.push("--remove-milestone");
+      else if (edit.milestone !== undefined) args.push("--milestone", edit.milestone);
+      if (args.length > 3) await ghWrite(args);
+    },
+    async setIssueState(issueId, state, comment) {
+      const args = ["issue", state === "closed" ? "close" : "reopen", String(issueId)];
+      if (comment?.trim()) args.push("--comment", comment.trim());
+      await ghWrite(args);
+    },
+    async addComment(issueId, body) {
+      await ghWrite(["issue", "comment", String(issueId), "--body", body]);
+    },
+    async listBranchPullRequests(branch) {
+      const response = await gh(["pr", "list", "--head", branch, "--state", "all", "--json", "number,title,state,url"]);
+      return parseGhPullRequestRows(response.stdout, "gh pr list");
+    },
+    async linkPullRequest(issueId, prNumber) {
+      await ghWrite(["issue", "comment", String(issueId), "--body", formatLinkedPullRequestComment(prNumber)]);
+    },
+  };
+}
+
+const LOCAL_TRACKER_DIR = path.join(".vibe", "tracker");
+
+const LocalCommentSchema = z.object({
+  body: z.string(),
+  created_at: z.string().min(1),
+});
+
+const LocalIssueSchema = z.object({
+  number: z.number().int().positive(),
+  title: z.string().min(1),
+  body: z.string().default(""),
+  state: z.enum(["OPEN", "CLOSED"]),
+  labels: z.array(z.string()).default([]),
+  milestone: z.string().nullable().default(null),
+  assignees: z.array(z.string()).default([]),
+  created_at: z.string().min(1),
+  updated_at: z.string().min(1),
+  comments: z.array(LocalCommentSchema).default([]),
+  linked_prs: z.array(z.number().int().positive()).default([]),
+});
+
+const LocalPullRequestSchema = z.object({
+  number: z.number().int().positive(),
+  title: z.string().min(1),
+  state: z.enum(["OPEN", "CLOSED", "MERGED"]),
+  head: z.string().min(1),
+  url: z.string().nullable().default(null),
+});
+
+export type LocalTrackerIssue = z.infer<typeof LocalIssueSchema>;
+export type LocalTrackerPullRequest = z.infer<typeof LocalPullRequestSchema>;
+
+export function getLocalTrackerDir(cwd: string = process.cwd()): string {
+  return path.resolve(cwd, LOCAL_TRACKER_DIR);
+}
+
+function toTrackerIssue(issue: LocalTrackerIssue): TrackerIssue {
+  return {
+    number: issue.number,
+    title: issue.title,
+    state: issue.state,
+    labels: [...issue.labels],
+    milestone: issue.milestone,
+    updatedAt: issue.updated_at,
+    url: null,
+    assignees: [...issue.assignees],
+  };
+}
+
+function addUnique(values: string[], additions: string[] = []): string[] {
+  const next = [...values];
+  for (const value of additions) {
+    if (!next.includes(value)) next.push(value);
+  }
+  return next;
+}
+
+async function readJsonFile<T>(filePath: string, schema: z.ZodType<T>, fallback: T): Promise<T> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") return fallback;
+    throw error;
+  }
+  const parsed = schema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    throw new Error(`local tracker: invalid ${filePath}: ${parsed.error.issues[0]?.message ?? "schema mismatch"}`);
+  }
+  return parsed.data;
+}
+
+async function writeJsonFile(filePath: string, value: unknown): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+}
+
+/**
+ * File layout under `.vibe/tracker/`: `issues/<n>.json` (one issue with its comments and linked PRs, created by hand
+ * or by tests) and `pull-requests.json` (PRs keyed by head branch, seeded the same way).
+ */
+export function createLocalTrackerBackend(
+  options: { cwd?: string; now?: () => Date } = {},
+): TrackerBackend {
+  const root = getLocalTrackerDir(options.cwd);
+  const issuesDir = path.join(root, "issues");
+  const pullRequestsPath = path.join(root, "pull-requests.json");
+  const timestamp = () => (options.now?.() ?? new Date()).toISOString();
+
+  const issuePath = (issueId: number) => path.join(issuesDir, `${issueId}.json`);
+  const readIssue = (issueId: number) =>
+    readJsonFile<LocalTrackerIssue | null>(issuePath(issueId), LocalIssueSchema.nullable(), null);
+  const requireIssue = async (issueId: number): Promise<LocalTrackerIssue> => {
+    const issue = await readIssue(issueId);
+    if (!issue) throw new Error(`local tracker: issue #${issueId} not found in ${issuesDir}`);
+    return issue;
+  };
+  const saveIssue = (issue: LocalTrackerIssue) =>
+    writeJsonFile(issuePath(issue.number), { ...issue, updated_at: timestamp() });
+
+  const listIssues = async (): Promise<LocalTrackerIssue[]> => {
+    let entries: string[];
+    try {
+      entries = await readdir(issuesDir);
+    } catch {
+      return [];
+    }
+    const ids = entries
+      .map((entry) => /^([0-9]+)\.json$/.exec(entry)?.[1])
+      .filter((id): id is string => Boolean(id))
+      .map(Number)
+      .sort((left, right) => left - right);
+    return Promise.all(ids.map(requireIssue));
+  };
+
+  return {
+    kind: "local",
+    async listOpenIssues(limit) {
+      const issues = await listIssues();
+      return issues
+        .filter((issue) => issue.state === "OPEN")
+        .sort((left, right) => right.number - left.number)
+        .slice(0, limit)
+        .map(toTrackerIssue);
+    },
+    async getIssue(issueId) {
+      const issue = await readIssue(issueId);
+      return issue ? toTrackerIssue(issue) : null;
+    },
+    async getIssueTitle(issueId) {
+      return (await readIssue(issueId))?.title ?? null;
+    },
+    async editIssue(issueId, edit) {
+      const issue = await requireIssue(issueId);
+      const removeLabels = new Set(edit.removeLabels ?? []);
+      const removeAssignees = new Set(edit.removeAssignees ?? []);
+      await saveIssue({
+        ...issue,
+        labels: addUnique(issue.labels, edit.addLabels).filter((label) => !removeLabels.has(label)),
+        assignees: addUnique(issue.assignees, edit.addAssignees).filter((login) => !removeAssignees.has(login)),
+        milestone: edit.milestone === undefined ? issue.milestone : edit.milestone,
+      });
+    },
+    async setIssueState(issueId, state, comment) {
+      const issue = await requireIssue(issueId);
+      const comments = comment?.trim()
+        ? [...issue.comments, { body: comment.trim(), created_at: timestamp() }]
+        : issue.comments;
+      await saveIssue({ ...issue, state: state === "closed" ? "CLOSED" : "OPEN", comments });
+    },
+    async addComment(issueId, body) {
+      const issue = await requireIssue(issueId);
+      await saveIssue({ ...issue, comments: [...issue.comments, { body, created_at: timestamp() }] });
+    },
+    async listBranchPullRequests(branch) {
+      const pullRequests = await readJsonFile(pullRequestsPath, z.array(LocalPullRequestSchema), []);
+      return pullRequests
+        .filter((pullRequest) => pullRequest.head === branch)
+        .map(({ number, title, state, url }) => ({ number, title, state, url }));
+    },
+    async linkPullRequest(issueId, prNumber) {
+      const issue = await requireIssue(issueId);
+      if (issue.linked_prs.includes(prNumber)) return;
+      await saveIssue({ ...issue, linked_prs: [...issue.linked_prs, prNumber] });
+    },
+  };
+}
+
+const LIST_EDIT_FLAGS: Record<string, keyof Omit<TrackerIssueEdit, "milestone">> = {
+  "--add-label": "addLabels",
+  "--remove-label": "removeLabels",
+  "--add-assignee": "addAssignees",
+  "--remove-assignee": "removeAssignees",
+};
+
+/**
+ * Runs a `gh issue comment/edit/close/reopen` argument list through a backend, so postflight apply and rollback keep
+ * one set of commands for every backend. Comma lists split into single values and a `Linked PR: #n` comment becomes
+ * `linkPullRequest`; anything else (Projects v2 edits) is rejected.
+ */
+export async function runTrackerIssueCommand(backend: TrackerBackend, args: string[]): Promise<void> {
+  const [scope, command, issueRaw, ...rest] = args;
+  const issueId = Number(issueRaw);
+  const unsupported = () => new Error(`tracker backend: unsupported command 'gh ${args.join(" ")}'`);
+  if (scope !== "issue" || !Number.isInteger(issueId) || issueId <= 0) throw unsupported();
+
+  const option = (flag: string): string | null => {
+    const index = rest.indexOf(flag);
+    return index >= 0 ? (rest[index + 1] ?? "") : null;
+  };
+
+  if (command === "comment") {
+    const body = option("--body") ?? "";
+    const linked = LINKED_PR_COMMENT.exec(body.trim());
+    if (linked) return backend.linkPullRequest(issueId, Number(linked[1]));
+    return backend.addComment(issueId, body);
+  }
+  if (command === "close" || command === "reopen") {
+    return backend.setIssueState(issueId, command === "close" ? "closed" : "open", option("--comment"));
+  }
+  if (command !== "edit") throw unsupported();
+
+  const edit: TrackerIssueEdit = {};
+  for (let index = 0; index < rest.length; index += 1) {
+    const flag = rest[index] ?? "";
+    if (flag === "--remove-milestone") {
+      edit.milestone = null;
+      continue;
+    }
+    const value = rest[index + 1];
+    if (value === undefined) throw unsupported();
+    index += 1;
+    const key = LIST_EDIT_FLAGS[flag];
+    if (key) {
+      const values = value.split(",").map((entry) => entry.trim()).filter(Boolean);
+      edit[key] = [...(edit[key] ?? []), ...values];
+    } else if (flag === "--milestone") {
+      edit.milestone = value;
+    } else {
+      throw unsupported();
+    }
+  }
+  await backend.editIssue(issueId, edit);
+}
+
+/**
+ * `project.source_of_truth` from the contract; anything other than `local` (including no contract) means GitHub.
+ * A contract that exists but cannot be read throws rather than guessing the backend.
+ */
+export async function readTrackerBackendKind(cwd: string = process.cwd()): Promise<TrackerBackendKind> {
+  let raw: string;
+  try {
+    raw = await readFile(getSecurityContractPath(cwd), "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") return "github";
+    throw error;
+  }
+
+  try {
+    const document = parse(raw) as unknown;
+    const project =
+      typeof document === "object" && document !== null ? (document as JsonRecord).project : undefined;
+    const source =
+      typeof project === "object" && project !== null ? (project as JsonRecord).source_of_truth : undefined;
+    return typeof source === "string" && source.trim().toLowerCase() === "local" ? "local" : "github";
+  } catch {
+    return "github";
+  }
+}
+
+export async function resolveTrackerBackend(params: { execaFn: ExecaFn; cwd?: string }): Promise<TrackerBackend> {
+  const kind = await readTrackerBackendKind(params.cwd);
+  return kind === "local" ? createLocalTrackerBackend({ cwd: params.cwd }) : createGitHubTrackerBackend(params.execaFn);
+}
@@ -0,0 +1,92 @@
+import { readFile, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { writeFileAtomic } from "./service";
+import type { SnapshotIssue } from "./snapshot";
+
+const TRACKER_CACHE_PATH = path.join(".vibe", "runtime", "tracker-cache.json");
+const TRACKER_CACHE_VERSION = 1;
+
+const CachedIssueSchema = z.object({
+  number: z.number().int().positive(),
+  title: z.string().min(1),
+  state: z.string().nullable(),
+  labels: z.array(z.string()),
+  milestone: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+  url: z.string().nullable(),
+  assignees: z.array(z.string()).default([]),
+});
+
+const TrackerCacheSchema = z.object({
+  version: z.literal(TRACKER_CACHE_VERSION),
+  refreshed_at: z.string().min(1),
+  issues: z.array(CachedIssueSchema),
+});
+
+export type TrackerCache = z.infer<typeof TrackerCacheSchema>;
+
+export function getTrackerCachePath(cwd: string = process.cwd()): string {
+  return path.resolve(cwd, TRACKER_CACHE_PATH);
+}
+
+/** A missing, unreadable or outdated cache reads as `null`: callers treat it as "no cache". */
+export async function readTrackerCache(cwd: string = process.cwd()): Promise<TrackerCache | null> {
+  let raw: string;
+  try {
+    raw = await readFile(getTrackerCachePath(cwd), "utf8");
+  } catch {
+    return null;
+  }
+
+  try {
+    const parsed = TrackerCacheSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeTrackerCache(
+  issues: SnapshotIssue[],
+  options: { cwd?: string; now?: Date } = {},
+): Promise<string> {
+  const cachePath = getTrackerCachePath(options.cwd);
+  const cache: TrackerCache = {
+    version: TRACKER_CACHE_VERSION,
+    refreshed_at: (options.now ?? new Date()).toISOString(),
+    issues,
+  };
+  // Concurrent status/preflight runs (or a crash mid-write) must not leave a truncated cache, which would read as
+  // "no cache" and silently disable the offline fallback.
+  await writeFileAtomic(cachePath, `${JSON.stringify(cache, null, 2)}\n`);
+  return cachePath;
+}
+
+/**
+ * Refresh after a successful gh query. Only repos that already have `.vibe` get a cache, so running
+ * `status`/`preflight` elsewhere never creates the directory (which would also trigger the bootstrap hint).
+ */
+export async function refreshTrackerCacheIfInitialized(
+  issues: SnapshotIssue[],
+  cwd: string = process.cwd(),
+): Promise<string | null> {
+  try {
+    if (!(await stat(path.resolve(cwd, ".vibe"))).isDirectory()) return null;
+  } catch {
+    return null;
+  }
+  return writeTrackerCache(issues, { cwd });
+}
+
+/** Returns `false` when there was no cache to remove. */
+export async function clearTrackerCache(cwd: string = process.cwd()): Promise<boolean> {
+  const cachePath = getTrackerCachePath(cwd);
+  try {
+    await stat(cachePath);
+  } catch {
+    return false;
+  }
+  await rm(cachePath, { force: true });
+  return true;
+}
@@ -0,0 +1,293 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse } from "yaml";
+import type { TrackerLabelDefinition } from "./tracker";
+
+/** A `module:*` label from `.vibe/tracker.yml`, plus the signals reconcile uses to infer it. */
+export type TrackerModuleDefinition = TrackerLabelDefinition & {
+  /** Lower-case token -> weight, added to the module profile learned from issue history. */
+  keywords: Record<string, number>;
+  /** Repo path globs; an issue that mentions a matching path is an explicit match for the module. */
+  paths: string[];
+  /** Earlier names of this label; `tracker bootstrap --confirm` renames them to `name`. */
+  renamedFrom: string[];
+};
+
+export type TrackerTaxonomy = {
+  taxonomyPath: string;
+  /**
+   * `false` without a `.vibe/tracker.yml`, or when its `modules` is not a list: the built-in modules apply and
+   * nothing is renamed or deleted.
+   */
+  found: boolean;
+  modules: TrackerModuleDefinition[];
+  warnings: string[];
+};
+
+export type TrackerRepositoryLabel = {
+  name: string;
+  /** `null` when the read did not include it; unknown values never count as drift. */
+  color: string | null;
+  description: string | null;
+};
+
+export type TrackerTaxonomySyncPlan = {
+  create: TrackerLabelDefinition[];
+  update: TrackerLabelDefinition[];
+  rename: Array<{ from: string; to: TrackerLabelDefinition }>;
+  /** `module:*` labels in the repo that the taxonomy no longer lists. */
+  delete: string[];
+};
+
+const TRACKER_TAXONOMY_FILE = path.join(".vibe", "tracker.yml");
+const DEFAULT_LABEL_COLOR = "EDEDED";
+const COLOR_PATTERN = /^[0-9a-f]{6}$/i;
+
+export const TRACKER_BOOTSTRAP_LABELS: readonly TrackerLabelDefinition[] = [
+  {
+    name: "module:cli",
+    color: "0052CC",
+    description: "CLI commands and terminal UX",
+  },
+  {
+    name: "module:ui",
+    color: "5319E7",
+    description: "UI app and frontend workflows",
+  },
+  {
+    name: "module:docs",
+    color: "1D76DB",
+    description: "Documentation and guides",
+  },
+  {
+    name: "module:tracker",
+    color: "B60205",
+    description: "GitHub issue/PR tracker synchronization",
+  },
+  {
+    name: "module:turn",
+    color: "0E8A16",
+    description: "Turn context lifecycle and guardrails",
+  },
+  {
+    name: "module:templates",
+    color: "FBCA04",
+    description: "Generated templates/scaffolds and marker-safe files",
+  },
+];
+
+export function getTrackerTaxonomyPath(cwd: string = process.cwd()): string {
+  return path.resolve(cwd, TRACKER_TAXONOMY_FILE);
+}
+
+function getDefaultTrackerModules(): TrackerModuleDefinition[] {
+  return TRACKER_BOOTSTRAP_LABELS.map((label) => ({ ...label, keywords: {}, paths: [], renamedFrom: [] }));
+}
+
+function normalizeModuleName(value: string): string | null {
+  const slug = value
+    .trim()
+    .toLowerCase()
+    .replace(/^module:/, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug ? `module:${slug}` : null;
+}
+
+function readStringList(value: unknown, key: string, name: string, warnings: string[]): string[] {
+  if (value === undefined || value === null) return [];
+  const entries = Array.isArray(value) ? value : [value];
+  const strings = entries.filter((entry): entry is string => typeof entry === "string" && entry.trim().length > 0);
+  if (strings.length !== entries.length) {
+    warnings.push(`module '${name}': ${key} must be a string or a list of strings; ignoring other entries`);
+  }
+  return strings.map((entry) => entry.trim());
+}
+
+function readKeywords(value: unknown, name: string, warnings: string[]): Record<string, number> {
+  if (value === undefined || value === null) return {};
+  if (Array.isArray(value)) {
+    // A plain list gives every keyword weight 1.
+    return Object.fromEntries(readStringList(value, "keywords", name, warnings).map((word) => [word.toLowerCase(), 1]));
+  }
+  if (typeof value !== "object") {
+    warnings.push(`module '${name}': keywords must be a map of keyword to weight or a list`);
+    return {};
+  }
+
+  const keywords: Record<string, number> = {};
+  for (const [word, weight] of Object.entries(value as Record<string, unknown>)) {
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight <= 0) {
+      warnings.push(`module '${name}': keyword '${word}' needs a positive weight; ignoring it`);
+      continue;
+    }
+    keywords[word.trim().toLowerCase()] = weight;
+  }
+  return keywords;
+}
+
+function parseModuleEntry(entry: unknown, warnings: string[]): TrackerModuleDefinition | null {
+  const raw: Record<string, unknown> =
+    typeof entry === "object" && entry !== null && !Array.isArray(entry)
+      ? (entry as Record<string, unknown>)
+      : { name: entry };
+  const name = typeof raw.name === "string" ? normalizeModuleName(raw.name) : null;
+  if (!name) {
+    warnings.push(`ignoring module ${JSON.stringify(entry)}: expected a name`);
+    return null;
+  }
+
+  let color = DEFAULT_LABEL_COLOR;
+  if (raw.color !== undefined) {
+    const value = String(raw.color).trim().replace(/^#/, "");
+    if (COLOR_PATTERN.test(value)) {
+      color = value.toUpperCase();
+    } else {
+      warnings.push(`module '${name}': invalid color '${String(raw.color)}' (expected 6 hex digits); using ${color}`);
+    }
+  }
+
+  const renamedFrom = readStringList(raw.renamed_from, "renamed_from", name, warnings)
+    .map(normalizeModuleName)
+    .filter((value): value is string => value !== null && value !== name);
+
+  return {
+    name,
+    color,
+    description: typeof raw.description === "string" ? raw.description.trim() : "",
+    keywords: readKeywords(raw.keywords, name, warnings),
+    paths: readStringList(raw.paths, "paths", name, warnings),
+    renamedFrom,
+  };
+}
+
+/**
+ * Reads `modules` from a `.vibe/tracker.yml` document. Each module is a name (`cli` or `module:cli`) or an object
+ * with `name`, `color`, `description`, `keywords`, `paths` and `renamed_from`; invalid fields fall back with a warning.
+ */
+export function parseTrackerTaxonomy(document: unknown, taxonomyPath: string): TrackerTaxonomy {
+  const taxonomy: TrackerTaxonomy = { taxonomyPath, found: true, modules: [], warnings: [] };
+  const modules =
+    typeof document === "object" && document !== null ? (document as Record<string, unknown>).modules : undefined;
+  if (!Array.isArray(modules)) {
+    // A malformed file must never drive renames or deletes of the repo's own module labels.
+    taxonomy.warnings.push("modules must be a list; using the built-in modules and leaving existing labels alone");
+    return { ...taxonomy, found: false, modules: getDefaultTrackerModules() };
+  }
+
+  for (const entry of modules) {
+    const parsed = parseModuleEntry(entry, taxonomy.warnings);
+    if (!parsed) continue;
+    if (taxonomy.modules.some((existing) => existing.name === parsed.name)) {
+      taxonomy.warnings.push(`module '${parsed.name}' is listed twice; keeping the first entry`);
+      continue;
+    }
+    taxonomy.modules.push(parsed);
+  }
+  return taxonomy;
+}
+
+export async function loadTrackerTaxonomy(cwd: string = process.cwd()): Promise<TrackerTaxonomy> {
+  const taxonomyPath = getTrackerTaxonomyPath(cwd);
+  let raw: string;
+  try {
+    raw = await readFile(taxonomyPath, "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return { taxonomyPath, found: false, modules: getDefaultTrackerModules(), warnings: [] };
+    }
+    throw error;
+  }
+
+  try {
+    return parseTrackerTaxonomy(parse(raw), taxonomyPath);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`tracker: unable to parse ${taxonomyPath} (${reason})`);
+  }
+}
+
+/** `**` spans directories, `*` and `?` stay within one path segment. */
+export function compileTrackerPathGlob(glob: string): RegExp {
+  let pattern = "";
+  const source = glob.trim().replace(/^\.\//, "");
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (char === "*" && source[index + 1] === "*") {
+      const slash = source[index + 2] === "/";
+      pattern += slash ? "(?:.*/)?" : ".*";
+      index += slash ? 2 : 1;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/** File-like tokens (`src/core/tracker.ts`, `README.md`) mentioned in issue text. */
+export function extractMentionedPaths(text: string): string[] {
+  const paths = new Set<string>();
+  for (const token of text.split(/[\s`'"(),<>[\]]+/)) {
+    const candidate = token.replace(/^\.\//, "").replace(/[.:;!?]+$/, "");
+    if (!candidate || /^[a-z]+:\/\//i.test(candidate)) continue;
+    if (candidate.includes("/") || /\.[a-z0-9]{1,6}$/i.test(candidate)) {
+      paths.add(candidate);
+    }
+  }
+  return Array.from(paths);
+}
+
+/**
+ * Diffs the taxonomy against the repo's labels. Without a `.vibe/tracker.yml` only missing labels are created,
+ * which is what bootstrap always did.
+ */
+export function planTrackerTaxonomySync(
+  taxonomy: TrackerTaxonomy,
+  existingLabels: TrackerRepositoryLabel[],
+): TrackerTaxonomySyncPlan {
+  const existing = new Map(existingLabels.map((label) => [label.name.trim().toLowerCase(), label]));
+  const plan: TrackerTaxonomySyncPlan = { create: [], update: [], rename: [], delete: [] };
+  const claimed = new Set<string>();
+
+  for (const entry of taxonomy.modules) {
+    const definition: TrackerLabelDefinition = {
+      name: entry.name,
+      color: entry.color,
+      description: entry.description,
+    };
+    claimed.add(entry.name);
+    const current = existing.get(entry.name);
+    if (current) {
+      const colorDrift = current.color !== null && current.color.toUpperCase() !== entry.color;
+      const descriptionDrift = current.description !== null && current.description !== entry.description;
+      if (taxonomy.found && (colorDrift || descriptionDrift)) {
+        plan.update.push(definition);
+      }
+      continue;
+    }
+
+    const renamable = (name: string) => existing.has(name) && !claimed.has(name);
+    const previous = taxonomy.found ? entry.renamedFrom.find(renamable) : undefined;
+    if (previous) {
+      claimed.add(previous);
+      plan.rename.push({ from: existing.get(previous)?.name ?? previous, to: definition });
+    } else {
+      plan.create.push(definition);
+    }
+  }
+
+  if (taxonomy.found) {
+    for (const [normalized, label] of existing.entries()) {
+      if (normalized.startsWith("module:") && !claimed.has(normalized)) {
+        plan.delete.push(label.name);
+      }
+    }
+  }
+
+  plan.delete.sort((left, right) => left.localeCompare(right));
+  return plan;
+}
@@ -1,6 +1,17 @@
 import { mkdir, stat, writeFile } from "node:fs/promises";
 import path from "node:path";
 import { execa } from "execa";
+import { runGhWithRetry } from "./gh-retry";
+import { createGitHubClient, type GitHubClient, type GitHubFieldValue } from "./github-client";
+import {
+  compileTrackerPathGlob,
+  extractMentionedPaths,
+  loadTrackerTaxonomy,
+  TRACKER_BOOTSTRAP_LABELS,
+  type TrackerModuleDefinition,
+  type TrackerRepositoryLabel,
+  type TrackerTaxonomy,
+} from "./tracker-taxonomy";
 
 export type TrackerMilestoneDefinition = {
   title: string;
@@ -95,39 +106,6 @@ const STOP_WORDS = new Set([
 
 export const TRACKER_BOOTSTRAP_MILESTONES: readonly TrackerMilestoneDefinition[] = [];
 
-export const TRACKER_BOOTSTRAP_LABELS: readonly TrackerLabelDefinition[] = [
-  {
-    name: "module:cli",
-    color: "0052CC",
-    description: "CLI commands and terminal UX",
-  },
-  {
-    name: "module:ui",
-    color: "5319E7",
-    description: "UI app and frontend workflows",
-  },
-  {
-    name: "module:docs",
-    color: "1D76DB",
-    description: "Documentation and guides",
-  },
-  {
-    name: "module:tracker",
-    color: "B60205",
-    description: "GitHub issue/PR tracker synchronization",
-  },
-  {
-    name: "module:turn",
-    color: "0E8A16",
-    description: "Turn context lifecycle and guardrails",
-  },
-  {
-    name: "module:templates",
-    color: "FBCA04",
-    description: "Generated templates/scaffolds and marker-safe files",
-  },
-];
-
 const TRACKER_BOOTSTRAP_MARKER = path.join(".vibe", "runtime", "tracker-bootstrap.json");
 
 type TrackerIssueSnapshot = {
@@ -143,6 +121,7 @@ type ModuleProfile = {
   label: string;
   tokenWeights: Map<string, number>;
   slugTokens: string[];
+  pathPatterns: RegExp[];
 };
 
 export type SemanticMilestoneSuggestion = {
@@ -175,6 +154,8 @@ export type TrackerReconcileOptions = {
   dryRun: boolean;
   fallbackModule?: string | null;
   fallbackMilestone?: string | null;
+  /** Where gh output for created labels/milestones goes; `pipe` keeps stdout clean for `--json`. */
+  ghStdio?: "inherit" | "pipe";
 };
 
 export type TrackerReconcileIssueUpdate = {
@@ -199,13 +180,17 @@ export type TrackerReconcileResult = {
   unresolvedIssueIds: number[];
   createdLabels: string[];
   createdMilestones: string[];
+  /** gh-equivalent commands for the plan; applying sends the issue edits as batched GraphQL mutations instead. */
   commands: string[][];
+  failedIssueUpdates: TrackerReconcileIssueFailure[];
 };
 
 export type TrackerReconcileDependencies = {
   execaFn?: ExecaFn;
   promptFn?: TrackerReconcilePromptFn;
   isInteractive?: boolean;
+  /** Defaults to `.vibe/tracker.yml` in the working directory. */
+  taxonomy?: TrackerTaxonomy;
 };
 
 export function getTrackerBootstrapMarkerPath(cwd: string = process.cwd()): string {
@@ -533,7 +518,11 @@ function issueModuleLabels(issue: TrackerIssueSnapshot): string[] {
     .filter((label) => label.startsWith("module:"));
 }
 
-function buildModuleProfiles(moduleLabelMap: Map<string, string>, issues: TrackerIssueSnapshot[]): Map<string, ModuleProfile> {
+function buildModuleProfiles(
+  moduleLabelMap: Map<string, string>,
+  issues: TrackerIssueSnapshot[],
+  modules: TrackerModuleDefinition[] = [],
+): Map<string, ModuleProfile> {
   const profiles = new Map<string, ModuleProfile>();
 
   for (const [moduleLower, moduleLabel] of moduleLabelMap.entries()) {
@@ -542,10 +531,17 @@ function buildModuleProfiles(moduleLabelMap: Map<string, string>, issues: Tracke
     for (const token of slugTokens) {
       upsertWeightedToken(tokenWeights, token, LABEL_SIGNAL_WEIGHT + TITLE_SIGNAL_WEIGHT);
     }
+    const definition = modules.find((candidate) => candidate.name === moduleLower);
+    for (const [keyword, weight] of Object.entries(definition?.keywords ?? {})) {
+      for (const token of tokenizeText(keyword)) {
+        upsertWeightedToken(tokenWeights, token, weight);
+      }
+    }
     profiles.set(moduleLower, {
       label: moduleLabel,
       tokenWeights,
       slugTokens,
+      pathPatterns: (definition?.paths ?? []).map(compileTrackerPathGlob),
     });
   }
 
@@ -578,13 +574,13 @@ function buildModuleProfiles(moduleLabelMap: Map<string, string>, issues: Tracke
 
 function explicitModuleMatches(issue: TrackerIssueSnapshot, profiles: Map<string, ModuleProfile>): string[] {
   const tokenSet = buildIssueTokenSet(issue);
+  const mentionedPaths = extractMentionedPaths(`${issue.title}\n${issue.body}`);
   const matched: string[] = [];
 
   for (const [moduleLower, profile] of profiles.entries()) {
-    if (!profile.slugTokens.length) continue;
-
-    const slugTokenMatches = profile.slugTokens.every((token) => tokenSet.has(token));
-    if (slugTokenMatches) {
+    const slugTokenMatches = profile.slugTokens.length > 0 && profile.slugTokens.every((token) => tokenSet.has(token));
+    const pathMatches = profile.pathPatterns.some((pattern) => mentionedPaths.some((entry) => pattern.test(entry)));
+    if (slugTokenMatches || pathMatches) {
       matched.push(moduleLower);
     }
   }
@@ -777,6 +773,13 @@ function buildGeneratedModuleLabelDefinition(name: string): TrackerLabelDefiniti
   };
 }
 
+/** Labels reconcile creates take their color and description from `.vibe/tracker.yml` when it lists them. */
+function resolveModuleLabelDefinition(name: string, modules: TrackerModuleDefinition[]): TrackerLabelDefinition {
+  const configured = modules.find((module) => normalizeTrackerLabelName(module.name) === name);
+  if (!configured) return buildGeneratedModuleLabelDefinition(name);
+  return { name: configured.name, color: configured.color, description: configured.description };
+}
+
 function buildGeneratedMilestoneDefinition(title: string): TrackerMilestoneDefinition {
   return {
     title,
@@ -785,7 +788,7 @@ function buildGeneratedMilestoneDefinition(title: string): TrackerMilestoneDefin
 }
 
 async function resolveRepoNameWithOwner(execaFn: ExecaFn): Promise<string> {
-  const response = await execaFn("gh", ["repo", "view", "--json", "nameWithOwner", "-q", ".nameWithOwner"], {
+  const response = await runGhWithRetry(execaFn, ["repo", "view", "--json", "nameWithOwner", "-q", ".nameWithOwner"], {
     stdio: "pipe",
   });
   const slug = response.stdout.trim();
@@ -801,7 +804,7 @@ async function listPaginatedGhApiRecords(execaFn: ExecaFn, endpoint: string, con
   for (let page = 1; ; page += 1) {
     const separator = endpoint.includes("?") ? "&" : "?";
     const paginatedEndpoint = `${endpoint}${separator}per_page=${GH_API_PAGE_SIZE}&page=${page}`;
-    const response = await execaFn("gh", ["api", paginatedEndpoint], { stdio: "pipe" });
+    const response = await runGhWithRetry(execaFn, ["api", paginatedEndpoint], { stdio: "pipe" });
     const parsed = parseJsonArray(response.stdout, context);
     all.push(...parsed);
 
@@ -828,6 +831,206 @@ async function listRepositoryIssues(execaFn: ExecaFn, repo: string): Promise<Tra
   return parseIssueSnapshotsFromApiRows(rows);
 }
 
+type TrackerSnapshotConnection = "labels" | "milestones" | "issues";
+
+const GRAPHQL_PAGE_INFO = "pageInfo { hasNextPage endCursor }";
+
+const TRACKER_SNAPSHOT_SELECTIONS: Record<TrackerSnapshotConnection, string> = {
+  labels:
+    "labels(first: 100, after: $labelsAfter) @include(if: $labels) " +
+    `{ nodes { id name color description } ${GRAPHQL_PAGE_INFO} }`,
+  milestones:
+    "milestones(first: 100, after: $milestonesAfter, states: [OPEN, CLOSED]) @include(if: $milestones) " +
+    `{ nodes { id title } ${GRAPHQL_PAGE_INFO} }`,
+  issues:
+    "issues(first: 100, after: $issuesAfter, states: [OPEN, CLOSED]) @include(if: $issues) " +
+    "{ nodes { id number title body state labels(first: 100) { nodes { name } } milestone { title } } " +
+    `${GRAPHQL_PAGE_INFO} }`,
+};
+
+/** Labels, milestones and (optionally) issues in one query; each connection keeps paging until it runs out. */
+const TRACKER_SNAPSHOT_QUERY = [
+  "query($owner: String!, $name: String!, $labels: Boolean!, $labelsAfter: String, $milestones: Boolean!,",
+  "$milestonesAfter: String, $issues: Boolean!, $issuesAfter: String) {",
+  "repository(owner: $owner, name: $name) {",
+  ...Object.values(TRACKER_SNAPSHOT_SELECTIONS),
+  "} }",
+].join(" ");
+
+const TRACKER_MUTATION_BATCH_SIZE = 25;
+
+type TrackerRepositorySnapshot = {
+  labels: Array<TrackerRepositoryLabel & { id: string }>;
+  milestones: Array<{ id: string; title: string }>;
+  issues: TrackerIssueSnapshot[];
+  issueIds: Map<number, string>;
+};
+
+type TrackerIssueMutation = {
+  issueNumber: number;
+  issueId: string;
+  labelIds: string[];
+  milestoneId: string | null;
+};
+
+export type TrackerReconcileIssueFailure = {
+  issueNumber: number;
+  error: string;
+};
+
+function asJsonRecord(value: unknown): JsonRecord | null {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as JsonRecord) : null;
+}
+
+function parseNodeRecords(value: unknown): JsonRecord[] {
+  const nodes = asJsonRecord(value)?.nodes;
+  return Array.isArray(nodes) ? nodes.map(asJsonRecord).filter((node): node is JsonRecord => node !== null) : [];
+}
+
+function parseNodeId(row: JsonRecord): string | null {
+  return typeof row.id === "string" && row.id.trim() ? row.id : null;
+}
+
+async function fetchTrackerRepositorySnapshot(
+  github: GitHubClient,
+  repo: string,
+  options: { includeIssues: boolean },
+): Promise<TrackerRepositorySnapshot> {
+  const [owner, name] = repo.split("/");
+  const snapshot: TrackerRepositorySnapshot = { labels: [], milestones: [], issues: [], issueIds: new Map() };
+  const cursors = new Map<TrackerSnapshotConnection, string | null>([
+    ["labels", null],
+    ["milestones", null],
+  ]);
+  if (options.includeIssues) {
+    cursors.set("issues", null);
+  }
+
+  while (cursors.size > 0) {
+    const variables: Record<string, GitHubFieldValue> = { owner, name };
+    for (const connection of Object.keys(TRACKER_SNAPSHOT_SELECTIONS) as TrackerSnapshotConnection[]) {
+      variables[connection] = cursors.has(connection);
+      const cursor = cursors.get(connection);
+      if (cursor) {
+        variables[`${connection}After`] = cursor;
+      }
+    }
+
+    const data = await github.graphql(TRACKER_SNAPSHOT_QUERY, variables);
+    const repository = asJsonRecord(data.repository);
+    if (!repository) {
+      throw new Error(`tracker: repository ${repo} not found`);
+    }
+
+    for (const connection of Array.from(cursors.keys())) {
+      const rows = parseNodeRecords(repository[connection]);
+      if (connection === "labels") {
+        for (const row of rows) {
+          const id = parseNodeId(row);
+          const labelName = typeof row.name === "string" ? row.name.trim() : "";
+          if (!id || !labelName) continue;
+          const color = typeof row.color === "string" ? row.color : null;
+          const description = typeof row.description === "string" ? row.description : null;
+          snapshot.labels.push({ id, name: labelName, color, description });
+        }
+      } else if (connection === "milestones") {
+        for (const row of rows) {
+          const id = parseNodeId(row);
+          const title = typeof row.title === "string" ? row.title.trim() : "";
+          if (id && title) snapshot.milestones.push({ id, title });
+        }
+      } else {
+        for (const row of rows) {
+          const id = parseNodeId(row);
+          if (id && typeof row.number === "number") snapshot.issueIds.set(row.number, id);
+        }
+        snapshot.issues.push(
+          ...parseIssueSnapshotsFromApiRows(rows.map((row) => ({ ...row, labels: parseNodeRecords(row.labels) }))),
+        );
+      }
+
+      const pageInfo = asJsonRecord(asJsonRecord(repository[connection])?.pageInfo);
+      const endCursor = typeof pageInfo?.endCursor === "string" ? pageInfo.endCursor : null;
+      if (pageInfo?.hasNextPage === true && endCursor) {
+        cursors.set(connection, endCursor);
+      } else {
+        cursors.delete(connection);
+      }
+    }
+  }
+
+  return snapshot;
+}
+
+export async function listRepositoryTaxonomy(
+  execaFn: ExecaFn,
+  repo: string,
+): Promise<{ labels: TrackerRepositoryLabel[]; milestoneTitles: string[] }> {
+  const snapshot = await fetchTrackerRepositorySnapshot(createGitHubClient(execaFn), repo, { includeIssues: false });
+  return {
+    labels: snapshot.labels.map(({ name, color, description }) => ({ name, color, description })),
+    milestoneTitles: snapshot.milestones.map((milestone) => milestone.title),
+  };
+}
+
+function buildTrackerIssueMutation(mutations: TrackerIssueMutation[]): string {
+  const fields = mutations.flatMap((mutation) => {
+    const alias = `issue${mutation.issueNumber}`;
+    const issueId = JSON.stringify(mutation.issueId);
+    const selections: string[] = [];
+    if (mutation.labelIds.length > 0) {
+      const labelIds = mutation.labelIds.map((id) => JSON.stringify(id)).join(", ");
+      selections.push(
+        `${alias}Labels: addLabelsToLabelable(input: { labelableId: ${issueId}, labelIds: [${labelIds}] }) ` +
+          "{ clientMutationId }",
+      );
+    }
+    if (mutation.milestoneId) {
+      const milestoneId = JSON.stringify(mutation.milestoneId);
+      selections.push(
+        `${alias}Milestone: updateIssue(input: { id: ${issueId}, milestoneId: ${milestoneId} }) { clientMutationId }`,
+      );
+    }
+    return selections;
+  });
+  return `mutation { ${fields.join(" ")} }`;
+}
+
+/**
+ * Sends issue edits as aliased GraphQL mutations, a batch per request. A failed batch is replayed one issue at a
+ * time so the failure lands on the issue that caused it; adding labels and setting a milestone are safe to repeat.
+ */
+async function applyTrackerIssueMutations(
+  github: GitHubClient,
+  mutations: TrackerIssueMutation[],
+): Promise<TrackerReconcileIssueFailure[]> {
+  const failures: TrackerReconcileIssueFailure[] = [];
+  const messageOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+  for (let start = 0; start < mutations.length; start += TRACKER_MUTATION_BATCH_SIZE) {
+    const batch = mutations.slice(start, start + TRACKER_MUTATION_BATCH_SIZE);
+    try {
+      await github.graphql(buildTrackerIssueMutation(batch));
+      continue;
+    } catch (error) {
+      if (batch.length === 1) {
+        failures.push({ issueNumber: batch[0].issueNumber, error: messageOf(error) });
+        continue;
+      }
+    }
+
+    for (const mutation of batch) {
+      try {
+        await github.graphql(buildTrackerIssueMutation([mutation]));
+      } catch (error) {
+        failures.push({ issueNumber: mutation.issueNumber, error: messageOf(error) });
+      }
+    }
+  }
+
+  return failures;
+}
+
 function canonicalizeModuleLabel(input: string, moduleLabelMap: Map<string, string>): string {
   const normalized = normalizeTrackerLabelName(input);
   return moduleLabelMap.get(normalized) ?? normalized;
@@ -853,6 +1056,7 @@ function buildTrackerSemanticContext(params: {
   labelNames: string[];
   milestoneTitles: string[];
   allIssues: TrackerIssueSnapshot[];
+  modules?: TrackerModuleDefinition[];
 }): TrackerSemanticContext {
   const moduleLabelMap = extractModuleLabelMap(params.labelNames);
   const milestoneTitleMap = new Map<string, string>();
@@ -864,7 +1068,7 @@ function buildTrackerSemanticContext(params: {
   }
 
   const trainingIssues = params.allIssues.filter((issue) => issueModuleLabels(issue).length > 0);
-  const moduleProfiles = buildModuleProfiles(moduleLabelMap, trainingIssues);
+  const moduleProfiles = buildModuleProfiles(moduleLabelMap, trainingIssues, params.modules);
   const milestoneCountsByModule = buildMilestoneCountsByModule(trainingIssues, moduleLabelMap);
 
   return {
@@ -1073,9 +1277,8 @@ export async function ensureRepositoryMilestone(params: {
   }
 
   const description = typeof params.description === "string" && params.description.trim() ? params.description.trim() : GENERATED_MILESTONE_DESCRIPTION;
-  await execaFn("gh", ["api", "--method", "POST", `repos/${repo}/milestones`, "-f", `title=${milestoneTitle}`, "-f", `description=${description}`], {
-    stdio: "pipe",
-  });
+  const args = ["api", "--method", "POST", `repos/${repo}/milestones`, "-f", `title=${milestoneTitle}`];
+  await runGhWithRetry(execaFn, [...args, "-f", `description=${description}`], { stdio: "pipe" });
 
   return {
     repo,
@@ -1093,13 +1296,16 @@ export function selectMissingTrackerMilestones(existingTitles: Iterable<string>)
   return TRACKER_BOOTSTRAP_MILESTONES.filter((milestone) => !existing.has(milestone.title));
 }
 
-export function selectMissingTrackerLabels(existingNames: Iterable<string>): TrackerLabelDefinition[] {
+export function selectMissingTrackerLabels(
+  existingNames: Iterable<string>,
+  labels: readonly TrackerLabelDefinition[] = TRACKER_BOOTSTRAP_LABELS,
+): TrackerLabelDefinition[] {
   const existing = new Set(
     Array.from(existingNames)
       .map(normalizeTrackerLabelName)
       .filter(Boolean),
   );
-  return TRACKER_BOOTSTRAP_LABELS.filter((label) => !existing.has(normalizeTrackerLabelName(label.name)));
+  return labels.filter((label) => !existing.has(normalizeTrackerLabelName(label.name)));
 }
 
 export async function shouldSuggestTrackerBootstrap(cwd: string = process.cwd()): Promise<boolean> {
@@ -1168,17 +1374,19 @@ export async function runTrackerReconcile(
 
   const fallbackMilestoneRaw = typeof options.fallbackMilestone === "string" ? options.fallbackMilestone.trim() : "";
 
+  const taxonomy = dependencies.taxonomy ?? (await loadTrackerTaxonomy());
+  const github = createGitHubClient(execaFn);
   const repo = await resolveRepoNameWithOwner(execaFn);
-  const [labelNames, milestoneTitles, allIssues] = await Promise.all([
-    listRepositoryLabelNames(execaFn, repo),
-    listRepositoryMilestoneTitles(execaFn, repo),
-    listRepositoryIssues(execaFn, repo),
-  ]);
+  const repositorySnapshot = await fetchTrackerRepositorySnapshot(github, repo, { includeIssues: true });
+  const labelNames = repositorySnapshot.labels.map((label) => label.name);
+  const milestoneTitles = repositorySnapshot.milestones.map((milestone) => milestone.title);
+  const allIssues = repositorySnapshot.issues;
 
   const semanticContext = buildTrackerSemanticContext({
     labelNames,
     milestoneTitles,
     allIssues,
+    modules: taxonomy.modules,
   });
   const { moduleLabelMap, milestoneTitleMap, moduleProfiles } = semanticContext;
 
@@ -1346,6 +1554,7 @@ export async function runTrackerReconcile(
   const commands: string[][] = [];
   const createdLabels: string[] = [];
   const createdMilestones: string[] = [];
+  const failedIssueUpdates: TrackerReconcileIssueFailure[] = [];
 
   const milestonesToCreateOrdered = Array.from(milestonesToCreate)
     .filter((title) => !milestoneTitleMap.has(normalizeMilestoneTitle(title)))
@@ -1370,7 +1579,7 @@ export async function runTrackerReconcile(
     .sort((left, right) => left.localeCompare(right));
 
   for (const labelLower of labelsToCreateOrdered) {
-    const definition = buildGeneratedModuleLabelDefinition(labelLower);
+    const definition = resolveModuleLabelDefinition(labelLower, taxonomy.modules);
     commands.push(["label", "create", definition.name, "--color", definition.color, "--description", definition.description]);
   }
 
@@ -1386,49 +1595,67 @@ export async function runTrackerReconcile(
   }
 
   const shouldApply = !options.dryRun && !degradedToPlanOnly;
+  const ghStdio = options.ghStdio ?? "inherit";
 
   if (shouldApply) {
     for (const milestoneTitle of milestonesToCreateOrdered) {
       const definition = buildGeneratedMilestoneDefinition(milestoneTitle);
-      await execaFn(
-        "gh",
+      await runGhWithRetry(
+        execaFn,
         ["api", "--method", "POST", `repos/${repo}/milestones`, "-f", `title=${definition.title}`, "-f", `description=${definition.description}`],
-        { stdio: "inherit" },
+        { stdio: ghStdio },
       );
       milestoneTitleMap.set(normalizeMilestoneTitle(definition.title), definition.title);
       createdMilestones.push(definition.title);
     }
 
     for (const labelLower of labelsToCreateOrdered) {
-      const definition = buildGeneratedModuleLabelDefinition(labelLower);
-      await execaFn(
-        "gh",
+      const definition = resolveModuleLabelDefinition(labelLower, taxonomy.modules);
+      await runGhWithRetry(
+        execaFn,
         ["label", "create", definition.name, "--color", definition.color, "--description", definition.description],
-        { stdio: "inherit" },
+        { stdio: ghStdio },
       );
       moduleLabelMap.set(labelLower, definition.name);
       createdLabels.push(definition.name);
     }
 
+    // Created labels and milestones only get node ids from a fresh read.
+    const refreshedSnapshot =
+      createdLabels.length || createdMilestones.length
+        ? await fetchTrackerRepositorySnapshot(github, repo, { includeIssues: false })
+        : repositorySnapshot;
+    const labelIds = new Map(
+      refreshedSnapshot.labels.map((label) => [normalizeTrackerLabelName(label.name), label.id]),
+    );
+    const milestoneIds = new Map(
+      refreshedSnapshot.milestones.map((milestone) => [normalizeMilestoneTitle(milestone.title), milestone.id]),
+    );
+
+    const mutations: TrackerIssueMutation[] = [];
     for (const update of issueUpdates) {
-      const args = ["issue", "edit", String(update.issueNumber)];
-      if (update.setMilestone) {
-        const normalizedMilestone = normalizeMilestoneTitle(update.setMilestone);
-        const canonicalMilestone = milestoneTitleMap.get(normalizedMilestone) ?? update.setMilestone;
-        args.push("--milestone", canonicalMilestone);
-      }
-      if (update.addLabels.length > 0) {
-        const canonicalLabels = update.addLabels
-          .map((label) => {
-            const normalized = normalizeTrackerLabelName(label);
-            return moduleLabelMap.get(normalized) ?? label;
-          })
-          .sort((left, right) => left.localeCompare(right));
-        args.push("--add-label", canonicalLabels.join(","));
+      const issueId = repositorySnapshot.issueIds.get(update.issueNumber);
+      const milestoneId = update.setMilestone ? milestoneIds.get(normalizeMilestoneTitle(update.setMilestone)) : null;
+      const missingLabels = update.addLabels.filter((label) => !labelIds.has(normalizeTrackerLabelName(label)));
+      const fail = (error: string) => failedIssueUpdates.push({ issueNumber: update.issueNumber, error });
+      if (!issueId) {
+        fail("issue node id not found");
+      } else if (milestoneId === undefined) {
+        fail(`milestone '${update.setMilestone}' not found`);
+      } else if (missingLabels.length) {
+        fail(`labels not found: ${missingLabels.join(", ")}`);
+      } else {
+        mutations.push({
+          issueNumber: update.issueNumber,
+          issueId,
+          labelIds: update.addLabels.map((label) => labelIds.get(normalizeTrackerLabelName(label)) ?? ""),
+          milestoneId,
+        });
       }
-
-      await execaFn("gh", args, { stdio: "inherit" });
     }
+
+    failedIssueUpdates.push(...(await applyTrackerIssueMutations(github, mutations)));
+    failedIssueUpdates.sort((left, right) => left.issueNumber - right.issueNumber);
   }
 
   return {
@@ -1442,5 +1669,6 @@ export async function runTrackerReconcile(
     createdLabels,
     createdMilestones,
     commands,
+    failedIssueUpdates,
   };
 }
@@ -0,0 +1,181 @@
+import { promises as fs } from "node:fs";
+import { execa } from "execa";
+import { runGhWithRetry } from "./gh-retry";
+import {
+  getTurnContextPath,
+  parseTurnContextFile,
+  TURN_CONTEXT_VERSION,
+  TurnContextSchema,
+  writeTurnContext,
+  type TurnContext,
+  type TurnContextOptions,
+} from "./turn";
+
+type ExecaFn = typeof execa;
+
+export type TurnDoctorStatus = "missing" | "ok" | "migrated" | "repaired" | "unrepairable";
+
+export type TurnDoctorResult = {
+  status: TurnDoctorStatus;
+  path: string;
+  /** What was wrong with the file (empty when `ok`). */
+  problems: string[];
+  /** Where each repaired field came from, e.g. `branch: git`. */
+  sources: string[];
+  turn: TurnContext | null;
+  backupPath: string | null;
+};
+
+type SalvagedFields = Partial<Record<"issue_id" | "branch" | "base_branch" | "started_at" | "issue_title", unknown>>;
+
+/** Pulls `"key": value` pairs out of a turn.json that no longer parses (truncated writes, merge markers, ...). */
+export function salvageTurnContextFields(text: string): SalvagedFields {
+  const fields: SalvagedFields = {};
+  const issue = /"issue_id"\s*:\s*"?([0-9]+)/.exec(text);
+  if (issue) fields.issue_id = Number(issue[1]);
+  for (const key of ["branch", "base_branch", "started_at", "issue_title"] as const) {
+    const match = new RegExp(`"${key}"\\s*:\\s*"((?:[^"\\\\\\n]|\\\\.)*)"`).exec(text);
+    if (match) {
+      try {
+        fields[key] = JSON.parse(`"${match[1]}"`);
+      } catch {
+        fields[key] = match[1];
+      }
+    }
+  }
+  return fields;
+}
+
+export function parseIssueIdFromBranch(branch: string | null): number | null {
+  const match = /^issue-([0-9]+)(?:-|$)/.exec(branch ?? "");
+  const issueId = match ? Number(match[1]) : NaN;
+  return Number.isSafeInteger(issueId) && issueId > 0 ? issueId : null;
+}
+
+async function resolveCurrentBranch(execaFn: ExecaFn): Promise<string | null> {
+  try {
+    const response = await execaFn("git", ["rev-parse", "--abbrev-ref", "HEAD"], { stdio: "pipe" });
+    const branch = response.stdout.trim();
+    return branch && branch !== "HEAD" ? branch : null;
+  } catch {
+    return null;
+  }
+}
+
+async function resolveIssueTitle(execaFn: ExecaFn, issueId: number): Promise<string | null> {
+  try {
+    const issue = await runGhWithRetry(execaFn, ["issue", "view", String(issueId), "--json", "title", "-q", ".title"], {
+      stdio: "pipe",
+    });
+    return issue.stdout.trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+function validField(key: keyof TurnContext, value: unknown): boolean {
+  return TurnContextSchema.shape[key].safeParse(value).success;
+}
+
+/**
+ * Checks turn.json and repairs it in place: migrates older versions, and rebuilds malformed or invalid files
+ * from whatever fields survive, the current git branch (`issue-<n>-...`) and the issue title from gh.
+ * The original file is kept as `turn.json.bak` before any rewrite.
+ */
+export async function runTurnDoctor(
+  params: { execaFn?: ExecaFn; dryRun?: boolean; options?: TurnContextOptions } = {},
+): Promise<TurnDoctorResult> {
+  const execaFn = params.execaFn ?? execa;
+  const options = params.options ?? {};
+  const filePath = getTurnContextPath(options);
+  const result: TurnDoctorResult = {
+    status: "ok",
+    path: filePath,
+    problems: [],
+    sources: [],
+    turn: null,
+    backupPath: null,
+  };
+
+  let text: string;
+  let modifiedAt: string;
+  try {
+    text = await fs.readFile(filePath, "utf8");
+    modifiedAt = (await fs.stat(filePath)).mtime.toISOString();
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return { ...result, status: "missing" };
+    }
+    throw error;
+  }
+
+  let fields: SalvagedFields & { paused?: unknown } = {};
+  try {
+    const parsed = parseTurnContextFile(JSON.parse(text), { fallbackStartedAt: modifiedAt });
+    if (parsed.turn && parsed.version === TURN_CONTEXT_VERSION) {
+      return { ...result, turn: parsed.turn };
+    }
+    if (parsed.turn) {
+      result.problems.push(`version ${parsed.version} (current: ${TURN_CONTEXT_VERSION})`);
+      result.turn = parsed.turn;
+    } else {
+      result.problems.push(`missing/invalid: ${parsed.errors.join(", ")}`);
+      fields = parsed.fields;
+    }
+  } catch (error) {
+    if (!(error instanceof SyntaxError)) throw error;
+    result.problems.push(`malformed JSON (${error.message})`);
+    fields = salvageTurnContextFields(text);
+  }
+
+  if (!result.turn) {
+    const currentBranch = await resolveCurrentBranch(execaFn);
+    const salvagedBranch = validField("branch", fields.branch) ? String(fields.branch) : null;
+
+    let issueId = validField("issue_id", fields.issue_id) ? Number(fields.issue_id) : null;
+    if (!issueId) {
+      issueId = parseIssueIdFromBranch(salvagedBranch) ?? parseIssueIdFromBranch(currentBranch);
+      if (issueId) result.sources.push("issue_id: git");
+    }
+
+    let branch = salvagedBranch;
+    if (!branch && issueId && parseIssueIdFromBranch(currentBranch) === issueId) {
+      branch = currentBranch;
+      result.sources.push("branch: git");
+    }
+
+    if (!issueId || !branch) {
+      return { ...result, status: "unrepairable" };
+    }
+
+    let issueTitle = typeof fields.issue_title === "string" && fields.issue_title.trim() ? fields.issue_title : null;
+    if (!issueTitle) {
+      issueTitle = await resolveIssueTitle(execaFn, issueId);
+      result.sources.push(issueTitle ? "issue_title: gh" : "issue_title: fallback");
+    }
+
+    const startedAt = validField("started_at", fields.started_at) ? String(fields.started_at) : modifiedAt;
+    if (startedAt === modifiedAt) result.sources.push("started_at: file mtime");
+
+    result.turn = {
+      issue_id: issueId,
+      branch,
+      base_branch: validField("base_branch", fields.base_branch) ? String(fields.base_branch) : "main",
+      started_at: startedAt,
+      issue_title: issueTitle ?? `issue-${issueId}`,
+      ...(fields.paused !== undefined && validField("paused", fields.paused)
+        ? { paused: TurnContextSchema.shape.paused.parse(fields.paused) }
+        : {}),
+    };
+    result.status = "repaired";
+  } else {
+    result.status = "migrated";
+  }
+
+  if (!params.dryRun) {
+    result.backupPath = `${filePath}.bak`;
+    await fs.writeFile(result.backupPath, text, "utf8");
+    await writeTurnContext(result.turn, options);
+  }
+  return result;
+}
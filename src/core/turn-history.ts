@@ -0,0 +1,267 @@
+import { existsSync, readFileSync, statSync, promises as fs } from "node:fs";
+import path from "node:path";
+import { z } from "zod";
+import { resolveTurnWorkspaceRoot, type TurnContext, type TurnContextOptions } from "./turn";
+
+const TURN_LEDGER_FILE = path.join(".vibe", "runtime", "turns.jsonl");
+
+export const TURN_OUTCOMES = ["merged", "abandoned", "handed-off"] as const;
+export const TurnOutcomeSchema = z.enum(TURN_OUTCOMES);
+export type TurnOutcome = z.infer<typeof TurnOutcomeSchema>;
+
+const TurnStartEventSchema = z.object({
+  version: z.literal(1),
+  event: z.literal("start"),
+  at: z.string().min(1),
+  issue_id: z.number().int().positive(),
+  branch: z.string().min(1),
+  base_branch: z.string().min(1),
+  issue_title: z.string(),
+  started_at: z.string().min(1),
+  worktree: z.string().nullable(),
+});
+
+const TurnReviewEventSchema = z.object({
+  version: z.literal(1),
+  event: z.literal("review"),
+  at: z.string().min(1),
+  issue_id: z.number().int().positive(),
+  branch: z.string().min(1),
+  pr_number: z.number().int().positive().nullable(),
+  attempts: z.number().int().nonnegative(),
+});
+
+const TurnEndEventSchema = z.object({
+  version: z.literal(1),
+  event: z.literal("end"),
+  at: z.string().min(1),
+  issue_id: z.number().int().positive(),
+  branch: z.string().min(1),
+  started_at: z.string().min(1),
+  ended_at: z.string().min(1),
+  duration_ms: z.number().int().nonnegative().nullable(),
+  pr_number: z.number().int().positive().nullable(),
+  review_attempts: z.number().int().nonnegative(),
+  outcome: TurnOutcomeSchema,
+});
+
+export const TurnLedgerEventSchema = z.discriminatedUnion("event", [
+  TurnStartEventSchema,
+  TurnReviewEventSchema,
+  TurnEndEventSchema,
+]);
+export type TurnLedgerEvent = z.infer<typeof TurnLedgerEventSchema>;
+export type TurnStartEvent = z.infer<typeof TurnStartEventSchema>;
+export type TurnReviewEvent = z.infer<typeof TurnReviewEventSchema>;
+export type TurnEndEvent = z.infer<typeof TurnEndEventSchema>;
+
+export type TurnHistoryRecord = {
+  issue_id: number;
+  branch: string;
+  issue_title: string | null;
+  started_at: string;
+  ended_at: string | null;
+  duration_ms: number | null;
+  pr_number: number | null;
+  review_attempts: number;
+  outcome: TurnOutcome | null;
+  worktree: string | null;
+};
+
+export type TurnHistoryFilter = {
+  issueId?: number | null;
+  outcome?: TurnOutcome | "active" | null;
+  since?: string | null;
+};
+
+/**
+ * Linked worktrees keep the ledger in the main checkout (their `.git` file points at
+ * `<main>/.git/worktrees/<name>`), so history survives `git worktree remove`.
+ */
+export function resolveTurnLedgerRoot(cwd: string = process.cwd()): string {
+  const root = resolveTurnWorkspaceRoot(cwd);
+  const gitPath = path.join(root, ".git");
+  if (!existsSync(gitPath) || statSync(gitPath).isDirectory()) return root;
+
+  const match = /^gitdir:\s*(.+)$/m.exec(readFileSync(gitPath, "utf8"));
+  const gitDir = match?.[1]?.trim();
+  if (!gitDir) return root;
+
+  const resolved = path.resolve(root, gitDir);
+  const worktreesDir = path.dirname(resolved);
+  if (path.basename(worktreesDir) !== "worktrees" || path.basename(path.dirname(worktreesDir)) !== ".git") {
+    return root;
+  }
+  return path.dirname(path.dirname(worktreesDir));
+}
+
+export function getTurnLedgerPath(options: TurnContextOptions = {}): string {
+  return path.resolve(options.workspaceRoot ?? resolveTurnLedgerRoot(), TURN_LEDGER_FILE);
+}
+
+export async function appendTurnLedgerEvent(event: TurnLedgerEvent, options: TurnContextOptions = {}): Promise<string> {
+  const filePath = getTurnLedgerPath(options);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, `${JSON.stringify(TurnLedgerEventSchema.parse(event))}\n`, "utf8");
+  return filePath;
+}
+
+/** Reads the ledger, skipping blank or malformed lines. */
+export async function readTurnLedger(options: TurnContextOptions = {}): Promise<TurnLedgerEvent[]> {
+  let raw = "";
+  try {
+    raw = await fs.readFile(getTurnLedgerPath(options), "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const events: TurnLedgerEvent[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = TurnLedgerEventSchema.safeParse(JSON.parse(line));
+      if (parsed.success) events.push(parsed.data);
+    } catch {
+      // Ignore partially written lines.
+    }
+  }
+  return events;
+}
+
+export function buildTurnStartEvent(turn: TurnContext, worktree: string | null = null): TurnStartEvent {
+  return {
+    version: 1,
+    event: "start",
+    at: turn.started_at,
+    issue_id: turn.issue_id,
+    branch: turn.branch,
+    base_branch: turn.base_branch,
+    issue_title: turn.issue_title,
+    started_at: turn.started_at,
+    worktree,
+  };
+}
+
+function reviewBelongsToTurn(review: TurnReviewEvent, turn: { issue_id: number; started_at: string }, endedAt: string | null): boolean {
+  if (review.issue_id !== turn.issue_id) return false;
+  if (review.at < turn.started_at) return false;
+  return endedAt === null || review.at <= endedAt;
+}
+
+export function countTurnReviewAttempts(
+  events: TurnLedgerEvent[],
+  turn: { issue_id: number; started_at: string },
+  endedAt: string | null = null,
+): number {
+  return events
+    .filter((event): event is TurnReviewEvent => event.event === "review")
+    .filter((event) => reviewBelongsToTurn(event, turn, endedAt))
+    .reduce((total, event) => total + event.attempts, 0);
+}
+
+function latestReviewPrNumber(events: TurnLedgerEvent[], turn: { issue_id: number; started_at: string }): number | null {
+  const reviews = events
+    .filter((event): event is TurnReviewEvent => event.event === "review")
+    .filter((event) => reviewBelongsToTurn(event, turn, null) && event.pr_number !== null);
+  return reviews[reviews.length - 1]?.pr_number ?? null;
+}
+
+export function buildTurnEndEvent(params: {
+  turn: TurnContext;
+  events: TurnLedgerEvent[];
+  outcome: TurnOutcome;
+  prNumber?: number | null;
+  endedAt?: string;
+}): TurnEndEvent {
+  const endedAt = params.endedAt ?? new Date().toISOString();
+  const started = Date.parse(params.turn.started_at);
+  const ended = Date.parse(endedAt);
+  return {
+    version: 1,
+    event: "end",
+    at: endedAt,
+    issue_id: params.turn.issue_id,
+    branch: params.turn.branch,
+    started_at: params.turn.started_at,
+    ended_at: endedAt,
+    duration_ms: Number.isFinite(started) && Number.isFinite(ended) ? Math.max(0, ended - started) : null,
+    pr_number: params.prNumber ?? latestReviewPrNumber(params.events, params.turn),
+    review_attempts: countTurnReviewAttempts(params.events, params.turn, endedAt),
+    outcome: params.outcome,
+  };
+}
+
+/** Pairs start/end events (by issue and `started_at`) into one record per turn, oldest first. */
+export function buildTurnHistory(events: TurnLedgerEvent[]): TurnHistoryRecord[] {
+  const records = new Map<string, TurnHistoryRecord>();
+  const keyOf = (issueId: number, startedAt: string): string => `${issueId}@${startedAt}`;
+
+  for (const event of events) {
+    if (event.event === "start") {
+      records.set(keyOf(event.issue_id, event.started_at), {
+        issue_id: event.issue_id,
+        branch: event.branch,
+        issue_title: event.issue_title || null,
+        started_at: event.started_at,
+        ended_at: null,
+        duration_ms: null,
+        pr_number: null,
+        review_attempts: 0,
+        outcome: null,
+        worktree: event.worktree,
+      });
+    } else if (event.event === "end") {
+      const key = keyOf(event.issue_id, event.started_at);
+      const existing = records.get(key);
+      records.set(key, {
+        issue_id: event.issue_id,
+        branch: event.branch,
+        issue_title: existing?.issue_title ?? null,
+        started_at: event.started_at,
+        ended_at: event.ended_at,
+        duration_ms: event.duration_ms,
+        pr_number: event.pr_number,
+        review_attempts: event.review_attempts,
+        outcome: event.outcome,
+        worktree: existing?.worktree ?? null,
+      });
+    }
+  }
+
+  return [...records.values()]
+    .map((record) =>
+      record.ended_at === null
+        ? {
+            ...record,
+            pr_number: latestReviewPrNumber(events, record),
+            review_attempts: countTurnReviewAttempts(events, record),
+          }
+        : record,
+    )
+    .sort((left, right) => left.started_at.localeCompare(right.started_at));
+}
+
+export function filterTurnHistory(records: TurnHistoryRecord[], filter: TurnHistoryFilter): TurnHistoryRecord[] {
+  return records.filter((record) => {
+    if (filter.issueId && record.issue_id !== filter.issueId) return false;
+    if (filter.outcome === "active" && record.ended_at !== null) return false;
+    if (filter.outcome && filter.outcome !== "active" && record.outcome !== filter.outcome) return false;
+    if (filter.since && record.started_at < filter.since) return false;
+    return true;
+  });
+}
+
+export function formatTurnDuration(ms: number | null): string {
+  if (ms === null) return "-";
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return "<1m";
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  const rest = minutes % 60;
+  if (days) return `${days}d ${hours}h`;
+  if (hours) return `${hours}h ${rest}m`;
+  return `${rest}m`;
+}
@@ -0,0 +1,217 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { execa } from "execa";
+import {
+  clearTurnContext,
+  parseTurnContextFile,
+  readTurnContext,
+  resolveTurnWorkspaceRoot,
+  serializeTurnContext,
+  writeTurnContext,
+  type TurnContext,
+  type TurnContextOptions,
+  type TurnPause,
+} from "./turn";
+
+type ExecaFn = typeof execa;
+
+const PAUSED_TURNS_DIR = path.join(".vibe", "runtime", "paused");
+
+export type PausedTurnContext = TurnContext & { paused: TurnPause };
+
+export type TurnResumeResult = {
+  turn: TurnContext;
+  stashRestored: boolean;
+};
+
+export function getPausedTurnPath(issueId: number, options: TurnContextOptions = {}): string {
+  return path.resolve(options.workspaceRoot ?? resolveTurnWorkspaceRoot(), PAUSED_TURNS_DIR, `${issueId}.json`);
+}
+
+export function buildTurnStashMessage(turn: Pick<TurnContext, "issue_id" | "branch">): string {
+  return `vibe-turn #${turn.issue_id} ${turn.branch}`;
+}
+
+export async function readPausedTurn(issueId: number, options: TurnContextOptions = {}): Promise<PausedTurnContext | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(getPausedTurnPath(issueId, options), "utf8");
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+
+  const parsed = parseTurnContextFile(JSON.parse(raw));
+  if (!parsed.turn?.paused) {
+    const fields = parsed.errors.length ? parsed.errors.join(", ") : "paused";
+    throw new Error(`paused turn snapshot for issue #${issueId} is invalid (missing/invalid: ${fields}).`);
+  }
+  return parsed.turn as PausedTurnContext;
+}
+
+export async function listPausedTurns(options: TurnContextOptions = {}): Promise<PausedTurnContext[]> {
+  const directory = path.dirname(getPausedTurnPath(0, options));
+  let names: string[] = [];
+  try {
+    names = await fs.readdir(directory);
+  } catch (error) {
+    if (error instanceof Error && "code" in error && error.code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const turns: PausedTurnContext[] = [];
+  for (const name of names.filter((entry) => /^[0-9]+\.json$/.test(entry)).sort()) {
+    const turn = await readPausedTurn(Number(name.slice(0, -".json".length)), options);
+    if (turn) turns.push(turn);
+  }
+  return turns;
+}
+
+async function git(execaFn: ExecaFn, args: string[]): Promise<string> {
+  const response = await execaFn("git", args, { stdio: "pipe" });
+  return response.stdout.trim();
+}
+
+async function resolveCurrentBranch(execaFn: ExecaFn): Promise<string> {
+  const branch = await git(execaFn, ["rev-parse", "--abbrev-ref", "HEAD"]);
+  if (!branch || branch === "HEAD") {
+    throw new Error("unable to resolve current git branch");
+  }
+  return branch;
+}
+
+async function isWorkingTreeDirty(execaFn: ExecaFn): Promise<boolean> {
+  return (await git(execaFn, ["status", "--porcelain"])).length > 0;
+}
+
+/** Maps a stash commit to its current `stash@{n}` ref; newer stashes shift the index, the sha does not change. */
+async function findStashRef(execaFn: ExecaFn, sha: string): Promise<string | null> {
+  const listed = await git(execaFn, ["stash", "list", "--format=%H %gd"]);
+  for (const line of listed.split(/\r?\n/)) {
+    const [entrySha, ref] = line.trim().split(/\s+/);
+    if (entrySha === sha && ref) return ref;
+  }
+  return null;
+}
+
+/**
+ * Parks the active turn: stashes uncommitted work (including untracked files) under a message tied to the
+ * issue, moves turn.json to `.vibe/runtime/paused/<issue>.json` with the stash and HEAD recorded.
+ */
+export async function pauseTurn(params: { execaFn?: ExecaFn; options?: TurnContextOptions } = {}): Promise<PausedTurnContext> {
+  const execaFn = params.execaFn ?? execa;
+  const options = params.options ?? {};
+
+  const read = await readTurnContext(options);
+  if (read.state === "none") {
+    throw new Error("turn pause: no active turn.");
+  }
+  if (read.state === "invalid") {
+    throw new Error(
+      `turn pause: invalid active turn (missing/invalid: ${read.errors.join(", ")}). Run: vibe turn doctor`,
+    );
+  }
+  const turn = read.turn;
+  if (turn.paused) {
+    throw new Error(`turn pause: turn for issue #${turn.issue_id} is already paused.`);
+  }
+  if (await readPausedTurn(turn.issue_id, options)) {
+    throw new Error(
+      `turn pause: issue #${turn.issue_id} already has a paused snapshot. Run: vibe turn resume --issue ${turn.issue_id}`,
+    );
+  }
+
+  const currentBranch = await resolveCurrentBranch(execaFn);
+  if (currentBranch !== turn.branch) {
+    throw new Error(
+      `turn pause: current branch '${currentBranch}' does not match turn branch '${turn.branch}'. Checkout '${turn.branch}' first.`,
+    );
+  }
+
+  const head = await git(execaFn, ["rev-parse", "HEAD"]);
+  let stash: TurnPause["stash"] = null;
+  if (await isWorkingTreeDirty(execaFn)) {
+    const message = buildTurnStashMessage(turn);
+    await git(execaFn, ["stash", "push", "--include-untracked", "-m", message]);
+    stash = { sha: await git(execaFn, ["rev-parse", "stash@{0}"]), message };
+  }
+
+  const paused: PausedTurnContext = {
+    ...turn,
+    paused: { paused_at: new Date().toISOString(), head, stash },
+  };
+  const filePath = getPausedTurnPath(turn.issue_id, options);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, serializeTurnContext(paused), "utf8");
+  await clearTurnContext(options);
+  return paused;
+}
+
+/**
+ * Restores a paused turn: checks out its branch, pops its stash and rewrites turn.json. Refuses while another
+ * turn is active, the working tree is dirty, the branch moved since the pause, or the recorded stash is gone.
+ */
+export async function resumeTurn(params: {
+  execaFn?: ExecaFn;
+  issueId: number;
+  options?: TurnContextOptions;
+}): Promise<TurnResumeResult> {
+  const execaFn = params.execaFn ?? execa;
+  const options = params.options ?? {};
+
+  const active = await readTurnContext(options);
+  if (active.state === "active") {
+    throw new Error(
+      `turn resume: turn for issue #${active.turn.issue_id} is active. Run: vibe turn pause (or vibe turn end) first.`,
+    );
+  }
+  if (active.state === "invalid") {
+    throw new Error(
+      `turn resume: invalid active turn (missing/invalid: ${active.errors.join(", ")}). Run: vibe turn doctor`,
+    );
+  }
+
+  const paused = await readPausedTurn(params.issueId, options);
+  if (!paused) {
+    throw new Error(`turn resume: no paused turn for issue #${params.issueId}.`);
+  }
+  const { paused: pause, ...turn } = paused;
+
+  if (await isWorkingTreeDirty(execaFn)) {
+    throw new Error("turn resume: working tree is not clean. Commit or stash changes first.");
+  }
+
+  const probe = await execaFn("git", ["rev-parse", "--verify", "--quiet", `refs/heads/${turn.branch}`], {
+    stdio: "pipe",
+    reject: false,
+  });
+  const branchHead = probe.exitCode === 0 ? probe.stdout.trim() : "";
+  if (!branchHead) {
+    throw new Error(`turn resume: branch '${turn.branch}' no longer exists.`);
+  }
+  if (branchHead !== pause.head) {
+    throw new Error(
+      `turn resume: branch '${turn.branch}' moved since the pause (recorded ${pause.head.slice(0, 12)}, now ${branchHead.slice(0, 12)}).`,
+    );
+  }
+
+  const stashRef = pause.stash ? await findStashRef(execaFn, pause.stash.sha) : null;
+  if (pause.stash && !stashRef) {
+    throw new Error(`turn resume: stash '${pause.stash.message}' (${pause.stash.sha.slice(0, 12)}) not found in git stash list.`);
+  }
+
+  if ((await resolveCurrentBranch(execaFn)) !== turn.branch) {
+    await execaFn("git", ["checkout", turn.branch], { stdio: "inherit" });
+  }
+  if (stashRef) {
+    await execaFn("git", ["stash", "pop", stashRef], { stdio: "inherit" });
+  }
+
+  await writeTurnContext(turn, options);
+  await fs.rm(getPausedTurnPath(params.issueId, options), { force: true });
+  return { turn, stashRestored: Boolean(stashRef) };
+}
@@ -0,0 +1,141 @@
+import { realpathSync } from "node:fs";
+import path from "node:path";
+import { execa } from "execa";
+import { readTurnContext, resolveTurnWorkspaceRoot, type TurnContext } from "./turn";
+
+type ExecaFn = typeof execa;
+
+export type GitWorktree = {
+  path: string;
+  head: string | null;
+  branch: string | null;
+  bare: boolean;
+};
+
+export type WorktreeTurn = {
+  path: string;
+  branch: string | null;
+  current: boolean;
+  turn: TurnContext | null;
+  error: string | null;
+};
+
+export function parseGitWorktreeList(stdout: string): GitWorktree[] {
+  const worktrees: GitWorktree[] = [];
+  let current: GitWorktree | null = null;
+
+  for (const rawLine of stdout.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      current = null;
+      continue;
+    }
+
+    if (line.startsWith("worktree ")) {
+      current = { path: line.slice("worktree ".length).trim(), head: null, branch: null, bare: false };
+      worktrees.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.startsWith("HEAD ")) {
+      current.head = line.slice("HEAD ".length).trim() || null;
+    } else if (line.startsWith("branch ")) {
+      current.branch = line.slice("branch ".length).trim().replace(/^refs\/heads\//, "") || null;
+    } else if (line === "bare") {
+      current.bare = true;
+    }
+  }
+
+  return worktrees;
+}
+
+export async function listGitWorktrees(execaFn: ExecaFn = execa): Promise<GitWorktree[]> {
+  const response = await execaFn("git", ["worktree", "list", "--porcelain"], { stdio: "pipe" });
+  return parseGitWorktreeList(response.stdout);
+}
+
+function samePath(left: string, right: string): boolean {
+  const normalize = (value: string): string => {
+    try {
+      return realpathSync(value);
+    } catch {
+      return path.resolve(value);
+    }
+  };
+  return normalize(left) === normalize(right);
+}
+
+/** Default location for an issue worktree: `<repo>-worktrees/<branch>` next to the main checkout. */
+export function buildTurnWorktreePath(repoRoot: string, branch: string): string {
+  const root = path.resolve(repoRoot);
+  return path.join(path.dirname(root), `${path.basename(root)}-worktrees`, branch);
+}
+
+export async function listWorktreeTurns(execaFn: ExecaFn = execa, cwd: string = process.cwd()): Promise<WorktreeTurn[]> {
+  const currentRoot = resolveTurnWorkspaceRoot(cwd);
+  const worktrees = await listGitWorktrees(execaFn);
+  const turns: WorktreeTurn[] = [];
+
+  for (const worktree of worktrees) {
+    if (worktree.bare) continue;
+
+    let turn: TurnContext | null = null;
+    let error: string | null = null;
+    try {
+      const read = await readTurnContext({ workspaceRoot: worktree.path });
+      if (read.state === "active") turn = read.turn;
+      if (read.state === "invalid") error = `missing/invalid: ${read.errors.join(", ")}`;
+    } catch (readError) {
+      error = readError instanceof Error ? readError.message : String(readError);
+    }
+
+    turns.push({
+      path: worktree.path,
+      branch: worktree.branch,
+      current: samePath(worktree.path, currentRoot),
+      turn,
+      error,
+    });
+  }
+
+  return turns;
+}
+
+export function findWorktreeTurnByIssue(turns: WorktreeTurn[], issueId: number): WorktreeTurn | null {
+  return turns.find((entry) => entry.turn?.issue_id === issueId) ?? null;
+}
+
+/**
+ * Adds (or reuses) a worktree for `branch`. Existing local branches are checked out as-is; otherwise the
+ * branch is created from the current HEAD, matching `turn start` in the main checkout.
+ */
+export async function ensureTurnWorktree(params: {
+  execaFn?: ExecaFn;
+  branch: string;
+  worktreePath?: string | null;
+}): Promise<{ path: string; created: boolean }> {
+  const execaFn = params.execaFn ?? execa;
+  const worktrees = await listGitWorktrees(execaFn);
+
+  const existing = worktrees.find((worktree) => worktree.branch === params.branch);
+  if (existing) {
+    return { path: existing.path, created: false };
+  }
+
+  // `git worktree list` prints the main checkout first.
+  const mainRoot = worktrees[0]?.path ?? resolveTurnWorkspaceRoot();
+  const worktreePath = path.resolve(params.worktreePath ?? buildTurnWorktreePath(mainRoot, params.branch));
+
+  const probe = await execaFn("git", ["show-ref", "--verify", "--quiet", `refs/heads/${params.branch}`], {
+    stdio: "pipe",
+    reject: false,
+  });
+  const args =
+    probe.exitCode === 0
+      ? ["worktree", "add", worktreePath, params.branch]
+      : ["worktree", "add", "-b", params.branch, worktreePath];
+  await execaFn("git", args, { stdio: "inherit" });
+
+  return { path: worktreePath, created: true };
+}
@@ -1,22 +1,68 @@
-import { promises as fs } from "node:fs";
+import { existsSync, promises as fs } from "node:fs";
 import path from "node:path";
+import { z } from "zod";
 
 const TURN_FILE = path.join(".vibe", "runtime", "turn.json");
 
-export type TurnContext = {
-  issue_id: number;
-  branch: string;
-  base_branch: string;
-  started_at: string;
-  issue_title: string;
+/** turn.json files written before versioning have no `version` field and count as version 1. */
+export const TURN_CONTEXT_VERSION = 2;
+const LEGACY_TURN_CONTEXT_VERSION = 1;
+const DEFAULT_TURN_BASE_BRANCH = "main";
+
+export const TurnPauseSchema = z.object({
+  paused_at: z.string().min(1),
+  head: z.string().min(1),
+  stash: z.object({ sha: z.string().min(1), message: z.string() }).nullable(),
+});
+export type TurnPause = z.infer<typeof TurnPauseSchema>;
+
+export const TurnContextSchema = z.object({
+  issue_id: z.number().int().positive(),
+  branch: z.string().trim().min(1),
+  base_branch: z.string().trim().min(1),
+  started_at: z.string().min(1),
+  issue_title: z.string(),
+  /** Set on the snapshot written by `turn pause`; removed again by `turn resume`. */
+  paused: TurnPauseSchema.optional(),
+});
+export type TurnContext = z.infer<typeof TurnContextSchema>;
+
+export type TurnContextParseResult = {
+  /** Version found in the file (1 for unversioned files). */
+  version: number;
+  /** The migrated context, or `null` when it still fails the schema. */
+  turn: TurnContext | null;
+  /** The migrated (but possibly invalid) fields, for callers that report what is wrong. */
+  fields: Record<string, unknown>;
+  errors: string[];
 };
 
+/** What `readTurnContext` found: no turn.json, a valid turn, or a file that still fails the schema after migration. */
+export type TurnContextReadResult =
+  | { state: "none" }
+  | { state: "active"; turn: TurnContext }
+  | { state: "invalid"; errors: string[] };
+
 export type TurnContextOptions = {
   workspaceRoot?: string;
 };
 
+/**
+ * Nearest ancestor of `cwd` holding a `.git` entry (a directory in the main checkout, a file in linked
+ * worktrees), so each worktree resolves its own turn context. Falls back to `cwd` outside git.
+ */
+export function resolveTurnWorkspaceRoot(cwd: string = process.cwd()): string {
+  let current = path.resolve(cwd);
+  while (true) {
+    if (existsSync(path.join(current, ".git"))) return current;
+    const parent = path.dirname(current);
+    if (parent === current) return path.resolve(cwd);
+    current = parent;
+  }
+}
+
 function getWorkspaceRoot(options: TurnContextOptions): string {
-  return options.workspaceRoot ?? process.cwd();
+  return options.workspaceRoot ?? resolveTurnWorkspaceRoot();
 }
 
 export function getTurnContextPath(options: TurnContextOptions = {}): string {
@@ -35,47 +81,102 @@ export function buildTurnBranch(issueId: number, slugSource: string): string {
   return `issue-${issueId}-${slug}`;
 }
 
-export function validateTurnContext(turn: Partial<TurnContext> | null): string[] {
-  const errors: string[] = [];
+function listInvalidFields(error: z.ZodError): string[] {
+  return [...new Set(error.issues.map((issue) => String(issue.path[0] ?? "turn")))];
+}
 
+/** `started_at`/`issue_title` may be absent (older files); when present they must still be well-formed. */
+export function validateTurnContext(turn: Partial<TurnContext> | null): string[] {
   if (!turn) {
     return ["turn context is missing"];
   }
 
-  if (!Number.isSafeInteger(turn.issue_id) || (turn.issue_id ?? 0) <= 0) {
-    errors.push("issue_id");
+  const parsed = TurnContextSchema.partial({ started_at: true, issue_title: true }).safeParse(turn);
+  return parsed.success ? [] : listInvalidFields(parsed.error);
+}
+
+/**
+ * Upgrades an unversioned (v1) turn.json: numeric-string issue ids, and the `base_branch`, `issue_title` and
+ * `started_at` fields that early versions did not always write.
+ */
+function migrateLegacyTurnContext(raw: Record<string, unknown>, fallbackStartedAt: string): Record<string, unknown> {
+  const migrated = { ...raw };
+  if (typeof migrated.issue_id === "string" && /^[0-9]+$/.test(migrated.issue_id.trim())) {
+    migrated.issue_id = Number(migrated.issue_id.trim());
   }
+  if (migrated.base_branch === undefined) {
+    migrated.base_branch = DEFAULT_TURN_BASE_BRANCH;
+  }
+  if (migrated.issue_title === undefined && typeof migrated.issue_id === "number") {
+    migrated.issue_title = `issue-${migrated.issue_id}`;
+  }
+  if (migrated.started_at === undefined) {
+    migrated.started_at = fallbackStartedAt;
+  }
+  return migrated;
+}
 
-  if (typeof turn.branch !== "string" || !turn.branch.trim()) {
-    errors.push("branch");
+export function parseTurnContextFile(
+  raw: unknown,
+  options: { fallbackStartedAt?: string } = {},
+): TurnContextParseResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { version: LEGACY_TURN_CONTEXT_VERSION, turn: null, fields: {}, errors: ["turn"] };
   }
 
-  if (typeof turn.base_branch !== "string" || !turn.base_branch.trim()) {
-    errors.push("base_branch");
+  const { version: rawVersion, ...rest } = raw as Record<string, unknown>;
+  const version = rawVersion === undefined ? LEGACY_TURN_CONTEXT_VERSION : rawVersion;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < LEGACY_TURN_CONTEXT_VERSION) {
+    return { version: LEGACY_TURN_CONTEXT_VERSION, turn: null, fields: rest, errors: ["version"] };
   }
+  if (version > TURN_CONTEXT_VERSION) {
+    throw new Error(
+      `turn.json version ${version} is newer than supported version ${TURN_CONTEXT_VERSION}; update vibe-backlog.`,
+    );
+  }
+
+  const fields =
+    version === LEGACY_TURN_CONTEXT_VERSION
+      ? migrateLegacyTurnContext(rest, options.fallbackStartedAt ?? new Date().toISOString())
+      : rest;
+  const parsed = TurnContextSchema.safeParse(fields);
+  return parsed.success
+    ? { version, turn: parsed.data, fields, errors: [] }
+    : { version, turn: null, fields, errors: listInvalidFields(parsed.error) };
+}
 
-  return errors;
+export function serializeTurnContext(turn: TurnContext): string {
+  return `${JSON.stringify({ version: TURN_CONTEXT_VERSION, ...TurnContextSchema.parse(turn) }, null, 2)}\n`;
 }
 
-export async function readTurnContext(options: TurnContextOptions = {}): Promise<TurnContext | null> {
+/**
+ * Reads and migrates turn.json. Malformed JSON still throws `SyntaxError`; a context that fails the schema comes
+ * back as `invalid` with the offending fields, never as a turn, so callers send the user to `vibe turn doctor`.
+ */
+export async function readTurnContext(options: TurnContextOptions = {}): Promise<TurnContextReadResult> {
   const filePath = getTurnContextPath(options);
 
+  let raw: string;
+  let modifiedAt: Date;
   try {
-    const raw = await fs.readFile(filePath, "utf8");
-    return JSON.parse(raw) as TurnContext;
+    raw = await fs.readFile(filePath, "utf8");
+    modifiedAt = (await fs.stat(filePath)).mtime;
   } catch (error) {
     if (error instanceof Error && "code" in error && error.code === "ENOENT") {
-      return null;
+      return { state: "none" };
     }
 
     throw error;
   }
+
+  const parsed = parseTurnContextFile(JSON.parse(raw), { fallbackStartedAt: modifiedAt.toISOString() });
+  return parsed.turn ? { state: "active", turn: parsed.turn } : { state: "invalid", errors: parsed.errors };
 }
 
 export async function writeTurnContext(turn: TurnContext, options: TurnContextOptions = {}): Promise<string> {
   const filePath = getTurnContextPath(options);
   await fs.mkdir(path.dirname(filePath), { recursive: true });
-  await fs.writeFile(filePath, `${JSON.stringify(turn, null, 2)}\n`, "utf8");
+  await fs.writeFile(filePath, serializeTurnContext(turn), "utf8");
   return filePath;
 }
 
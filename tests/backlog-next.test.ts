@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { rankBacklogNext } from "../src/core/backlog-next";
+
+const BACKLOG = `# Backlog
+
+## Temática: Plataforma
+
+| ID | Feature/Bug | Estado | Branch | PR | Notas | Prioridad | Depende de |
+| --- | --- | --- | --- | --- | --- | --- | --- |
+| PLT-001 | Auth.js | done | - | - | - | P0 | - |
+| PLT-002 | Billing | next | - | - | - | P1 | PLT-001 |
+| PLT-003 | Search | next | - | - | See [#30](https://github.com/acme/app/issues/30) | P1 | - |
+| PLT-004 | Exports | next | - | - | - | P0 | PLT-005 |
+| PLT-005 | Imports | ongoing | - | - | - | P2 | - |
+| PLT-006 | Theming | next | - | - | - | - | - |
+| PLT-007 | Docs | next | - | - | - | P1 | - |
+`;
+
+describe("vibe backlog next ranking", () => {
+  it("ranks ready items by priority, milestone and linked issue, with reasons", () => {
+    const ranking = rankBacklogNext({
+      markdown: BACKLOG,
+      issues: [
+        { number: 20, title: "PLT-002: Billing", milestone: "v0.3", url: "https://github.com/acme/app/issues/20" },
+        { number: 30, title: "Search everywhere", milestone: "v0.2", url: "https://github.com/acme/app/issues/30" },
+        { number: 40, title: "[PLT-006] Theming", milestone: "v0.1", url: null },
+      ],
+    });
+
+    expect(ranking.candidates.map((candidate) => candidate.item_id)).toEqual(["PLT-003", "PLT-002", "PLT-007", "PLT-006"]);
+    expect(ranking.candidates[0]).toMatchObject({
+      priority: "P1",
+      milestone: "v0.2",
+      issue: { number: 30, url: "https://github.com/acme/app/issues/30" },
+      reasons: ["priority P1", "milestone v0.2", "open issue #30 (matched by link)"],
+    });
+    expect(ranking.candidates[1]?.reasons).toContain("dependencies done: PLT-001");
+    expect(ranking.candidates[2]?.reasons).toContain("no open issue (run `vibe backlog sync`)");
+    expect(ranking.candidates[3]?.reasons[0]).toBe("no priority set");
+    expect(ranking.excluded).toEqual([{ item_id: "PLT-004", reason: "waiting on PLT-005" }]);
+  });
+
+  it("returns no candidates when nothing is ready", () => {
+    const ranking = rankBacklogNext({ markdown: BACKLOG.replace(/\| next \|/g, "| done |"), issues: [] });
+    expect(ranking).toEqual({ candidates: [], excluded: [] });
+  });
+});
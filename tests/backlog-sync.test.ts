@@ -0,0 +1,160 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { findBacklogItem } from "../src/core/backlog";
+import { planBacklogSync, runBacklogSync, type BacklogSyncIssue } from "../src/core/backlog-sync";
+
+const SAMPLE_BACKLOG = `# Backlog
+
+## Temática: Plataforma
+
+| ID | Feature/Bug | Estado | Branch | PR | Notas |
+| --- | --- | --- | --- | --- | --- |
+| PLT-001 | Auth.js | next | - | - | See [#12](https://github.com/acme/app/issues/12) |
+| PLT-002 | Billing | next | - | - | - |
+| PLT-003 | Search | next | - | - | - |
+| PLT-004 | Legacy cleanup | done | - | - | - |
+`;
+
+const ISSUES: BacklogSyncIssue[] = [
+  {
+    number: 12,
+    title: "Auth.js login",
+    state: "OPEN",
+    body: "",
+    url: "https://github.com/acme/app/issues/12",
+    labels: ["status:in-progress"],
+  },
+  {
+    number: 13,
+    title: "PLT-002: Billing",
+    state: "CLOSED",
+    body: "",
+    url: "https://github.com/acme/app/issues/13",
+    labels: [],
+  },
+];
+
+describe("backlog sync plan", () => {
+  it("matches rows by link or id and copies issue state, branch and PR back", () => {
+    const plan = planBacklogSync({
+      markdown: SAMPLE_BACKLOG,
+      issues: ISSUES,
+      pullRequests: [
+        {
+          number: 20,
+          state: "OPEN",
+          url: "https://github.com/acme/app/pull/20",
+          headRefName: "issue-12-auth-js-login",
+          body: "Fixes #12",
+        },
+      ],
+    });
+
+    expect(plan.matches).toEqual([
+      { itemId: "PLT-001", issueNumber: 12, source: "link" },
+      { itemId: "PLT-002", issueNumber: 13, source: "title" },
+    ]);
+    expect(plan.actions).toEqual([
+      { kind: "update-cell", itemId: "PLT-001", issueNumber: 12, field: "status", from: "next", to: "ongoing" },
+      {
+        kind: "update-cell",
+        itemId: "PLT-001",
+        issueNumber: 12,
+        field: "branch",
+        from: "-",
+        to: "issue-12-auth-js-login",
+      },
+      {
+        kind: "update-cell",
+        itemId: "PLT-001",
+        issueNumber: 12,
+        field: "pr",
+        from: "-",
+        to: "[#20](https://github.com/acme/app/pull/20)",
+      },
+      { kind: "update-cell", itemId: "PLT-002", issueNumber: 13, field: "status", from: "next", to: "done" },
+      {
+        kind: "update-cell",
+        itemId: "PLT-002",
+        issueNumber: 13,
+        field: "notes",
+        from: "-",
+        to: "[#13](https://github.com/acme/app/issues/13)",
+      },
+      expect.objectContaining({ kind: "create-issue", itemId: "PLT-003", title: "PLT-003: Search" }),
+    ]);
+    expect(plan.skipped).toEqual([{ itemId: "PLT-004", reason: "done item without linked issue" }]);
+  });
+
+  it("matches created issues by body marker and skips creation when disabled", () => {
+    const plan = planBacklogSync({
+      markdown: SAMPLE_BACKLOG,
+      issues: [
+        {
+          number: 30,
+          title: "Search everywhere",
+          state: "OPEN",
+          body: "Backlog item\n\n<!-- vibe:backlog-item:PLT-003 -->",
+          url: null,
+          labels: [],
+        },
+      ],
+      pullRequests: [],
+      createMissing: false,
+    });
+
+    expect(plan.matches).toEqual([{ itemId: "PLT-003", issueNumber: 30, source: "marker" }]);
+    expect(plan.actions.some((action) => action.kind === "create-issue")).toBe(false);
+    expect(plan.skipped.map((entry) => entry.itemId)).toEqual(["PLT-001", "PLT-002", "PLT-004"]);
+  });
+});
+
+describe.sequential("backlog sync run", () => {
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-backlog-sync-test-"));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("creates missing issues via body file and writes links back", async () => {
+    writeFileSync(path.join(tempDir, "BACKLOG.md"), SAMPLE_BACKLOG, "utf8");
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "issue" && args[1] === "list") return { stdout: JSON.stringify([]) };
+      if (args[0] === "pr" && args[1] === "list") return { stdout: "[]" };
+      if (args[0] === "issue" && args[1] === "create") {
+        const title = args[args.indexOf("--title") + 1];
+        const number = title?.startsWith("PLT-001") ? 41 : title?.startsWith("PLT-002") ? 42 : 43;
+        return { stdout: `https://github.com/acme/app/issues/${number}\n` };
+      }
+      throw new Error(`unexpected command: ${args.join(" ")}`);
+    });
+
+    const dryRun = await runBacklogSync({ workspaceRoot: tempDir, dryRun: true }, execaMock as never);
+    expect(dryRun.actions.filter((action) => action.kind === "create-issue")).toHaveLength(3);
+    expect(execaMock.mock.calls.some(([, args]) => args[1] === "create")).toBe(false);
+
+    const result = await runBacklogSync({ workspaceRoot: tempDir, dryRun: false, labels: ["backlog"] }, execaMock as never);
+    expect(result.createdIssues.map((entry) => entry.issueNumber)).toEqual([41, 42, 43]);
+    expect(result.written).toBe(true);
+
+    const createCall = execaMock.mock.calls.find(([, args]) => args[1] === "create");
+    expect(createCall?.[1]).toEqual(expect.arrayContaining(["--body-file", "--label", "backlog"]));
+
+    const markdown = readFileSync(path.join(tempDir, "BACKLOG.md"), "utf8");
+    expect(findBacklogItem(markdown, "PLT-002")?.item.notes).toBe("[#42](https://github.com/acme/app/issues/42)");
+    expect(findBacklogItem(markdown, "PLT-004")?.item.notes).toBe("-");
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import { BacklogItemSchema, toBacklogItemRecord, validateBacklog } from "../src/core/backlog-validate";
+import { parseBacklogMarkdown } from "../src/core/parser";
+
+const TYPED_BACKLOG = `# Backlog
+
+## Temática: Plataforma
+
+| ID | Feature/Bug | Estado | Branch | PR | Notas | Prioridad | Estimación | Owner | Depende de |
+| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |
+| PLT-001 | Auth.js | done | - | - | - | P0 | 3d | @octo | - |
+| PLT-002 | Billing | next | - | - | - | p1 | 2d | octo-cat | PLT-001 |
+| PLT-003 | Search | ongoing | - | - | - | - | - | - | PLT-001, PLT-002 |
+`;
+
+describe("vibe backlog validate", () => {
+  it("parses optional typed columns into a schema-valid record", () => {
+    const item = parseBacklogMarkdown(TYPED_BACKLOG).topics[0]?.items[1];
+    expect(item).toMatchObject({ priority: "p1", estimate: "2d", owner: "octo-cat", dependsOn: "PLT-001" });
+
+    const record = BacklogItemSchema.parse(toBacklogItemRecord(item!));
+    expect(record).toMatchObject({ priority: "P1", estimate: "2d", owner: "octo-cat", depends_on: ["PLT-001"] });
+  });
+
+  it("accepts a consistent backlog", () => {
+    expect(validateBacklog(TYPED_BACKLOG)).toEqual({ items: 3, errors: 0, warnings: 0, issues: [] });
+  });
+
+  it("reports unknown statuses, invalid fields, duplicates, broken references and cycles", () => {
+    const broken = `${TYPED_BACKLOG}| PLT-004 | Cache | later | - | - | - | P9 | soon | - | PLT-005 |
+| plt-002 | Dup | next | - | - | - | - | - | - | - |
+| PLT-005 | Loop A | next | - | - | - | - | - | - | PLT-006 |
+| PLT-006 | Loop B | next | - | - | - | - | - | - | PLT-005 |
+
+## Temática: Legacy
+
+| Key | Title |
+| --- | --- |
+`;
+    const report = validateBacklog(broken);
+
+    expect(report.issues.map((issue) => [issue.line, issue.item_id, issue.code])).toEqual([
+      [10, "PLT-004", "unknown-status"],
+      [10, "PLT-004", "invalid-field"],
+      [10, "PLT-004", "invalid-field"],
+      [11, "plt-002", "duplicate-id"],
+      [12, "PLT-005", "dependency-cycle"],
+      [17, null, "invalid-table"],
+    ]);
+    expect(report.issues[3]?.message).toBe("duplicate id (first defined on line 8).");
+    expect(report.issues[4]?.message).toBe("dependency cycle: PLT-005 -> PLT-006 -> PLT-005.");
+    expect(report).toMatchObject({ items: 7, errors: 5, warnings: 1 });
+
+    const missing = validateBacklog(TYPED_BACKLOG.replace("| PLT-001 |\n", "| PLT-404 |\n"));
+    expect(missing.issues).toEqual([
+      expect.objectContaining({ code: "missing-dependency", item_id: "PLT-002", message: "depends on unknown item 'PLT-404'." }),
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  addBacklogItem,
+  findBacklogItem,
+  listBacklogItems,
+  moveBacklogItem,
+  setBacklogItemStatus,
+  updateBacklogItem,
+} from "../src/core/backlog";
+import { parseBacklogMarkdown } from "../src/core/parser";
+
+const SAMPLE_BACKLOG = `# Featherlist Backlog
+
+Intro paragraph that must survive edits.
+
+## Temática: Delivery / PR Hygiene
+
+| ID      | Feature/Bug          | Estado  | Branch                        | PR                            | Notas              |
+| ------- | -------------------- | ------- | ----------------------------- | ----------------------------- | ------------------ |
+| OPS-001 | Consolidar PRs       | ongoing | \`codex/feat-taxonomy-colors\` | [#8](https://example.com/pr/8) | Definir merge final. |
+| OPS-002 | Cerrar PRs obsoletas | next    | -                             | -                             | Limpiar ramas.     |
+
+## Temática: Plataforma
+
+| ID | Feature/Bug | Estado | Branch | PR | Notas |
+| --- | --- | --- | --- | --- | --- |
+| PLT-001 | Auth.js | next | - | - | Implementar auth. |
+`;
+
+describe("vibe backlog table edits", () => {
+  it("lists and finds items with their topic", () => {
+    const items = listBacklogItems(SAMPLE_BACKLOG);
+    expect(items.map((entry) => entry.item.id)).toEqual(["OPS-001", "OPS-002", "PLT-001"]);
+
+    const found = findBacklogItem(SAMPLE_BACKLOG, "plt-001");
+    expect(found?.topic).toBe("Plataforma");
+    expect(found?.item.feature).toBe("Auth.js");
+    expect(findBacklogItem(SAMPLE_BACKLOG, "NOPE-1")).toBeNull();
+  });
+
+  it("updates one cell in place keeping aligned column widths", () => {
+    const next = setBacklogItemStatus(SAMPLE_BACKLOG, "OPS-002", "done");
+    const changed = next.split("\n").filter((line, index) => line !== SAMPLE_BACKLOG.split("\n")[index]);
+
+    expect(changed).toEqual([
+      "| OPS-002 | Cerrar PRs obsoletas | done    | -                             | -                             | Limpiar ramas.     |",
+    ]);
+    expect(findBacklogItem(next, "OPS-002")?.item.status).toBe("done");
+  });
+
+  it("wraps branch values in backticks and clears empty cells to '-'", () => {
+    const next = updateBacklogItem(SAMPLE_BACKLOG, "PLT-001", { branch: "issue-9-auth", pr: "", notes: null });
+    const item = findBacklogItem(next, "PLT-001")?.item;
+
+    expect(next).toContain("| PLT-001 | Auth.js | next | `issue-9-auth` | - | - |");
+    expect(item?.branch).toBe("issue-9-auth");
+  });
+
+  it("appends new items to the end of an existing topic table", () => {
+    const next = addBacklogItem(SAMPLE_BACKLOG, "plataforma", { id: "PLT-002", feature: "Billing" });
+    const parsed = parseBacklogMarkdown(next);
+
+    expect(parsed.topics[1]?.items.map((item) => item.id)).toEqual(["PLT-001", "PLT-002"]);
+    expect(parsed.topics[1]?.items[1]).toEqual({
+      id: "PLT-002",
+      feature: "Billing",
+      status: "next",
+      branch: "-",
+      pr: "-",
+      notes: "-",
+    });
+    expect(next).toContain("Intro paragraph that must survive edits.");
+  });
+
+  it("creates a missing topic section when adding or moving items", () => {
+    const added = addBacklogItem(SAMPLE_BACKLOG, "Docs", { id: "DOC-001", feature: "Guide", status: "ongoing" });
+    expect(added).toContain("## Temática: Docs\n\n| ID | Feature/Bug | Estado | Branch | PR | Notas |");
+
+    const moved = moveBacklogItem(added, "OPS-001", "Docs");
+    const parsed = parseBacklogMarkdown(moved);
+    expect(parsed.topics.map((topic) => topic.items.map((item) => item.id))).toEqual([
+      ["OPS-002"],
+      ["PLT-001"],
+      ["DOC-001", "OPS-001"],
+    ]);
+    expect(moved).toContain("[#8](https://example.com/pr/8)");
+  });
+
+  it("rejects duplicate ids, unknown ids, and pipe characters", () => {
+    expect(() => addBacklogItem(SAMPLE_BACKLOG, "Plataforma", { id: "ops-001", feature: "Dup" })).toThrow(
+      "already exists",
+    );
+    expect(() => setBacklogItemStatus(SAMPLE_BACKLOG, "NOPE-1", "done")).toThrow("not found");
+    expect(() => updateBacklogItem(SAMPLE_BACKLOG, "PLT-001", { notes: "a | b" })).toThrow("cannot contain");
+  });
+
+  it("fills optional typed columns and rejects values for columns the table lacks", () => {
+    const typed = SAMPLE_BACKLOG.replace(
+      "| ID | Feature/Bug | Estado | Branch | PR | Notas |\n| --- | --- | --- | --- | --- | --- |\n| PLT-001 | Auth.js | next | - | - | Implementar auth. |",
+      "| ID | Feature/Bug | Estado | Branch | PR | Notas | Prioridad | Depende de |\n| --- | --- | --- | --- | --- | --- | --- | --- |\n| PLT-001 | Auth.js | next | - | - | Implementar auth. | P1 | - |",
+    );
+
+    const added = addBacklogItem(typed, "Plataforma", { id: "PLT-002", feature: "Billing", priority: "P0", dependsOn: "PLT-001" });
+    expect(added).toContain("| PLT-002 | Billing | next | - | - | - | P0 | PLT-001 |");
+
+    const updated = updateBacklogItem(added, "PLT-001", { priority: "P2" });
+    expect(findBacklogItem(updated, "PLT-001")?.item).toMatchObject({ priority: "P2", dependsOn: "-" });
+
+    expect(() => updateBacklogItem(typed, "PLT-001", { owner: "octo" })).toThrow("has no 'Owner' column");
+    expect(() => addBacklogItem(typed, "Delivery / PR Hygiene", { id: "OPS-003", feature: "X", priority: "P1" })).toThrow(
+      "has no 'Prioridad' column",
+    );
+
+    const moved = moveBacklogItem(added, "PLT-002", "Roadmap");
+    expect(moved).toContain(
+      "| ID | Feature/Bug | Estado | Branch | PR | Notas | Prioridad | Depende de |\n| --- | --- | --- | --- | --- | --- | --- | --- |\n| PLT-002 | Billing | next | - | - | - | P0 | PLT-001 |",
+    );
+  });
+
+  it("keeps CRLF line endings when editing", () => {
+    const crlf = SAMPLE_BACKLOG.replace(/\n/g, "\r\n");
+    const next = setBacklogItemStatus(crlf, "PLT-001", "done");
+
+    expect(next.includes("\r\n")).toBe(true);
+    expect(next.replace(/\r\n/g, "")).not.toContain("\n");
+  });
+});
@@ -0,0 +1,78 @@
+// One `gh` invocation against the fake GitHub in tests/fake-github.ts, for tests that run the CLI with the real
+// execa. State lives in the JSON file named by FAKE_GH_STATE and is loaded and saved around every call under a
+// lock, since the CLI runs up to four gh calls at once. PR heads resolve from the bare repo in FAKE_GH_REMOTE.
+// Output follows gh: results on stdout, errors on stderr with exit code 1.
+import { execFileSync } from "node:child_process";
+import { existsSync, mkdirSync, readFileSync, renameSync, rmdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_POLL_MS = 10;
+
+function sleep(ms) {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function acquireLock(lockPath) {
+  for (let waited = 0; ; waited += LOCK_POLL_MS) {
+    try {
+      mkdirSync(lockPath);
+      return;
+    } catch (error) {
+      if (error.code !== "EEXIST" || waited >= LOCK_TIMEOUT_MS) throw error;
+      sleep(LOCK_POLL_MS);
+    }
+  }
+}
+
+/** Transpiles the TypeScript model once per state directory; node runs the result directly. */
+async function loadFakeGitHub(stateDir) {
+  const modulePath = path.join(stateDir, "fake-github.mjs");
+  if (!existsSync(modulePath)) {
+    const { default: ts } = await import("typescript");
+    const sourcePath = fileURLToPath(new URL("../fake-github.ts", import.meta.url));
+    const { outputText } = ts.transpileModule(readFileSync(sourcePath, "utf8"), {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    });
+    const tempPath = `${modulePath}.${process.pid}.tmp`;
+    writeFileSync(tempPath, outputText);
+    renameSync(tempPath, modulePath);
+  }
+  return import(pathToFileURL(modulePath).href);
+}
+
+function resolveHeadSha(remote, branch) {
+  if (!remote) return null;
+  const listed = execFileSync("git", ["ls-remote", "--heads", remote, branch], { encoding: "utf8" });
+  return listed.split(/\s+/)[0] || null;
+}
+
+const statePath = process.env.FAKE_GH_STATE;
+if (!statePath) {
+  process.stderr.write("fake gh: FAKE_GH_STATE is not set\n");
+  process.exit(1);
+}
+
+const { createFakeGitHub } = await loadFakeGitHub(path.dirname(statePath));
+const lockPath = `${statePath}.lock`;
+acquireLock(lockPath);
+try {
+  const state = JSON.parse(readFileSync(statePath, "utf8"));
+  const github = createFakeGitHub({
+    state,
+    resolveHeadSha: async (branch) => resolveHeadSha(process.env.FAKE_GH_REMOTE, branch),
+  });
+  try {
+    const result = await github.run(process.argv.slice(2));
+    process.stdout.write(result.stdout);
+  } catch (error) {
+    process.stderr.write(`${error.stderr ?? error.message}\n`);
+    process.exitCode = error.exitCode ?? 1;
+  }
+  const tempPath = `${statePath}.${process.pid}.tmp`;
+  writeFileSync(tempPath, `${JSON.stringify(state, null, 2)}\n`);
+  renameSync(tempPath, statePath);
+} finally {
+  rmdirSync(lockPath);
+}
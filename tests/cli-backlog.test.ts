@@ -0,0 +1,182 @@
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createProgram } from "../src/cli-program";
+
+const SAMPLE_BACKLOG = `# Backlog
+
+## Temática: Plataforma
+
+| ID | Feature/Bug | Estado | Branch | PR | Notas |
+| --- | --- | --- | --- | --- | --- |
+| PLT-001 | Auth.js | next | - | - | Implementar auth. |
+`;
+
+describe.sequential("cli backlog", () => {
+  const originalCwd = process.cwd();
+  const originalVibePath = process.env.VIBE_BACKLOG_PATH;
+  let tempDir = "";
+  let originalExitCode: typeof process.exitCode;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-cli-backlog-test-"));
+    process.chdir(tempDir);
+    delete process.env.VIBE_BACKLOG_PATH;
+    writeFileSync(path.join(tempDir, "BACKLOG.md"), SAMPLE_BACKLOG, "utf8");
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.exitCode = originalExitCode;
+    if (originalVibePath === undefined) {
+      delete process.env.VIBE_BACKLOG_PATH;
+    } else {
+      process.env.VIBE_BACKLOG_PATH = originalVibePath;
+    }
+    process.chdir(originalCwd);
+    vi.restoreAllMocks();
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function captureLogs(): string[] {
+    const logs: string[] = [];
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    return logs;
+  }
+
+  it("adds, updates status, and moves items without touching other rows", async () => {
+    captureLogs();
+    const execaMock = vi.fn();
+
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "backlog",
+      "add",
+      "--topic",
+      "Plataforma",
+      "--id",
+      "PLT-002",
+      "--feature",
+      "Billing",
+      "--branch",
+      "issue-3-billing",
+    ]);
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "backlog", "set-status", "PLT-002", "ongoing"]);
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "backlog", "move", "PLT-001", "--topic", "Later"]);
+
+    const markdown = readFileSync(path.join(tempDir, "BACKLOG.md"), "utf8");
+    expect(markdown).toContain("| PLT-002 | Billing | ongoing | `issue-3-billing` | - | - |");
+    expect(markdown).toContain("## Temática: Later\n\n| ID | Feature/Bug | Estado | Branch | PR | Notas |");
+    expect(markdown.indexOf("PLT-001")).toBeGreaterThan(markdown.indexOf("## Temática: Later"));
+    expect(readdirSync(tempDir).filter((entry) => entry.endsWith(".tmp"))).toEqual([]);
+    expect(execaMock).not.toHaveBeenCalled();
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("lists filtered items and shows one item as JSON", async () => {
+    const logs = captureLogs();
+
+    await createProgram(vi.fn() as never).parseAsync(["node", "vibe", "backlog", "list", "--status", "next"]);
+    expect(logs).toContain("PLT-001\tnext\tAuth.js\t-\t-");
+
+    await createProgram(vi.fn() as never).parseAsync(["node", "vibe", "backlog", "show", "plt-001"]);
+    const json = JSON.parse(logs[logs.length - 1] ?? "{}") as Record<string, unknown>;
+    expect(json.topic).toBe("Plataforma");
+    expect(json.feature).toBe("Auth.js");
+  });
+
+  it("prints the sync plan in dry-run without creating issues or writing", async () => {
+    const logs = captureLogs();
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "issue" && args[1] === "list") return { stdout: "[]" };
+      if (args[0] === "pr" && args[1] === "list") return { stdout: "[]" };
+      throw new Error(`unexpected command: ${args.join(" ")}`);
+    });
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "backlog", "sync", "--dry-run"]);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain('+ PLT-001 create issue "PLT-001: Auth.js"');
+    expect(logs).toContain("\nbacklog sync: dry-run complete.");
+    expect(readFileSync(path.join(tempDir, "BACKLOG.md"), "utf8")).toBe(SAMPLE_BACKLOG);
+  });
+
+  it("prints the next pick and starts a turn for its issue", async () => {
+    const logs = captureLogs();
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      if (cmd === "gh" && args[0] === "issue" && args[1] === "list") {
+        return { stdout: JSON.stringify([{ number: 12, title: "PLT-001: Auth.js", state: "OPEN", labels: [], milestone: null }]) };
+      }
+      if (cmd === "gh" && args[0] === "issue" && args[1] === "view" && args[2] === "12") {
+        return { stdout: "Auth.js\n" };
+      }
+      if (cmd === "gh" && args[0] === "pr" && args[1] === "list") return { stdout: "[]\n" };
+      if (cmd === "git" && args[0] === "rev-parse") return { stdout: "origin/main\n", exitCode: 0 };
+      if (cmd === "git" && args[0] === "rev-list") return { stdout: "0\t0\n", exitCode: 0 };
+      if (cmd === "git" && args[0] === "status") return { stdout: "## main...origin/main\n" };
+      if (cmd === "git" && args[0] === "branch") return { stdout: "* main 0f00baa [origin/main] sync\n" };
+      if (cmd === "git" && args[0] === "show-ref") return { stdout: "", exitCode: 1 };
+      if (cmd === "git" && (args[0] === "fetch" || args[0] === "checkout")) return { stdout: "" };
+      throw new Error(`unexpected command: ${cmd} ${args.join(" ")}`);
+    });
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "backlog", "next", "--start"]);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain("1. PLT-001\t-\t-\t#12\tAuth.js");
+    expect(logs).toContain("   - open issue #12 (matched by title)");
+    expect(logs).toContain("\nbacklog next: starting turn for PLT-001 (issue #12)");
+    expect(readFileSync(path.join(tempDir, ".vibe", "runtime", "turn.json"), "utf8")).toContain('"issue_id": 12');
+    expect(execaMock.mock.calls.some(([cmd, args]) => cmd === "git" && args[0] === "checkout" && args[1] === "-b")).toBe(true);
+  });
+
+  it("validates the backlog and fails on unknown statuses", async () => {
+    const logs = captureLogs();
+
+    await createProgram(vi.fn() as never).parseAsync(["node", "vibe", "backlog", "validate"]);
+    expect(logs).toContain("backlog validate: OK");
+    expect(process.exitCode).toBeUndefined();
+
+    writeFileSync(path.join(tempDir, "BACKLOG.md"), SAMPLE_BACKLOG.replace("| next |", "| someday |"), "utf8");
+    await createProgram(vi.fn() as never).parseAsync(["node", "vibe", "backlog", "validate"]);
+
+    expect(process.exitCode).toBe(1);
+    expect(logs).toContain(
+      "ERROR line 7 PLT-001 [unknown-status]: unknown status 'someday' (expected: next, ongoing, blocked, done).",
+    );
+    expect(logs).toContain("backlog validate: INVALID");
+  });
+
+  it("reports a no-op edit without the success line", async () => {
+    const logs = captureLogs();
+
+    await createProgram(vi.fn() as never).parseAsync(["node", "vibe", "backlog", "set-status", "PLT-001", "next"]);
+
+    expect(logs).toEqual(["backlog set-status: no changes."]);
+    expect(readFileSync(path.join(tempDir, "BACKLOG.md"), "utf8")).toBe(SAMPLE_BACKLOG);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("fails without writing when the item is missing", async () => {
+    const logs = captureLogs();
+
+    await createProgram(vi.fn() as never).parseAsync(["node", "vibe", "backlog", "set-status", "NOPE-1", "done"]);
+
+    expect(process.exitCode).toBe(1);
+    expect(logs).toContain("backlog set-status: ERROR");
+    expect(readFileSync(path.join(tempDir, "BACKLOG.md"), "utf8")).toBe(SAMPLE_BACKLOG);
+    expect(existsSync(path.join(tempDir, "BACKLOG.md"))).toBe(true);
+  });
+});
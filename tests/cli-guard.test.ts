@@ -99,7 +99,10 @@ describe.sequential("cli guard", () => {
 
     expect(execaMock).not.toHaveBeenCalled();
     expect(process.exitCode).toBe(3);
-    expect(errors).toContain("guard: invalid active turn (missing/invalid: branch).");
+    expect(errors).toEqual([
+      "guard: invalid active turn (missing/invalid: branch).",
+      "Run: node dist/cli.cjs turn doctor",
+    ]);
   });
 
   it("fails as invalid turn when turn.json is malformed", async () => {
@@ -122,4 +125,36 @@ describe.sequential("cli guard", () => {
     expect(errors).toContain("guard: invalid active turn (malformed turn.json).");
     expect(errors).toContain("Run: node dist/cli.cjs turn start --issue <n>");
   });
+
+  it("fails with --check-branch when the current branch is not the turn branch", async () => {
+    await writeTurnContext({
+      issue_id: 10,
+      branch: "issue-10-vibe-guard",
+      base_branch: "main",
+      started_at: "2026-02-14T00:00:00.000Z",
+      issue_title: "Add vibe guard",
+    });
+
+    let currentBranch = "main";
+    const execaMock = vi.fn(async () => ({ stdout: `${currentBranch}\n` }));
+    const logs: string[] = [];
+    const errors: string[] = [];
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "guard", "--check-branch"]);
+    expect(execaMock).toHaveBeenCalledWith("git", ["rev-parse", "--abbrev-ref", "HEAD"], { stdio: "pipe" });
+    expect(process.exitCode).toBe(4);
+    expect(errors).toContain("guard: current branch 'main' does not match turn branch 'issue-10-vibe-guard'.");
+
+    process.exitCode = undefined;
+    currentBranch = "issue-10-vibe-guard";
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "guard", "--check-branch"]);
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain("guard: OK issue=10 branch=issue-10-vibe-guard base_branch=main");
+  });
 });
@@ -0,0 +1,58 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createProgram } from "../src/cli-program";
+
+describe.sequential("cli hooks", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+  let originalExitCode: typeof process.exitCode;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-cli-hooks-test-"));
+    process.chdir(tempDir);
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.exitCode = originalExitCode;
+    process.chdir(originalCwd);
+    vi.restoreAllMocks();
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("installs hooks with a custom vibe command and uninstalls them", async () => {
+    const logs: string[] = [];
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      if (cmd === "git" && args.join(" ") === "rev-parse --git-path hooks") return { stdout: ".git/hooks\n" };
+      throw new Error(`unexpected command: ${cmd} ${args.join(" ")}`);
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    const hookPath = path.join(tempDir, ".git", "hooks", "pre-commit");
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "hooks",
+      "install",
+      "--vibe-cmd",
+      "node dist/cli.cjs",
+    ]);
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain(`hooks install: pre-commit created ${hookPath}`);
+    expect(readFileSync(hookPath, "utf8")).toContain("node dist/cli.cjs guard --check-branch || exit $?");
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "hooks", "uninstall"]);
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain(`hooks uninstall: pre-commit removed ${hookPath}`);
+  });
+});
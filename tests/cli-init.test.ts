@@ -57,16 +57,33 @@ describe.sequential("cli init", () => {
     expect(process.exitCode).toBeUndefined();
   });
 
+  it("scaffolds a postflight artifact that passes its own contract", async () => {
+    const execaMock = vi.fn(async () => ({ stdout: "" }));
+    const logs: string[] = [];
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "init", "--skip-tracker"]);
+    logs.length = 0;
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "postflight"]);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain("postflight: OK");
+    expect(logs.filter((line) => line.includes("WARN"))).toEqual([]);
+    const contract = readFileSync(path.join(tempDir, ".vibe", "contract.yml"), "utf8");
+    expect(contract).toContain("      - id: record_tests_result\n        severity: error\n");
+  });
+
   it("runs tracker bootstrap when init receives --bootstrap-tracker", async () => {
     const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
       if (args[0] === "repo" && args[1] === "view") {
         return { stdout: "acme/demo\n" };
       }
-      if (args[0] === "api" && args[1] === "repos/acme/demo/milestones?state=all&per_page=100&page=1") {
-        return { stdout: "[]" };
-      }
-      if (args[0] === "api" && args[1] === "repos/acme/demo/labels?per_page=100&page=1") {
-        return { stdout: "[]" };
+      if (args[0] === "api" && args[1] === "graphql") {
+        const empty = { nodes: [], pageInfo: { hasNextPage: false, endCursor: null } };
+        return { stdout: JSON.stringify({ data: { repository: { labels: empty, milestones: empty } } }) };
       }
       return { stdout: "" };
     });
@@ -1,4 +1,4 @@
-import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import os from "node:os";
 import path from "node:path";
 
@@ -7,16 +7,19 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import { createProgram } from "../src/cli-program";
 
 describe.sequential("cli postflight --apply", () => {
+  const originalCwd = process.cwd();
   let tempDir = "";
   let originalExitCode: number | undefined;
 
   beforeEach(() => {
     tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-cli-test-"));
+    process.chdir(tempDir);
     originalExitCode = process.exitCode;
     process.exitCode = undefined;
   });
 
   afterEach(() => {
+    process.chdir(originalCwd);
     process.exitCode = originalExitCode;
     vi.restoreAllMocks();
     if (tempDir) {
@@ -75,7 +78,7 @@ describe.sequential("cli postflight --apply", () => {
     const program = createProgram(execaMock as never);
     await program.parseAsync(["node", "vibe", "postflight", "--file", postflightPath, "--apply", "--skip-branch-cleanup"]);
 
-    expect(execaMock).toHaveBeenCalledTimes(3);
+    expect(execaMock).toHaveBeenCalledTimes(4);
     expect(execaMock).toHaveBeenNthCalledWith(
       1,
       "gh",
@@ -88,9 +91,16 @@ describe.sequential("cli postflight --apply", () => {
       ["issue", "comment", "2", "--body", "Done."],
       { stdio: "inherit" },
     );
+    // The issue is read before the close so rollback knows whether it was open.
     expect(execaMock).toHaveBeenNthCalledWith(
       3,
       "gh",
+      ["issue", "view", "2", "--json", "number,title,state,labels,milestone,updatedAt,url,assignees"],
+      { stdio: "pipe" },
+    );
+    expect(execaMock).toHaveBeenNthCalledWith(
+      4,
+      "gh",
       ["issue", "close", "2", "--comment", "Closed by postflight."],
       { stdio: "inherit" },
     );
@@ -833,4 +843,614 @@ describe.sequential("cli postflight --apply", () => {
     `);
     expect(process.exitCode).toBeUndefined();
   });
+
+  it("applies assignee, milestone, reopen and project field updates", async () => {
+    const postflightPath = path.join(tempDir, "postflight.json");
+    writeFileSync(
+      postflightPath,
+      JSON.stringify({
+        version: 1,
+        meta: { timestamp: "2026-02-13T00:00:00.000Z", actor: "agent", mode: "cli" },
+        work: { issue_id: 2, branch: "issue-2-example", base_branch: "main" },
+        checks: { tests: { ran: true, result: "pass" } },
+        tracker_updates: [
+          { type: "issue_reopen" },
+          { type: "assignee_add", assignee: "octocat" },
+          { type: "milestone_set", milestone: "v1.2" },
+          { type: "project_field_set", project_number: 3, project_owner: "acme", field: "Status", value: "Done" },
+        ],
+        next_actions: ["Merge branch."],
+        risks: { summary: "Low risk.", rollback_plan: "Revert commit." },
+      }),
+      "utf8",
+    );
+
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "pr" && args[1] === "list") return { stdout: "[]" };
+      if (args[0] === "project" && args[1] === "view") return { stdout: JSON.stringify({ id: "PVT_1" }) };
+      if (args[0] === "project" && args[1] === "field-list") {
+        return {
+          stdout: JSON.stringify({
+            fields: [{ id: "PVTSSF_status", name: "Status", options: [{ id: "opt-done", name: "Done" }] }],
+          }),
+        };
+      }
+      if (args[0] === "issue" && args[1] === "view" && args[4] === "url") {
+        return { stdout: "https://github.com/acme/demo/issues/2" };
+      }
+      if (args[0] === "project" && args[1] === "item-list") return { stdout: JSON.stringify({ items: [] }) };
+      if (args[0] === "project" && args[1] === "item-add") return { stdout: JSON.stringify({ id: "PVTI_new" }) };
+      return { stdout: "" };
+    });
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "postflight",
+      "--file",
+      postflightPath,
+      "--apply",
+      "--skip-branch-cleanup",
+    ]);
+
+    expect(process.exitCode).toBeUndefined();
+    const ghCalls = execaMock.mock.calls.map(([, args]) => args.join(" "));
+    expect(ghCalls).toEqual([
+      "pr list --head issue-2-example --state open --json number",
+      "issue view 2 --json number,title,state,labels,milestone,updatedAt,url,assignees",
+      "issue reopen 2",
+      "issue view 2 --json number,title,state,labels,milestone,updatedAt,url,assignees",
+      "issue edit 2 --add-assignee octocat",
+      "issue view 2 --json number,title,state,labels,milestone,updatedAt,url,assignees",
+      "issue edit 2 --milestone v1.2",
+      "project view 3 --owner acme --format json",
+      "project field-list 3 --owner acme --format json",
+      "issue view 2 --json url -q .url",
+      "project item-list 3 --owner acme --format json --limit 1000",
+      "project item-add 3 --owner acme --url https://github.com/acme/demo/issues/2 --format json",
+      "project item-edit --id PVTI_new --project-id PVT_1 --field-id PVTSSF_status --single-select-option-id opt-done",
+    ]);
+  });
+
+  it("prints project field updates without gh lookups under --dry-run", async () => {
+    const postflightPath = path.join(tempDir, "postflight.json");
+    writeFileSync(
+      postflightPath,
+      JSON.stringify({
+        version: 1,
+        meta: { timestamp: "2026-02-13T00:00:00.000Z", actor: "agent", mode: "cli" },
+        work: { issue_id: 2, branch: "issue-2-example", base_branch: "main" },
+        checks: { tests: { ran: true, result: "pass" } },
+        tracker_updates: [
+          { type: "assignee_remove", assignee: "hubot" },
+          { type: "project_field_set", project_number: 3, field: "Status", value: "In review" },
+        ],
+        next_actions: ["Merge branch."],
+        risks: { summary: "Low risk.", rollback_plan: "Revert commit." },
+      }),
+      "utf8",
+    );
+    const execaMock = vi.fn(async () => ({ stdout: "" }));
+    const logs: string[] = [];
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "postflight",
+      "--file",
+      postflightPath,
+      "--apply",
+      "--dry-run",
+      "--skip-branch-cleanup",
+    ]);
+
+    expect(execaMock).not.toHaveBeenCalled();
+    expect(logs).toContain("$ gh issue edit 2 --remove-assignee hubot");
+    expect(logs).toContain([
+        "$ gh project item-edit --id <item-id> --project-id <project-id:@me/3>",
+        "--field-id <field-id:Status> --value <In review>",
+      ].join(" "));
+  });
+
+  it("resumes a partially applied artifact and rolls back reversible updates", async () => {
+    const postflightPath = path.join(tempDir, "postflight.json");
+    writeFileSync(
+      postflightPath,
+      JSON.stringify({
+        version: 1,
+        meta: { timestamp: "2026-02-13T00:00:00.000Z", actor: "agent", mode: "cli" },
+        work: { issue_id: 2, branch: "issue-2-example", base_branch: "main" },
+        checks: { tests: { ran: true, result: "pass" } },
+        tracker_updates: [
+          { type: "comment_append", body: "Done." },
+          { type: "label_add", label: "status:in-review" },
+        ],
+        next_actions: ["Merge branch."],
+        risks: { summary: "Low risk.", rollback_plan: "Revert commit." },
+      }),
+      "utf8",
+    );
+    let failLabel = true;
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "pr" && args[1] === "list") return { stdout: "[]" };
+      if (args[3] === "--add-label" && failLabel) throw new Error("HTTP 502");
+      return { stdout: "" };
+    });
+    const logs: string[] = [];
+    const errors: string[] = [];
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+    const argv = ["node", "vibe", "postflight", "--file", postflightPath, "--apply", "--skip-branch-cleanup"];
+
+    await createProgram(execaMock as never).parseAsync(argv);
+    expect(process.exitCode).toBe(1);
+    expect(errors).toContain(`Re-run to resume: node dist/cli.cjs postflight --file ${postflightPath} --apply`);
+
+    process.exitCode = undefined;
+    failLabel = false;
+    execaMock.mockClear();
+    logs.length = 0;
+    await createProgram(execaMock as never).parseAsync(argv);
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain("$ gh issue comment 2 --body Done.  # already applied, skipped");
+    expect(execaMock.mock.calls.map(([, args]) => args.join(" "))).toEqual([
+      "pr list --head issue-2-example --state open --json number",
+      "issue view 2 --json number,title,state,labels,milestone,updatedAt,url,assignees",
+      "issue edit 2 --add-label status:in-review",
+    ]);
+
+    execaMock.mockClear();
+    logs.length = 0;
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "postflight", "--file", postflightPath, "--rollback"]);
+    expect(process.exitCode).toBeUndefined();
+    expect(execaMock.mock.calls.map(([, args]) => args.join(" "))).toEqual(["issue edit 2 --remove-label status:in-review"]);
+    expect(logs).toContain("- not reversible: gh issue comment 2 --body Done.");
+    expect(logs).toContain("\npostflight --rollback: reverted=1 unchanged=0 irreversible=1");
+  });
+
+  it("rejects --apply with --rollback before reading or validating the artifact", async () => {
+    const logs: string[] = [];
+    const errors: string[] = [];
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+    const execaMock = vi.fn(async () => ({ stdout: "" }));
+
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "postflight",
+      "--file",
+      path.join(tempDir, "missing.json"),
+      "--apply",
+      "--rollback",
+    ]);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors).toEqual(["postflight: --apply and --rollback cannot be combined."]);
+    expect(logs).toEqual([]);
+    expect(execaMock).not.toHaveBeenCalled();
+  });
+
+  it("archives applied artifacts and renders them with postflight log", async () => {
+    const postflightPath = path.join(tempDir, "artifacts", "postflight.json");
+    mkdirSync(path.dirname(postflightPath), { recursive: true });
+    const writeArtifact = (timestamp: string, nextAction: string, result: "pass" | "fail"): void => {
+      writeFileSync(
+        postflightPath,
+        JSON.stringify({
+          version: 1,
+          meta: { timestamp, actor: "agent", mode: "cli" },
+          work: { issue_id: 2, branch: "issue-2-example", base_branch: "main" },
+          checks: { tests: { ran: true, command: "pnpm test", result } },
+          tracker_updates: [{ type: "comment_append", body: `Turn ${timestamp}` }],
+          next_actions: [nextAction],
+          risks: { summary: "Low risk.", rollback_plan: "Revert commit." },
+        }),
+        "utf8",
+      );
+    };
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "pr" && args[1] === "list") return { stdout: "[]" };
+      return { stdout: "" };
+    });
+    const logs: string[] = [];
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const applyArgv = ["node", "vibe", "postflight", "--file", postflightPath, "--apply", "--skip-branch-cleanup"];
+
+    writeArtifact("2026-02-13T00:00:00.000Z", "Fix the flaky test.", "fail");
+    await createProgram(execaMock as never).parseAsync(applyArgv);
+    writeArtifact("2026-02-14T00:00:00.000Z", "Ship it.", "pass");
+    await createProgram(execaMock as never).parseAsync(applyArgv);
+
+    const historyDir = path.join(tempDir, "artifacts", "history", "2");
+    expect(logs).toContain(`postflight --apply: archived ${path.join(historyDir, "2026-02-14T00-00-00-000Z.json")}`);
+    expect(process.exitCode).toBeUndefined();
+
+    logs.length = 0;
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "postflight",
+      "log",
+      "--issue",
+      "2",
+      "--file",
+      postflightPath,
+    ]);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toEqual([
+      "\n2026-02-13T00:00:00.000Z branch=issue-2-example (schema v1)",
+      "checks: tests=fail (pnpm test)",
+      "next_actions:",
+      "- Fix the flaky test.",
+      "risks: Low risk.",
+      "rollback: Revert commit.",
+      "\n2026-02-14T00:00:00.000Z branch=issue-2-example (schema v1)",
+      "checks: tests=pass (pnpm test)",
+      "next_actions:",
+      "- Ship it.",
+      "risks: Low risk.",
+      "rollback: Revert commit.",
+      "\npostflight log: issue=#2 artifacts=2/2",
+    ]);
+
+    logs.length = 0;
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "postflight", "log", "--issue", "9", "--file", postflightPath]);
+    expect(logs).toEqual(["postflight log: no archived postflight artifacts for #9"]);
+  });
+
+  it("fails validation on contract errors and reports contract warnings", async () => {
+    mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
+    writeFileSync(
+      path.join(tempDir, ".vibe", "contract.yml"),
+      [
+        "interaction_contract:",
+        "  postflight:",
+        "    required:",
+        "      - id: tracker_update_status",
+        "        severity: error",
+        "      - id: record_tests_result",
+        "        severity: error",
+        "      - next_actions",
+        "      - id: lint",
+        "        check: lint",
+        "        severity: warn",
+        "",
+      ].join("\n"),
+      "utf8",
+    );
+    const postflightPath = path.join(tempDir, "postflight.json");
+    const artifact = {
+      version: 1,
+      meta: { timestamp: "2026-02-13T00:00:00.000Z", actor: "agent", mode: "cli" },
+      work: { issue_id: 2, branch: "issue-2-example", base_branch: "main" },
+      checks: { tests: { ran: false, result: "skipped" } },
+      tracker_updates: [{ type: "comment_append", body: "Done." }],
+      next_actions: ["Merge branch."],
+      risks: { summary: "Low risk.", rollback_plan: "Revert commit." },
+    };
+    writeFileSync(postflightPath, JSON.stringify(artifact), "utf8");
+    const logs: string[] = [];
+    const errors: string[] = [];
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+    const execaMock = vi.fn(async () => ({ stdout: "" }));
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "postflight", "--file", postflightPath, "--apply"]);
+
+    expect(process.exitCode).toBe(1);
+    expect(execaMock).not.toHaveBeenCalled();
+    expect(errors).toEqual([
+      "postflight: INVALID",
+      "- tracker_update_status: tracker_updates has no status change (status, project_field_set, issue_close or issue_reopen)",
+      "- record_tests_result: checks.tests did not run",
+      `Required by interaction_contract.postflight.required in ${path.join(tempDir, ".vibe", "contract.yml")}`,
+    ]);
+
+    process.exitCode = undefined;
+    logs.length = 0;
+    writeFileSync(
+      postflightPath,
+      JSON.stringify({
+        ...artifact,
+        checks: { tests: { ran: true, result: "pass" } },
+        tracker_updates: [{ type: "status", to: "status:done" }],
+      }),
+      "utf8",
+    );
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "postflight", "--file", postflightPath]);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toEqual([
+      "postflight: WARN lint: checks.lint is missing",
+      "postflight: OK",
+      "issue: 2 | branch: issue-2-example",
+      "postflight: schema v1 (upgrade with: node dist/cli.cjs postflight migrate --file " + postflightPath + ")",
+    ]);
+  });
+
+  it("applies and rolls back tracker updates on the local backend without gh or the review gate", async () => {
+    mkdirSync(path.join(tempDir, ".vibe", "tracker", "issues"), { recursive: true });
+    writeFileSync(path.join(tempDir, ".vibe", "contract.yml"), "project:\n  source_of_truth: local\n");
+    const issuePath = path.join(tempDir, ".vibe", "tracker", "issues", "2.json");
+    writeFileSync(
+      issuePath,
+      JSON.stringify({
+        number: 2,
+        title: "feat: example",
+        state: "OPEN",
+        labels: ["status:in-progress"],
+        created_at: "2026-02-13T00:00:00.000Z",
+        updated_at: "2026-02-13T00:00:00.000Z",
+      }),
+    );
+    const postflightPath = path.join(tempDir, "postflight.json");
+    writeFileSync(
+      postflightPath,
+      JSON.stringify({
+        version: 1,
+        meta: { timestamp: "2026-02-13T00:00:00.000Z", actor: "agent", mode: "cli" },
+        work: { issue_id: 2, branch: "issue-2-example", base_branch: "main" },
+        checks: { tests: { ran: true, result: "pass" } },
+        tracker_updates: [
+          { type: "label_remove", label: "status:in-progress" },
+          { type: "status", to: "status:done" },
+          { type: "link_pr", pr_number: 7 },
+          { type: "issue_close", body: "Closed by postflight." },
+        ],
+        next_actions: ["Merge branch."],
+        risks: { summary: "Low risk.", rollback_plan: "Revert commit." },
+      }),
+      "utf8",
+    );
+    const logs: string[] = [];
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    const execaMock = vi.fn(async () => ({ stdout: "" }));
+
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "postflight",
+      "--file",
+      postflightPath,
+      "--apply",
+      "--skip-branch-cleanup",
+    ]);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(execaMock).not.toHaveBeenCalled();
+    expect(logs).toContain("\nApplying updates (local tracker):");
+    expect(logs).toContain("$ local issue comment 2 --body Linked PR: #7");
+    const issue = JSON.parse(readFileSync(issuePath, "utf8"));
+    expect(issue).toMatchObject({ state: "CLOSED", labels: ["status:done"], linked_prs: [7] });
+    expect(issue.comments.map((comment: { body: string }) => comment.body)).toEqual(["Closed by postflight."]);
+
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "postflight",
+      "--file",
+      postflightPath,
+      "--rollback",
+    ]);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(execaMock).not.toHaveBeenCalled();
+    expect(logs).toContain("$ local issue reopen 2");
+    expect(logs).toContain("\npostflight --rollback: reverted=3 unchanged=0 irreversible=1");
+    const reverted = JSON.parse(readFileSync(issuePath, "utf8"));
+    expect(reverted).toMatchObject({ state: "OPEN", labels: ["status:in-progress"] });
+  });
+});
+
+describe.sequential("cli postflight migrate", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+  let originalExitCode: typeof process.exitCode;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-cli-postflight-migrate-test-"));
+    process.chdir(tempDir);
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    process.exitCode = originalExitCode;
+    vi.restoreAllMocks();
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("upgrades a v1 artifact that postflight then validates as v2", async () => {
+    const postflightPath = path.join(tempDir, "postflight.json");
+    writeFileSync(
+      postflightPath,
+      `${JSON.stringify(
+        {
+          version: 1,
+          meta: { timestamp: "2026-02-13T00:00:00.000Z", actor: "agent", mode: "cli" },
+          work: { issue_id: 2, branch: "issue-2-example", base_branch: "main" },
+          checks: { tests: { ran: true, command: "pnpm test", result: "pass" } },
+          tracker_updates: [{ type: "comment_append", body: "Done." }],
+          next_actions: ["Merge when CI is green."],
+          risks: { summary: "Low risk.", rollback_plan: "Revert commit if needed." },
+        },
+        null,
+        2,
+      )}\n`,
+      "utf8",
+    );
+    const logs: string[] = [];
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    const execaMock = vi.fn(async () => ({ stdout: "" }));
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "postflight", "--file", postflightPath]);
+    expect(logs).toContain(`postflight: schema v1 (upgrade with: node dist/cli.cjs postflight migrate --file ${postflightPath})`);
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "postflight", "migrate", "--file", postflightPath]);
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain(`postflight migrate: upgraded ${postflightPath} from v1 to v2.`);
+    expect(JSON.parse(readFileSync(postflightPath, "utf8"))).toMatchObject({
+      version: 2,
+      checks: { tests: { command: "pnpm test", result: "pass", duration_ms: null, log_excerpt: null } },
+    });
+
+    logs.length = 0;
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "postflight", "--file", postflightPath]);
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toEqual(["postflight: OK", "issue: 2 | branch: issue-2-example", "checks: tests=pass"]);
+    expect(execaMock).not.toHaveBeenCalled();
+  });
+});
+
+describe.sequential("cli postflight draft", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+  let originalExitCode: typeof process.exitCode;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-cli-postflight-draft-test-"));
+    process.chdir(tempDir);
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    process.exitCode = originalExitCode;
+    vi.restoreAllMocks();
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeTurn(): void {
+    mkdirSync(path.join(tempDir, ".vibe", "runtime"), { recursive: true });
+    writeFileSync(
+      path.join(tempDir, ".vibe", "runtime", "turn.json"),
+      `${JSON.stringify({
+        version: 2,
+        issue_id: 7,
+        branch: "issue-7-draft",
+        base_branch: "main",
+        started_at: "2026-10-01T10:00:00.000Z",
+        issue_title: "Draft",
+      })}\n`,
+      "utf8",
+    );
+  }
+
+  it("writes a draft that postflight validates, and refuses to overwrite without --force", async () => {
+    writeTurn();
+    const postflightPath = path.join(tempDir, ".vibe", "artifacts", "postflight.json");
+    const logs: string[] = [];
+    const errors: string[] = [];
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      if (cmd === "git" && args[0] === "diff") return { stdout: "src/a.ts\nsrc/b.ts" };
+      if (cmd === "sh") return { stdout: "ok", stderr: "", exitCode: 0 };
+      return { stdout: "abc123" };
+    });
+
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "postflight",
+      "draft",
+      "--file",
+      postflightPath,
+      "--test-cmd",
+      "pnpm test",
+    ]);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain(`postflight draft: wrote ${postflightPath} (issue=#7 changed_files=2 review_runs=0)`);
+    expect(logs).toContain("checks: tests=pass security_scan=skipped");
+    expect(JSON.parse(readFileSync(postflightPath, "utf8"))).toMatchObject({
+      version: 2,
+      work: { issue_id: 7, branch: "issue-7-draft", changed_files: ["src/a.ts", "src/b.ts"], review_run_ids: [] },
+      checks: { tests: { command: "pnpm test", result: "pass", log_excerpt: "ok" } },
+    });
+
+    logs.length = 0;
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "postflight", "--file", postflightPath]);
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain("checks: tests=pass security_scan=skipped");
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "postflight", "draft", "--file", postflightPath]);
+    expect(process.exitCode).toBe(1);
+    expect(errors).toContain(`postflight draft: ${postflightPath} already exists. Re-run with --force to overwrite it.`);
+  });
+
+  it("prints the draft without writing it under --dry-run", async () => {
+    writeTurn();
+    const postflightPath = path.join(tempDir, "postflight.json");
+    const logs: string[] = [];
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    const execaMock = vi.fn(async (_cmd: string) => ({ stdout: "" }));
+
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "postflight",
+      "draft",
+      "--file",
+      postflightPath,
+      "--dry-run",
+    ]);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain("postflight draft: dry-run (file not written).");
+    expect(existsSync(postflightPath)).toBe(false);
+    expect(execaMock.mock.calls.some(([cmd]) => cmd === "sh")).toBe(false);
+  });
+
+  it("fails without an active turn", async () => {
+    const errors: string[] = [];
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    await createProgram(vi.fn() as never).parseAsync(["node", "vibe", "postflight", "draft"]);
+
+    expect(process.exitCode).toBe(1);
+    expect(errors).toEqual(["postflight draft: no active turn.", "Run: node dist/cli.cjs turn start --issue <n>"]);
+  });
 });
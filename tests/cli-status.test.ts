@@ -1,4 +1,4 @@
-import { mkdtempSync, rmSync } from "node:fs";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import os from "node:os";
 import path from "node:path";
 
@@ -275,6 +275,252 @@ describe.sequential("cli status and preflight snapshots", () => {
     expect(logs.some((line) => line.includes("gitleaks: missing"))).toBe(true);
   });
 
+  it("prints status as a versioned JSON snapshot with --json", async () => {
+    await writeTurnContext({
+      issue_id: 13,
+      branch: "codex/issue-13-vibe-status",
+      base_branch: "main",
+      started_at: "2026-02-16T00:00:00.000Z",
+      issue_title: "vibe status",
+    });
+
+    const logs: string[] = [];
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "status" && args[1] === "-sb") {
+        return { stdout: "## codex/issue-13-vibe-status" };
+      }
+      if (args[0] === "issue" && args[1] === "list") {
+        return {
+          stdout: JSON.stringify([
+            {
+              number: 13,
+              title: "feat: status snapshot",
+              state: "OPEN",
+              labels: [{ name: "status:in-progress" }],
+              milestone: null,
+              updatedAt: "2026-02-16T16:00:00Z",
+              url: "https://example.test/issues/13",
+            },
+          ]),
+        };
+      }
+      if (args[0] === "issue" && args[1] === "view") {
+        throw new Error("gh issue view failed");
+      }
+      if (args[0] === "pr" && args[1] === "list") {
+        return { stdout: "[]" };
+      }
+      return { stdout: "" };
+    });
+
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    const program = createProgram(execaMock as never);
+    await program.parseAsync(["node", "vibe", "status", "--json"]);
+
+    expect(logs).toHaveLength(1);
+    const snapshot = JSON.parse(logs[0]);
+    expect(snapshot).toMatchObject({
+      schema_version: 2,
+      kind: "status",
+      git: { available: true, branch: "codex/issue-13-vibe-status" },
+      active_turn: {
+        state: "active",
+        issue_id: 13,
+        branch: "codex/issue-13-vibe-status",
+        started_at: "2026-02-16T00:00:00.000Z",
+      },
+      tracker: {
+        available: true,
+        hygiene: {
+          findings: [
+            { rule: "missing_milestone", severity: "warn", issues: [13], detail: null },
+            { rule: "missing_module_label", severity: "warn", issues: [13], detail: null },
+          ],
+          warnings: [],
+        },
+      },
+      active_issue: { available: false, issue: null },
+      branch_prs: { available: true, pull_requests: [] },
+    });
+    expect(snapshot.tracker.in_progress.map((issue: { number: number }) => issue.number)).toEqual([13]);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("prints preflight as a versioned JSON snapshot with --json", async () => {
+    const logs: string[] = [];
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      if (args[0] === "status" && args[1] === "-sb") {
+        return { stdout: "## main" };
+      }
+      if (args[0] === "issue" && args[1] === "list") {
+        throw new Error("error connecting to api.github.com");
+      }
+      if (cmd === "gitleaks" && args[0] === "version") {
+        return { stdout: "8.24.2\n", stderr: "", exitCode: 0 };
+      }
+      if (cmd === "npm" && args[0] === "view") {
+        return { stdout: JSON.stringify("0.2.0") };
+      }
+      return { stdout: "" };
+    });
+
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    const program = createProgram(execaMock as never);
+    await program.parseAsync(["node", "vibe", "preflight", "--json"]);
+
+    expect(logs).toHaveLength(1);
+    expect(JSON.parse(logs[0])).toMatchObject({
+      schema_version: 2,
+      kind: "preflight",
+      git: { available: true, output: "## main", branch: "main" },
+      tracker: { available: false, error: "error connecting to api.github.com", hygiene: null },
+      milestone_suggestions: null,
+      security: { available: true, gitleaks_available: true, last_scan: null },
+      tracker_bootstrap_suggested: false,
+      update_notice: { package_name: "vibe-backlog", current_version: "0.1.0", latest_version: "0.2.0" },
+    });
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("reads issues and branch PRs from the local tracker backend without calling gh", async () => {
+    mkdirSync(path.join(tempDir, ".vibe", "tracker", "issues"), { recursive: true });
+    writeFileSync(path.join(tempDir, ".vibe", "contract.yml"), "project:\n  source_of_truth: local\n");
+    writeFileSync(
+      path.join(tempDir, ".vibe", "tracker", "issues", "4.json"),
+      JSON.stringify({
+        number: 4,
+        title: "feat: offline loop",
+        state: "OPEN",
+        labels: ["status:in-progress", "module:cli"],
+        milestone: "CLI usable",
+        created_at: "2026-02-16T00:00:00.000Z",
+        updated_at: "2026-02-16T00:00:00.000Z",
+      }),
+    );
+    writeFileSync(
+      path.join(tempDir, ".vibe", "tracker", "pull-requests.json"),
+      JSON.stringify([{ number: 9, title: "feat: offline loop", state: "OPEN", head: "issue-4-offline-loop" }]),
+    );
+
+    const logs: string[] = [];
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      if (cmd === "git" && args[0] === "status" && args[1] === "-sb") {
+        return { stdout: "## issue-4-offline-loop" };
+      }
+      if (cmd === "gh") throw new Error(`unexpected gh call: ${args.join(" ")}`);
+      return { stdout: "" };
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    const program = createProgram(execaMock as never);
+    await program.parseAsync(["node", "vibe", "status", "--json"]);
+
+    const snapshot = JSON.parse(logs[0]);
+    expect(snapshot.tracker).toMatchObject({ available: true, source: "local", error: null });
+    expect(snapshot.tracker.in_progress.map((issue: { number: number }) => issue.number)).toEqual([4]);
+    expect(snapshot.branch_prs).toEqual({
+      available: true,
+      pull_requests: [{ number: 9, title: "feat: offline loop", state: "OPEN", url: null }],
+    });
+    expect(execaMock.mock.calls.some(([cmd]) => cmd === "gh")).toBe(false);
+    expect(existsSync(path.join(tempDir, ".vibe", "runtime", "tracker-cache.json"))).toBe(false);
+  });
+
+  it("applies hygiene rules from contract.yml and fails status at the --fail-on threshold", async () => {
+    mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
+    writeFileSync(
+      path.join(tempDir, ".vibe", "contract.yml"),
+      [
+        "hygiene:",
+        "  rules:",
+        "    missing_milestone: off",
+        "    in_progress_without_branch: error",
+        "    in_progress_per_assignee:",
+        "      severity: info",
+        "      max_in_progress: 1",
+        "",
+      ].join("\n"),
+      "utf8",
+    );
+
+    const logs: string[] = [];
+    const errors: string[] = [];
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "status" && args[1] === "-sb") {
+        return { stdout: "## main" };
+      }
+      if (args[0] === "branch" && args[1] === "-a") {
+        return { stdout: "main\norigin/issue-5-linked-work" };
+      }
+      if (args[0] === "issue" && args[1] === "list") {
+        return {
+          stdout: JSON.stringify(
+            [5, 6].map((number) => ({
+              number,
+              title: `feat: work ${number}`,
+              state: "OPEN",
+              labels: [{ name: "status:in-progress" }, { name: "module:cli" }],
+              milestone: null,
+              updatedAt: "2026-02-16T16:00:00Z",
+              url: `https://example.test/issues/${number}`,
+              assignees: [{ login: "alice" }],
+            })),
+          ),
+        };
+      }
+      if (args[0] === "pr" && args[1] === "list") {
+        return { stdout: "[]" };
+      }
+      return { stdout: "" };
+    });
+
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    const program = createProgram(execaMock as never);
+    await program.parseAsync(["node", "vibe", "status", "--fail-on", "error"]);
+
+    expect(logs).toContain("in-progress without branch [error]: #6");
+    expect(logs).toContain("too many in-progress (@alice 2/1) [info]: #5, #6");
+    expect(logs.some((line) => line.startsWith("missing milestone"))).toBe(false);
+    expect(errors).toEqual([
+      "status: hygiene findings at or above --fail-on=error:",
+      "- in-progress without branch [error]: #6",
+    ]);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("rejects an unknown --fail-on severity", async () => {
+    const errors: string[] = [];
+    const execaMock = vi.fn(async (_cmd: string) => ({ stdout: "" }));
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    const program = createProgram(execaMock as never);
+    await program.parseAsync(["node", "vibe", "preflight", "--fail-on", "fatal"]);
+
+    expect(errors).toEqual(["preflight: --fail-on must be one of info|warn|error."]);
+    expect(execaMock).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+  });
+
   it("keeps status non-blocking when gh is unavailable", async () => {
     const logs: string[] = [];
     const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
@@ -299,6 +545,118 @@ describe.sequential("cli status and preflight snapshots", () => {
     expect(process.exitCode).toBeUndefined();
   });
 
+  it("reports the tracker as unavailable when .vibe/contract.yml cannot be read", async () => {
+    const logs: string[] = [];
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "status" && args[1] === "-sb") {
+        return { stdout: "## main" };
+      }
+      return { stdout: "" };
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    mkdirSync(path.join(tempDir, ".vibe", "contract.yml"), { recursive: true });
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "status", "--json"]);
+
+    const snapshot = JSON.parse(logs.join("\n")) as { tracker: { available: boolean; error: string | null } };
+    expect(snapshot.tracker.available).toBe(false);
+    expect(snapshot.tracker.error).toContain("EISDIR");
+    expect(execaMock.mock.calls.some(([cmd]) => cmd === "gh")).toBe(false);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("fails the --fail-on gate when tracker hygiene cannot be evaluated", async () => {
+    const errors: string[] = [];
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "status" && args[1] === "-sb") {
+        return { stdout: "## main" };
+      }
+      if (args[0] === "issue" && args[1] === "list") {
+        throw new Error("gh: To get started with GitHub CLI, please run:  gh auth login");
+      }
+      return { stdout: "" };
+    });
+
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    const program = createProgram(execaMock as never);
+    await program.parseAsync(["node", "vibe", "preflight", "--fail-on", "error"]);
+
+    expect(errors).toEqual([
+      "preflight: --fail-on=error: tracker hygiene could not be evaluated " +
+        "(gh: To get started with GitHub CLI, please run:  gh auth login).",
+    ]);
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("falls back to the issue cache from the last successful query when gh is down", async () => {
+    mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
+    await writeTurnContext({
+      issue_id: 21,
+      branch: "issue-21-offline",
+      base_branch: "main",
+      started_at: "2026-02-16T00:00:00.000Z",
+      issue_title: "offline",
+    });
+
+    let ghDown = false;
+    const logs: string[] = [];
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "status" && args[1] === "-sb") {
+        return { stdout: "## issue-21-offline" };
+      }
+      if (ghDown && (args[0] === "issue" || args[0] === "pr")) {
+        throw new Error("error connecting to api.github.com");
+      }
+      if (args[0] === "issue" && args[1] === "list") {
+        return {
+          stdout: JSON.stringify([
+            {
+              number: 21,
+              title: "feat: offline status",
+              state: "OPEN",
+              labels: [{ name: "status:in-progress" }, { name: "module:cli" }],
+              milestone: { title: "CLI usable" },
+              updatedAt: "2026-02-16T16:00:00Z",
+              url: "https://example.test/issues/21",
+            },
+          ]),
+        };
+      }
+      if (args[0] === "pr" && args[1] === "list") {
+        return { stdout: "[]" };
+      }
+      return { stdout: "" };
+    });
+
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "status"]);
+    const cache = JSON.parse(readFileSync(path.join(tempDir, ".vibe", "runtime", "tracker-cache.json"), "utf8"));
+    expect(cache.issues.map((issue: { number: number }) => issue.number)).toEqual([21]);
+
+    ghDown = true;
+    logs.length = 0;
+    execaMock.mockClear();
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "status"]);
+
+    expect(logs).toContain("\nTracker snapshot: unavailable (gh issue list failed)");
+    expect(logs).toContain(`Using tracker cache (stale since ${cache.refreshed_at})`);
+    expect(logs).toContain("21\tOPEN\tfeat: offline status\tstatus:in-progress, module:cli\t2026-02-16T16:00:00Z");
+    expect(logs.some((line) => line.includes("Branch PRs"))).toBe(false);
+    expect(execaMock.mock.calls.some(([, args]) => args[1] === "view" || args[0] === "pr")).toBe(false);
+    expect(process.exitCode).toBeUndefined();
+  });
+
   it("uses dotted branch names when querying branch PR snapshots", async () => {
     const logs: string[] = [];
     const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
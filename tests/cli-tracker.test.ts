@@ -1,10 +1,11 @@
-import { existsSync, mkdirSync, mkdtempSync, rmSync } from "node:fs";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import os from "node:os";
 import path from "node:path";
 
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { createProgram } from "../src/cli-program";
+import { getGhLimiter } from "../src/core/gh-retry";
 import { getTrackerBootstrapMarkerPath } from "../src/core/tracker";
 
 type ApiIssueInput = {
@@ -18,70 +19,79 @@ type ApiIssueInput = {
 
 function apiIssue(input: ApiIssueInput): Record<string, unknown> {
   return {
+    id: `I_${input.number}`,
     number: input.number,
     title: input.title,
-    state: input.state,
-    labels: input.labels.map((name) => ({ name })),
+    state: input.state.toUpperCase(),
+    labels: { nodes: input.labels.map((name) => ({ name })) },
     milestone: input.milestone ? { title: input.milestone } : null,
     body: input.body ?? "",
   };
 }
 
+function ghFields(args: string[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  args.forEach((arg, index) => {
+    if (args[index - 1] !== "-f" && args[index - 1] !== "-F") return;
+    const separator = arg.indexOf("=");
+    fields[arg.slice(0, separator)] = arg.slice(separator + 1);
+  });
+  return fields;
+}
+
+function graphqlPage(nodes: unknown[], endCursor: string | null = null) {
+  return { nodes, pageInfo: { hasNextPage: endCursor !== null, endCursor } };
+}
+
+function isIssueMutation(cmd: string, args: string[], issueNumber?: number): boolean {
+  if (cmd !== "gh" || args[0] !== "api" || args[1] !== "graphql") return false;
+  const query = ghFields(args).query;
+  return query.startsWith("mutation") && (issueNumber === undefined || query.includes(`"I_${issueNumber}"`));
+}
+
 function createReconcileCliExecaMock(data: {
   repo: string;
   labels: string[];
   milestones: string[];
   issues: Record<string, unknown>[];
-  failOn?: "labels" | "milestones" | "issues";
+  failOn?: "snapshot" | "mutation";
 }) {
   return vi.fn(async (_cmd: string, args: string[]) => {
     if (args[0] === "repo" && args[1] === "view") {
       return { stdout: `${data.repo}\n` };
     }
 
-    if (args[0] === "api") {
-      if (args[1] === "--method" && args[2] === "POST" && args[3] === `repos/${data.repo}/milestones`) {
-        return { stdout: JSON.stringify({ title: "created" }) };
-      }
-      const endpoint = args[1] ?? "";
-
-      if (data.failOn === "labels" && endpoint.startsWith(`repos/${data.repo}/labels?`)) {
-        throw new Error("labels unavailable");
+    if (args[0] === "api" && args[1] === "graphql") {
+      const fields = ghFields(args);
+      if (fields.query.startsWith("mutation")) {
+        if (data.failOn === "mutation") {
+          throw new Error("mutation rejected");
+        }
+        return { stdout: JSON.stringify({ data: {} }) };
       }
-      if (data.failOn === "milestones" && endpoint.startsWith(`repos/${data.repo}/milestones?`)) {
-        throw new Error("milestones unavailable");
-      }
-      if (data.failOn === "issues" && endpoint.startsWith(`repos/${data.repo}/issues?`)) {
+      if (data.failOn === "snapshot") {
         throw new Error("issues unavailable");
       }
-
-      if (endpoint === `repos/${data.repo}/labels?per_page=100&page=1`) {
-        return { stdout: JSON.stringify(data.labels.map((name) => ({ name }))) };
+      const repository: Record<string, unknown> = {};
+      if (fields.labels === "true") {
+        repository.labels = graphqlPage(data.labels.map((name) => ({ id: `L_${name}`, name })));
       }
-      if (endpoint.startsWith(`repos/${data.repo}/labels?`) && !endpoint.endsWith("page=1")) {
-        return { stdout: "[]" };
+      if (fields.milestones === "true") {
+        repository.milestones = graphqlPage(data.milestones.map((title) => ({ id: `M_${title}`, title })));
       }
-
-      if (endpoint === `repos/${data.repo}/milestones?state=all&per_page=100&page=1`) {
-        return { stdout: JSON.stringify(data.milestones.map((title) => ({ title }))) };
-      }
-      if (endpoint.startsWith(`repos/${data.repo}/milestones?`) && !endpoint.endsWith("page=1")) {
-        return { stdout: "[]" };
-      }
-
-      if (endpoint === `repos/${data.repo}/issues?state=all&per_page=100&page=1`) {
-        return { stdout: JSON.stringify(data.issues) };
-      }
-      if (endpoint.startsWith(`repos/${data.repo}/issues?`) && !endpoint.endsWith("page=1")) {
-        return { stdout: "[]" };
+      if (fields.issues === "true") {
+        repository.issues = graphqlPage(data.issues);
       }
+      return { stdout: JSON.stringify({ data: { repository } }) };
     }
 
-    if (args[0] === "issue" && args[1] === "edit") {
-      return { stdout: "" };
+    if (args[0] === "api" && args[2] === "POST" && args[3] === `repos/${data.repo}/milestones`) {
+      data.milestones.push(ghFields(args).title);
+      return { stdout: JSON.stringify({ title: "created" }) };
     }
 
     if (args[0] === "label" && args[1] === "create") {
+      data.labels.push(args[2]);
       return { stdout: "" };
     }
 
@@ -89,6 +99,33 @@ function createReconcileCliExecaMock(data: {
   });
 }
 
+/** Answers the tracker snapshot query with the given label pages (keyed by `labelsAfter` cursor) and milestones. */
+function createBootstrapExecaMock(labelPages: Record<string, string[]>, milestones: string[]) {
+  return vi.fn(async (_cmd: string, args: string[]) => {
+    if (args[0] === "repo" && args[1] === "view") {
+      return { stdout: "acme/demo\n" };
+    }
+    if (args[0] === "api" && args[1] === "graphql") {
+      const fields = ghFields(args);
+      const cursor = fields.labelsAfter ?? "";
+      const cursors = Object.keys(labelPages);
+      const nextCursor = cursors[cursors.indexOf(cursor) + 1] ?? null;
+      const repository: Record<string, unknown> = {};
+      if (fields.labels === "true") {
+        repository.labels = graphqlPage(
+          labelPages[cursor].map((name) => ({ id: `L_${name}`, name })),
+          nextCursor,
+        );
+      }
+      if (fields.milestones === "true") {
+        repository.milestones = graphqlPage(milestones.map((title) => ({ id: `M_${title}`, title })));
+      }
+      return { stdout: JSON.stringify({ data: { repository } }) };
+    }
+    return { stdout: "" };
+  });
+}
+
 describe.sequential("cli tracker bootstrap", () => {
   const originalCwd = process.cwd();
   let tempDir = "";
@@ -112,18 +149,7 @@ describe.sequential("cli tracker bootstrap", () => {
 
   it("prints deterministic dry-run commands without creating marker", async () => {
     const logs: string[] = [];
-    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
-      if (args[0] === "repo" && args[1] === "view") {
-        return { stdout: "acme/demo\n" };
-      }
-      if (args[0] === "api" && args[1] === "repos/acme/demo/milestones?state=all&per_page=100&page=1") {
-        return { stdout: "[]" };
-      }
-      if (args[0] === "api" && args[1] === "repos/acme/demo/labels?per_page=100&page=1") {
-        return { stdout: "[]" };
-      }
-      return { stdout: "" };
-    });
+    const execaMock = createBootstrapExecaMock({ "": [] }, []);
 
     vi.spyOn(console, "error").mockImplementation(() => undefined);
     vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
@@ -133,7 +159,8 @@ describe.sequential("cli tracker bootstrap", () => {
     const program = createProgram(execaMock as never);
     await program.parseAsync(["node", "vibe", "tracker", "bootstrap", "--dry-run"]);
 
-    expect(execaMock).toHaveBeenCalledTimes(3);
+    // repo view plus a single GraphQL read for labels and milestones.
+    expect(execaMock).toHaveBeenCalledTimes(2);
     expect(logs.some((line) => line.includes("$ gh api --method POST repos/acme/demo/milestones"))).toBe(false);
     expect(logs.some((line) => line.includes("$ gh label create module:cli"))).toBe(true);
     expect(logs.some((line) => line.includes("Milestones: repo-specific"))).toBe(true);
@@ -143,22 +170,7 @@ describe.sequential("cli tracker bootstrap", () => {
   });
 
   it("creates missing tracker labels and writes marker on apply", async () => {
-    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
-      if (args[0] === "repo" && args[1] === "view") {
-        return { stdout: "acme/demo\n" };
-      }
-      if (args[0] === "api" && args[1] === "repos/acme/demo/milestones?state=all&per_page=100&page=1") {
-        return {
-          stdout: JSON.stringify([{ title: "UI MVP (local cockpit)" }]),
-        };
-      }
-      if (args[0] === "api" && args[1] === "repos/acme/demo/labels?per_page=100&page=1") {
-        return {
-          stdout: JSON.stringify([{ name: "module:ui" }]),
-        };
-      }
-      return { stdout: "" };
-    });
+    const execaMock = createBootstrapExecaMock({ "": ["module:ui"] }, ["UI MVP (local cockpit)"]);
 
     vi.spyOn(console, "log").mockImplementation(() => undefined);
     vi.spyOn(console, "error").mockImplementation(() => undefined);
@@ -187,23 +199,37 @@ describe.sequential("cli tracker bootstrap", () => {
     expect(process.exitCode).toBeUndefined();
   });
 
-  it("paginates labels and skips creating module label that exists on later page", async () => {
-    const labelPageOne = Array.from({ length: 100 }, (_unused, index) => ({ name: `custom-${index}` }));
-    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
-      if (args[0] === "repo" && args[1] === "view") {
-        return { stdout: "acme/demo\n" };
-      }
-      if (args[0] === "api" && args[1] === "repos/acme/demo/milestones?state=all&per_page=100&page=1") {
-        return { stdout: "[]" };
-      }
-      if (args[0] === "api" && args[1] === "repos/acme/demo/labels?per_page=100&page=1") {
-        return { stdout: JSON.stringify(labelPageOne) };
-      }
-      if (args[0] === "api" && args[1] === "repos/acme/demo/labels?per_page=100&page=2") {
-        return { stdout: JSON.stringify([{ name: "Module:CLI" }]) };
-      }
-      return { stdout: "" };
+  it("prints the bootstrap plan with gh retry stats as JSON", async () => {
+    const logs: string[] = [];
+    const execaMock = createBootstrapExecaMock({ "": ["module:ui"] }, ["MVP"]);
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "tracker", "bootstrap", "--json"]);
+
+    expect(logs).toHaveLength(1);
+    expect(JSON.parse(logs[0])).toEqual({
+      repo: "acme/demo",
+      taxonomy_path: null,
+      dry_run: false,
+      create: ["module:cli", "module:docs", "module:tracker", "module:turn", "module:templates"],
+      update: [],
+      rename: [],
+      delete: [],
+      pending_destructive: 0,
+      marker_path: getTrackerBootstrapMarkerPath(),
+      warnings: [],
+      gh_retry: { calls: 7, retries: 0, rate_limited: 0, waited_ms: 0 },
     });
+    expect(execaMock).toHaveBeenCalledWith("gh", expect.arrayContaining(["label", "create"]), { stdio: "pipe" });
+    expect(execaMock).not.toHaveBeenCalledWith("gh", expect.anything(), { stdio: "inherit" });
+  });
+
+  it("paginates labels and skips creating module label that exists on later page", async () => {
+    const labelPageOne = Array.from({ length: 100 }, (_unused, index) => `custom-${index}`);
+    const execaMock = createBootstrapExecaMock({ "": labelPageOne, "cursor-2": ["Module:CLI"] }, []);
 
     vi.spyOn(console, "log").mockImplementation(() => undefined);
     vi.spyOn(console, "error").mockImplementation(() => undefined);
@@ -213,7 +239,7 @@ describe.sequential("cli tracker bootstrap", () => {
 
     const commands = execaMock.mock.calls.map((call) => [call[0], call[1]] as [string, string[]]);
     expect(
-      commands.some(([cmd, args]) => cmd === "gh" && args[0] === "api" && args[1] === "repos/acme/demo/labels?per_page=100&page=2"),
+      commands.some(([cmd, args]) => cmd === "gh" && ghFields(args).labelsAfter === "cursor-2"),
     ).toBe(true);
     expect(
       commands.some(([cmd, args]) => cmd === "gh" && args[0] === "label" && args[1] === "create" && args[2] === "module:cli"),
@@ -223,6 +249,53 @@ describe.sequential("cli tracker bootstrap", () => {
     ).toBe(true);
   });
 
+  it("syncs .vibe/tracker.yml and holds renames and deletions until --confirm", async () => {
+    mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
+    writeFileSync(
+      path.join(tempDir, ".vibe", "tracker.yml"),
+      [
+        "modules:",
+        "  - name: billing",
+        "    color: D93F0B",
+        "    description: Payments",
+        "    renamed_from: [payments]",
+        "  - name: ops",
+        "    color: 0E8A16",
+        "    description: Operations",
+        "",
+      ].join("\n"),
+    );
+    const logs: string[] = [];
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    const labels = ["module:payments", "module:cli", "bug"];
+    const pending = createBootstrapExecaMock({ "": labels }, []);
+    await createProgram(pending as never).parseAsync(["node", "vibe", "tracker", "bootstrap"]);
+
+    const pendingCommands = pending.mock.calls.map((call) => call[1].join(" "));
+    expect(pendingCommands).toContain("label create module:ops --color 0E8A16 --description Operations");
+    expect(pendingCommands.filter((command) => /^label (edit|delete)/.test(command))).toEqual([]);
+    expect(logs).toContain("$ gh label delete module:cli --yes");
+    expect(logs).toContain(
+      "\ntracker bootstrap: 2 rename(s)/deletion(s) pending; re-run with --confirm to apply them.",
+    );
+
+    const confirmed = createBootstrapExecaMock({ "": labels }, []);
+    await createProgram(confirmed as never).parseAsync(["node", "vibe", "tracker", "bootstrap", "--confirm"]);
+
+    const confirmedCommands = confirmed.mock.calls.map((call) => call[1].join(" "));
+    expect(confirmedCommands).toContain(
+      "label edit module:payments --name module:billing --color D93F0B --description Payments",
+    );
+    expect(confirmedCommands).toContain("label delete module:cli --yes");
+    const marker = JSON.parse(readFileSync(getTrackerBootstrapMarkerPath(), "utf8")) as { labels: string[] };
+    expect(marker.labels.sort()).toEqual(["bug", "module:billing", "module:ops"]);
+    expect(process.exitCode).toBeUndefined();
+  });
+
   it("shows preflight hint when .vibe exists without tracker marker", async () => {
     mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
     const logs: string[] = [];
@@ -318,7 +391,7 @@ describe.sequential("cli tracker reconcile", () => {
     await program.parseAsync(["node", "vibe", "tracker", "reconcile"]);
 
     const commands = execaMock.mock.calls.map((call) => [call[0], call[1]] as [string, string[]]);
-    expect(commands.some(([cmd, args]) => cmd === "gh" && args[0] === "issue" && args[1] === "edit" && args[2] === "20")).toBe(true);
+    expect(commands.some(([cmd, args]) => isIssueMutation(cmd, args, 20))).toBe(true);
     expect(logs.some((line) => line.includes("tracker reconcile: DONE"))).toBe(true);
     expect(process.exitCode).toBeUndefined();
   });
@@ -358,7 +431,7 @@ describe.sequential("cli tracker reconcile", () => {
     await program.parseAsync(["node", "vibe", "tracker", "reconcile", "--dry-run"]);
 
     const commands = execaMock.mock.calls.map((call) => [call[0], call[1]] as [string, string[]]);
-    expect(commands.some(([cmd, args]) => cmd === "gh" && args[0] === "issue" && args[1] === "edit")).toBe(false);
+    expect(commands.some(([cmd, args]) => isIssueMutation(cmd, args))).toBe(false);
     expect(logs.some((line) => line.includes("tracker reconcile: dry-run complete."))).toBe(true);
     expect(logs.some((line) => line.includes("$ gh issue edit 21"))).toBe(true);
   });
@@ -402,7 +475,7 @@ describe.sequential("cli tracker reconcile", () => {
     expect(commands.some(([cmd, args]) => cmd === "gh" && args[0] === "label" && args[1] === "create" && args[2] === "module:platform")).toBe(
       true,
     );
-    expect(commands.some(([cmd, args]) => cmd === "gh" && args[0] === "issue" && args[1] === "edit" && args[2] === "30")).toBe(true);
+    expect(commands.some(([cmd, args]) => isIssueMutation(cmd, args, 30))).toBe(true);
     expect(logs.some((line) => line.includes("tracker reconcile: DONE"))).toBe(true);
   });
 
@@ -443,7 +516,7 @@ describe.sequential("cli tracker reconcile", () => {
           args[3] === "repos/acme/demo/milestones",
       ),
     ).toBe(true);
-    expect(commands.some(([cmd, args]) => cmd === "gh" && args[0] === "issue" && args[1] === "edit")).toBe(true);
+    expect(commands.some(([cmd, args]) => isIssueMutation(cmd, args))).toBe(true);
     expect(logs.some((line) => line.includes("plan-only mode"))).toBe(false);
     expect(process.exitCode).toBeUndefined();
   });
@@ -454,7 +527,7 @@ describe.sequential("cli tracker reconcile", () => {
       labels: [],
       milestones: [],
       issues: [],
-      failOn: "issues",
+      failOn: "snapshot",
     });
 
     vi.spyOn(console, "log").mockImplementation(() => undefined);
@@ -465,4 +538,153 @@ describe.sequential("cli tracker reconcile", () => {
 
     expect(process.exitCode).toBe(1);
   });
+
+  it("reports failed issue updates per issue and exits 1", async () => {
+    const errors: string[] = [];
+    const execaMock = createReconcileCliExecaMock({
+      repo: "acme/demo",
+      labels: ["module:ops"],
+      milestones: ["Ops"],
+      issues: [apiIssue({ number: 41, title: "Generic task", state: "open", labels: [], milestone: null })],
+      failOn: "mutation",
+    });
+
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    const program = createProgram(execaMock as never);
+    await program.parseAsync([
+      "node",
+      "vibe",
+      "tracker",
+      "reconcile",
+      "--fallback-module",
+      "module:ops",
+      "--fallback-milestone",
+      "Ops",
+    ]);
+
+    expect(errors).toEqual(["\ntracker reconcile: 1 of 1 issue update(s) failed", "- #41: mutation rejected"]);
+    expect(process.exitCode).toBe(1);
+  });
+  it("prints the result with gh retry stats as JSON and counts label and milestone creation", async () => {
+    const logs: string[] = [];
+    const reconcileMock = createReconcileCliExecaMock({
+      repo: "acme/demo",
+      labels: [],
+      milestones: [],
+      issues: [apiIssue({ number: 42, title: "Platform setup", state: "open", labels: [], milestone: null })],
+    });
+    let failedOnce = false;
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      if (args[0] === "repo" && !failedOnce) {
+        failedOnce = true;
+        throw new Error("HTTP 502: Bad Gateway");
+      }
+      return reconcileMock(cmd, args);
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    const argv = ["--fallback-module", "module:platform"];
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "tracker", "reconcile", "--json", ...argv]);
+
+    expect(logs).toHaveLength(1);
+    const output = JSON.parse(logs[0]);
+    expect(output).toMatchObject({ repo: "acme/demo", applied: true, createdLabels: ["module:platform"] });
+    expect(output.createdMilestones).toHaveLength(1);
+    // Every gh call, including the label and milestone creation, goes through the shared limiter.
+    const calls = execaMock.mock.calls.length;
+    expect(output.gh_retry).toEqual({ calls, retries: 1, rate_limited: 0, waited_ms: 250 });
+    expect(execaMock).toHaveBeenCalledWith("gh", expect.arrayContaining(["label", "create"]), { stdio: "pipe" });
+    expect(execaMock).not.toHaveBeenCalledWith("gh", expect.anything(), { stdio: "inherit" });
+    expect(process.exitCode).toBeUndefined();
+
+    failedOnce = false;
+    logs.length = 0;
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "tracker", "reconcile", ...argv]);
+    expect(logs.filter((line) => line.includes("gh calls="))).toEqual([
+      `tracker reconcile: gh calls=${getGhLimiter().stats().calls} retries=1 rate_limited=0 waited_ms=250`,
+    ]);
+  });
+});
+
+describe.sequential("cli tracker cache", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+  let originalExitCode: typeof process.exitCode;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-cli-tracker-cache-test-"));
+    process.chdir(tempDir);
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.exitCode = originalExitCode;
+    process.chdir(originalCwd);
+    vi.restoreAllMocks();
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("refreshes and clears the offline issue cache", async () => {
+    const logs: string[] = [];
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "issue" && args[1] === "list") {
+        return {
+          stdout: JSON.stringify([
+            {
+              number: 4,
+              title: "feat: cache",
+              state: "OPEN",
+              labels: [{ name: "module:tracker" }],
+              milestone: null,
+              updatedAt: "2026-02-16T00:00:00Z",
+              url: "https://example.test/issues/4",
+              assignees: [],
+            },
+          ]),
+        };
+      }
+      return { stdout: "" };
+    });
+
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    const cachePath = path.join(tempDir, ".vibe", "runtime", "tracker-cache.json");
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "tracker", "cache", "refresh"]);
+    expect(existsSync(cachePath)).toBe(true);
+    expect(logs.at(-1)).toMatch(/^tracker cache: refreshed .*tracker-cache\.json \(issues=1\)$/);
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "tracker", "cache", "clear"]);
+    expect(existsSync(cachePath)).toBe(false);
+    expect(logs.at(-1)).toMatch(/^tracker cache: cleared .*tracker-cache\.json$/);
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "tracker", "cache", "clear"]);
+    expect(logs.at(-1)).toBe("tracker cache: nothing to clear");
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("fails refresh without touching the cache when gh is unavailable", async () => {
+    const execaMock = vi.fn(async (_cmd: string) => {
+      throw new Error("error connecting to api.github.com");
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "tracker", "cache", "refresh"]);
+
+    expect(existsSync(path.join(tempDir, ".vibe", "runtime", "tracker-cache.json"))).toBe(false);
+    expect(process.exitCode).toBe(1);
+  });
 });
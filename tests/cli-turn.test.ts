@@ -1,4 +1,4 @@
-import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
 import os from "node:os";
 import path from "node:path";
 
@@ -6,7 +6,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { createProgram } from "../src/cli-program";
 import { REVIEW_TEMPLATE_FILE_NAMES } from "../src/core/reviews";
-import { getTurnContextPath } from "../src/core/turn";
+import { getTurnContextPath, writeTurnContext } from "../src/core/turn";
 
 describe.sequential("cli turn start", () => {
   const originalCwd = process.cwd();
@@ -365,3 +365,301 @@ describe.sequential("cli turn start", () => {
     expect(errors.some((line) => line.includes("git checkout main"))).toBe(true);
   });
 });
+
+describe.sequential("cli turn worktrees", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+  let originalExitCode: typeof process.exitCode;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-cli-turn-worktree-test-"));
+    process.chdir(tempDir);
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.exitCode = originalExitCode;
+    process.chdir(originalCwd);
+    vi.restoreAllMocks();
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("starts a turn in a new worktree, then lists and switches to it", async () => {
+    const logs: string[] = [];
+    const mainRoot = process.cwd();
+    const worktreePath = path.join(tempDir, "wt", "issue-12");
+    let worktreeAdded = false;
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      if (cmd === "git" && args[0] === "worktree" && args[1] === "list") {
+        const extra = worktreeAdded ? `\nworktree ${worktreePath}\nHEAD 1a2b3c4\nbranch refs/heads/issue-12-parallel-work\n` : "";
+        return { stdout: `worktree ${mainRoot}\nHEAD 0f00baa\nbranch refs/heads/main\n${extra}` };
+      }
+      if (cmd === "git" && args[0] === "worktree" && args[1] === "add") {
+        worktreeAdded = true;
+        return { stdout: "" };
+      }
+      if (cmd === "git" && args[0] === "rev-parse") return { stdout: "origin/main\n", exitCode: 0 };
+      if (cmd === "git" && args[0] === "rev-list") return { stdout: "0\t0\n", exitCode: 0 };
+      if (cmd === "git" && args[0] === "status") return { stdout: "## main...origin/main\n" };
+      if (cmd === "git" && args[0] === "branch") return { stdout: "* main 0f00baa [origin/main] sync\n" };
+      if (cmd === "git" && args[0] === "show-ref") return { stdout: "", exitCode: 1 };
+      if (cmd === "git" && args[0] === "fetch") return { stdout: "" };
+      if (cmd === "gh" && args[0] === "pr" && args[1] === "list") return { stdout: "[]\n" };
+      if (cmd === "gh" && args[0] === "issue" && args[1] === "view") return { stdout: "Parallel work\n" };
+      throw new Error(`unexpected command: ${cmd} ${args.join(" ")}`);
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    await createProgram(execaMock as never).parseAsync([
+      "node",
+      "vibe",
+      "turn",
+      "start",
+      "--issue",
+      "12",
+      "--worktree",
+      "--worktree-path",
+      worktreePath,
+    ]);
+
+    expect(process.exitCode).toBeUndefined();
+    expect(execaMock.mock.calls.some(([cmd, args]) => cmd === "git" && args[0] === "checkout")).toBe(false);
+    expect(existsSync(getTurnContextPath())).toBe(false);
+    expect(readFileSync(getTurnContextPath({ workspaceRoot: worktreePath }), "utf8")).toContain('"issue_id": 12');
+    expect(existsSync(path.join(worktreePath, ".vibe", "reviews", "12"))).toBe(true);
+    expect(logs).toContain(`turn start: worktree created at ${worktreePath}`);
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "list"]);
+    expect(logs).toContain(`  #12\tissue-12-parallel-work\t${worktreePath}`);
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "switch", "--issue", "12", "--path-only"]);
+    expect(logs[logs.length - 1]).toBe(worktreePath);
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "switch", "--issue", "99"]);
+    expect(process.exitCode).toBe(1);
+  });
+});
+
+describe.sequential("cli turn history", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+  let originalExitCode: typeof process.exitCode;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-cli-turn-history-test-"));
+    process.chdir(tempDir);
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.exitCode = originalExitCode;
+    process.chdir(originalCwd);
+    vi.restoreAllMocks();
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("records start and end in the ledger and prints the history", async () => {
+    const logs: string[] = [];
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      if (cmd === "git" && args[0] === "rev-parse") return { stdout: "origin/main\n", exitCode: 0 };
+      if (cmd === "git" && args[0] === "rev-list") return { stdout: "0\t0\n", exitCode: 0 };
+      if (cmd === "git" && args[0] === "status") return { stdout: "## main...origin/main\n" };
+      if (cmd === "git" && args[0] === "branch") return { stdout: "* main 0f00baa [origin/main] sync\n" };
+      if (cmd === "git" && args[0] === "show-ref") return { stdout: "", exitCode: 1 };
+      if (cmd === "git" && (args[0] === "fetch" || args[0] === "checkout")) return { stdout: "" };
+      if (cmd === "gh" && args[0] === "pr" && args[1] === "list" && args[3]?.startsWith("issue-12-")) {
+        return { stdout: JSON.stringify([{ number: 40, title: "Ledger", state: "MERGED", url: "https://example.test/pr/40" }]) };
+      }
+      if (cmd === "gh" && args[0] === "pr" && args[1] === "list") return { stdout: "[]\n" };
+      if (cmd === "gh" && args[0] === "issue" && args[1] === "view") return { stdout: "Ledger\n" };
+      throw new Error(`unexpected command: ${cmd} ${args.join(" ")}`);
+    });
+    vi.spyOn(console, "error").mockImplementation(() => undefined);
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "start", "--issue", "12"]);
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "end"]);
+    expect(process.exitCode).toBeUndefined();
+    expect(logs.some((line) => line.startsWith("turn end: issue=#12 outcome=merged duration="))).toBe(true);
+
+    const ledger = readFileSync(path.join(tempDir, ".vibe", "runtime", "turns.jsonl"), "utf8")
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line) as { event: string; pr_number?: number });
+    expect(ledger.map((event) => event.event)).toEqual(["start", "end"]);
+    expect(ledger[1]?.pr_number).toBe(40);
+
+    logs.length = 0;
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "history", "--outcome", "merged", "--json"]);
+    const history = JSON.parse(logs.join("\n")) as Array<{ issue_id: number; outcome: string; review_attempts: number }>;
+    expect(history).toEqual([expect.objectContaining({ issue_id: 12, outcome: "merged", review_attempts: 0 })]);
+
+    logs.length = 0;
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "history", "--outcome", "abandoned"]);
+    expect(logs).toEqual(["no turns recorded"]);
+  });
+
+  it("respects --outcome on turn end and rejects unknown outcomes", async () => {
+    const errors: string[] = [];
+    const execaMock = vi.fn(async () => {
+      throw new Error("gh should not be called");
+    });
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "end", "--outcome", "shipped"]);
+    expect(process.exitCode).toBe(1);
+    expect(errors).toContain("turn end: --outcome must be one of: merged, abandoned, handed-off");
+
+    process.exitCode = undefined;
+    await writeTurnContext({
+      issue_id: 12,
+      branch: "issue-12-ledger",
+      base_branch: "main",
+      started_at: "2026-02-13T10:00:00.000Z",
+      issue_title: "Ledger",
+    });
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "end", "--outcome", "handed-off", "--pr", "41"]);
+    expect(process.exitCode).toBeUndefined();
+    expect(execaMock).not.toHaveBeenCalled();
+    expect(readFileSync(path.join(tempDir, ".vibe", "runtime", "turns.jsonl"), "utf8")).toContain('"outcome":"handed-off"');
+  });
+});
+
+describe.sequential("cli turn pause/resume", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+  let originalExitCode: typeof process.exitCode;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-cli-turn-pause-test-"));
+    process.chdir(tempDir);
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.exitCode = originalExitCode;
+    process.chdir(originalCwd);
+    vi.restoreAllMocks();
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("pauses the active turn and refuses to resume an unknown issue", async () => {
+    const logs: string[] = [];
+    const errors: string[] = [];
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      const joined = args.join(" ");
+      if (cmd === "git" && joined === "rev-parse --abbrev-ref HEAD") return { stdout: "issue-12-pause\n" };
+      if (cmd === "git" && joined === "rev-parse HEAD") return { stdout: "bbb222bbb222bbb2\n" };
+      if (cmd === "git" && joined === "status --porcelain") return { stdout: "?? notes.txt\n" };
+      if (cmd === "git" && args[0] === "stash" && args[1] === "push") return { stdout: "" };
+      if (cmd === "git" && joined === "rev-parse stash@{0}") return { stdout: "5a5a5a5a5a5a5a5a\n" };
+      throw new Error(`unexpected command: ${cmd} ${joined}`);
+    });
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+    await writeTurnContext({
+      issue_id: 12,
+      branch: "issue-12-pause",
+      base_branch: "main",
+      started_at: "2026-02-13T00:00:00.000Z",
+      issue_title: "Pause",
+    });
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "pause"]);
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain("turn pause: stashed uncommitted work as 'vibe-turn #12 issue-12-pause' (5a5a5a5a5a5a)");
+    expect(logs).toContain("next: vibe turn resume --issue 12");
+    expect(execaMock).toHaveBeenCalledWith(
+      "git",
+      ["stash", "push", "--include-untracked", "-m", "vibe-turn #12 issue-12-pause"],
+      expect.anything(),
+    );
+    expect(existsSync(getTurnContextPath())).toBe(false);
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "resume", "--issue", "13"]);
+    expect(process.exitCode).toBe(1);
+    expect(errors).toContain("turn resume: no paused turn for issue #13. Paused turns: #12");
+  });
+});
+
+describe.sequential("cli turn doctor", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+  let originalExitCode: typeof process.exitCode;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-cli-turn-doctor-test-"));
+    process.chdir(tempDir);
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+  });
+
+  afterEach(() => {
+    process.exitCode = originalExitCode;
+    process.chdir(originalCwd);
+    vi.restoreAllMocks();
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("repairs a malformed turn.json and fails when it cannot", async () => {
+    const logs: string[] = [];
+    const errors: string[] = [];
+    let currentBranch = "issue-12-doctor";
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      if (cmd === "git" && args.join(" ") === "rev-parse --abbrev-ref HEAD") return { stdout: `${currentBranch}\n` };
+      if (cmd === "gh" && args[0] === "issue" && args[1] === "view") return { stdout: "Doctor\n" };
+      throw new Error(`unexpected command: ${cmd} ${args.join(" ")}`);
+    });
+    vi.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      logs.push(args.map((arg) => String(arg)).join(" "));
+    });
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+
+    const turnPath = getTurnContextPath();
+    await writeTurnContext({
+      issue_id: 12,
+      branch: "issue-12-doctor",
+      base_branch: "main",
+      started_at: "2026-02-13T00:00:00.000Z",
+      issue_title: "Doctor",
+    });
+    writeFileSync(turnPath, "{ broken", "utf8");
+
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "doctor"]);
+    expect(process.exitCode).toBeUndefined();
+    expect(logs).toContain(`turn doctor: repaired ${turnPath}`);
+    expect(logs).toContain("turn doctor: recovered issue_title: gh");
+    expect(readFileSync(turnPath, "utf8")).toContain('"issue_title": "Doctor"');
+
+    writeFileSync(turnPath, "{ broken", "utf8");
+    currentBranch = "main";
+    await createProgram(execaMock as never).parseAsync(["node", "vibe", "turn", "doctor"]);
+    expect(process.exitCode).toBe(1);
+    expect(errors).toContain("Run: node dist/cli.cjs turn start --issue <n>");
+  });
+});
@@ -215,7 +215,7 @@ describe.sequential("cli update flows", () => {
     expect(readmeAfterApply).not.toContain("old workflow block");
 
     const metadata = JSON.parse(readFileSync(metadataPath, "utf8")) as Record<string, unknown>;
-    expect(metadata.scaffold_template_version).toBe(3);
+    expect(metadata.scaffold_template_version).toBe(4);
 
     logs.length = 0;
     await program.parseAsync(["node", "vibe", "update", "--check"]);
@@ -490,7 +490,7 @@ describe.sequential("cli update flows", () => {
     expect(readme).toContain("flowchart LR");
 
     const metadata = JSON.parse(readFileSync(metadataPath, "utf8")) as Record<string, unknown>;
-    expect(metadata.scaffold_template_version).toBe(3);
+    expect(metadata.scaffold_template_version).toBe(4);
 
     logs.length = 0;
     await program.parseAsync(["node", "vibe", "update", "--check"]);
@@ -540,7 +540,7 @@ describe.sequential("cli update flows", () => {
     expect(readme).toContain("flowchart LR");
 
     const metadata = JSON.parse(readFileSync(metadataPath, "utf8")) as Record<string, unknown>;
-    expect(metadata.scaffold_template_version).toBe(3);
+    expect(metadata.scaffold_template_version).toBe(4);
 
     logs.length = 0;
     await program.parseAsync(["node", "vibe", "update", "--check"]);
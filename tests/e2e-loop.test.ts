@@ -0,0 +1,156 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { execa } from "execa";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { createProgram } from "../src/cli-program";
+import { getGhLimiter } from "../src/core/gh-retry";
+import { createFakeGitHub, type FakeGitHubState } from "./fake-github";
+
+/** `gh` (backed by tests/fake-github.ts) and `zsh` stand-ins, put first on PATH. */
+const BIN_DIR = fileURLToPath(new URL("./bin", import.meta.url));
+
+const AGENT_OUTPUT = {
+  version: 1,
+  run_id: "e2e-run-1",
+  passes: ["implementation", "security", "quality", "ux", "growth", "ops"].map((name) => ({
+    name,
+    summary: "ok",
+    findings: [],
+  })),
+  autofix: { applied: false, summary: "none", changed_files: [] },
+};
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  return (await execa("git", args, { cwd, stdio: "pipe" })).stdout.trim();
+}
+
+describe.sequential("e2e loop against a fake GitHub", () => {
+  const originalCwd = process.cwd();
+  const originalEnv = { ...process.env };
+  let tempDir = "";
+  let workDir = "";
+  let remoteDir = "";
+  let statePath = "";
+  let originalExitCode: typeof process.exitCode;
+  let errors: string[] = [];
+
+  const readState = (): FakeGitHubState => JSON.parse(readFileSync(statePath, "utf8"));
+  const writeState = (state: FakeGitHubState) => writeFileSync(statePath, JSON.stringify(state));
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-e2e-test-"));
+    remoteDir = path.join(tempDir, "remote.git");
+    workDir = path.join(tempDir, "work");
+    mkdirSync(workDir);
+    await execa("git", ["init", "--bare", "-b", "main", remoteDir]);
+    await git(workDir, ["init", "-b", "main"]);
+    await git(workDir, ["config", "user.email", "e2e@example.test"]);
+    await git(workDir, ["config", "user.name", "e2e"]);
+    await git(workDir, ["config", "commit.gpgsign", "false"]);
+    writeFileSync(path.join(workDir, "README.md"), "# demo\n");
+    writeFileSync(path.join(workDir, ".gitignore"), ".vibe/runtime\n.vibe/artifacts\n");
+    await git(workDir, ["add", "-A"]);
+    await git(workDir, ["commit", "-m", "init"]);
+    await git(workDir, ["remote", "add", "origin", remoteDir]);
+    await git(workDir, ["push", "-u", "origin", "main"]);
+
+    statePath = path.join(tempDir, "github.json");
+    process.env.PATH = `${BIN_DIR}${path.delimiter}${originalEnv.PATH ?? ""}`;
+    process.env.FAKE_GH_STATE = statePath;
+    process.env.FAKE_GH_REMOTE = remoteDir;
+
+    process.chdir(workDir);
+    originalExitCode = process.exitCode;
+    process.exitCode = undefined;
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    errors = [];
+    vi.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors.push(args.map((arg) => String(arg)).join(" "));
+    });
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    process.chdir(originalCwd);
+    process.exitCode = originalExitCode;
+    vi.restoreAllMocks();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("runs turn start, review, pr open, pr ready and postflight --apply end to end", { timeout: 120_000 }, async () => {
+    const github = createFakeGitHub();
+    const issue = github.addIssue({
+      title: "Add greeting",
+      labels: ["module:cli", "status:in-progress"],
+      milestone: "CLI usable",
+    });
+    writeState(github.state);
+    const run = async (...args: string[]) => {
+      await createProgram(execa).parseAsync(["node", "vibe", ...args]);
+      expect(process.exitCode, `vibe ${args.join(" ")}: ${errors.join("\n")}`).toBeUndefined();
+    };
+
+    await run("turn", "start", "--issue", String(issue.number));
+    const branch = await git(workDir, ["rev-parse", "--abbrev-ref", "HEAD"]);
+    expect(branch).toBe("issue-1-add-greeting");
+
+    writeFileSync(path.join(workDir, "greeting.txt"), "hello\n");
+    await git(workDir, ["add", "-A"]);
+    await git(workDir, ["commit", "-m", "feat: add greeting"]);
+    await git(workDir, ["push", "-u", "origin", branch]);
+
+    const artifactPath = path.join(workDir, ".vibe", "artifacts", "postflight.json");
+    mkdirSync(path.dirname(artifactPath), { recursive: true });
+    writeFileSync(
+      artifactPath,
+      JSON.stringify({
+        version: 1,
+        meta: { timestamp: "2026-02-20T00:00:00.000Z", actor: "agent", mode: "cli" },
+        work: { issue_id: issue.number, branch, base_branch: "main" },
+        checks: { tests: { ran: true, result: "pass" } },
+        tracker_updates: [
+          { type: "label_remove", label: "status:in-progress" },
+          { type: "status", to: "status:done" },
+          { type: "link_pr", pr_number: 2 },
+          { type: "issue_close", body: "Shipped in #2." },
+        ],
+        next_actions: ["Merge the PR."],
+        risks: { summary: "Low risk.", rollback_plan: "Revert the PR." },
+      }),
+    );
+    const agentOutputPath = path.join(tempDir, "agent-output.json");
+    writeFileSync(agentOutputPath, JSON.stringify(AGENT_OUTPUT));
+    await run("review", "--agent-provider", "command", "--agent-cmd", `cat >/dev/null; cat '${agentOutputPath}'`);
+
+    const [pr] = readState().pullRequests;
+    const head = await git(workDir, ["rev-parse", "HEAD"]);
+    expect(pr).toMatchObject({ number: 2, head: branch, base: "main", state: "OPEN" });
+    expect(pr.comments.some((comment) => comment.body.includes(head))).toBe(true);
+
+    await run("pr", "open", "--issue", String(issue.number));
+    expect(readState().pullRequests).toHaveLength(1);
+
+    await run("pr", "ready");
+
+    // Spend the rate limit so postflight has to look up the reset with `gh api rate_limit` and wait for it.
+    const limited = readState();
+    limited.rateLimit = { ...limited.rateLimit, remaining: 0, reset: Math.floor(Date.now() / 1000) + 3 };
+    writeState(limited);
+
+    await run("postflight", "--file", artifactPath, "--apply", "--skip-branch-cleanup");
+
+    expect(getGhLimiter().stats()).toMatchObject({ rate_limited: 1, retries: 1 });
+    const final = readState();
+    const closed = final.issues.find((entry) => entry.number === issue.number);
+    expect(closed).toMatchObject({ state: "CLOSED", labels: ["module:cli", "status:done"] });
+    // `review` appends its summary to the artifact as comment_append updates, so the issue gets those too.
+    const comments = closed?.comments.map((comment) => comment.body) ?? [];
+    expect(comments.slice(0, 2)).toEqual(["Linked PR: #2", "Shipped in #2."]);
+    expect(comments.slice(2).every((body) => body.startsWith("## vibe review"))).toBe(true);
+    expect(final.pullRequests[0].body).toContain(`#${issue.number}`);
+  });
+});
@@ -0,0 +1,577 @@
+type JsonRecord = Record<string, unknown>;
+
+export type FakeIssueComment = {
+  id: number;
+  body: string;
+  user: string;
+  created_at: string;
+};
+
+export type FakeIssue = {
+  number: number;
+  title: string;
+  body: string;
+  state: "OPEN" | "CLOSED";
+  labels: string[];
+  milestone: string | null;
+  assignees: string[];
+  comments: FakeIssueComment[];
+  updatedAt: string;
+};
+
+export type FakeReviewComment = {
+  id: number;
+  node_id: string;
+  body: string;
+  path: string;
+  line: number;
+  commit_id: string;
+  user: string;
+  pull_request_review_id: number | null;
+};
+
+export type FakeReviewThread = {
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+  comments: FakeReviewComment[];
+};
+
+export type FakeReview = {
+  id: number;
+  state: string;
+  user: string;
+  body: string;
+};
+
+export type FakePullRequest = {
+  number: number;
+  title: string;
+  body: string;
+  state: "OPEN" | "CLOSED" | "MERGED";
+  isDraft: boolean;
+  head: string;
+  base: string;
+  /** Pinned head sha; when `null` the head is resolved from the branch on every read (see `resolveHeadSha`). */
+  headRefOid: string | null;
+  mergedAt: string | null;
+  comments: FakeIssueComment[];
+  reviews: FakeReview[];
+  threads: FakeReviewThread[];
+};
+
+export type FakeGitHubState = {
+  repo: string;
+  login: string;
+  nextNumber: number;
+  nextId: number;
+  issues: FakeIssue[];
+  pullRequests: FakePullRequest[];
+  labels: { name: string; color: string; description: string }[];
+  milestones: { number: number; title: string; description: string; state: "open" | "closed" }[];
+  /** Core API budget as `gh api rate_limit` reports it; `reset` is epoch seconds. Calls fail once it hits zero. */
+  rateLimit: { limit: number; remaining: number; reset: number };
+};
+
+export type FakeGitHubOptions = {
+  /** State saved by an earlier run; `tests/bin/gh` reloads it on every call. `repo` and `login` are then ignored. */
+  state?: FakeGitHubState;
+  repo?: string;
+  login?: string;
+  /** Head sha of a branch as pushed to the remote; PRs report it as `headRefOid`. */
+  resolveHeadSha?: (branch: string) => Promise<string | null>;
+  now?: () => Date;
+};
+
+export type FakeGhResult = { stdout: string; stderr: string; exitCode: number };
+
+/** Thrown like an execa failure so `runGhWithRetry` and callers see the same shape as a failing `gh`. */
+export class FakeGhError extends Error {
+  readonly stderr: string;
+  readonly exitCode = 1;
+
+  constructor(args: string[], message: string) {
+    super(`Command failed with exit code 1: gh ${args.join(" ")}\n${message}`);
+    this.stderr = message;
+  }
+}
+
+const BOOLEAN_FLAGS = new Set(["--draft", "--paginate", "--remove-milestone", "--squash", "--merge", "--rebase"]);
+const DEFAULT_PAGE_SIZE = 30;
+
+type ParsedArgs = { positionals: string[]; flags: Map<string, string[]> };
+
+function parseArgs(args: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags = new Map<string, string[]>();
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    if (!arg.startsWith("-") || arg === "-") {
+      positionals.push(arg);
+      continue;
+    }
+    const value = BOOLEAN_FLAGS.has(arg) ? "true" : (args[(index += 1)] ?? "");
+    flags.set(arg, [...(flags.get(arg) ?? []), value]);
+  }
+  return { positionals, flags };
+}
+
+function flag(parsed: ParsedArgs, ...names: string[]): string | null {
+  for (const name of names) {
+    const values = parsed.flags.get(name);
+    if (values?.length) return values[values.length - 1];
+  }
+  return null;
+}
+
+function flagValues(parsed: ParsedArgs, name: string): string[] {
+  return parsed.flags.get(name) ?? [];
+}
+
+/** `--json a,b` projection plus the `-q .field` form the CLI uses; other jq expressions are not supported. */
+function renderJson(parsed: ParsedArgs, value: JsonRecord | JsonRecord[]): string {
+  const fields = flag(parsed, "--json")?.split(",").map((field) => field.trim()).filter(Boolean) ?? null;
+  const project = (row: JsonRecord) =>
+    fields ? Object.fromEntries(fields.map((field) => [field, row[field] ?? null])) : row;
+  const projected = Array.isArray(value) ? value.map(project) : project(value);
+
+  const query = flag(parsed, "-q", "--jq");
+  if (query) {
+    if (!/^\.[A-Za-z_]+$/.test(query) || Array.isArray(projected)) {
+      throw new Error(`fake gh: unsupported jq expression '${query}'`);
+    }
+    const selected = projected[query.slice(1)];
+    return `${typeof selected === "string" ? selected : JSON.stringify(selected ?? null)}\n`;
+  }
+  return `${JSON.stringify(projected)}\n`;
+}
+
+function readApiFields(parsed: ParsedArgs): JsonRecord {
+  const fields: JsonRecord = {};
+  for (const entry of flagValues(parsed, "-f")) {
+    const separator = entry.indexOf("=");
+    fields[entry.slice(0, separator)] = entry.slice(separator + 1);
+  }
+  for (const entry of flagValues(parsed, "-F")) {
+    const separator = entry.indexOf("=");
+    const raw = entry.slice(separator + 1);
+    fields[entry.slice(0, separator)] = /^-?[0-9]+$/.test(raw) ? Number(raw) : raw;
+  }
+  return fields;
+}
+
+function paginate(rows: JsonRecord[], query: URLSearchParams): JsonRecord[] {
+  const perPage = Number(query.get("per_page") ?? DEFAULT_PAGE_SIZE);
+  const page = Number(query.get("page") ?? 1);
+  return rows.slice((page - 1) * perPage, page * perPage);
+}
+
+/**
+ * An in-memory GitHub for end-to-end tests: issues, labels, milestones, PRs, issue comments, reviews, review
+ * threads, the GraphQL review-thread queries and the core rate limit, driven through the same `gh` argument lists
+ * the CLI runs. `tests/bin/gh` puts it behind a real executable.
+ */
+export function createFakeGitHub(options: FakeGitHubOptions = {}) {
+  const now = () => options.now?.() ?? new Date();
+  const state: FakeGitHubState = options.state ?? {
+    repo: options.repo ?? "acme/demo",
+    login: options.login ?? "vibe-bot",
+    nextNumber: 1,
+    nextId: 1000,
+    issues: [],
+    pullRequests: [],
+    labels: [],
+    milestones: [],
+    rateLimit: { limit: 5000, remaining: 5000, reset: Math.floor(now().getTime() / 1000) + 3600 },
+  };
+  const timestamp = () => now().toISOString();
+  const nextId = () => (state.nextId += 1);
+  const url = (kind: "issues" | "pull", number: number) => `https://github.com/${state.repo}/${kind}/${number}`;
+
+  const findIssue = (number: number) => state.issues.find((issue) => issue.number === number) ?? null;
+  const findPullRequest = (number: number) => state.pullRequests.find((pr) => pr.number === number) ?? null;
+  const requireIssue = (args: string[], value: string | undefined): FakeIssue => {
+    const issue = findIssue(Number(value));
+    if (!issue) throw new FakeGhError(args, `GraphQL: Could not resolve to an issue with the number of ${value}.`);
+    return issue;
+  };
+  const requirePullRequest = (args: string[], value: string | undefined): FakePullRequest => {
+    const pr = findPullRequest(Number(value));
+    if (!pr) throw new FakeGhError(args, `GraphQL: Could not resolve to a PullRequest with the number of ${value}.`);
+    return pr;
+  };
+
+  const headSha = async (pr: FakePullRequest): Promise<string | null> =>
+    pr.headRefOid ?? (await options.resolveHeadSha?.(pr.head)) ?? null;
+
+  const issueView = (issue: FakeIssue): JsonRecord => ({
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    state: issue.state,
+    url: url("issues", issue.number),
+    labels: issue.labels.map((name) => ({ name })),
+    milestone: issue.milestone ? { title: issue.milestone } : null,
+    assignees: issue.assignees.map((login) => ({ login })),
+    updatedAt: issue.updatedAt,
+  });
+
+  const pullRequestView = async (pr: FakePullRequest): Promise<JsonRecord> => ({
+    number: pr.number,
+    title: pr.title,
+    body: pr.body,
+    state: pr.state,
+    url: url("pull", pr.number),
+    isDraft: pr.isDraft,
+    headRefName: pr.head,
+    headRefOid: await headSha(pr),
+    baseRefName: pr.base,
+    mergedAt: pr.mergedAt,
+    mergeStateStatus: pr.state === "OPEN" && !pr.isDraft ? "CLEAN" : "BLOCKED",
+  });
+
+  const commentRow = (comment: FakeIssueComment): JsonRecord => ({
+    id: comment.id,
+    body: comment.body,
+    user: { login: comment.user },
+    created_at: comment.created_at,
+  });
+
+  const reviewCommentRow = (comment: FakeReviewComment): JsonRecord => ({
+    id: comment.id,
+    node_id: comment.node_id,
+    body: comment.body,
+    path: comment.path,
+    line: comment.line,
+    commit_id: comment.commit_id,
+    user: { login: comment.user },
+    pull_request_review_id: comment.pull_request_review_id,
+  });
+
+  const editLabels = (issue: { labels: string[] }, parsed: ParsedArgs) => {
+    const removed = new Set(flagValues(parsed, "--remove-label"));
+    const added = flagValues(parsed, "--add-label").flatMap((value) => value.split(","));
+    issue.labels = [...issue.labels, ...added.filter((label) => !issue.labels.includes(label))].filter(
+      (label) => !removed.has(label),
+    );
+  };
+
+  async function runIssue(args: string[], parsed: ParsedArgs): Promise<string> {
+    const [, command, target] = parsed.positionals;
+    if (command === "list") {
+      const stateFilter = (flag(parsed, "--state") ?? "open").toUpperCase();
+      const limit = Number(flag(parsed, "-L", "--limit") ?? DEFAULT_PAGE_SIZE);
+      const labels = flagValues(parsed, "--label");
+      const rows = state.issues
+        .filter((issue) => stateFilter === "ALL" || issue.state === stateFilter)
+        .filter((issue) => labels.every((label) => issue.labels.includes(label)))
+        .sort((left, right) => right.number - left.number)
+        .slice(0, limit);
+      return renderJson(parsed, rows.map(issueView));
+    }
+    if (command === "view") return renderJson(parsed, issueView(requireIssue(args, target)));
+    if (command === "create") {
+      const bodyFile = flag(parsed, "--body-file");
+      const body = bodyFile ? await import("node:fs/promises").then((fs) => fs.readFile(bodyFile, "utf8")) : "";
+      const issue: FakeIssue = {
+        number: state.nextNumber++,
+        title: flag(parsed, "--title") ?? "",
+        body: flag(parsed, "--body") ?? body,
+        state: "OPEN",
+        labels: flagValues(parsed, "--label"),
+        milestone: flag(parsed, "--milestone"),
+        assignees: [],
+        comments: [],
+        updatedAt: timestamp(),
+      };
+      state.issues.push(issue);
+      return `${url("issues", issue.number)}\n`;
+    }
+
+    const issue = requireIssue(args, target);
+    issue.updatedAt = timestamp();
+    if (command === "edit") {
+      editLabels(issue, parsed);
+      const removedAssignees = new Set(flagValues(parsed, "--remove-assignee"));
+      const addedAssignees = flagValues(parsed, "--add-assignee").filter((login) => !issue.assignees.includes(login));
+      issue.assignees = [...issue.assignees, ...addedAssignees].filter((login) => !removedAssignees.has(login));
+      if (flag(parsed, "--remove-milestone")) issue.milestone = null;
+      issue.milestone = flag(parsed, "--milestone") ?? issue.milestone;
+      issue.title = flag(parsed, "--title") ?? issue.title;
+      issue.body = flag(parsed, "--body") ?? issue.body;
+      return `${url("issues", issue.number)}\n`;
+    }
+    if (command === "comment") {
+      const body = flag(parsed, "--body") ?? "";
+      issue.comments.push({ id: nextId(), body, user: state.login, created_at: timestamp() });
+      return `${url("issues", issue.number)}#issuecomment-${state.nextId}\n`;
+    }
+    if (command === "close" || command === "reopen") {
+      issue.state = command === "close" ? "CLOSED" : "OPEN";
+      const comment = flag(parsed, "--comment");
+      if (comment) issue.comments.push({ id: nextId(), body: comment, user: state.login, created_at: timestamp() });
+      return "";
+    }
+    throw new FakeGhError(args, "fake gh: unsupported issue command");
+  }
+
+  async function runPullRequest(args: string[], parsed: ParsedArgs): Promise<string> {
+    const [, command, target] = parsed.positionals;
+    if (command === "list") {
+      const head = flag(parsed, "--head");
+      const stateFilter = (flag(parsed, "--state") ?? "open").toUpperCase();
+      const limit = Number(flag(parsed, "-L", "--limit") ?? DEFAULT_PAGE_SIZE);
+      const rows = state.pullRequests
+        .filter((pr) => !head || pr.head === head)
+        .filter((pr) => stateFilter === "ALL" || pr.state === stateFilter)
+        .sort((left, right) => right.number - left.number)
+        .slice(0, limit);
+      return renderJson(parsed, await Promise.all(rows.map(pullRequestView)));
+    }
+    if (command === "create") {
+      const head = flag(parsed, "--head") ?? "";
+      if (state.pullRequests.some((pr) => pr.head === head && pr.state === "OPEN")) {
+        throw new FakeGhError(args, `a pull request for branch "${head}" already exists`);
+      }
+      const pr: FakePullRequest = {
+        number: state.nextNumber++,
+        title: flag(parsed, "--title") ?? "",
+        body: flag(parsed, "--body") ?? "",
+        state: "OPEN",
+        isDraft: Boolean(flag(parsed, "--draft")),
+        head,
+        base: flag(parsed, "--base") ?? "main",
+        headRefOid: null,
+        mergedAt: null,
+        comments: [],
+        reviews: [],
+        threads: [],
+      };
+      state.pullRequests.push(pr);
+      return `${url("pull", pr.number)}\n`;
+    }
+
+    const pr = requirePullRequest(args, target);
+    if (command === "view") return renderJson(parsed, await pullRequestView(pr));
+    if (command === "edit") {
+      pr.title = flag(parsed, "--title") ?? pr.title;
+      pr.body = flag(parsed, "--body") ?? pr.body;
+      return `${url("pull", pr.number)}\n`;
+    }
+    if (command === "ready") {
+      pr.isDraft = false;
+      return "";
+    }
+    if (command === "comment") {
+      const body = flag(parsed, "--body") ?? "";
+      pr.comments.push({ id: nextId(), body, user: state.login, created_at: timestamp() });
+      return "";
+    }
+    if (command === "merge") {
+      pr.headRefOid = await headSha(pr);
+      pr.state = "MERGED";
+      pr.mergedAt = timestamp();
+      return "";
+    }
+    throw new FakeGhError(args, "fake gh: unsupported pr command");
+  }
+
+  function runGraphql(args: string[], fields: JsonRecord): string {
+    const query = String(fields.query ?? "");
+    const threadById = (id: unknown) =>
+      state.pullRequests.flatMap((pr) => pr.threads).find((thread) => thread.id === id) ?? null;
+
+    if (query.includes("reviewThreads")) {
+      const pr = findPullRequest(Number(fields.pr));
+      const nodes = (pr?.threads ?? []).map((thread) => ({
+        id: thread.id,
+        isResolved: thread.isResolved,
+        isOutdated: thread.isOutdated,
+        comments: {
+          nodes: thread.comments.map((comment) => ({
+            id: comment.node_id,
+            body: comment.body,
+            url: `${url("pull", pr?.number ?? 0)}#discussion_r${comment.id}`,
+            path: comment.path,
+            line: comment.line,
+            originalLine: comment.line,
+            author: { login: comment.user },
+          })),
+        },
+      }));
+      const pullRequest = pr ? { reviewThreads: { pageInfo: { hasNextPage: false, endCursor: null }, nodes } } : null;
+      return `${JSON.stringify({ data: { repository: { pullRequest } } })}\n`;
+    }
+    if (query.includes("resolveReviewThread")) {
+      const thread = threadById(fields.id);
+      if (!thread) {
+        throw new FakeGhError(args, `GraphQL: Could not resolve to a node with the global id of '${fields.id}'`);
+      }
+      thread.isResolved = true;
+      return `${JSON.stringify({ data: { resolveReviewThread: { thread: { id: thread.id, isResolved: true } } } })}\n`;
+    }
+    if (query.includes("addPullRequestReviewThreadReply")) {
+      const thread = threadById(fields.id);
+      if (!thread) {
+        throw new FakeGhError(args, `GraphQL: Could not resolve to a node with the global id of '${fields.id}'`);
+      }
+      const [first] = thread.comments;
+      const id = nextId();
+      thread.comments.push({ ...first, id, node_id: `PRRC_${id}`, body: String(fields.body ?? "") });
+      const commentUrl = `https://github.com/${state.repo}/pull/0#discussion_r${id}`;
+      return `${JSON.stringify({ data: { addPullRequestReviewThreadReply: { comment: { url: commentUrl } } } })}\n`;
+    }
+    throw new FakeGhError(args, "fake gh: unsupported graphql query");
+  }
+
+  async function runApi(args: string[], parsed: ParsedArgs): Promise<string> {
+    const endpoint = parsed.positionals[1] ?? "";
+    const method = (flag(parsed, "--method", "-X") ?? "GET").toUpperCase();
+    const fields = readApiFields(parsed);
+    if (endpoint === "graphql") return runGraphql(args, fields);
+    if (endpoint === "user") return `${JSON.stringify({ login: state.login })}\n`;
+
+    const [pathPart, queryPart = ""] = endpoint.replace("{owner}/{repo}", state.repo).split("?");
+    const query = new URLSearchParams(queryPart);
+    const prefix = `repos/${state.repo}/`;
+    if (!pathPart.startsWith(prefix)) throw new FakeGhError(args, `fake gh: unknown repository in '${endpoint}'`);
+    const resource = pathPart.slice(prefix.length);
+    const list = (rows: JsonRecord[]) => `${JSON.stringify(paginate(rows, query))}\n`;
+    let match: RegExpExecArray | null;
+
+    if (resource === "labels" && method === "GET") return list(state.labels);
+    if (resource === "milestones" && method === "GET") {
+      const stateFilter = query.get("state") ?? "open";
+      return list(state.milestones.filter((entry) => stateFilter === "all" || entry.state === stateFilter));
+    }
+    if (resource === "milestones" && method === "POST") {
+      const milestone = {
+        number: state.milestones.length + 1,
+        title: String(fields.title ?? ""),
+        description: String(fields.description ?? ""),
+        state: "open" as const,
+      };
+      state.milestones.push(milestone);
+      return `${JSON.stringify(milestone)}\n`;
+    }
+
+    if ((match = /^issues\/([0-9]+)\/comments$/.exec(resource))) {
+      const target = findIssue(Number(match[1])) ?? findPullRequest(Number(match[1]));
+      if (!target) throw new FakeGhError(args, "HTTP 404: Not Found");
+      if (method === "GET") return list(target.comments.map(commentRow));
+      const comment = { id: nextId(), body: String(fields.body ?? ""), user: state.login, created_at: timestamp() };
+      target.comments.push(comment);
+      return `${JSON.stringify(commentRow(comment))}\n`;
+    }
+    if ((match = /^issues\/comments\/([0-9]+)$/.exec(resource))) {
+      const id = Number(match[1]);
+      const comment = [...state.issues, ...state.pullRequests]
+        .flatMap((target) => target.comments)
+        .find((entry) => entry.id === id);
+      if (!comment) throw new FakeGhError(args, "HTTP 404: Not Found");
+      if (method === "PATCH") comment.body = String(fields.body ?? comment.body);
+      return `${JSON.stringify(commentRow(comment))}\n`;
+    }
+    if ((match = /^pulls\/([0-9]+)\/comments$/.exec(resource))) {
+      const pr = requirePullRequest(args, match[1]);
+      if (method === "GET") return list(pr.threads.flatMap((thread) => thread.comments).map(reviewCommentRow));
+      const id = nextId();
+      const comment: FakeReviewComment = {
+        id,
+        node_id: `PRRC_${id}`,
+        body: String(fields.body ?? ""),
+        path: String(fields.path ?? ""),
+        line: Number(fields.line ?? 0),
+        commit_id: String(fields.commit_id ?? ""),
+        user: state.login,
+        pull_request_review_id: null,
+      };
+      pr.threads.push({ id: `PRRT_${id}`, isResolved: false, isOutdated: false, comments: [comment] });
+      return `${JSON.stringify(reviewCommentRow(comment))}\n`;
+    }
+    if ((match = /^pulls\/([0-9]+)\/reviews$/.exec(resource)) && method === "GET") {
+      const pr = requirePullRequest(args, match[1]);
+      return list(pr.reviews.map((review) => ({ ...review, user: { login: review.user } })));
+    }
+    if ((match = /^pulls\/([0-9]+)\/reviews\/([0-9]+)$/.exec(resource)) && method === "DELETE") {
+      const pr = requirePullRequest(args, match[1]);
+      pr.reviews = pr.reviews.filter((review) => review.id !== Number(match?.[2]));
+      return "{}\n";
+    }
+    throw new FakeGhError(args, `fake gh: unsupported api call ${method} ${endpoint}`);
+  }
+
+  /** `gh api rate_limit` is free; every other call spends one unit, and the budget refills at `reset`. */
+  function spendRateLimit(args: string[]): void {
+    const nowSeconds = Math.floor(now().getTime() / 1000);
+    const budget = state.rateLimit;
+    if (budget.reset <= nowSeconds) {
+      budget.remaining = budget.limit;
+      budget.reset = nowSeconds + 3600;
+    }
+    if (budget.remaining <= 0) {
+      throw new FakeGhError(args, "gh: API rate limit exceeded for user ID 1. (HTTP 403)");
+    }
+    budget.remaining -= 1;
+  }
+
+  /** Runs one `gh` invocation; failures throw `FakeGhError` like a non-zero `gh` exit. */
+  async function run(args: string[]): Promise<FakeGhResult> {
+    const parsed = parseArgs(args);
+    const [scope, command] = parsed.positionals;
+    if (scope === "api" && command === "rate_limit") {
+      const { limit, remaining, reset } = state.rateLimit;
+      const resource = { limit, remaining, reset, used: limit - remaining };
+      const stdout = `${JSON.stringify({ resources: { core: resource, graphql: resource } })}\n`;
+      return { stdout, stderr: "", exitCode: 0 };
+    }
+    spendRateLimit(args);
+
+    let stdout: string;
+    if (scope === "issue") stdout = await runIssue(args, parsed);
+    else if (scope === "pr") stdout = await runPullRequest(args, parsed);
+    else if (scope === "api") stdout = await runApi(args, parsed);
+    else if (scope === "repo" && command === "view") {
+      stdout = renderJson(parsed, { nameWithOwner: state.repo, url: `https://github.com/${state.repo}` });
+    } else if (scope === "label" && command === "list") {
+      stdout = renderJson(parsed, state.labels);
+    } else if (scope === "label" && command === "create") {
+      const name = parsed.positionals[2] ?? "";
+      if (state.labels.some((label) => label.name === name)) {
+        throw new FakeGhError(args, `label with name "${name}" already exists`);
+      }
+      const color = flag(parsed, "--color") ?? "";
+      state.labels.push({ name, color, description: flag(parsed, "--description") ?? "" });
+      stdout = "";
+    } else {
+      throw new FakeGhError(args, `fake gh: unsupported command`);
+    }
+    return { stdout, stderr: "", exitCode: 0 };
+  }
+
+  return {
+    state,
+    run,
+    addIssue(issue: Partial<FakeIssue> & { title: string }): FakeIssue {
+      const created: FakeIssue = {
+        number: state.nextNumber++,
+        body: "",
+        state: "OPEN",
+        labels: [],
+        milestone: null,
+        assignees: [],
+        comments: [],
+        updatedAt: timestamp(),
+        ...issue,
+      };
+      state.issues.push(created);
+      return created;
+    },
+    /** Marks the PR merged at its current head, as a maintainer clicking "Merge" would. */
+    async mergePullRequest(number: number): Promise<void> {
+      await run(["pr", "merge", String(number), "--squash"]);
+    },
+  };
+}
+
+export type FakeGitHub = ReturnType<typeof createFakeGitHub>;
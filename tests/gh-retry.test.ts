@@ -1,6 +1,14 @@
 import { describe, expect, it, vi } from "vitest";
 
-import { isIdempotentGhCommand, isRetryableGhError, runGhWithRetry } from "../src/core/gh-retry";
+import {
+  createGhLimiter,
+  detectGhRateLimit,
+  isIdempotentGhCommand,
+  isRetryableGhError,
+  parseRateLimitWaitMs,
+  resolveGhMaxWaitMs,
+  runGhWithRetry,
+} from "../src/core/gh-retry";
 
 function transientError(message: string): Error {
   const error = new Error(message) as Error & { stderr?: string };
@@ -75,5 +83,110 @@ describe("gh retry", () => {
     expect(isIdempotentGhCommand(["api", "repos/acme/demo/issues"])).toBe(true);
     expect(isIdempotentGhCommand(["api", "--method", "POST", "repos/acme/demo/issues"])).toBe(false);
     expect(isIdempotentGhCommand(["issue", "create", "--title", "x"])).toBe(false);
+    expect(isIdempotentGhCommand(["project", "field-list", "3", "--owner", "acme"])).toBe(true);
+    expect(isIdempotentGhCommand(["project", "item-edit", "--id", "PVTI_1"])).toBe(false);
+  });
+});
+
+describe("gh retry rate limits", () => {
+  const nowMs = Date.parse("2026-02-16T00:00:00.000Z");
+
+  function fakeLimiter(options: { maxWaitMs?: number } = {}) {
+    const sleeps: number[] = [];
+    let clock = nowMs;
+    const limiter = createGhLimiter({
+      ...options,
+      now: () => clock,
+      sleep: async (ms) => {
+        sleeps.push(ms);
+        clock += ms;
+      },
+    });
+    return { limiter, sleeps };
+  }
+
+  it("waits for the primary limit reset from gh api rate_limit and retries writes too", async () => {
+    let creates = 0;
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args.join(" ") === "api rate_limit") {
+        return { stdout: JSON.stringify({ resources: { core: { reset: nowMs / 1000 + 120 } } }) };
+      }
+      creates += 1;
+      if (creates === 1) throw transientError("HTTP 403: API rate limit exceeded for user ID 1.");
+      return { stdout: "https://github.com/acme/demo/issues/9" };
+    });
+    const { limiter, sleeps } = fakeLimiter();
+
+    const args = ["issue", "create", "--title", "x"];
+    const result = await runGhWithRetry(execaMock as never, args, { stdio: "pipe" }, { limiter });
+    expect(result.stdout).toBe("https://github.com/acme/demo/issues/9");
+    expect(sleeps).toEqual([121_000]);
+    expect(limiter.stats()).toEqual({ calls: 2, retries: 1, rate_limited: 1, waited_ms: 121_000 });
+  });
+
+  it("falls back to a one minute pause for secondary limits and gives up once the wait budget is spent", async () => {
+    const execaMock = vi.fn(async () => {
+      throw transientError("HTTP 403: You have exceeded a secondary rate limit. Please wait a few minutes.");
+    });
+    const { limiter, sleeps } = fakeLimiter({ maxWaitMs: 90_000 });
+
+    await expect(
+      runGhWithRetry(execaMock as never, ["issue", "list"], { stdio: "pipe" }, { limiter }),
+    ).rejects.toThrow(
+      "gh rate limit: waiting 1 more minute(s) for the reset would exceed this run's 2-minute wait budget",
+    );
+    expect(sleeps).toEqual([60_000]);
+    expect(limiter.stats()).toEqual({ calls: 2, retries: 1, rate_limited: 2, waited_ms: 60_000 });
+  });
+
+  it("waits out a primary limit that resets an hour later by default", async () => {
+    let reads = 0;
+    const execaMock = vi.fn(async () => {
+      reads += 1;
+      if (reads === 1) throw transientError(`API rate limit exceeded\nx-ratelimit-reset: ${nowMs / 1000 + 3600}`);
+      return { stdout: "[]" };
+    });
+    const { limiter, sleeps } = fakeLimiter();
+
+    await runGhWithRetry(execaMock as never, ["issue", "list"], { stdio: "pipe" }, { limiter });
+    expect(sleeps).toEqual([3_601_000]);
+  });
+
+  it("reads the wait budget from VIBE_GH_MAX_WAIT_MINUTES", () => {
+    expect(resolveGhMaxWaitMs({})).toBe(65 * 60_000);
+    expect(resolveGhMaxWaitMs({ VIBE_GH_MAX_WAIT_MINUTES: "90" })).toBe(90 * 60_000);
+    expect(resolveGhMaxWaitMs({ VIBE_GH_MAX_WAIT_MINUTES: "0" })).toBe(0);
+    expect(() => resolveGhMaxWaitMs({ VIBE_GH_MAX_WAIT_MINUTES: "soon" })).toThrow(
+      "VIBE_GH_MAX_WAIT_MINUTES must be a number of minutes >= 0 (got 'soon')",
+    );
+  });
+
+  it("classifies rate limit errors and reads their wait time", () => {
+    expect(detectGhRateLimit(transientError("API rate limit exceeded for installation"))).toBe("primary");
+    expect(detectGhRateLimit(transientError("HTTP 429: Too Many Requests"))).toBe("secondary");
+    expect(detectGhRateLimit(transientError("HTTP 404: Not Found"))).toBeNull();
+    expect(parseRateLimitWaitMs(transientError("Retry-After: 42"), nowMs)).toBe(42_000);
+    expect(parseRateLimitWaitMs(transientError(`x-ratelimit-reset: ${nowMs / 1000 + 10}`), nowMs)).toBe(10_000);
+    const withResetAt = Object.assign(new Error("limited"), { resetAt: "2026-02-16T00:00:05.000Z" });
+    expect(parseRateLimitWaitMs(withResetAt, nowMs)).toBe(5_000);
+    expect(parseRateLimitWaitMs(transientError("API rate limit exceeded"), nowMs)).toBeNull();
+  });
+
+  it("caps concurrent gh calls", async () => {
+    const limiter = createGhLimiter({ maxConcurrent: 2 });
+    let inFlight = 0;
+    let peak = 0;
+    const execaMock = vi.fn(async () => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return { stdout: "ok" };
+    });
+
+    const list = () => runGhWithRetry(execaMock as never, ["issue", "list"], { stdio: "pipe" }, { limiter });
+    await Promise.all(Array.from({ length: 5 }, list));
+    expect(peak).toBe(2);
+    expect(limiter.stats().calls).toBe(5);
   });
 });
@@ -0,0 +1,230 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createGhCliTransport,
+  createGitHubApiTransport,
+  createGitHubClient,
+  GitHubApiError,
+  parseGitHubRemoteUrl,
+  resolveGitHubToken,
+  resolveGitHubTransportKind,
+} from "../src/core/github-client";
+import { createGhLimiter } from "../src/core/gh-retry";
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json", ...headers } });
+}
+
+function gitRemoteExeca() {
+  return vi.fn(async (cmd: string, args: string[]) => {
+    if (cmd === "git" && args.join(" ") === "remote get-url origin") {
+      return { stdout: "git@github.com:acme/demo.git", exitCode: 0 };
+    }
+    throw new Error(`unexpected command: ${cmd} ${args.join(" ")}`);
+  });
+}
+
+describe("github client over gh", () => {
+  it("keeps the gh commands and parses their output into typed rows", async () => {
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[0] === "issue" && args[1] === "view") {
+        const issue = { title: " Add greeting ", labels: [{ name: "module:cli" }], milestone: null };
+        return { stdout: JSON.stringify(issue) };
+      }
+      if (args[0] === "pr" && args[1] === "list") {
+        return { stdout: JSON.stringify([{ number: 4, url: "https://example.test/pull/4", headRefOid: "ABC" }]) };
+      }
+      if (args[0] === "pr" && args[1] === "create") {
+        return { stdout: "https://github.com/acme/demo/pull/5\n" };
+      }
+      return { stdout: "" };
+    });
+    const github = createGitHubClient(execaMock as never, { env: {} });
+
+    expect(github.transport.kind).toBe("gh");
+    expect(await github.viewIssue(1, ["title", "labels", "milestone"])).toMatchObject({
+      title: "Add greeting",
+      labels: ["module:cli"],
+      milestone: null,
+    });
+    const [pr] = await github.listPullRequests({ head: "issue-1-x", state: "open" }, ["number", "url", "headRefOid"]);
+    expect(pr).toMatchObject({ number: 4, headRefOid: "ABC", isDraft: false });
+    expect(await github.createPullRequest({ base: "main", head: "issue-1-x", title: "T", body: "B" })).toEqual({
+      number: 5,
+      url: "https://github.com/acme/demo/pull/5",
+    });
+    await github.updateIssueComment("acme/demo", 9, "hi");
+    await github.createReviewComment("acme/demo", 5, { body: "b", commitId: "abc", path: "a.ts", line: 3 });
+    await github.deleteReview("acme/demo", 5, 7);
+
+    expect(execaMock.mock.calls.map((call) => call[1])).toEqual([
+      ["issue", "view", "1", "--json", "title,labels,milestone"],
+      ["pr", "list", "--head", "issue-1-x", "--state", "open", "--json", "number,url,headRefOid"],
+      ["pr", "create", "--base", "main", "--head", "issue-1-x", "--title", "T", "--body", "B"],
+      ["api", "--method", "PATCH", "repos/acme/demo/issues/comments/9", "-f", "body=hi"],
+      [
+        "api",
+        "--method",
+        "POST",
+        "repos/acme/demo/pulls/5/comments",
+        "-f",
+        "body=b",
+        "-f",
+        "commit_id=abc",
+        "-f",
+        "path=a.ts",
+        "-F",
+        "line=3",
+      ],
+      ["api", "--method", "DELETE", "repos/acme/demo/pulls/5/reviews/7"],
+    ]);
+  });
+
+  it("pages REST lists and throws GraphQL errors", async () => {
+    const firstPage = Array.from({ length: 100 }, (_, index) => ({ id: index + 1, body: `c${index}` }));
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[1] === "graphql") {
+        return { stdout: JSON.stringify({ errors: [{ message: "Field 'nope' doesn't exist" }] }) };
+      }
+      return { stdout: JSON.stringify(String(args[1]).endsWith("page=1") ? firstPage : [{ id: 101, body: "last" }]) };
+    });
+    const github = createGitHubClient(execaMock as never, { transport: createGhCliTransport(execaMock as never) });
+
+    const comments = await github.listIssueComments("acme/demo", 2);
+    expect(comments).toHaveLength(101);
+    expect(execaMock.mock.calls.map((call) => call[1][1])).toEqual([
+      "repos/acme/demo/issues/2/comments?per_page=100&page=1",
+      "repos/acme/demo/issues/2/comments?per_page=100&page=2",
+    ]);
+    await expect(github.graphql("query { nope }")).rejects.toThrow("gh api graphql: Field 'nope' doesn't exist");
+  });
+});
+
+describe("github client over the REST/GraphQL api", () => {
+  it("authenticates with the env token, resolves the repo from origin and flattens GraphQL connections", async () => {
+    const fetchMock = vi.fn(async (_url: string | URL | Request, _init?: RequestInit) =>
+      jsonResponse(
+        {
+          data: {
+            repository: {
+              issue: { title: "Add greeting", labels: { nodes: [{ name: "module:cli" }] }, milestone: { title: "M1" } },
+            },
+          },
+        },
+        200,
+        { "x-ratelimit-limit": "5000", "x-ratelimit-remaining": "4999", "x-ratelimit-reset": "1771200000" },
+      ),
+    );
+    const github = createGitHubClient(gitRemoteExeca() as never, {
+      env: { VIBE_GITHUB_TRANSPORT: "api", GITHUB_TOKEN: "t0k" },
+      fetchFn: fetchMock as never,
+    });
+
+    expect(await github.viewIssue(1, ["title", "labels", "milestone"])).toMatchObject({
+      title: "Add greeting",
+      labels: ["module:cli"],
+      milestone: "M1",
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.github.com/graphql");
+    expect((init?.headers as Record<string, string>).Authorization).toBe("Bearer t0k");
+    const request = JSON.parse(String(init?.body));
+    expect(request.variables).toEqual({ owner: "acme", name: "demo", number: 1 });
+    expect(request.query).toContain(
+      "issue(number: $number) { title labels(first: 100) { nodes { name } } milestone { title } }",
+    );
+    expect(github.rateLimit()).toEqual({ limit: 5000, remaining: 4999, resetAt: "2026-02-16T00:00:00.000Z" });
+  });
+
+  it("reports an exhausted rate limit and stops sending until the reset time", async () => {
+    const fetchMock = vi.fn(async () =>
+      jsonResponse({ message: "API rate limit exceeded for user." }, 403, {
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": "1771200000",
+      }),
+    );
+    const transport = createGitHubApiTransport({
+      execaFn: gitRemoteExeca() as never,
+      env: { GH_TOKEN: "t0k" },
+      fetchFn: fetchMock as never,
+      now: () => new Date("2026-02-15T23:00:00.000Z"),
+      limiter: createGhLimiter({ maxWaitMs: 0 }),
+    });
+
+    const failure = await transport.rest({ path: "repos/{owner}/{repo}/labels" }).catch((error: unknown) => error);
+    expect(failure).toBeInstanceOf(GitHubApiError);
+    expect(failure).toMatchObject({ status: 403, rateLimited: true, resetAt: "2026-02-16T00:00:00.000Z" });
+    expect(String((failure as Error).message)).toContain("GET repos/acme/demo/labels failed (403)");
+
+    await expect(transport.rest({ path: "user" })).rejects.toThrow(
+      "rate limit exhausted until 2026-02-16T00:00:00.000Z",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits out a secondary rate limit from Retry-After and retries through the limiter", async () => {
+    const nowMs = Date.parse("2026-02-16T00:00:00.000Z");
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        jsonResponse({ message: "You have exceeded a secondary rate limit." }, 403, { "retry-after": "30" }),
+      )
+      .mockResolvedValueOnce(jsonResponse({ login: "vibe-bot" }));
+    const sleeps: number[] = [];
+    const limiter = createGhLimiter({ now: () => nowMs, sleep: async (ms) => void sleeps.push(ms) });
+    const transport = createGitHubApiTransport({
+      execaFn: gitRemoteExeca() as never,
+      env: { GITHUB_TOKEN: "t0k" },
+      fetchFn: fetchMock as never,
+      now: () => new Date(nowMs),
+      limiter,
+    });
+
+    expect(await transport.rest({ path: "user" })).toEqual({ login: "vibe-bot" });
+    expect(sleeps).toEqual([31_000]);
+    expect(limiter.stats()).toEqual({ calls: 2, retries: 1, rate_limited: 1, waited_ms: 31_000 });
+  });
+
+  it("sends write fields as a JSON body and creates pull requests over REST", async () => {
+    const created = { number: 6, html_url: "https://github.com/acme/demo/pull/6" };
+    const fetchMock = vi.fn(async () => jsonResponse(created, 201));
+    const transport = createGitHubApiTransport({
+      execaFn: gitRemoteExeca() as never,
+      env: { GITHUB_TOKEN: "t0k" },
+      fetchFn: fetchMock as never,
+    });
+
+    expect(await transport.createPullRequest({ base: "main", head: "issue-1-x", title: "T", body: "B" })).toEqual({
+      number: 6,
+      url: "https://github.com/acme/demo/pull/6",
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://api.github.com/repos/acme/demo/pulls",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ base: "main", head: "issue-1-x", title: "T", body: "B" }),
+      }),
+    );
+  });
+});
+
+describe("github client configuration", () => {
+  it("resolves the token from the env before asking gh", async () => {
+    const execaMock = vi.fn(async () => ({ stdout: "gho_from_gh\n", exitCode: 0 }));
+
+    expect(await resolveGitHubToken({ execaFn: execaMock as never, env: { GITHUB_TOKEN: " env " } })).toBe("env");
+    expect(execaMock).not.toHaveBeenCalled();
+    expect(await resolveGitHubToken({ execaFn: execaMock as never, env: {} })).toBe("gho_from_gh");
+    expect(execaMock).toHaveBeenCalledWith("gh", ["auth", "token"], { stdio: "pipe", reject: false });
+  });
+
+  it("picks the transport from VIBE_GITHUB_TRANSPORT and parses origin URLs", () => {
+    expect(resolveGitHubTransportKind({})).toBe("gh");
+    expect(resolveGitHubTransportKind({ VIBE_GITHUB_TRANSPORT: "API" })).toBe("api");
+    expect(() => resolveGitHubTransportKind({ VIBE_GITHUB_TRANSPORT: "rest" })).toThrow(
+      "VIBE_GITHUB_TRANSPORT must be one of gh, api (got 'rest')",
+    );
+    expect(parseGitHubRemoteUrl("https://github.com/acme/demo.git")).toBe("acme/demo");
+    expect(parseGitHubRemoteUrl("ssh://git@github.com/acme/demo")).toBe("acme/demo");
+    expect(parseGitHubRemoteUrl("https://gitlab.com/acme/demo.git")).toBeNull();
+  });
+});
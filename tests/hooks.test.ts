@@ -0,0 +1,88 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  buildVibeHookBlock,
+  installVibeHooks,
+  removeVibeHookContent,
+  uninstallVibeHooks,
+  upsertVibeHookContent,
+} from "../src/core/hooks";
+
+const USER_HOOK = "#!/bin/sh\nnpm run lint\nexit 0\n";
+
+describe.sequential("vibe git hooks", () => {
+  let tempDir = "";
+  let hooksDir = "";
+  const execaMock = vi.fn(async () => ({ stdout: ".git/hooks\n" }));
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-hooks-test-"));
+    hooksDir = path.join(tempDir, ".git", "hooks");
+    mkdirSync(hooksDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("builds a block that runs the guard with branch check and a staged scan", () => {
+    const block = buildVibeHookBlock("node dist/cli.cjs");
+    expect(block).toContain("node dist/cli.cjs guard --check-branch || exit $?\n");
+    expect(block).toContain("node dist/cli.cjs security scan --mode staged || exit $?\n");
+  });
+
+  it("inserts the block after the shebang of an existing user hook and round-trips on removal", () => {
+    const block = buildVibeHookBlock();
+    const inserted = upsertVibeHookContent(USER_HOOK, block);
+    expect(inserted.status).toBe("inserted");
+    expect(inserted.content).toBe(`#!/bin/sh\n${block}npm run lint\nexit 0\n`);
+
+    expect(upsertVibeHookContent(inserted.content, block)).toEqual({ content: inserted.content, status: "unchanged" });
+    expect(upsertVibeHookContent(inserted.content, buildVibeHookBlock("npx vibe")).status).toBe("updated");
+    expect(removeVibeHookContent(inserted.content)).toBe(USER_HOOK);
+
+    const created = upsertVibeHookContent(null, block);
+    expect(created.status).toBe("created");
+    expect(removeVibeHookContent(created.content)).toBeNull();
+  });
+
+  it("repairs a hook with a dangling marker", () => {
+    const block = buildVibeHookBlock();
+    const broken = "#!/bin/sh\n# vibe:hooks:start\nnpm test\n";
+    const repaired = upsertVibeHookContent(broken, block);
+    expect(repaired.status).toBe("repaired");
+    expect(repaired.content).toBe(`#!/bin/sh\n${block}npm test\n`);
+  });
+
+  it("installs executable hooks, preserves user hooks and uninstalls cleanly", async () => {
+    writeFileSync(path.join(hooksDir, "pre-push"), USER_HOOK, "utf8");
+
+    const installed = await installVibeHooks({ execaFn: execaMock as never, cwd: tempDir });
+    expect(installed.map((change) => `${change.hook}:${change.status}`)).toEqual(["pre-commit:created", "pre-push:inserted"]);
+    expect(statSync(path.join(hooksDir, "pre-commit")).mode & 0o111).not.toBe(0);
+    expect(readFileSync(path.join(hooksDir, "pre-push"), "utf8")).toContain("vibe guard --check-branch");
+
+    const again = await installVibeHooks({ execaFn: execaMock as never, cwd: tempDir });
+    expect(again.map((change) => change.status)).toEqual(["unchanged", "unchanged"]);
+
+    const removed = await uninstallVibeHooks({ execaFn: execaMock as never, cwd: tempDir });
+    expect(removed.map((change) => `${change.hook}:${change.status}`)).toEqual(["pre-commit:removed", "pre-push:stripped"]);
+    expect(existsSync(path.join(hooksDir, "pre-commit"))).toBe(false);
+    expect(readFileSync(path.join(hooksDir, "pre-push"), "utf8")).toBe(USER_HOOK);
+
+    const noop = await uninstallVibeHooks({ execaFn: execaMock as never, cwd: tempDir });
+    expect(noop.map((change) => change.status)).toEqual(["absent", "absent"]);
+  });
+
+  it("does not write anything in dry-run mode", async () => {
+    const installed = await installVibeHooks({ execaFn: execaMock as never, cwd: tempDir, dryRun: true });
+    expect(installed.map((change) => change.status)).toEqual(["created", "created"]);
+    expect(existsSync(path.join(hooksDir, "pre-commit"))).toBe(false);
+  });
+});
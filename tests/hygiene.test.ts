@@ -0,0 +1,136 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  collectBranchIssueIds,
+  evaluateHygieneRules,
+  formatHygieneFinding,
+  getDefaultHygieneRules,
+  HYGIENE_RULE_IDS,
+  loadHygieneConfig,
+  parseHygieneConfig,
+  selectHygieneFailures,
+  type HygieneIssue,
+} from "../src/core/hygiene";
+
+function buildIssue(overrides: Partial<HygieneIssue> = {}): HygieneIssue {
+  return {
+    number: 1,
+    labels: ["status:in-progress", "module:cli"],
+    milestone: "CLI usable",
+    updatedAt: "2026-02-16T00:00:00Z",
+    assignees: ["alice"],
+    ...overrides,
+  };
+}
+
+describe("hygiene rules", () => {
+  it("keeps only the historical checks on by default", () => {
+    const issues = [buildIssue(), buildIssue({ number: 2, labels: ["bug"], milestone: null })];
+    const findings = evaluateHygieneRules({ issues, rules: getDefaultHygieneRules() });
+
+    expect(findings).toEqual([
+      { rule: "missing_milestone", severity: "warn", issues: [2], detail: null },
+      { rule: "missing_module_label", severity: "warn", issues: [2], detail: null },
+    ]);
+    expect(findings.map(formatHygieneFinding)).toEqual(["missing milestone: #2", "missing module label: #2"]);
+  });
+
+  it("parses severities and thresholds from the contract and warns about bad entries", () => {
+    const config = parseHygieneConfig(
+      {
+        hygiene: {
+          rules: {
+            missing_module_label: "error",
+            stale_in_progress: { severity: "warn", max_age_days: 7 },
+            in_progress_per_assignee: { severity: "loud", max_in_progress: 0 },
+            typo_rule: "warn",
+          },
+        },
+      },
+      ".vibe/contract.yml",
+    );
+
+    const byId = new Map(config.rules.map((rule) => [rule.id, rule]));
+    expect(byId.get("missing_module_label")?.severity).toBe("error");
+    expect(byId.get("stale_in_progress")).toMatchObject({ severity: "warn", max_age_days: 7 });
+    expect(byId.get("in_progress_per_assignee")).toMatchObject({ severity: "off", max_in_progress: 2 });
+    expect(config.warnings).toEqual([
+      "hygiene rule 'in_progress_per_assignee': invalid severity 'loud' (expected off|info|warn|error)",
+      "hygiene rule 'in_progress_per_assignee': max_in_progress must be a positive integer; using 2",
+      `unknown hygiene rule 'typo_rule' (expected ${HYGIENE_RULE_IDS.join("|")})`,
+    ]);
+  });
+
+  it("flags in-progress issues without branches, stale ones and overloaded assignees", () => {
+    const rules = parseHygieneConfig(
+      {
+        hygiene: {
+          rules: {
+            missing_milestone: "off",
+            missing_module_label: "off",
+            in_progress_without_branch: "warn",
+            stale_in_progress: { severity: "error", max_age_days: 10 },
+            in_progress_per_assignee: { severity: "info", max_in_progress: 1 },
+          },
+        },
+      },
+      "contract.yml",
+    ).rules;
+    const issues = [
+      buildIssue({ number: 3, updatedAt: "2026-02-01T00:00:00Z" }),
+      buildIssue({ number: 4, assignees: ["alice", "bob"] }),
+      buildIssue({ number: 5, labels: ["status:todo"], assignees: ["bob"] }),
+    ];
+
+    const findings = evaluateHygieneRules({
+      issues,
+      rules,
+      branches: ["main", "origin/issue-3-fix", "codex/issue-5-other"],
+      now: new Date("2026-02-20T00:00:00Z"),
+    });
+
+    expect(findings.map(formatHygieneFinding)).toEqual([
+      "in-progress without branch: #4",
+      "stale in-progress (10d) [error]: #3",
+      "too many in-progress (@alice 2/1) [info]: #3, #4",
+    ]);
+    expect(selectHygieneFailures(findings, "warn").map((finding) => finding.rule)).toEqual([
+      "in_progress_without_branch",
+      "stale_in_progress",
+    ]);
+    const now = new Date("2026-02-20T00:00:00Z");
+    const withoutBranches = evaluateHygieneRules({ issues, rules, branches: null, now });
+    expect(withoutBranches.map((finding) => finding.rule)).toEqual(["stale_in_progress", "in_progress_per_assignee"]);
+  });
+
+  it("reads issue ids from local and remote branch names", () => {
+    expect([...collectBranchIssueIds(["issue-12-a", "origin/issue-13", "feature/issue-x", "reissue-14-b"])]).toEqual([
+      12, 13,
+    ]);
+  });
+});
+
+describe.sequential("loadHygieneConfig", () => {
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-hygiene-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("falls back to defaults without a contract and reads hygiene.rules when present", async () => {
+    const missing = await loadHygieneConfig(tempDir);
+    expect(missing.rules).toEqual(getDefaultHygieneRules());
+    expect(missing.warnings).toEqual([]);
+
+    mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
+    writeFileSync(path.join(tempDir, ".vibe", "contract.yml"), "hygiene:\n  rules:\n    missing_milestone: info\n");
+    const loaded = await loadHygieneConfig(tempDir);
+    expect(loaded.rules.find((rule) => rule.id === "missing_milestone")?.severity).toBe("info");
+  });
+});
@@ -1,6 +1,12 @@
 import { describe, expect, it } from "vitest";
 
-import { extractMarkdownLinks, parseBacklogMarkdown, stripMarkdownLinks } from "../src/core/parser";
+import {
+  extractMarkdownLinks,
+  parseBacklogMarkdown,
+  serializeBacklog,
+  stripMarkdownLinks,
+  type BacklogItem,
+} from "../src/core/parser";
 
 const SAMPLE_BACKLOG = `
 # Featherlist Backlog
@@ -45,3 +51,154 @@ describe("vibe backlog parser", () => {
   });
 });
 
+const REAL_WORLD_BACKLOG = `# Featherlist Backlog
+
+> Fuente de verdad del roadmap. Editar con \`vibe backlog\`.
+
+## Temática: Delivery / PR Hygiene
+
+Contexto: limpiar PRs antes del release.
+
+| ID      | Feature/Bug          | Estado  | Branch                        | PR                                                               | Notas                |
+| ------- | -------------------- | ------- | ----------------------------- | ---------------------------------------------------------------- | -------------------- |
+| OPS-001 | Consolidar PRs       | ongoing | \`codex/feat-taxonomy-colors\` | [#8](https://example.com/pr/8)                                   | Definir merge final. |
+| OPS-002 | Cerrar PRs obsoletas | next    | -                             | [#6](https://example.com/pr/6), [#7](https://example.com/pr/7) | Limpiar ramas.       |
+
+## Temática: Pendiente de tabla
+
+Sin items todavía.
+
+## Temática: Plataforma
+
+|ID|Feature/Bug|Estado|Branch|PR|Notas|
+|:--|:--|:--:|--|--|--|
+|PLT-001|Auth.js|next|-|-|Ver [spec](https://example.com/spec) y **notas**.|
+
+Notas finales con [links](https://example.com/final).
+`;
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function generateBacklog(random: () => number): string {
+  const pick = <T>(values: readonly T[]): T => values[Math.floor(random() * values.length)] as T;
+  const cells = ["-", "Auth.js", "[#3](https://example.com/3)", "`issue-3-auth`", "ongoing", "Ver **spec**.", "  padded  "];
+  const prose = ["", "Intro paragraph.", "> quote", "- bullet [link](https://example.com)", "### Subheading", "   "];
+  const eol = pick(["\n", "\r\n"]);
+  const lines: string[] = [pick(["# Backlog", "", "Backlog"])];
+  let nextId = 1;
+
+  const topicCount = 1 + Math.floor(random() * 4);
+  for (let topic = 0; topic < topicCount; topic += 1) {
+    lines.push(pick(prose), `## Temática: Topic ${topic}`, pick(prose));
+    if (random() < 0.15) continue;
+    lines.push(pick(["| ID | Feature/Bug | Estado | Branch | PR | Notas |", "|id|feature/bug|estado|branch|pr|notas|"]));
+    lines.push(pick(["| --- | --- | --- | --- | --- | --- |", "|:--|--|--|--|--|--|"]));
+    const rowCount = Math.floor(random() * 5);
+    for (let row = 0; row < rowCount; row += 1) {
+      const rowCells = [`ID-${nextId}`, pick(cells), pick(cells), pick(cells), pick(cells), pick(cells)];
+      nextId += 1;
+      lines.push(`|${rowCells.map((cell) => (random() < 0.5 ? ` ${cell} ` : cell)).join("|")}|`);
+    }
+  }
+
+  lines.push(pick(prose), "");
+  return lines.join(eol);
+}
+
+describe("vibe backlog serializer", () => {
+  it("round-trips a real-world backlog byte-for-byte", () => {
+    expect(serializeBacklog(parseBacklogMarkdown(REAL_WORLD_BACKLOG))).toBe(REAL_WORLD_BACKLOG);
+
+    const crlf = REAL_WORLD_BACKLOG.replace(/\n/g, "\r\n");
+    expect(serializeBacklog(parseBacklogMarkdown(crlf))).toBe(crlf);
+  });
+
+  it("changes only the edited cell and keeps links and alignment elsewhere", () => {
+    const parsed = parseBacklogMarkdown(REAL_WORLD_BACKLOG);
+    const item = parsed.topics[0]?.items[1] as BacklogItem;
+    item.status = "done";
+
+    const next = serializeBacklog(parsed);
+    const before = REAL_WORLD_BACKLOG.split("\n");
+    const changed = next.split("\n").filter((line, index) => line !== before[index]);
+
+    expect(changed).toEqual([
+      "| OPS-002 | Cerrar PRs obsoletas | done    | -                             | [#6](https://example.com/pr/6), [#7](https://example.com/pr/7) | Limpiar ramas.       |",
+    ]);
+  });
+
+  it("adds rows and topics, moves rows by id, and drops removed topics", () => {
+    const parsed = parseBacklogMarkdown(REAL_WORLD_BACKLOG);
+    const [delivery, pending, platform] = parsed.topics;
+    const moved = delivery?.items.shift() as BacklogItem;
+    pending?.items.push(moved);
+    platform?.items.push({ id: "PLT-002", feature: "Billing", status: "next", branch: "issue-4-billing", pr: "", notes: "" });
+    parsed.topics.push({ title: "Docs", items: [{ id: "DOC-1", feature: "Guide", status: "next", branch: "-", pr: "-", notes: "-" }] });
+
+    const next = serializeBacklog(parsed);
+    const reparsed = parseBacklogMarkdown(next);
+
+    expect(reparsed.topics.map((topic) => [topic.title, topic.items.map((entry) => entry.id)])).toEqual([
+      ["Delivery / PR Hygiene", ["OPS-002"]],
+      ["Pendiente de tabla", ["OPS-001"]],
+      ["Plataforma", ["PLT-001", "PLT-002"]],
+      ["Docs", ["DOC-1"]],
+    ]);
+    expect(next).toContain(
+      "| OPS-001 | Consolidar PRs       | ongoing | `codex/feat-taxonomy-colors` | [#8](https://example.com/pr/8)                                   | Definir merge final. |",
+    );
+    expect(next).toContain("|PLT-001|Auth.js|next|-|-|Ver [spec](https://example.com/spec) y **notas**.|");
+    expect(next).toContain("| PLT-002 | Billing | next | `issue-4-billing` | - | - |");
+    expect(next.endsWith("| DOC-1 | Guide | next | - | - | - |\n")).toBe(true);
+
+    const dropped = parseBacklogMarkdown(REAL_WORLD_BACKLOG);
+    dropped.topics.splice(1, 1);
+    const withoutPending = serializeBacklog(dropped);
+    expect(withoutPending).not.toContain("Pendiente de tabla");
+    expect(withoutPending).toContain("Sin items todavía.");
+  });
+
+  it("renders a fresh document when no source is attached", () => {
+    const markdown = serializeBacklog({
+      topics: [{ title: "Plataforma", items: [{ id: "PLT-001", feature: "Auth.js", status: "next", branch: "", pr: "", notes: "" }] }],
+    });
+
+    expect(markdown).toBe(
+      "## Temática: Plataforma\n\n| ID | Feature/Bug | Estado | Branch | PR | Notas |\n| --- | --- | --- | --- | --- | --- |\n| PLT-001 | Auth.js | next | - | - | - |\n",
+    );
+  });
+
+  it("satisfies round-trip properties over generated backlogs", () => {
+    const random = createRandom(20260218);
+
+    for (let run = 0; run < 200; run += 1) {
+      const markdown = generateBacklog(random);
+      const parsed = parseBacklogMarkdown(markdown);
+      expect(serializeBacklog(parsed)).toBe(markdown);
+
+      const items = parsed.topics.flatMap((topic) => topic.items);
+      if (!items.length) continue;
+
+      const target = items[Math.floor(random() * items.length)] as BacklogItem;
+      target.notes = `edited ${run}`;
+      const edited = serializeBacklog(parsed);
+      const beforeLines = markdown.split("\n");
+      const editedLines = edited.split("\n");
+      expect(editedLines).toHaveLength(beforeLines.length);
+      expect(editedLines.filter((line, index) => line !== beforeLines[index])).toHaveLength(1);
+
+      const reparsed = parseBacklogMarkdown(edited);
+      expect(reparsed.topics.map((topic) => topic.items)).toEqual(parsed.topics.map((topic) => topic.items));
+      expect(serializeBacklog(reparsed)).toBe(edited);
+    }
+  });
+});
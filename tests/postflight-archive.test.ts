@@ -0,0 +1,96 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  archivePostflightArtifact,
+  buildPostflightArchiveName,
+  getPostflightHistoryDir,
+  readPostflightHistory,
+} from "../src/core/postflight-archive";
+
+function buildArtifact(timestamp: string, nextAction: string, testResult: "pass" | "fail") {
+  return {
+    version: 2,
+    meta: { timestamp, actor: "agent", mode: "cli" },
+    work: { issue_id: 4, branch: "issue-4-log", base_branch: "main", changed_files: [], review_run_ids: [] },
+    checks: {
+      tests: { command: "pnpm test", result: testResult, duration_ms: 1200, log_excerpt: null },
+      lint: { command: null, result: "skipped", duration_ms: null, log_excerpt: null },
+    },
+    tracker_updates: [{ type: "comment_append", body: "Done." }],
+    next_actions: [nextAction],
+    risks: { summary: "Low risk.", rollback_plan: "Revert the PR." },
+    review_metrics: { phase_timings_ms: {} },
+  };
+}
+
+describe.sequential("postflight archive", () => {
+  let tempDir = "";
+  let artifactPath = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-postflight-archive-test-"));
+    artifactPath = path.join(tempDir, ".vibe", "artifacts", "postflight.json");
+  });
+
+  afterEach(() => {
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("names archives after the artifact timestamp under history/<issue>", () => {
+    expect(buildPostflightArchiveName("2026-02-13T10:20:30.000Z")).toBe("2026-02-13T10-20-30-000Z.json");
+    expect(getPostflightHistoryDir(artifactPath, 4)).toBe(path.join(tempDir, ".vibe", "artifacts", "history", "4"));
+  });
+
+  it("archives applied artifacts once per timestamp and reads them back oldest first", async () => {
+    await archivePostflightArtifact({
+      artifactPath,
+      issueId: "4",
+      timestamp: "2026-02-14T00:00:00.000Z",
+      artifact: buildArtifact("2026-02-14T00:00:00.000Z", "Ship the follow-up.", "pass"),
+    });
+    for (let attempt = 0; attempt < 2; attempt += 1) {
+      await archivePostflightArtifact({
+        artifactPath,
+        issueId: "4",
+        timestamp: "2026-02-13T00:00:00.000Z",
+        artifact: buildArtifact("2026-02-13T00:00:00.000Z", "Fix the flaky test.", "fail"),
+      });
+    }
+    writeFileSync(path.join(getPostflightHistoryDir(artifactPath, 4), "broken.json"), "{", "utf8");
+
+    const history = await readPostflightHistory({ artifactPath, issueId: 4 });
+
+    expect(readdirSync(getPostflightHistoryDir(artifactPath, 4))).toHaveLength(3);
+    expect(history.map((entry) => entry.next_actions)).toEqual([["Fix the flaky test."], ["Ship the follow-up."]]);
+    expect(history[0]?.checks).toEqual([
+      { name: "lint", result: "skipped", command: null },
+      { name: "tests", result: "fail", command: "pnpm test" },
+    ]);
+  });
+
+  it("reports v1 checks that did not run as skipped", async () => {
+    await archivePostflightArtifact({
+      artifactPath,
+      issueId: 4,
+      timestamp: "2026-02-10T00:00:00.000Z",
+      artifact: {
+        version: 1,
+        meta: { timestamp: "2026-02-10T00:00:00.000Z", actor: "agent", mode: "cli" },
+        work: { issue_id: 4, branch: "issue-4-log", base_branch: "main" },
+        checks: { tests: { ran: false, result: "pass" } },
+        tracker_updates: [{ type: "comment_append", body: "Done." }],
+        next_actions: ["Run the tests."],
+        risks: { summary: "Untested.", rollback_plan: "Revert." },
+      },
+    });
+
+    const history = await readPostflightHistory({ artifactPath, issueId: 4 });
+
+    expect(history[0]).toMatchObject({ version: 1, checks: [{ name: "tests", result: "skipped", command: null }] });
+    expect(await readPostflightHistory({ artifactPath, issueId: 5 })).toEqual([]);
+  });
+});
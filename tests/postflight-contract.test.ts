@@ -0,0 +1,136 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { PostflightSchema } from "../src/core/postflight";
+import {
+  evaluatePostflightContract,
+  loadPostflightContract,
+  parsePostflightContract,
+} from "../src/core/postflight-contract";
+
+function buildPostflight(overrides: Record<string, unknown> = {}) {
+  return PostflightSchema.parse({
+    version: 2,
+    meta: { timestamp: "2026-02-13T00:00:00.000Z", actor: "agent", mode: "cli" },
+    work: { issue_id: 2, branch: "issue-2-x", base_branch: "main", changed_files: ["src/a.ts"], review_run_ids: [] },
+    checks: { tests: { command: "pnpm test", result: "pass", duration_ms: 10, log_excerpt: null } },
+    tracker_updates: [
+      { type: "comment_append", body: "Done." },
+      { type: "status", to: "status:in-review" },
+    ],
+    next_actions: ["Merge when CI is green."],
+    risks: { summary: "Low risk.", rollback_plan: "Revert the PR." },
+    ...overrides,
+  });
+}
+
+const DEFAULT_REQUIRED = [
+  "tracker_update_status",
+  "tracker_append_agent_log",
+  "record_tests_result",
+  "next_actions",
+  "risks_and_rollbacks",
+];
+
+describe("postflight contract", () => {
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-postflight-contract-test-"));
+  });
+
+  afterEach(() => {
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("accepts a complete artifact under the scaffolded contract", () => {
+    const contract = parsePostflightContract({ interaction_contract: { postflight: { required: DEFAULT_REQUIRED } } }, "c");
+
+    expect(contract.warnings).toEqual([]);
+    expect(evaluatePostflightContract(buildPostflight(), contract.requirements)).toEqual([]);
+  });
+
+  it("reports each missing built-in item, including draft TODO placeholders", () => {
+    const contract = parsePostflightContract({ interaction_contract: { postflight: { required: DEFAULT_REQUIRED } } }, "c");
+    const postflight = buildPostflight({
+      checks: { tests: { command: null, result: "skipped", duration_ms: null, log_excerpt: null } },
+      tracker_updates: [{ type: "comment_append", body: "  " }],
+      next_actions: ["TODO: list follow-up actions"],
+      risks: { summary: "Low risk.", rollback_plan: "TODO: describe rollback plan" },
+    });
+
+    expect(evaluatePostflightContract(postflight, contract.requirements)).toEqual([
+      {
+        id: "tracker_update_status",
+        severity: "error",
+        message: "tracker_updates has no status change (status, project_field_set, issue_close or issue_reopen)",
+      },
+      { id: "tracker_append_agent_log", severity: "error", message: "tracker_updates has no comment_append with a body" },
+      { id: "record_tests_result", severity: "error", message: "checks.tests has no result (result=skipped)" },
+      { id: "next_actions", severity: "error", message: "next_actions is empty or still a TODO placeholder" },
+      {
+        id: "risks_and_rollbacks",
+        severity: "error",
+        message: "risks.rollback_plan is empty or still a TODO placeholder",
+      },
+    ]);
+  });
+
+  it("supports custom items with path, check and update, and per-item severity", () => {
+    const contract = parsePostflightContract(
+      {
+        interaction_contract: {
+          postflight: {
+            required: [
+              { id: "record_tests_result", severity: "warn" },
+              { id: "changed_files", path: "work.changed_files" },
+              { id: "review_metrics", path: "review_metrics", description: "run vibe review first" },
+              { id: "lint", check: "lint", severity: "warn" },
+              { id: "pr_linked", update: "link_pr" },
+              { id: "typo", severity: "fatal", path: "work.branch" },
+              "made_up_item",
+              42,
+            ],
+          },
+        },
+      },
+      "c",
+    );
+    const postflight = buildPostflight({
+      checks: { tests: { command: null, result: "skipped", duration_ms: null, log_excerpt: null } },
+    });
+
+    expect(contract.warnings).toEqual([
+      "required item 'typo': invalid severity 'fatal' (expected error|warn); using error",
+      "required item 'made_up_item' is not built in and has no path/check/update; skipped",
+      "ignoring required item 42: expected a name or an object with an id",
+    ]);
+    expect(evaluatePostflightContract(postflight, contract.requirements, { ...postflight, review_metrics: {} })).toEqual([
+      { id: "record_tests_result", severity: "warn", message: "checks.tests has no result (result=skipped)" },
+      { id: "lint", severity: "warn", message: "checks.lint is missing" },
+      { id: "pr_linked", severity: "error", message: "tracker_updates has no link_pr update" },
+    ]);
+    expect(evaluatePostflightContract(postflight, contract.requirements)).toContainEqual({
+      id: "review_metrics",
+      severity: "error",
+      message: "review_metrics is missing or empty (run vibe review first)",
+    });
+  });
+
+  it("enforces nothing without a contract file", async () => {
+    const missing = await loadPostflightContract(tempDir);
+    expect(missing).toMatchObject({ found: false, requirements: [] });
+
+    mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
+    writeFileSync(
+      path.join(tempDir, ".vibe", "contract.yml"),
+      "interaction_contract:\n  postflight:\n    required:\n      - next_actions\n",
+      "utf8",
+    );
+    const loaded = await loadPostflightContract(tempDir);
+    expect(loaded.requirements).toEqual([{ id: "next_actions", severity: "error" }]);
+  });
+});
@@ -0,0 +1,195 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildPostflightDraft, parseReviewRunLog, resolvePostflightTestCommand } from "../src/core/postflight-draft";
+import type { TurnContext } from "../src/core/turn";
+
+const TURN: TurnContext = {
+  issue_id: 42,
+  branch: "issue-42-draft",
+  base_branch: "main",
+  started_at: "2026-10-01T10:00:00.000Z",
+  issue_title: "Draft postflight",
+};
+
+function writeSecurityScan(root: string, scannedAt: string, status: string): void {
+  mkdirSync(path.join(root, ".vibe", "runtime"), { recursive: true });
+  writeFileSync(
+    path.join(root, ".vibe", "runtime", "security-scan.json"),
+    `${JSON.stringify({
+      version: 1,
+      scanned_at: scannedAt,
+      mode: "staged",
+      policy: "warn",
+      status,
+      findings_detected: status === "findings",
+      gitleaks_available: true,
+      command: "gitleaks git --staged --no-banner --redact",
+      detail: null,
+    })}\n`,
+    "utf8",
+  );
+}
+
+function writeReviewLog(root: string, pass: string, runs: Array<{ runId: string; findings: number; summary: string }>): void {
+  const directory = path.join(root, ".vibe", "reviews", String(TURN.issue_id));
+  mkdirSync(directory, { recursive: true });
+  const sections = runs.map((run) =>
+    [
+      "",
+      "## Run 2026-10-01T11:00:00.000Z",
+      `- run_id: ${run.runId}`,
+      "- attempt: 1/5",
+      `- findings: ${run.findings}`,
+      "- autofix_applied: no",
+      "",
+      "### Summary",
+      run.summary,
+      "",
+      "### Findings",
+      "- none",
+    ].join("\n"),
+  );
+  writeFileSync(path.join(directory, `${pass}.md`), `# ${pass}\n${sections.join("\n")}\n`, "utf8");
+}
+
+function gitMock(changedFiles: string[]) {
+  return vi.fn(async (cmd: string, args: string[]) => {
+    if (cmd === "git" && args[0] === "rev-parse") return { stdout: "abc123" };
+    if (cmd === "git" && args[0] === "diff") return { stdout: changedFiles.join("\n") };
+    if (cmd === "sh") return { stdout: "1 passed\n", stderr: "", exitCode: 0 };
+    throw new Error(`unexpected command: ${cmd} ${args.join(" ")}`);
+  });
+}
+
+describe.sequential("postflight draft", () => {
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-postflight-draft-test-"));
+  });
+
+  afterEach(() => {
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("parses run ids, findings and summaries from review run logs", () => {
+    const runs = parseReviewRunLog(
+      "security",
+      [
+        "# Security Pass",
+        "## Run 2026-10-01T11:00:00.000Z",
+        "- run_id: run-1",
+        "- findings: 2",
+        "",
+        "### Summary",
+        "Two issues found.",
+        "",
+        "### Findings",
+        "- [P1] something",
+        "## Run 2026-10-01T12:00:00.000Z",
+        "- run_id: run-2",
+        "",
+        "### Summary",
+        "Clean.",
+      ].join("\n"),
+    );
+
+    expect(runs).toEqual([
+      { pass: "security", runId: "run-1", findings: 2, summary: "Two issues found." },
+      { pass: "security", runId: "run-2", findings: null, summary: "Clean." },
+    ]);
+  });
+
+  it("reads the test command from the contract", async () => {
+    expect(await resolvePostflightTestCommand(tempDir)).toBeNull();
+
+    mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
+    writeFileSync(path.join(tempDir, ".vibe", "contract.yml"), "version: 1\npostflight:\n  test_command: pnpm test\n", "utf8");
+
+    expect(await resolvePostflightTestCommand(tempDir)).toBe("pnpm test");
+  });
+
+  it("builds a v2 artifact from changed files, the security scan and review runs", async () => {
+    writeSecurityScan(tempDir, "2026-10-01T12:00:00.000Z", "pass");
+    writeReviewLog(tempDir, "implementation", [
+      { runId: "run-1", findings: 3, summary: "Needs fixes." },
+      { runId: "run-2", findings: 0, summary: "Looks good." },
+    ]);
+    writeReviewLog(tempDir, "security", [{ runId: "run-2", findings: 0, summary: "No secrets." }]);
+    const execaMock = gitMock(["src/a.ts", "tests/a.test.ts"]);
+
+    const draft = await buildPostflightDraft({
+      execaFn: execaMock as never,
+      turn: TURN,
+      now: "2026-10-01T13:00:00.000Z",
+      cwd: tempDir,
+    });
+
+    expect(draft.warnings).toEqual([]);
+    expect(draft.postflight).toMatchObject({
+      version: 2,
+      meta: { timestamp: "2026-10-01T13:00:00.000Z", actor: "agent", mode: "cli" },
+      work: {
+        issue_id: 42,
+        branch: "issue-42-draft",
+        base_branch: "main",
+        changed_files: ["src/a.ts", "tests/a.test.ts"],
+        review_run_ids: ["run-1", "run-2"],
+      },
+      checks: {
+        tests: { command: null, result: "skipped", duration_ms: null, log_excerpt: null },
+        security_scan: { command: "gitleaks git --staged --no-banner --redact", result: "pass" },
+      },
+    });
+    expect(draft.postflight.tracker_updates[0]?.body).toContain("Review (run run-2):");
+    expect(draft.postflight.tracker_updates[0]?.body).toContain("- security [0 findings]: No secrets.");
+    expect(draft.postflight.tracker_updates[0]?.body).not.toContain("Needs fixes.");
+    expect(execaMock.mock.calls.some(([cmd]) => cmd === "sh")).toBe(false);
+  });
+
+  it("runs the test command and reports stale scans and missing reviews", async () => {
+    writeSecurityScan(tempDir, "2026-09-30T12:00:00.000Z", "pass");
+    const execaMock = gitMock([]);
+
+    const draft = await buildPostflightDraft({
+      execaFn: execaMock as never,
+      turn: TURN,
+      runTests: true,
+      testCommand: "pnpm test",
+      cwd: tempDir,
+    });
+
+    expect(draft.testCommandSource).toBe("flag");
+    expect(draft.postflight.checks.tests).toMatchObject({ command: "pnpm test", result: "pass", log_excerpt: "1 passed" });
+    expect(draft.postflight.checks.security_scan?.result).toBe("skipped");
+    expect(draft.warnings).toEqual([
+      "no changed files found between main and issue-42-draft",
+      "security scan predates the turn (2026-09-30T12:00:00.000Z); run: node dist/cli.cjs security scan --mode staged",
+      "no review runs recorded for #42; run: node dist/cli.cjs review --issue 42",
+    ]);
+    expect(execaMock).toHaveBeenCalledWith("sh", ["-c", "pnpm test"], { stdio: "pipe", reject: false });
+  });
+
+  it("records a failing test command", async () => {
+    mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
+    writeFileSync(path.join(tempDir, ".vibe", "contract.yml"), "postflight:\n  test_command: npm test\n", "utf8");
+    const execaMock = vi.fn(async (cmd: string, args: string[]) => {
+      if (cmd === "sh") return { stdout: "", stderr: "FAIL tests/a.test.ts", exitCode: 1 };
+      if (args[0] === "diff") return { stdout: "src/a.ts" };
+      return { stdout: "abc123" };
+    });
+
+    const draft = await buildPostflightDraft({ execaFn: execaMock as never, turn: TURN, runTests: true, cwd: tempDir });
+
+    expect(draft.testCommandSource).toBe("contract");
+    expect(draft.postflight.checks.tests).toMatchObject({
+      command: "npm test",
+      result: "fail",
+      log_excerpt: "FAIL tests/a.test.ts",
+    });
+  });
+});
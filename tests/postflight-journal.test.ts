@@ -0,0 +1,292 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  buildPostflightArtifactId,
+  buildTrackerUndoArgs,
+  getPostflightJournalPath,
+  readPostflightJournal,
+  rollbackPostflightJournal,
+  runJournaledGhStep,
+} from "../src/core/postflight-journal";
+import { createGitHubTrackerBackend, createLocalTrackerBackend, getLocalTrackerDir } from "../src/core/tracker-backend";
+
+const ISSUE_VIEW_ARGS = ["issue", "view", "2", "--json", "number,title,state,labels,milestone,updatedAt,url,assignees"];
+
+describe.sequential("postflight apply journal", () => {
+  let tempDir = "";
+  let artifactPath = "";
+  const artifactId = buildPostflightArtifactId({ issueId: "2", branch: "issue-2-x", timestamp: "2026-10-01T00:00:00Z" });
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-postflight-journal-test-"));
+    artifactPath = path.join(tempDir, "postflight.json");
+  });
+
+  afterEach(() => {
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("derives undo commands for reversible tracker operations only", () => {
+    expect(buildTrackerUndoArgs(["issue", "edit", "2", "--add-label", "status:done"])).toEqual([
+      "issue",
+      "edit",
+      "2",
+      "--remove-label",
+      "status:done",
+    ]);
+    expect(buildTrackerUndoArgs(["issue", "edit", "2", "--remove-assignee", "hubot"])).toEqual([
+      "issue",
+      "edit",
+      "2",
+      "--add-assignee",
+      "hubot",
+    ]);
+    expect(buildTrackerUndoArgs(["issue", "close", "2", "--comment", "Done"])).toEqual(["issue", "reopen", "2"]);
+    const v1 = { state: "OPEN" as const, labels: [], assignees: [], milestone: "v1" };
+    expect(buildTrackerUndoArgs(["issue", "edit", "2", "--milestone", "v2"], v1)).toEqual([
+      "issue",
+      "edit",
+      "2",
+      "--milestone",
+      "v1",
+    ]);
+    expect(buildTrackerUndoArgs(["issue", "edit", "2", "--milestone", "v2"])).toEqual([
+      "issue",
+      "edit",
+      "2",
+      "--remove-milestone",
+    ]);
+    expect(buildTrackerUndoArgs(["issue", "comment", "2", "--body", "Done"])).toBeNull();
+    expect(buildTrackerUndoArgs(["project", "item-edit", "--id", "PVTI_1"])).toBeNull();
+  });
+
+  it("only undoes what a step changed given the issue's previous state", () => {
+    const previous = { state: "CLOSED" as const, labels: ["Bug"], assignees: ["hubot"], milestone: "v1" };
+
+    expect(buildTrackerUndoArgs(["issue", "edit", "2", "--add-label", "bug"], previous)).toBeNull();
+    expect(buildTrackerUndoArgs(["issue", "edit", "2", "--add-label", "bug,status:done"], previous)).toEqual([
+      "issue",
+      "edit",
+      "2",
+      "--remove-label",
+      "status:done",
+    ]);
+    expect(buildTrackerUndoArgs(["issue", "edit", "2", "--remove-label", "status:done"], previous)).toBeNull();
+    expect(buildTrackerUndoArgs(["issue", "edit", "2", "--add-assignee", "hubot"], previous)).toBeNull();
+    expect(buildTrackerUndoArgs(["issue", "edit", "2", "--milestone", "v1"], previous)).toBeNull();
+    expect(buildTrackerUndoArgs(["issue", "close", "2"], previous)).toBeNull();
+    expect(buildTrackerUndoArgs(["issue", "reopen", "2"], previous)).toEqual(["issue", "close", "2"]);
+    expect(buildTrackerUndoArgs(["issue", "reopen", "2"], { ...previous, state: "OPEN" })).toBeNull();
+  });
+
+  it("records failed steps and skips completed ones on re-run", async () => {
+    let failLabel = true;
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[3] === "--add-label" && failLabel) throw new Error("HTTP 502");
+      if (args[1] === "view") {
+        return { stdout: JSON.stringify({ number: 2, title: "x", state: "OPEN", labels: [], assignees: [] }) };
+      }
+      return { stdout: "" };
+    });
+    const backend = createGitHubTrackerBackend(execaMock as never);
+    const comment = ["issue", "comment", "2", "--body", "Done."];
+    const label = ["issue", "edit", "2", "--add-label", "status:done"];
+
+    const journal = await readPostflightJournal({ artifactPath, artifactId, issueId: "2" });
+    await runJournaledGhStep({
+      execaFn: execaMock as never,
+      backend,
+      artifactPath,
+      journal,
+      args: comment,
+      dryRun: false,
+    });
+    await expect(
+      runJournaledGhStep({ execaFn: execaMock as never, backend, artifactPath, journal, args: label, dryRun: false }),
+    ).rejects.toThrow("HTTP 502");
+
+    const persisted = JSON.parse(readFileSync(getPostflightJournalPath(artifactPath), "utf8"));
+    expect(persisted.steps.map((step: { status: string }) => step.status)).toEqual(["done", "failed"]);
+
+    failLabel = false;
+    execaMock.mockClear();
+    const resumed = await readPostflightJournal({ artifactPath, artifactId, issueId: "2" });
+    const first = await runJournaledGhStep({
+      execaFn: execaMock as never,
+      backend,
+      artifactPath,
+      journal: resumed,
+      args: comment,
+      dryRun: false,
+    });
+    const second = await runJournaledGhStep({
+      execaFn: execaMock as never,
+      backend,
+      artifactPath,
+      journal: resumed,
+      args: label,
+      dryRun: false,
+    });
+
+    expect([first.outcome, second.outcome]).toEqual(["skipped", "applied"]);
+    expect(execaMock.mock.calls.map(([, args]) => args)).toEqual([
+      ISSUE_VIEW_ARGS,
+      label,
+    ]);
+    expect(resumed.steps[1]).toMatchObject({
+      status: "done",
+      changed: true,
+      undo: ["issue", "edit", "2", "--remove-label", "status:done"],
+    });
+  });
+
+  it("starts a fresh journal for a different artifact", async () => {
+    const execaMock = vi.fn(async () => ({ stdout: "" }));
+    const backend = createGitHubTrackerBackend(execaMock as never);
+    const journal = await readPostflightJournal({ artifactPath, artifactId, issueId: "2" });
+    await runJournaledGhStep({
+      execaFn: execaMock as never,
+      backend,
+      artifactPath,
+      journal,
+      args: ["issue", "comment", "2", "--body", "Done."],
+      dryRun: false,
+    });
+
+    const otherId = buildPostflightArtifactId({ issueId: "2", branch: "issue-2-x", timestamp: "2026-10-02T00:00:00Z" });
+    const other = await readPostflightJournal({ artifactPath, artifactId: otherId, issueId: "2" });
+
+    expect(other.steps).toEqual([]);
+  });
+
+  it("does not touch gh or the journal under dry-run", async () => {
+    const execaMock = vi.fn(async () => ({ stdout: "" }));
+    const backend = createGitHubTrackerBackend(execaMock as never);
+    const journal = await readPostflightJournal({ artifactPath, artifactId, issueId: "2" });
+
+    const result = await runJournaledGhStep({
+      execaFn: execaMock as never,
+      backend,
+      artifactPath,
+      journal,
+      args: ["issue", "close", "2"],
+      dryRun: true,
+    });
+
+    expect(result.outcome).toBe("planned");
+    expect(execaMock).not.toHaveBeenCalled();
+    expect(existsSync(getPostflightJournalPath(artifactPath))).toBe(false);
+  });
+
+  it("rolls back reversible steps newest first and restores the previous milestone", async () => {
+    const issue = { number: 2, title: "x", state: "OPEN", labels: [], assignees: [], milestone: { title: "v1" } };
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[1] === "view") return { stdout: JSON.stringify(issue) };
+      return { stdout: "" };
+    });
+    const backend = createGitHubTrackerBackend(execaMock as never);
+    const journal = await readPostflightJournal({ artifactPath, artifactId, issueId: "2" });
+    for (const args of [
+      ["issue", "edit", "2", "--add-label", "status:done"],
+      ["issue", "comment", "2", "--body", "Done."],
+      ["issue", "edit", "2", "--milestone", "v2"],
+    ]) {
+      await runJournaledGhStep({ execaFn: execaMock as never, backend, artifactPath, journal, args, dryRun: false });
+    }
+    execaMock.mockClear();
+
+    const result = await rollbackPostflightJournal({ backend, artifactPath, journal, dryRun: false });
+
+    expect(result.reverted.map((step) => step.args[3])).toEqual(["--milestone", "--add-label"]);
+    expect(result.irreversible.map((step) => step.args[1])).toEqual(["comment"]);
+    expect(execaMock.mock.calls.map(([, args]) => args)).toEqual([
+      ["issue", "edit", "2", "--milestone", "v1"],
+      ["issue", "edit", "2", "--remove-label", "status:done"],
+    ]);
+    const persisted = await readPostflightJournal({ artifactPath, artifactId, issueId: "2" });
+    expect(persisted.steps.map((step) => step.status)).toEqual(["rolled_back", "done", "rolled_back"]);
+  });
+
+  it("leaves a label the issue already had and an issue that was already closed alone on rollback", async () => {
+    const issue = {
+      number: 2,
+      title: "x",
+      state: "CLOSED",
+      labels: [{ name: "status:done" }],
+      assignees: [],
+      milestone: null,
+    };
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[1] === "view") return { stdout: JSON.stringify(issue) };
+      return { stdout: "" };
+    });
+    const backend = createGitHubTrackerBackend(execaMock as never);
+    const journal = await readPostflightJournal({ artifactPath, artifactId, issueId: "2" });
+    for (const args of [
+      ["issue", "edit", "2", "--add-label", "status:done"],
+      ["issue", "close", "2"],
+    ]) {
+      await runJournaledGhStep({ execaFn: execaMock as never, backend, artifactPath, journal, args, dryRun: false });
+    }
+    expect(journal.steps.map((step) => [step.changed, step.undo])).toEqual([
+      [false, null],
+      [false, null],
+    ]);
+    execaMock.mockClear();
+
+    const result = await rollbackPostflightJournal({ backend, artifactPath, journal, dryRun: false });
+
+    expect(result.reverted).toEqual([]);
+    expect(result.irreversible).toEqual([]);
+    expect(result.unchanged.map((step) => step.args[1])).toEqual(["close", "edit"]);
+    expect(execaMock).not.toHaveBeenCalled();
+  });
+
+  it("journals and rolls back the same commands against the local tracker", async () => {
+    const issuesDir = path.join(getLocalTrackerDir(tempDir), "issues");
+    mkdirSync(issuesDir, { recursive: true });
+    const issuePath = path.join(issuesDir, "2.json");
+    writeFileSync(
+      issuePath,
+      JSON.stringify({
+        number: 2,
+        title: "x",
+        state: "OPEN",
+        labels: ["status:in-progress"],
+        created_at: "2026-10-01T00:00:00.000Z",
+        updated_at: "2026-10-01T00:00:00.000Z",
+      }),
+    );
+    const execaMock = vi.fn();
+    const backend = createLocalTrackerBackend({ cwd: tempDir });
+    const journal = await readPostflightJournal({ artifactPath, artifactId, issueId: "2" });
+    for (const args of [
+      ["issue", "edit", "2", "--remove-label", "status:in-progress"],
+      ["issue", "edit", "2", "--add-label", "status:done"],
+      ["issue", "comment", "2", "--body", "Linked PR: #7"],
+      ["issue", "close", "2", "--comment", "Shipped."],
+    ]) {
+      await runJournaledGhStep({ execaFn: execaMock as never, backend, artifactPath, journal, args, dryRun: false });
+    }
+    expect(JSON.parse(readFileSync(issuePath, "utf8"))).toMatchObject({
+      state: "CLOSED",
+      labels: ["status:done"],
+      linked_prs: [7],
+    });
+
+    const result = await rollbackPostflightJournal({ backend, artifactPath, journal, dryRun: false });
+
+    expect(result.reverted.map((step) => step.undo)).toEqual([
+      ["issue", "reopen", "2"],
+      ["issue", "edit", "2", "--remove-label", "status:done"],
+      ["issue", "edit", "2", "--add-label", "status:in-progress"],
+    ]);
+    expect(execaMock).not.toHaveBeenCalled();
+    const reverted = JSON.parse(readFileSync(issuePath, "utf8"));
+    expect(reverted).toMatchObject({ state: "OPEN", labels: ["status:in-progress"] });
+  });
+});
@@ -1,11 +1,17 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 
 import {
   appendIssueAutocloseReference,
+  buildProjectItemEditArgs,
   buildTrackerCommands,
   collectLinkedPrNumbers,
+  collectProjectFieldUpdates,
+  migratePostflightToV2,
   normalizeGitHubIssueId,
+  planProjectFieldSet,
+  PostflightSchema,
   PostflightSchemaV1,
+  PostflightSchemaV2,
 } from "../src/core/postflight";
 
 const BASE_POSTFLIGHT = {
@@ -60,6 +66,115 @@ describe("postflight schema and apply commands", () => {
     expect(cmdsWithoutComment).toEqual([{ cmd: "gh", args: ["issue", "close", "2"] }]);
   });
 
+  it("builds reopen, assignee and milestone commands", () => {
+    const cmds = buildTrackerCommands("2", [
+      { type: "issue_reopen", body: "Regression found." },
+      { type: "issue_reopen" },
+      { type: "assignee_add", assignee: "octocat" },
+      { type: "assignee_remove", assignee: "hubot" },
+      { type: "assignee_add", assignee: " " },
+      { type: "milestone_set", milestone: "v1.2" },
+      { type: "project_field_set", project_number: 3, field: "Status", value: "In review" },
+    ]);
+
+    expect(cmds.map((command) => command.args)).toEqual([
+      ["issue", "reopen", "2", "--comment", "Regression found."],
+      ["issue", "reopen", "2"],
+      ["issue", "edit", "2", "--add-assignee", "octocat"],
+      ["issue", "edit", "2", "--remove-assignee", "hubot"],
+      ["issue", "edit", "2", "--milestone", "v1.2"],
+    ]);
+  });
+
+  it("collects project_field_set updates", () => {
+    const updates = collectProjectFieldUpdates([
+      { type: "project_field_set", project_number: 3, field: "Status", value: "In review" },
+      { type: "label_add", label: "status:done" },
+    ]);
+
+    expect(updates).toEqual([{ type: "project_field_set", project_number: 3, field: "Status", value: "In review" }]);
+  });
+
+  it("rejects project_field_set updates without a project number, field or value", () => {
+    const withUpdates = (update: Record<string, unknown>) => ({ ...BASE_POSTFLIGHT, tracker_updates: [update] });
+    const complete = { type: "project_field_set", project_number: 3, field: "Status", value: "Done" };
+
+    expect(PostflightSchema.safeParse(withUpdates(complete)).success).toBe(true);
+    expect(PostflightSchema.safeParse(withUpdates({ ...complete, project_number: undefined })).success).toBe(false);
+    expect(PostflightSchema.safeParse(withUpdates({ ...complete, field: null })).success).toBe(false);
+    expect(PostflightSchema.safeParse(withUpdates({ ...complete, value: " " })).success).toBe(false);
+  });
+
+  it("resolves project, field, option and item ids for project_field_set", async () => {
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      if (args[1] === "view" && args[0] === "project") return { stdout: JSON.stringify({ id: "PVT_1", number: 3 }) };
+      if (args[1] === "field-list") {
+        return {
+          stdout: JSON.stringify({
+            fields: [
+              { id: "PVTF_title", name: "Title", type: "ProjectV2Field" },
+              {
+                id: "PVTSSF_status",
+                name: "Status",
+                type: "ProjectV2SingleSelectField",
+                options: [
+                  { id: "opt-todo", name: "Todo" },
+                  { id: "opt-review", name: "In review" },
+                ],
+              },
+            ],
+          }),
+        };
+      }
+      if (args[0] === "issue") return { stdout: "https://github.com/acme/demo/issues/2\n" };
+      if (args[1] === "item-list") {
+        return {
+          stdout: JSON.stringify({
+            items: [
+              { id: "PVTI_other", content: { url: "https://github.com/acme/other/issues/2" } },
+              { id: "PVTI_2", content: { url: "https://github.com/acme/demo/issues/2" } },
+            ],
+          }),
+        };
+      }
+      throw new Error(`unexpected gh ${args.join(" ")}`);
+    });
+
+    const plan = await planProjectFieldSet(execaMock as never, "2", {
+      type: "project_field_set",
+      project_number: 3,
+      project_owner: "acme",
+      field: "status",
+      value: "in review",
+    });
+
+    expect(plan).toMatchObject({ projectId: "PVT_1", fieldId: "PVTSSF_status", itemId: "PVTI_2", owner: "acme" });
+    expect(buildProjectItemEditArgs(plan, "PVTI_2")).toEqual([
+      "project",
+      "item-edit",
+      "--id",
+      "PVTI_2",
+      "--project-id",
+      "PVT_1",
+      "--field-id",
+      "PVTSSF_status",
+      "--single-select-option-id",
+      "opt-review",
+    ]);
+    expect(execaMock).toHaveBeenCalledWith("gh", ["project", "view", "3", "--owner", "acme", "--format", "json"], {
+      stdio: "pipe",
+    });
+
+    await expect(
+      planProjectFieldSet(execaMock as never, "2", {
+        type: "project_field_set",
+        project_number: 3,
+        field: "Status",
+        value: "Shipped",
+      }),
+    ).rejects.toThrow("project field 'Status' has no option 'Shipped' (available: Todo, In review)");
+  });
+
   it("normalizes only numeric GitHub issue ids", () => {
     expect(normalizeGitHubIssueId(2)).toBe("2");
     expect(normalizeGitHubIssueId("002")).toBe("002");
@@ -89,4 +204,58 @@ describe("postflight schema and apply commands", () => {
     const nextBody = appendIssueAutocloseReference(body, "2");
     expect(nextBody).toBe(body);
   });
+
+  it("accepts v2 artifacts with named checks, changed files and review run ids", () => {
+    const check = { command: "pnpm test", result: "pass" as const, duration_ms: 5300, log_excerpt: "Tests 12 passed" };
+    const v2 = {
+      ...BASE_POSTFLIGHT,
+      version: 2,
+      work: { ...BASE_POSTFLIGHT.work, changed_files: ["src/a.ts"], review_run_ids: ["run-1"] },
+      checks: {
+        lint: { ...check, command: null, result: "skipped" as const, duration_ms: null, log_excerpt: null },
+        typecheck: check,
+        tests: check,
+        security_scan: check,
+        e2e: check,
+      },
+      tracker_updates: [{ type: "comment_append", body: "Done." }],
+    };
+
+    expect(PostflightSchemaV2.safeParse(v2).success).toBe(true);
+    expect(PostflightSchema.safeParse(v2).success).toBe(true);
+    expect(PostflightSchema.safeParse({ ...v2, checks: {} }).success).toBe(false);
+    expect(PostflightSchema.safeParse({ ...v2, checks: { tests: { result: "pass" } } }).success).toBe(false);
+    expect(PostflightSchema.safeParse({ ...v2, work: BASE_POSTFLIGHT.work }).success).toBe(false);
+  });
+
+  it("migrates v1 artifacts to v2 keeping unknown keys and key order", () => {
+    const v1 = {
+      ...BASE_POSTFLIGHT,
+      checks: {
+        tests: { ran: false, command: "pnpm test", result: "pass" as const },
+        security: { ran: true, result: "pass" as const },
+        notes: "free text",
+      },
+      tracker_updates: [{ type: "comment_append", body: "Done." }],
+      review_metrics: { phase_timings_ms: {} },
+    };
+
+    const migration = migratePostflightToV2(v1);
+    expect(migration.from).toBe(1);
+    expect(migration.warnings).toEqual(["checks.notes: not a v1 check entry; dropped."]);
+    expect(Object.keys(migration.postflight)).toEqual(Object.keys(v1));
+    expect(migration.postflight).toMatchObject({
+      version: 2,
+      work: { issue_id: 2, changed_files: [], review_run_ids: [] },
+      checks: {
+        tests: { command: "pnpm test", result: "skipped", duration_ms: null, log_excerpt: null },
+        security: { command: null, result: "pass", duration_ms: null, log_excerpt: null },
+      },
+      review_metrics: { phase_timings_ms: {} },
+    });
+    expect(PostflightSchemaV2.safeParse(migration.postflight).success).toBe(true);
+
+    expect(migratePostflightToV2(migration.postflight).from).toBe(2);
+    expect(() => migratePostflightToV2({ version: 1 })).toThrow("not a valid v1/v2 document");
+  });
 });
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { evaluateHygieneRules, getDefaultHygieneRules } from "../src/core/hygiene";
+import {
+  buildCachedTrackerSnapshot,
+  buildMilestoneSuggestions,
+  buildTrackerSnapshot,
+  buildUnavailableTrackerSnapshot,
+  renderPreflightSnapshot,
+  renderStatusSnapshot,
+  SNAPSHOT_SCHEMA_VERSION,
+  type PreflightSnapshot,
+  type SnapshotIssue,
+  type StatusSnapshot,
+} from "../src/core/snapshot";
+
+function buildIssue(overrides: Partial<SnapshotIssue> = {}): SnapshotIssue {
+  return {
+    number: 7,
+    title: "feat: snapshot model",
+    state: "OPEN",
+    labels: ["status:in-progress", "module:cli"],
+    milestone: "CLI usable",
+    updatedAt: "2026-02-16T13:00:00Z",
+    url: "https://example.test/issues/7",
+    assignees: [],
+    ...overrides,
+  };
+}
+
+describe("snapshot model", () => {
+  it("derives in-progress issues from open issues and keeps the hygiene findings", () => {
+    const issues = [buildIssue(), buildIssue({ number: 8, labels: ["bug"], milestone: null })];
+    const findings = evaluateHygieneRules({ issues, rules: getDefaultHygieneRules() });
+    const tracker = buildTrackerSnapshot(issues, { findings, warnings: [] });
+
+    expect(tracker.available).toBe(true);
+    expect(tracker.in_progress.map((issue) => issue.number)).toEqual([7]);
+    expect(tracker.hygiene?.findings.map((finding) => [finding.rule, finding.issues])).toEqual([
+      ["missing_milestone", [8]],
+      ["missing_module_label", [8]],
+    ]);
+  });
+
+  it("keeps the gh error message when the tracker is unavailable", () => {
+    expect(buildUnavailableTrackerSnapshot(new Error("gh: not logged in"))).toEqual({
+      available: false,
+      source: null,
+      stale_since: null,
+      error: "gh: not logged in",
+      open_issues: [],
+      in_progress: [],
+      hygiene: null,
+    });
+    expect(buildUnavailableTrackerSnapshot("boom").error).toBeNull();
+  });
+
+  it("skips milestone suggestions when every issue has a milestone", () => {
+    expect(buildMilestoneSuggestions([buildIssue()])).toBeNull();
+    const unplanned = buildIssue({ number: 50, title: "retry hardening", labels: ["module:billing"], milestone: null });
+    expect(buildMilestoneSuggestions([unplanned])).toEqual([
+      { issue: 50, milestone: "Billing: Retry Hardening", source: "generated" },
+    ]);
+  });
+
+  it("renders status text from the model", () => {
+    const snapshot: StatusSnapshot = {
+      schema_version: SNAPSHOT_SCHEMA_VERSION,
+      kind: "status",
+      generated_at: "2026-02-16T00:00:00.000Z",
+      git: { available: true, output: "## main", branch: "main" },
+      active_turn: { state: "invalid", errors: ["branch is required"] },
+      tracker: buildTrackerSnapshot([buildIssue()], { findings: [], warnings: [] }),
+      active_issue: null,
+      branch_prs: { available: true, pull_requests: [] },
+    };
+
+    expect(renderStatusSnapshot(snapshot)).toEqual([
+      "## main",
+      "\nActive turn: invalid (branch is required)",
+      "Run: node dist/cli.cjs turn doctor",
+      "\nIn-progress issues:",
+      "7\tOPEN\tfeat: snapshot model\tstatus:in-progress, module:cli\t2026-02-16T13:00:00Z",
+      "\nTracker hygiene warnings:",
+      "none",
+      "\nBranch PRs:",
+      "none",
+    ]);
+  });
+
+  it("renders cached issues with a stale note when gh is unavailable", () => {
+    const snapshot: StatusSnapshot = {
+      schema_version: SNAPSHOT_SCHEMA_VERSION,
+      kind: "status",
+      generated_at: "2026-02-16T00:00:00.000Z",
+      git: { available: true, output: "## main", branch: "main" },
+      active_turn: { state: "none" },
+      tracker: buildCachedTrackerSnapshot({
+        issues: [buildIssue()],
+        refreshedAt: "2026-02-15T08:00:00.000Z",
+        hygiene: { findings: [], warnings: [] },
+        error: new Error("error connecting to api.github.com"),
+      }),
+      active_issue: null,
+      branch_prs: null,
+    };
+
+    expect(snapshot.tracker).toMatchObject({ source: "cache", stale_since: "2026-02-15T08:00:00.000Z" });
+    expect(renderStatusSnapshot(snapshot)).toEqual([
+      "## main",
+      "\nActive turn: none",
+      "\nTracker snapshot: unavailable (gh issue list failed)",
+      "error connecting to api.github.com",
+      "Using tracker cache (stale since 2026-02-15T08:00:00.000Z)",
+      "\nIn-progress issues:",
+      "7\tOPEN\tfeat: snapshot model\tstatus:in-progress, module:cli\t2026-02-16T13:00:00Z",
+      "\nTracker hygiene warnings:",
+      "none",
+    ]);
+  });
+
+  it("renders preflight text from the model", () => {
+    const snapshot: PreflightSnapshot = {
+      schema_version: SNAPSHOT_SCHEMA_VERSION,
+      kind: "preflight",
+      generated_at: "2026-02-16T00:00:00.000Z",
+      git: { available: false, output: null, branch: null },
+      tracker: buildUnavailableTrackerSnapshot(new Error("offline")),
+      milestone_suggestions: null,
+      security: { available: false, error: "probe failed" },
+      tracker_bootstrap_suggested: false,
+      update_notice: { package_name: "vibe-backlog", current_version: "0.1.0", latest_version: "0.2.0" },
+    };
+
+    expect(renderPreflightSnapshot(snapshot)).toEqual([
+      "git status: (not available)",
+      "\nOpen issues: (gh issue list not available here)",
+      "offline",
+      "\nSecurity scan: unavailable",
+      "probe failed",
+      "\nTool update available:",
+      "vibe-backlog: 0.1.0 -> 0.2.0",
+      "Run: node dist/cli.cjs self update",
+    ]);
+  });
+});
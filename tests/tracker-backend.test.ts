@@ -0,0 +1,174 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildTrackerCommands } from "../src/core/postflight";
+import {
+  createGitHubTrackerBackend,
+  createLocalTrackerBackend,
+  getLocalTrackerDir,
+  parseGhIssueRows,
+  readTrackerBackendKind,
+  resolveTrackerBackend,
+  runTrackerIssueCommand,
+} from "../src/core/tracker-backend";
+
+describe("github tracker backend", () => {
+  it("parses gh issue rows and drops rows without a number or title", () => {
+    const rows = [
+      {
+        number: 7,
+        title: " feat: backend ",
+        state: "OPEN",
+        labels: [{ name: "module:cli" }],
+        milestone: { title: "CLI usable" },
+        updatedAt: "2026-02-16T00:00:00Z",
+        url: "https://example.test/issues/7",
+        assignees: [{ login: "alice" }],
+      },
+      { number: 0, title: "invalid" },
+      { number: 8, title: " " },
+    ];
+
+    expect(parseGhIssueRows(JSON.stringify(rows), "gh issue list")).toEqual([
+      {
+        number: 7,
+        title: "feat: backend",
+        state: "OPEN",
+        labels: ["module:cli"],
+        milestone: "CLI usable",
+        updatedAt: "2026-02-16T00:00:00Z",
+        url: "https://example.test/issues/7",
+        assignees: ["alice"],
+      },
+    ]);
+  });
+
+  it("maps edits, state changes and PR links onto gh issue commands", async () => {
+    const execaMock = vi.fn(async () => ({ stdout: "" }));
+    const backend = createGitHubTrackerBackend(execaMock as never);
+
+    await backend.editIssue(3, { addLabels: ["status:done"], removeAssignees: ["bob"], milestone: null });
+    await backend.editIssue(3, {});
+    await backend.setIssueState(3, "closed", "Done.");
+    await backend.linkPullRequest(3, 12);
+
+    expect(execaMock.mock.calls.map((call) => (call as unknown[])[1])).toEqual([
+      ["issue", "edit", "3", "--add-label", "status:done", "--remove-assignee", "bob", "--remove-milestone"],
+      ["issue", "close", "3", "--comment", "Done."],
+      ["issue", "comment", "3", "--body", "Linked PR: #12"],
+    ]);
+  });
+});
+
+describe.sequential("local tracker backend", () => {
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-tracker-backend-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const seedIssue = (issue: { number: number; title: string; labels?: string[]; milestone?: string }) => {
+    const issuesDir = path.join(getLocalTrackerDir(tempDir), "issues");
+    mkdirSync(issuesDir, { recursive: true });
+    writeFileSync(
+      path.join(issuesDir, `${issue.number}.json`),
+      JSON.stringify({
+        state: "OPEN",
+        created_at: "2026-02-15T00:00:00.000Z",
+        updated_at: "2026-02-15T00:00:00.000Z",
+        ...issue,
+      }),
+    );
+  };
+
+  it("edits, comments on and closes issues under .vibe/tracker", async () => {
+    const backend = createLocalTrackerBackend({ cwd: tempDir, now: () => new Date("2026-02-16T00:00:00Z") });
+    seedIssue({ number: 1, title: "feat: one", labels: ["module:cli"] });
+    seedIssue({ number: 2, title: "feat: two", milestone: "CLI usable" });
+
+    await backend.editIssue(1, { addLabels: ["status:in-progress", "module:cli"], addAssignees: ["alice"] });
+    await backend.addComment(1, "Started.");
+    await backend.linkPullRequest(1, 5);
+    await backend.linkPullRequest(1, 5);
+    await backend.setIssueState(2, "closed", "Duplicate.");
+
+    expect(await backend.listOpenIssues(10)).toEqual([
+      {
+        number: 1,
+        title: "feat: one",
+        state: "OPEN",
+        labels: ["module:cli", "status:in-progress"],
+        milestone: null,
+        updatedAt: "2026-02-16T00:00:00.000Z",
+        url: null,
+        assignees: ["alice"],
+      },
+    ]);
+    expect(await backend.getIssueTitle(2)).toBe("feat: two");
+    expect(await backend.getIssue(9)).toBeNull();
+
+    const stored = JSON.parse(readFileSync(path.join(getLocalTrackerDir(tempDir), "issues", "1.json"), "utf8"));
+    expect(stored.comments).toEqual([{ body: "Started.", created_at: "2026-02-16T00:00:00.000Z" }]);
+    expect(stored.linked_prs).toEqual([5]);
+    await expect(backend.addComment(9, "missing")).rejects.toThrow("local tracker: issue #9 not found");
+  });
+
+  it("lists PRs seeded for a branch", async () => {
+    const backend = createLocalTrackerBackend({ cwd: tempDir });
+    mkdirSync(getLocalTrackerDir(tempDir), { recursive: true });
+    writeFileSync(
+      path.join(getLocalTrackerDir(tempDir), "pull-requests.json"),
+      JSON.stringify([
+        { number: 4, title: "feat: one", state: "MERGED", head: "issue-1-feat-one" },
+        { number: 6, title: "other", state: "OPEN", head: "issue-3-other" },
+      ]),
+    );
+
+    expect(await backend.listBranchPullRequests("issue-1-feat-one")).toEqual([
+      { number: 4, title: "feat: one", state: "MERGED", url: null },
+    ]);
+  });
+
+  it("runs the postflight gh commands through the backend", async () => {
+    const backend = createLocalTrackerBackend({ cwd: tempDir });
+    seedIssue({ number: 1, title: "feat: one", labels: ["status:in-progress"] });
+
+    const cmds = buildTrackerCommands("1", [
+      { type: "label_remove", label: "status:in-progress" },
+      { type: "status", to: "status:done" },
+      { type: "link_pr", pr_number: 4 },
+      { type: "milestone_set", milestone: "CLI usable" },
+      { type: "issue_close", body: "Shipped." },
+    ]);
+    for (const cmd of cmds) await runTrackerIssueCommand(backend, cmd.args);
+    await runTrackerIssueCommand(backend, ["issue", "edit", "1", "--add-assignee", "alice,bob", "--remove-milestone"]);
+
+    expect(await backend.getIssue(1)).toMatchObject({
+      state: "CLOSED",
+      labels: ["status:done"],
+      milestone: null,
+      assignees: ["alice", "bob"],
+    });
+    const stored = JSON.parse(readFileSync(path.join(getLocalTrackerDir(tempDir), "issues", "1.json"), "utf8"));
+    expect(stored.linked_prs).toEqual([4]);
+    expect(stored.comments.map((comment: { body: string }) => comment.body)).toEqual(["Shipped."]);
+    await expect(
+      runTrackerIssueCommand(backend, ["project", "item-edit", "--id", "PVTI_1", "--text", "Done"]),
+    ).rejects.toThrow("tracker backend: unsupported command 'gh project item-edit");
+  });
+
+  it("selects the backend from project.source_of_truth in the contract", async () => {
+    expect(await readTrackerBackendKind(tempDir)).toBe("github");
+
+    mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
+    writeFileSync(path.join(tempDir, ".vibe", "contract.yml"), "project:\n  source_of_truth: local\n");
+    expect(await readTrackerBackendKind(tempDir)).toBe("local");
+    const backend = await resolveTrackerBackend({ execaFn: vi.fn() as never, cwd: tempDir });
+    expect(backend.kind).toBe("local");
+  });
+});
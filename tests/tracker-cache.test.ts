@@ -0,0 +1,79 @@
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  clearTrackerCache,
+  getTrackerCachePath,
+  readTrackerCache,
+  refreshTrackerCacheIfInitialized,
+  writeTrackerCache,
+} from "../src/core/tracker-cache";
+
+const ISSUE = {
+  number: 3,
+  title: "feat: offline cache",
+  state: "OPEN",
+  labels: ["module:tracker"],
+  milestone: null,
+  updatedAt: "2026-02-16T00:00:00Z",
+  url: "https://example.test/issues/3",
+  assignees: ["alice"],
+};
+
+describe.sequential("tracker cache", () => {
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-tracker-cache-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("round-trips issues with the refresh time and clears the file", async () => {
+    const cachePath = await writeTrackerCache([ISSUE], { cwd: tempDir, now: new Date("2026-02-16T10:00:00.000Z") });
+
+    expect(cachePath).toBe(path.join(tempDir, ".vibe", "runtime", "tracker-cache.json"));
+    expect(await readTrackerCache(tempDir)).toEqual({
+      version: 1,
+      refreshed_at: "2026-02-16T10:00:00.000Z",
+      issues: [ISSUE],
+    });
+
+    expect(await clearTrackerCache(tempDir)).toBe(true);
+    expect(await clearTrackerCache(tempDir)).toBe(false);
+    expect(await readTrackerCache(tempDir)).toBeNull();
+  });
+
+  it("writes atomically so concurrent refreshes never leave a truncated or temp file behind", async () => {
+    const issues = Array.from({ length: 200 }, (_, index) => ({ ...ISSUE, number: index + 1 }));
+    await Promise.all([
+      writeTrackerCache(issues, { cwd: tempDir }),
+      writeTrackerCache([ISSUE], { cwd: tempDir }),
+      writeTrackerCache(issues, { cwd: tempDir }),
+    ]);
+
+    expect(readdirSync(path.dirname(getTrackerCachePath(tempDir)))).toEqual(["tracker-cache.json"]);
+    expect((await readTrackerCache(tempDir))?.issues.length).toBeGreaterThan(0);
+  });
+
+  it("treats malformed or outdated cache files as missing", async () => {
+    mkdirSync(path.dirname(getTrackerCachePath(tempDir)), { recursive: true });
+    writeFileSync(getTrackerCachePath(tempDir), "{not json");
+    expect(await readTrackerCache(tempDir)).toBeNull();
+
+    writeFileSync(getTrackerCachePath(tempDir), JSON.stringify({ version: 0, refreshed_at: "x", issues: [] }));
+    expect(await readTrackerCache(tempDir)).toBeNull();
+  });
+
+  it("only refreshes automatically inside an initialized .vibe workspace", async () => {
+    expect(await refreshTrackerCacheIfInitialized([ISSUE], tempDir)).toBeNull();
+    expect(await readTrackerCache(tempDir)).toBeNull();
+
+    mkdirSync(path.join(tempDir, ".vibe"));
+    expect(await refreshTrackerCacheIfInitialized([ISSUE], tempDir)).toBe(getTrackerCachePath(tempDir));
+    expect((await readTrackerCache(tempDir))?.issues).toEqual([ISSUE]);
+  });
+});
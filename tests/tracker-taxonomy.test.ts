@@ -0,0 +1,142 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  compileTrackerPathGlob,
+  extractMentionedPaths,
+  loadTrackerTaxonomy,
+  parseTrackerTaxonomy,
+  planTrackerTaxonomySync,
+  TRACKER_BOOTSTRAP_LABELS,
+} from "../src/core/tracker-taxonomy";
+
+describe("tracker taxonomy", () => {
+  it("parses modules with colors, keyword weights, path globs and renames, warning about bad fields", () => {
+    const taxonomy = parseTrackerTaxonomy(
+      {
+        modules: [
+          {
+            name: "Billing",
+            color: "#d93f0b",
+            description: "Payments",
+            keywords: { checkout: 4, refund: 0 },
+            paths: ["src/billing/**"],
+            renamed_from: "module:payments",
+          },
+          "ops",
+          { name: "module:ops", color: "blue" },
+          { color: "ffffff" },
+        ],
+      },
+      "/repo/.vibe/tracker.yml",
+    );
+
+    expect(taxonomy.modules).toEqual([
+      {
+        name: "module:billing",
+        color: "D93F0B",
+        description: "Payments",
+        keywords: { checkout: 4 },
+        paths: ["src/billing/**"],
+        renamedFrom: ["module:payments"],
+      },
+      { name: "module:ops", color: "EDEDED", description: "", keywords: {}, paths: [], renamedFrom: [] },
+    ]);
+    expect(taxonomy.warnings).toEqual([
+      "module 'module:billing': keyword 'refund' needs a positive weight; ignoring it",
+      "module 'module:ops': invalid color 'blue' (expected 6 hex digits); using EDEDED",
+      "module 'module:ops' is listed twice; keeping the first entry",
+      'ignoring module {"color":"ffffff"}: expected a name',
+    ]);
+  });
+
+  it("matches path globs against paths mentioned in issue text", () => {
+    expect(compileTrackerPathGlob("src/billing/**").test("src/billing/api/refund.ts")).toBe(true);
+    expect(compileTrackerPathGlob("src/*.ts").test("src/core/tracker.ts")).toBe(false);
+    expect(compileTrackerPathGlob("**/*.md").test("README.md")).toBe(true);
+    const text = "Crash in `./src/billing/refund.ts`, see https://example.test/a/b and README.md.";
+    expect(extractMentionedPaths(text)).toEqual(["src/billing/refund.ts", "README.md"]);
+  });
+
+  it("plans creates, drift updates, renames and deletions", () => {
+    const taxonomy = parseTrackerTaxonomy(
+      {
+        modules: [
+          { name: "billing", color: "D93F0B", description: "Payments", renamed_from: ["payments"] },
+          { name: "ops", color: "0E8A16", description: "Operations" },
+          { name: "docs", color: "1D76DB", description: "Docs" },
+        ],
+      },
+      "/repo/.vibe/tracker.yml",
+    );
+
+    const plan = planTrackerTaxonomySync(taxonomy, [
+      { name: "module:payments", color: "D93F0B", description: "Payments" },
+      { name: "module:ops", color: "000000", description: "Operations" },
+      { name: "Module:CLI", color: null, description: null },
+      { name: "bug", color: "D73A4A", description: "" },
+    ]);
+
+    expect(plan).toEqual({
+      create: [{ name: "module:docs", color: "1D76DB", description: "Docs" }],
+      update: [{ name: "module:ops", color: "0E8A16", description: "Operations" }],
+      rename: [{ from: "module:payments", to: { name: "module:billing", color: "D93F0B", description: "Payments" } }],
+      delete: ["Module:CLI"],
+    });
+  });
+
+  it("only creates missing built-in labels when there is no tracker.yml", () => {
+    const plan = planTrackerTaxonomySync(
+      { taxonomyPath: "/repo/.vibe/tracker.yml", found: false, modules: [], warnings: [] },
+      [{ name: "module:legacy", color: "000000", description: "" }],
+    );
+    expect(plan).toEqual({ create: [], update: [], rename: [], delete: [] });
+  });
+
+  it("never renames or deletes labels when modules is not a list", () => {
+    const taxonomy = parseTrackerTaxonomy(
+      { modules: { billing: { color: "D93F0B" }, ops: { color: "0E8A16" } } },
+      "/repo/.vibe/tracker.yml",
+    );
+
+    const plan = planTrackerTaxonomySync(taxonomy, [
+      { name: "module:billing", color: "D93F0B", description: "Payments" },
+      { name: "module:ops", color: "0E8A16", description: "Operations" },
+    ]);
+
+    expect(taxonomy.found).toBe(false);
+    expect(taxonomy.warnings).toEqual([
+      "modules must be a list; using the built-in modules and leaving existing labels alone",
+    ]);
+    expect(plan.rename).toEqual([]);
+    expect(plan.delete).toEqual([]);
+    expect(plan.update).toEqual([]);
+  });
+});
+
+describe.sequential("loadTrackerTaxonomy", () => {
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-tracker-taxonomy-test-"));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("falls back to the built-in modules without a tracker.yml and reads it when present", async () => {
+    const missing = await loadTrackerTaxonomy(tempDir);
+    expect(missing.found).toBe(false);
+    expect(missing.modules.map((module) => module.name)).toEqual(TRACKER_BOOTSTRAP_LABELS.map((label) => label.name));
+
+    mkdirSync(path.join(tempDir, ".vibe"), { recursive: true });
+    writeFileSync(path.join(tempDir, ".vibe", "tracker.yml"), "modules:\n  - name: api\n    color: 0052CC\n");
+    const loaded = await loadTrackerTaxonomy(tempDir);
+    expect(loaded).toMatchObject({ found: true, modules: [{ name: "module:api", color: "0052CC" }], warnings: [] });
+
+    writeFileSync(path.join(tempDir, ".vibe", "tracker.yml"), "modules: [unclosed\n");
+    await expect(loadTrackerTaxonomy(tempDir)).rejects.toThrow("tracker: unable to parse");
+  });
+});
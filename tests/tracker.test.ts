@@ -13,6 +13,7 @@ import {
   shouldSuggestTrackerBootstrap,
   writeTrackerBootstrapMarker,
 } from "../src/core/tracker";
+import { parseTrackerTaxonomy } from "../src/core/tracker-taxonomy";
 
 type ApiIssueInput = {
   number: number;
@@ -25,22 +26,47 @@ type ApiIssueInput = {
 
 function apiIssue(input: ApiIssueInput): Record<string, unknown> {
   return {
+    id: `I_${input.number}`,
     number: input.number,
     title: input.title,
-    state: input.state,
-    labels: input.labels.map((name) => ({ name })),
+    state: input.state.toUpperCase(),
+    labels: { nodes: input.labels.map((name) => ({ name })) },
     milestone: input.milestone ? { title: input.milestone } : null,
     body: input.body ?? "",
   };
 }
 
+function ghFields(args: string[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  args.forEach((arg, index) => {
+    if (args[index - 1] !== "-f" && args[index - 1] !== "-F") return;
+    const separator = arg.indexOf("=");
+    fields[arg.slice(0, separator)] = arg.slice(separator + 1);
+  });
+  return fields;
+}
+
+function graphqlPage(nodes: unknown[]) {
+  return { nodes, pageInfo: { hasNextPage: false, endCursor: null } };
+}
+
+function mutationQueries(calls: Array<[string, string[]]>): string[] {
+  return calls
+    .filter(([cmd, args]) => cmd === "gh" && args[0] === "api" && args[1] === "graphql")
+    .map(([, args]) => ghFields(args).query)
+    .filter((query) => query.startsWith("mutation"));
+}
+
 function createTrackerReconcileExecaMock(data: {
   repo: string;
   labels: string[];
   milestones: string[];
   issues: Record<string, unknown>[];
+  failMutationFor?: number;
 }) {
   const calls: Array<[string, string[]]> = [];
+  const labels = [...data.labels];
+  const milestones = [...data.milestones];
 
   const execaMock = vi.fn(async (cmd: string, args: string[]) => {
     calls.push([cmd, args]);
@@ -60,41 +86,38 @@ function createTrackerReconcileExecaMock(data: {
       return { stdout: `${data.repo}\n` };
     }
 
-    if (args[0] === "api") {
-      if (args[1] === "--method" && args[2] === "POST" && args[3] === `repos/${data.repo}/milestones`) {
-        return { stdout: JSON.stringify({ title: "created" }) };
+    if (args[0] === "api" && args[1] === "graphql") {
+      const fields = ghFields(args);
+      if (fields.query.startsWith("mutation")) {
+        if (data.failMutationFor && fields.query.includes(`"I_${data.failMutationFor}"`)) {
+          throw new Error(`Could not resolve to a node with the global id of 'I_${data.failMutationFor}'`);
+        }
+        return { stdout: JSON.stringify({ data: {} }) };
       }
-      const endpoint = args[1] ?? "";
-
-      if (endpoint === `repos/${data.repo}/labels?per_page=100&page=1`) {
-        return { stdout: JSON.stringify(data.labels.map((name) => ({ name }))) };
+      expect(`${fields.owner}/${fields.name}`).toBe(data.repo);
+      const repository: Record<string, unknown> = {};
+      if (fields.labels === "true") {
+        repository.labels = graphqlPage(labels.map((name) => ({ id: `L_${name}`, name })));
       }
-      if (endpoint.startsWith(`repos/${data.repo}/labels?`) && !endpoint.endsWith("page=1")) {
-        return { stdout: "[]" };
+      if (fields.milestones === "true") {
+        repository.milestones = graphqlPage(milestones.map((title) => ({ id: `M_${title}`, title })));
       }
-
-      if (endpoint === `repos/${data.repo}/milestones?state=all&per_page=100&page=1`) {
-        return { stdout: JSON.stringify(data.milestones.map((title) => ({ title }))) };
-      }
-      if (endpoint.startsWith(`repos/${data.repo}/milestones?`) && !endpoint.endsWith("page=1")) {
-        return { stdout: "[]" };
+      if (fields.issues === "true") {
+        repository.issues = graphqlPage(data.issues);
       }
+      return { stdout: JSON.stringify({ data: { repository } }) };
+    }
 
-      if (endpoint === `repos/${data.repo}/issues?state=all&per_page=100&page=1`) {
-        return { stdout: JSON.stringify(data.issues) };
-      }
-      if (endpoint.startsWith(`repos/${data.repo}/issues?`) && !endpoint.endsWith("page=1")) {
-        return { stdout: "[]" };
+    if (args[0] === "api") {
+      if (args[1] === "--method" && args[2] === "POST" && args[3] === `repos/${data.repo}/milestones`) {
+        milestones.push(ghFields(args).title);
+        return { stdout: JSON.stringify({ title: "created" }) };
       }
-
-      throw new Error(`Unexpected gh api endpoint: ${endpoint}`);
+      throw new Error(`Unexpected gh api endpoint: ${args[1] ?? ""}`);
     }
 
     if (args[0] === "label" && args[1] === "create") {
-      return { stdout: "" };
-    }
-
-    if (args[0] === "issue" && args[1] === "edit") {
+      labels.push(args[2]);
       return { stdout: "" };
     }
 
@@ -309,7 +332,7 @@ describe.sequential("tracker reconcile core", () => {
           args[3] === "repos/acme/demo/milestones",
       ),
     ).toBe(true);
-    expect(calls.some(([cmd, args]) => cmd === "gh" && args[0] === "issue" && args[1] === "edit" && args[2] === "30")).toBe(true);
+    expect(mutationQueries(calls).some((query) => query.includes('"I_30"'))).toBe(true);
   });
 
   it("uses fallback milestone when inferred confidence is below 80%", async () => {
@@ -507,7 +530,38 @@ describe.sequential("tracker reconcile core", () => {
     expect(calls.some(([cmd, args]) => cmd === "gh" && args[0] === "label" && args[1] === "create" && args[2] === "module:platform")).toBe(
       true,
     );
-    expect(calls.some(([cmd, args]) => cmd === "gh" && args[0] === "issue" && args[1] === "edit" && args[2] === "50")).toBe(true);
+    expect(mutationQueries(calls).some((query) => query.includes('"I_50"'))).toBe(true);
+  });
+
+  it("creates missing module labels with the color and description from tracker.yml", async () => {
+    const { execaMock, calls } = createTrackerReconcileExecaMock({
+      repo: "acme/demo",
+      labels: [],
+      milestones: ["Roadmap"],
+      issues: [apiIssue({ number: 51, title: "new platform setup", state: "open", labels: [], milestone: null })],
+    });
+    const taxonomy = parseTrackerTaxonomy(
+      { modules: [{ name: "platform", color: "123ABC", description: "Platform services" }] },
+      "/repo/.vibe/tracker.yml",
+    );
+
+    const result = await runTrackerReconcile(
+      { dryRun: false, fallbackModule: "platform", fallbackMilestone: "Roadmap" },
+      { execaFn: execaMock as never, isInteractive: false, taxonomy },
+    );
+
+    const labelCreate = [
+      "label",
+      "create",
+      "module:platform",
+      "--color",
+      "123ABC",
+      "--description",
+      "Platform services",
+    ];
+    expect(result.createdLabels).toEqual(["module:platform"]);
+    expect(result.commands).toContainEqual(labelCreate);
+    expect(calls.map(([, args]) => args)).toContainEqual(labelCreate);
   });
 
   it("keeps reconcile apply-safe in non-interactive mode by generating milestones", async () => {
@@ -539,6 +593,90 @@ describe.sequential("tracker reconcile core", () => {
 
     expect(result.degradedToPlanOnly).toBe(false);
     expect(result.applied).toBe(true);
-    expect(calls.some(([cmd, args]) => cmd === "gh" && args[0] === "issue" && args[1] === "edit")).toBe(true);
+    expect(mutationQueries(calls).length > 0).toBe(true);
+  });
+
+  it("reads with one GraphQL query, batches issue mutations and reports failures per issue", async () => {
+    const { execaMock, calls } = createTrackerReconcileExecaMock({
+      repo: "acme/demo",
+      labels: ["module:ops"],
+      milestones: ["Ops"],
+      issues: [70, 71, 72].map((number) =>
+        apiIssue({ number, title: `Generic task ${number}`, state: "open", labels: [], milestone: null }),
+      ),
+      failMutationFor: 71,
+    });
+
+    const result = await runTrackerReconcile(
+      {
+        dryRun: false,
+        fallbackModule: "module:ops",
+        fallbackMilestone: "Ops",
+      },
+      {
+        execaFn: execaMock as never,
+        isInteractive: false,
+      },
+    );
+
+    const graphqlCalls = calls.filter(([, args]) => args[0] === "api" && args[1] === "graphql");
+    expect(graphqlCalls).toHaveLength(5);
+    const mutations = mutationQueries(calls);
+    expect(mutations[0]).toContain(
+      'issue70Labels: addLabelsToLabelable(input: { labelableId: "I_70", labelIds: ["L_module:ops"] })',
+    );
+    expect(mutations[0]).toContain('issue72Milestone: updateIssue(input: { id: "I_72", milestoneId: "M_Ops" })');
+    expect(mutations.slice(1).map((query) => /"(I_\d+)"/.exec(query)?.[1])).toEqual(["I_70", "I_71", "I_72"]);
+    expect(result.applied).toBe(true);
+    expect(result.failedIssueUpdates).toEqual([
+      { issueNumber: 71, error: "Could not resolve to a node with the global id of 'I_71'" },
+    ]);
+    expect(result.commands.filter((args) => args[0] === "issue" && args[1] === "edit")).toHaveLength(3);
+    expect(calls.some(([, args]) => args[0] === "issue" && args[1] === "edit")).toBe(false);
+  });
+
+  it("infers modules from tracker.yml path globs and keyword weights", async () => {
+    const { execaMock } = createTrackerReconcileExecaMock({
+      repo: "acme/demo",
+      labels: ["module:billing", "module:infra"],
+      milestones: ["Q1"],
+      issues: [
+        apiIssue({
+          number: 80,
+          title: "Broken plan output",
+          state: "open",
+          labels: [],
+          milestone: null,
+          body: "See `deploy/main.tf`",
+        }),
+        apiIssue({ number: 81, title: "Ledger totals drift", state: "open", labels: [], milestone: null }),
+      ],
+    });
+    const taxonomy = parseTrackerTaxonomy(
+      {
+        modules: [
+          { name: "billing", keywords: { ledger: 5 } },
+          { name: "infra", paths: ["deploy/**/*.tf"] },
+        ],
+      },
+      "/repo/.vibe/tracker.yml",
+    );
+
+    const result = await runTrackerReconcile(
+      {
+        dryRun: true,
+        fallbackMilestone: "Q1",
+      },
+      {
+        execaFn: execaMock as never,
+        isInteractive: false,
+        taxonomy,
+      },
+    );
+
+    expect(result.issueUpdates.map((update) => [update.issueNumber, update.addLabels, update.moduleSource])).toEqual([
+      [80, ["module:infra"], "explicit"],
+      [81, ["module:billing"], "scored"],
+    ]);
   });
 });
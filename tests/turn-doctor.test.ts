@@ -0,0 +1,122 @@
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getTurnContextPath, readTurnContext, TURN_CONTEXT_VERSION, writeTurnContext } from "../src/core/turn";
+import { parseIssueIdFromBranch, runTurnDoctor, salvageTurnContextFields } from "../src/core/turn-doctor";
+
+const TURN = {
+  issue_id: 12,
+  branch: "issue-12-doctor",
+  base_branch: "main",
+  started_at: "2026-02-13T00:00:00.000Z",
+  issue_title: "Doctor",
+};
+
+function createExecaMock(branch: string, title = "Doctor from gh") {
+  return vi.fn(async (cmd: string, args: string[]) => {
+    if (cmd === "git" && args.join(" ") === "rev-parse --abbrev-ref HEAD") return { stdout: `${branch}\n` };
+    if (cmd === "gh" && args[0] === "issue" && args[1] === "view") return { stdout: `${title}\n` };
+    throw new Error(`unexpected command: ${cmd} ${args.join(" ")}`);
+  });
+}
+
+describe.sequential("turn doctor", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-turn-doctor-test-"));
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeRawTurn(content: string): string {
+    const filePath = getTurnContextPath();
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, content, "utf8");
+    return filePath;
+  }
+
+  it("salvages fields from broken JSON and parses issue branches", () => {
+    expect(salvageTurnContextFields('{\n  "issue_id": 12,\n  "branch": "issue-12-doctor",\n  "issue_title": "Say \\"hi\\""')).toEqual({
+      issue_id: 12,
+      branch: "issue-12-doctor",
+      issue_title: 'Say "hi"',
+    });
+    expect(parseIssueIdFromBranch("issue-42-fix-login")).toBe(42);
+    expect(parseIssueIdFromBranch("main")).toBeNull();
+  });
+
+  it("reports missing and healthy files without touching them", async () => {
+    const execaMock = createExecaMock("main");
+    expect((await runTurnDoctor({ execaFn: execaMock as never })).status).toBe("missing");
+
+    await writeTurnContext(TURN);
+    const result = await runTurnDoctor({ execaFn: execaMock as never });
+    expect(result).toMatchObject({ status: "ok", problems: [], turn: TURN, backupPath: null });
+    expect(execaMock).not.toHaveBeenCalled();
+  });
+
+  it("rewrites older versions with the current version", async () => {
+    const filePath = writeRawTurn(JSON.stringify({ issue_id: 12, branch: TURN.branch, started_at: TURN.started_at }));
+
+    const result = await runTurnDoctor({ execaFn: createExecaMock("main") as never });
+    expect(result.status).toBe("migrated");
+    expect(result.problems).toEqual([`version 1 (current: ${TURN_CONTEXT_VERSION})`]);
+    expect(JSON.parse(readFileSync(filePath, "utf8")).version).toBe(TURN_CONTEXT_VERSION);
+    expect(existsSync(`${filePath}.bak`)).toBe(true);
+  });
+
+  it("repairs malformed JSON from surviving fields, git and gh", async () => {
+    const filePath = writeRawTurn('{\n  "version": 2,\n  "branch": "issue-12-doctor",\n  "base_branch": "develop",\n  "issue_');
+    utimesSync(filePath, new Date(TURN.started_at), new Date(TURN.started_at));
+    const execaMock = createExecaMock("issue-12-doctor");
+
+    const dryRun = await runTurnDoctor({ execaFn: execaMock as never, dryRun: true });
+    expect(dryRun.status).toBe("repaired");
+    expect(readFileSync(filePath, "utf8")).toContain('"issue_');
+
+    const result = await runTurnDoctor({ execaFn: execaMock as never });
+    expect(result.status).toBe("repaired");
+    expect(result.problems[0]).toMatch(/^malformed JSON/);
+    expect(result.sources).toEqual(["issue_id: git", "issue_title: gh", "started_at: file mtime"]);
+    expect(await readTurnContext()).toEqual({
+      state: "active",
+      turn: {
+        issue_id: 12,
+        branch: "issue-12-doctor",
+        base_branch: "develop",
+        started_at: TURN.started_at,
+        issue_title: "Doctor from gh",
+      },
+    });
+    expect(readFileSync(`${filePath}.bak`, "utf8")).toContain('"issue_');
+  });
+
+  it("takes the branch from git when the file lost it", async () => {
+    writeRawTurn(JSON.stringify({ version: 2, issue_id: 12, branch: "", base_branch: "main", started_at: TURN.started_at, issue_title: "Doctor" }));
+
+    const result = await runTurnDoctor({ execaFn: createExecaMock("issue-12-doctor") as never });
+    expect(result.status).toBe("repaired");
+    expect(result.problems).toEqual(["missing/invalid: branch"]);
+    expect(result.sources).toEqual(["branch: git"]);
+    expect(await readTurnContext()).toMatchObject({ state: "active", turn: { branch: "issue-12-doctor" } });
+  });
+
+  it("gives up when neither the file nor git identify the issue", async () => {
+    const filePath = writeRawTurn("{ not json");
+
+    const result = await runTurnDoctor({ execaFn: createExecaMock("main") as never });
+    expect(result.status).toBe("unrepairable");
+    expect(readFileSync(filePath, "utf8")).toBe("{ not json");
+  });
+});
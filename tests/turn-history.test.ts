@@ -0,0 +1,117 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import {
+  appendTurnLedgerEvent,
+  buildTurnEndEvent,
+  buildTurnHistory,
+  buildTurnStartEvent,
+  filterTurnHistory,
+  formatTurnDuration,
+  getTurnLedgerPath,
+  readTurnLedger,
+  resolveTurnLedgerRoot,
+  type TurnLedgerEvent,
+} from "../src/core/turn-history";
+
+const TURN = {
+  issue_id: 12,
+  branch: "issue-12-history",
+  base_branch: "main",
+  started_at: "2026-02-13T10:00:00.000Z",
+  issue_title: "History",
+};
+
+function review(at: string, attempts: number, prNumber: number | null = 40): TurnLedgerEvent {
+  return { version: 1, event: "review", at, issue_id: 12, branch: TURN.branch, pr_number: prNumber, attempts };
+}
+
+describe.sequential("turn history ledger", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-turn-history-test-"));
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps the ledger of linked worktrees in the main checkout", () => {
+    const mainRoot = path.join(tempDir, "app");
+    const worktreeRoot = path.join(tempDir, "app-worktrees", TURN.branch);
+    mkdirSync(path.join(mainRoot, ".git"), { recursive: true });
+    mkdirSync(path.join(worktreeRoot, "src"), { recursive: true });
+    writeFileSync(path.join(worktreeRoot, ".git"), `gitdir: ${mainRoot}/.git/worktrees/${TURN.branch}\n`, "utf8");
+
+    expect(resolveTurnLedgerRoot(path.join(worktreeRoot, "src"))).toBe(mainRoot);
+    expect(resolveTurnLedgerRoot(mainRoot)).toBe(mainRoot);
+
+    process.chdir(path.join(worktreeRoot, "src"));
+    expect(getTurnLedgerPath()).toBe(path.join(mainRoot, ".vibe", "runtime", "turns.jsonl"));
+  });
+
+  it("appends events and skips malformed lines when reading", async () => {
+    const options = { workspaceRoot: tempDir };
+    const filePath = await appendTurnLedgerEvent(buildTurnStartEvent(TURN), options);
+    writeFileSync(filePath, `${readFileSync(filePath, "utf8")}{"event":"start"\nnot json\n`, "utf8");
+    await appendTurnLedgerEvent(review("2026-02-13T11:00:00.000Z", 2), options);
+
+    const events = await readTurnLedger(options);
+    expect(events.map((event) => event.event)).toEqual(["start", "review"]);
+    expect(await readTurnLedger({ workspaceRoot: path.join(tempDir, "missing") })).toEqual([]);
+  });
+
+  it("computes duration, PR and review attempts for the end event", () => {
+    const events: TurnLedgerEvent[] = [
+      review("2026-02-12T09:00:00.000Z", 9),
+      buildTurnStartEvent(TURN),
+      review("2026-02-13T11:00:00.000Z", 2, null),
+      review("2026-02-13T12:00:00.000Z", 1, 41),
+    ];
+
+    const end = buildTurnEndEvent({ turn: TURN, events, outcome: "merged", endedAt: "2026-02-13T12:30:00.000Z" });
+    expect(end).toMatchObject({
+      duration_ms: 2.5 * 60 * 60 * 1000,
+      pr_number: 41,
+      review_attempts: 3,
+      outcome: "merged",
+    });
+    expect(buildTurnEndEvent({ turn: TURN, events, outcome: "handed-off", prNumber: 7 }).pr_number).toBe(7);
+  });
+
+  it("pairs starts with ends and filters the history", () => {
+    const second = { ...TURN, issue_id: 13, branch: "issue-13-next", started_at: "2026-02-14T08:00:00.000Z" };
+    const events: TurnLedgerEvent[] = [
+      buildTurnStartEvent(TURN),
+      review("2026-02-13T11:00:00.000Z", 2),
+      buildTurnEndEvent({ turn: TURN, events: [], outcome: "abandoned", endedAt: "2026-02-13T11:30:00.000Z" }),
+      buildTurnStartEvent(second, "/tmp/app-worktrees/issue-13-next"),
+    ];
+
+    const history = buildTurnHistory(events);
+    expect(history).toHaveLength(2);
+    expect(history[0]).toMatchObject({ issue_id: 12, outcome: "abandoned", duration_ms: 90 * 60 * 1000, issue_title: "History" });
+    expect(history[1]).toMatchObject({ issue_id: 13, outcome: null, ended_at: null, worktree: "/tmp/app-worktrees/issue-13-next" });
+
+    expect(filterTurnHistory(history, { outcome: "active" }).map((record) => record.issue_id)).toEqual([13]);
+    expect(filterTurnHistory(history, { outcome: "abandoned" }).map((record) => record.issue_id)).toEqual([12]);
+    expect(filterTurnHistory(history, { issueId: 13 })).toHaveLength(1);
+    expect(filterTurnHistory(history, { since: "2026-02-14T00:00:00.000Z" }).map((record) => record.issue_id)).toEqual([13]);
+  });
+
+  it("formats durations compactly", () => {
+    expect(formatTurnDuration(null)).toBe("-");
+    expect(formatTurnDuration(30_000)).toBe("<1m");
+    expect(formatTurnDuration(45 * 60_000)).toBe("45m");
+    expect(formatTurnDuration(125 * 60_000)).toBe("2h 5m");
+    expect(formatTurnDuration(26 * 60 * 60_000)).toBe("1d 2h");
+  });
+});
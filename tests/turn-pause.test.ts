@@ -0,0 +1,161 @@
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { getTurnContextPath, readTurnContext, writeTurnContext } from "../src/core/turn";
+import { getPausedTurnPath, listPausedTurns, pauseTurn, readPausedTurn, resumeTurn } from "../src/core/turn-pause";
+
+const TURN = {
+  issue_id: 12,
+  branch: "issue-12-pause",
+  base_branch: "main",
+  started_at: "2026-02-13T00:00:00.000Z",
+  issue_title: "Pause",
+};
+
+type GitState = {
+  branch: string;
+  dirty: boolean;
+  heads: Record<string, string>;
+  stashes: Array<{ sha: string; message: string }>;
+};
+
+function createGitMock(state: GitState) {
+  return vi.fn(async (cmd: string, args: string[]) => {
+    if (cmd !== "git") throw new Error(`unexpected command: ${cmd} ${args.join(" ")}`);
+    const joined = args.join(" ");
+    if (joined === "rev-parse --abbrev-ref HEAD") return { stdout: `${state.branch}\n` };
+    if (joined === "rev-parse HEAD") return { stdout: `${state.heads[state.branch]}\n` };
+    if (joined === "rev-parse stash@{0}") return { stdout: `${state.stashes[0]?.sha}\n` };
+    if (args[0] === "rev-parse" && args[1] === "--verify") {
+      const head = state.heads[args[3]?.replace("refs/heads/", "") ?? ""];
+      return head ? { stdout: `${head}\n`, exitCode: 0 } : { stdout: "", exitCode: 1 };
+    }
+    if (joined === "status --porcelain") return { stdout: state.dirty ? " M src/app.ts\n" : "" };
+    if (args[0] === "stash" && args[1] === "push") {
+      state.stashes.unshift({ sha: `stash${state.stashes.length}sha`, message: args[args.length - 1] ?? "" });
+      state.dirty = false;
+      return { stdout: "" };
+    }
+    if (args[0] === "stash" && args[1] === "list") {
+      return { stdout: state.stashes.map((entry, index) => `${entry.sha} stash@{${index}}`).join("\n") };
+    }
+    if (args[0] === "stash" && args[1] === "pop") {
+      const index = Number(/stash@\{(\d+)\}/.exec(args[2] ?? "")?.[1]);
+      state.stashes.splice(index, 1);
+      state.dirty = true;
+      return { stdout: "" };
+    }
+    if (args[0] === "checkout") {
+      state.branch = args[1] ?? state.branch;
+      return { stdout: "" };
+    }
+    throw new Error(`unexpected command: ${cmd} ${joined}`);
+  });
+}
+
+describe.sequential("turn pause/resume", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-turn-pause-test-"));
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("stashes work under the issue id and restores branch, stash and turn.json", async () => {
+    const state: GitState = {
+      branch: TURN.branch,
+      dirty: true,
+      heads: { main: "aaa111", [TURN.branch]: "bbb222" },
+      stashes: [],
+    };
+    const execaMock = createGitMock(state);
+    await writeTurnContext(TURN);
+
+    const paused = await pauseTurn({ execaFn: execaMock as never });
+    expect(paused.paused).toMatchObject({ head: "bbb222", stash: { sha: "stash0sha", message: "vibe-turn #12 issue-12-pause" } });
+    expect(existsSync(getTurnContextPath())).toBe(false);
+    expect((await readPausedTurn(12))?.paused?.stash?.sha).toBe("stash0sha");
+    expect((await listPausedTurns()).map((entry) => entry.issue_id)).toEqual([12]);
+
+    // Urgent work elsewhere pushes a newer stash on top.
+    state.branch = "main";
+    state.stashes.unshift({ sha: "urgentsha", message: "urgent" });
+
+    const resumed = await resumeTurn({ execaFn: execaMock as never, issueId: 12 });
+    expect(resumed.stashRestored).toBe(true);
+    expect(state.branch).toBe(TURN.branch);
+    expect(state.stashes.map((entry) => entry.sha)).toEqual(["urgentsha"]);
+    expect(execaMock.mock.calls.some(([, args]) => args.join(" ") === "stash pop stash@{1}")).toBe(true);
+    expect(await readTurnContext()).toEqual({ state: "active", turn: TURN });
+    expect(existsSync(getPausedTurnPath(12))).toBe(false);
+  });
+
+  it("skips the stash when the working tree is clean", async () => {
+    const state: GitState = { branch: TURN.branch, dirty: false, heads: { [TURN.branch]: "bbb222" }, stashes: [] };
+    const execaMock = createGitMock(state);
+    await writeTurnContext(TURN);
+
+    expect((await pauseTurn({ execaFn: execaMock as never })).paused.stash).toBeNull();
+    const resumed = await resumeTurn({ execaFn: execaMock as never, issueId: 12 });
+    expect(resumed.stashRestored).toBe(false);
+    expect(execaMock.mock.calls.some(([, args]) => args[0] === "stash")).toBe(false);
+  });
+
+  it("refuses to pause when the current branch is not the turn branch", async () => {
+    const execaMock = createGitMock({ branch: "main", dirty: true, heads: { main: "aaa111" }, stashes: [] });
+    await writeTurnContext(TURN);
+
+    await expect(pauseTurn({ execaFn: execaMock as never })).rejects.toThrow(
+      "current branch 'main' does not match turn branch 'issue-12-pause'",
+    );
+    expect(await readTurnContext()).toEqual({ state: "active", turn: TURN });
+    await expect(pauseTurn({ execaFn: execaMock as never, options: { workspaceRoot: path.join(tempDir, "empty") } })).rejects.toThrow(
+      "no active turn",
+    );
+  });
+
+  it("refuses to resume when the recorded state no longer matches", async () => {
+    const state: GitState = {
+      branch: TURN.branch,
+      dirty: true,
+      heads: { main: "aaa111", [TURN.branch]: "bbb222" },
+      stashes: [],
+    };
+    const execaMock = createGitMock(state);
+    await writeTurnContext(TURN);
+    await pauseTurn({ execaFn: execaMock as never });
+    state.branch = "main";
+
+    await expect(resumeTurn({ execaFn: execaMock as never, issueId: 99 })).rejects.toThrow("no paused turn for issue #99");
+
+    await writeTurnContext({ ...TURN, issue_id: 13, branch: "issue-13-urgent" });
+    await expect(resumeTurn({ execaFn: execaMock as never, issueId: 12 })).rejects.toThrow("turn for issue #13 is active");
+    rmSync(getTurnContextPath());
+
+    state.dirty = true;
+    await expect(resumeTurn({ execaFn: execaMock as never, issueId: 12 })).rejects.toThrow("working tree is not clean");
+    state.dirty = false;
+
+    state.heads[TURN.branch] = "ccc333";
+    await expect(resumeTurn({ execaFn: execaMock as never, issueId: 12 })).rejects.toThrow("moved since the pause");
+    state.heads[TURN.branch] = "bbb222";
+
+    state.stashes = [];
+    await expect(resumeTurn({ execaFn: execaMock as never, issueId: 12 })).rejects.toThrow("stash 'vibe-turn #12 issue-12-pause'");
+
+    expect(state.branch).toBe("main");
+    expect(await readTurnContext()).toEqual({ state: "none" });
+    expect(await readPausedTurn(12)).not.toBeNull();
+  });
+});
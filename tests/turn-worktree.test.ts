@@ -0,0 +1,114 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { readTurnContext, resolveTurnWorkspaceRoot, writeTurnContext } from "../src/core/turn";
+import {
+  buildTurnWorktreePath,
+  ensureTurnWorktree,
+  listWorktreeTurns,
+  parseGitWorktreeList,
+} from "../src/core/turn-worktree";
+
+const TURN = {
+  issue_id: 12,
+  branch: "issue-12-worktrees",
+  base_branch: "main",
+  started_at: "2026-02-13T00:00:00.000Z",
+  issue_title: "Worktrees",
+};
+
+describe.sequential("turn worktrees", () => {
+  const originalCwd = process.cwd();
+  let tempDir = "";
+  let mainRoot = "";
+  let worktreeRoot = "";
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), "vibe-turn-worktree-test-"));
+    mainRoot = path.join(tempDir, "app");
+    worktreeRoot = path.join(tempDir, "app-worktrees", TURN.branch);
+    mkdirSync(path.join(mainRoot, ".git"), { recursive: true });
+    mkdirSync(path.join(worktreeRoot, "src"), { recursive: true });
+    writeFileSync(path.join(worktreeRoot, ".git"), `gitdir: ${mainRoot}/.git/worktrees/${TURN.branch}\n`, "utf8");
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    if (tempDir) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  function worktreeListOutput(): string {
+    return [
+      `worktree ${mainRoot}`,
+      "HEAD 0f00baa",
+      "branch refs/heads/main",
+      "",
+      `worktree ${worktreeRoot}`,
+      "HEAD 1a2b3c4",
+      `branch refs/heads/${TURN.branch}`,
+      "",
+    ].join("\n");
+  }
+
+  it("parses porcelain worktree output", () => {
+    expect(parseGitWorktreeList(`${worktreeListOutput()}worktree /srv/bare\nbare\n`)).toEqual([
+      { path: mainRoot, head: "0f00baa", branch: "main", bare: false },
+      { path: worktreeRoot, head: "1a2b3c4", branch: TURN.branch, bare: false },
+      { path: "/srv/bare", head: null, branch: null, bare: true },
+    ]);
+  });
+
+  it("resolves the turn context of the enclosing worktree from nested directories", async () => {
+    await writeTurnContext(TURN, { workspaceRoot: worktreeRoot });
+
+    process.chdir(path.join(worktreeRoot, "src"));
+    expect(resolveTurnWorkspaceRoot()).toBe(path.dirname(process.cwd()));
+    expect(await readTurnContext()).toEqual({ state: "active", turn: TURN });
+
+    process.chdir(mainRoot);
+    expect(await readTurnContext()).toEqual({ state: "none" });
+  });
+
+  it("lists turns per worktree and marks the current one", async () => {
+    await writeTurnContext(TURN, { workspaceRoot: worktreeRoot });
+    await writeTurnContext({ ...TURN, issue_id: 3, branch: "issue-3-main" }, { workspaceRoot: mainRoot });
+    const execaMock = vi.fn(async () => ({ stdout: worktreeListOutput() }));
+
+    const turns = await listWorktreeTurns(execaMock as never, path.join(worktreeRoot, "src"));
+
+    expect(turns.map((entry) => [entry.turn?.issue_id, entry.branch, entry.current])).toEqual([
+      [3, "main", false],
+      [12, TURN.branch, true],
+    ]);
+  });
+
+  it("creates a sibling worktree with a new branch, or reuses an existing one", async () => {
+    const calls: string[][] = [];
+    const execaMock = vi.fn(async (_cmd: string, args: string[]) => {
+      calls.push(args);
+      if (args[0] === "worktree" && args[1] === "list") {
+        return { stdout: `worktree ${mainRoot}\nHEAD 0f00baa\nbranch refs/heads/main\n` };
+      }
+      if (args[0] === "show-ref") return { stdout: "", exitCode: 1 };
+      return { stdout: "" };
+    });
+
+    const created = await ensureTurnWorktree({ execaFn: execaMock as never, branch: "issue-7-cache" });
+    const expectedPath = buildTurnWorktreePath(mainRoot, "issue-7-cache");
+    expect(expectedPath).toBe(path.join(tempDir, "app-worktrees", "issue-7-cache"));
+    expect(created).toEqual({ path: expectedPath, created: true });
+    expect(calls).toContainEqual(["worktree", "add", "-b", "issue-7-cache", expectedPath]);
+
+    const reuseMock = vi.fn(async () => ({ stdout: worktreeListOutput() }));
+    expect(await ensureTurnWorktree({ execaFn: reuseMock as never, branch: TURN.branch })).toEqual({
+      path: worktreeRoot,
+      created: false,
+    });
+    expect(reuseMock).toHaveBeenCalledTimes(1);
+  });
+});
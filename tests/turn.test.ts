@@ -1,4 +1,4 @@
-import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
 import os from "node:os";
 import path from "node:path";
 
@@ -8,8 +8,10 @@ import {
   buildTurnBranch,
   clearTurnContext,
   getTurnContextPath,
+  parseTurnContextFile,
   readTurnContext,
   slugifyTurnText,
+  TURN_CONTEXT_VERSION,
   validateTurnContext,
   writeTurnContext,
 } from "../src/core/turn";
@@ -45,14 +47,15 @@ describe.sequential("turn context", () => {
 
     const persisted = readFileSync(filePath, "utf8");
     expect(persisted).toContain('"issue_id": 2');
+    expect(JSON.parse(persisted).version).toBe(TURN_CONTEXT_VERSION);
 
     const loaded = await readTurnContext();
-    expect(loaded).toEqual(payload);
+    expect(loaded).toEqual({ state: "active", turn: payload });
   });
 
-  it("returns null when no active turn exists", async () => {
+  it("reports none when no active turn exists", async () => {
     const turn = await readTurnContext();
-    expect(turn).toBeNull();
+    expect(turn).toEqual({ state: "none" });
   });
 
   it("clears turn context file", async () => {
@@ -65,7 +68,7 @@ describe.sequential("turn context", () => {
     });
 
     expect(await clearTurnContext()).toBe(true);
-    expect(await readTurnContext()).toBeNull();
+    expect(await readTurnContext()).toEqual({ state: "none" });
     expect(await clearTurnContext()).toBe(false);
   });
 
@@ -92,4 +95,42 @@ describe.sequential("turn context", () => {
       }),
     ).toEqual(["issue_id", "branch", "base_branch"]);
   });
+
+  it("migrates unversioned turn.json files on read", async () => {
+    const filePath = getTurnContextPath();
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify({ issue_id: "7", branch: "issue-7-legacy" }), "utf8");
+    utimesSync(filePath, new Date("2026-01-02T03:04:05.000Z"), new Date("2026-01-02T03:04:05.000Z"));
+
+    expect(await readTurnContext()).toEqual({
+      state: "active",
+      turn: {
+        issue_id: 7,
+        branch: "issue-7-legacy",
+        base_branch: "main",
+        started_at: "2026-01-02T03:04:05.000Z",
+        issue_title: "issue-7",
+      },
+    });
+  });
+
+  it("reports a turn.json that fails the schema as invalid instead of returning its fields", async () => {
+    const filePath = getTurnContextPath();
+    mkdirSync(path.dirname(filePath), { recursive: true });
+    writeFileSync(filePath, JSON.stringify({ version: TURN_CONTEXT_VERSION, issue_id: 3, branch: "" }), "utf8");
+
+    expect(await readTurnContext()).toEqual({
+      state: "invalid",
+      errors: ["branch", "base_branch", "started_at", "issue_title"],
+    });
+  });
+
+  it("reports invalid fields and rejects newer versions", () => {
+    const invalid = parseTurnContextFile({ version: 2, issue_id: 3, branch: "", base_branch: "main", started_at: "x", issue_title: "" });
+    expect(invalid.turn).toBeNull();
+    expect(invalid.errors).toEqual(["branch"]);
+
+    expect(parseTurnContextFile(["not", "an", "object"]).errors).toEqual(["turn"]);
+    expect(() => parseTurnContextFile({ version: TURN_CONTEXT_VERSION + 1 })).toThrow("newer than supported version");
+  });
 });